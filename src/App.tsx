@@ -13,8 +13,12 @@ import { Notepad } from './pages/Notepad';
 import { Meetings } from './pages/Meetings';
 import { Chat } from './pages/Chat';
 import { Kanban } from './pages/Kanban';
+import { Timeline } from './pages/Timeline';
+import { SprintReport } from './pages/SprintReport';
 import { Expenses } from './pages/Expenses';
+import { ExpenseReports } from './pages/ExpenseReports';
 import { GlobalSearch } from './components/GlobalSearch';
+import { BackgroundSync } from './components/BackgroundSync';
 import { useAuthStore } from './store/authStore';
 import './index.css';
 
@@ -38,7 +42,7 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 }
 
 function App() {
-  const { checkAuth } = useAuthStore();
+  const { checkAuth, isAuthenticated } = useAuthStore();
 
   useEffect(() => {
     checkAuth();
@@ -53,6 +57,9 @@ function App() {
     >
       {/* Búsqueda Global - Ctrl+K */}
       <GlobalSearch />
+
+      {/* Realtime, recordatorios y cola offline mientras haya sesión */}
+      {isAuthenticated && <BackgroundSync />}
       
       <Routes>
         {/* Public Routes */}
@@ -65,12 +72,15 @@ function App() {
         <Route path="/notes/new" element={<ProtectedRoute><NoteEditor /></ProtectedRoute>} />
         <Route path="/notes/:id" element={<ProtectedRoute><NoteEditor /></ProtectedRoute>} />
         <Route path="/kanban" element={<ProtectedRoute><Kanban /></ProtectedRoute>} />
+        <Route path="/sprints" element={<ProtectedRoute><SprintReport /></ProtectedRoute>} />
+        <Route path="/timeline" element={<ProtectedRoute><Timeline /></ProtectedRoute>} />
         <Route path="/team" element={<ProtectedRoute><Team /></ProtectedRoute>} />
         <Route path="/calendar" element={<ProtectedRoute><Calendar /></ProtectedRoute>} />
         <Route path="/notepad" element={<ProtectedRoute><Notepad /></ProtectedRoute>} />
         <Route path="/meetings" element={<ProtectedRoute><Meetings /></ProtectedRoute>} />
         <Route path="/chat" element={<ProtectedRoute><Chat /></ProtectedRoute>} />
         <Route path="/expenses" element={<ProtectedRoute><Expenses /></ProtectedRoute>} />
+        <Route path="/expenses/reports" element={<ProtectedRoute><ExpenseReports /></ProtectedRoute>} />
         <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
 
         {/* Default redirect */}
@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { History, FileText, Target, DollarSign, Video, ArrowRight } from 'lucide-react';
+import { useActivityStore, ActivityFilter } from '../store/activityStore';
+import { useTeamStore } from '../store/teamStore';
+import { useAuthStore } from '../store/authStore';
+import { Activity, ActivityEntityType } from '../lib/supabase';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface ActivityTimelineProps {
+  // Si se indica, el historial se limita a una sola entidad (ej. una nota)
+  entityType?: ActivityEntityType;
+  entityId?: string;
+  showFilters?: boolean;
+  limit?: number;
+}
+
+const entityConfig: Record<ActivityEntityType, { label: string; icon: typeof FileText; color: string }> = {
+  note: { label: 'Notas', icon: FileText, color: 'bg-blue-500/20 text-blue-400' },
+  sprint: { label: 'Sprints', icon: Target, color: 'bg-purple-500/20 text-purple-400' },
+  expense: { label: 'Gastos', icon: DollarSign, color: 'bg-green-500/20 text-green-400' },
+  meeting: { label: 'Reuniones', icon: Video, color: 'bg-teal-500/20 text-teal-400' },
+};
+
+const actionLabels: Record<Activity['action'], string> = {
+  created: 'Creación',
+  updated: 'Modificación',
+  deleted: 'Eliminación',
+};
+
+// Filas sin descripción (la columna admite null)
+const fallbackDescriptions: Record<Activity['action'], string> = {
+  created: 'creó un elemento',
+  updated: 'modificó un elemento',
+  deleted: 'eliminó un elemento',
+};
+
+const fieldLabels: Record<string, string> = {
+  title: 'Título',
+  content: 'Contenido',
+  type: 'Tipo',
+  status: 'Estado',
+  priority: 'Prioridad',
+  project: 'Proyecto',
+  assigned_to: 'Asignado a',
+  due_date: 'Vencimiento',
+  start_date: 'Inicio',
+  estimated_hours: 'Horas estimadas',
+  sprint_id: 'Sprint',
+  parent_id: 'Tarea padre',
+  tags: 'Etiquetas',
+  name: 'Nombre',
+  goal: 'Objetivo',
+  end_date: 'Fin',
+  description: 'Descripción',
+  amount: 'Monto',
+  currency: 'Moneda',
+  category_id: 'Categoría',
+  vendor: 'Proveedor',
+  expense_date: 'Fecha',
+  approved_by: 'Revisado por',
+  approved_at: 'Aprobado el',
+  rejected_at: 'Rechazado el',
+  rejection_reason: 'Motivo del rechazo',
+  paid_by: 'Pagado por',
+  paid_at: 'Pagado el',
+  receipt_url: 'Comprobante',
+  scheduled_at: 'Fecha y hora',
+  duration_minutes: 'Duración (min)',
+};
+
+const valueLabels: Record<string, string> = {
+  pending: 'Pendiente',
+  in_progress: 'En progreso',
+  completed: 'Completado',
+  cancelled: 'Cancelado',
+  low: 'Baja',
+  medium: 'Media',
+  high: 'Alta',
+  urgent: 'Urgente',
+  planning: 'Planificación',
+  active: 'Activo',
+  approved: 'Aprobado',
+  rejected: 'Rechazado',
+  paid: 'Pagado',
+  scheduled: 'Programada',
+};
+
+export function ActivityTimeline({ entityType, entityId, showFilters = false, limit = 50 }: ActivityTimelineProps) {
+  const navigate = useNavigate();
+  const { activities, isLoading, fetchActivities } = useActivityStore();
+  const { members, fetchMembers } = useTeamStore();
+  const { isDemoMode } = useAuthStore();
+  const [filter, setFilter] = useState<ActivityFilter>({});
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  useEffect(() => {
+    fetchActivities({ ...filter, entityType: entityType || filter.entityType, entityId }, limit);
+  }, [filter, entityType, entityId, limit, fetchActivities]);
+
+  const memberName = (userId: unknown) =>
+    members.find(m => m.id === userId)?.full_name || 'Sin asignar';
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'assigned_to' || field === 'approved_by' || field === 'paid_by') return memberName(value);
+    if (Array.isArray(value)) return value.join(', ') || '—';
+    if (typeof value === 'string' && valueLabels[value]) return valueLabels[value];
+    if (field === 'receipt_url') return 'Adjunto';
+    if (['scheduled_at', 'approved_at', 'rejected_at', 'paid_at'].includes(field) && typeof value === 'string') {
+      return format(parseISO(value), "d MMM yyyy, HH:mm", { locale: es });
+    }
+    if (field === 'content' && typeof value === 'string' && value.length > 40) {
+      return `${value.slice(0, 40)}…`;
+    }
+    return String(value);
+  };
+
+  const openEntity = (activity: Activity) => {
+    if (activity.action === 'deleted') return;
+    if (activity.entity_type === 'note') navigate(`/notes/${activity.entity_id}`);
+    if (activity.entity_type === 'expense') navigate('/expenses');
+    if (activity.entity_type === 'meeting') navigate('/meetings');
+  };
+
+  return (
+    <div>
+      {showFilters && (
+        <div className="flex flex-wrap gap-3 mb-4">
+          {!entityType && (
+            <select
+              value={filter.entityType || ''}
+              onChange={(e) => setFilter({ ...filter, entityType: (e.target.value || null) as ActivityEntityType | null })}
+              className="bg-[#11111b] border border-gray-700 rounded-lg py-1.5 px-3 text-sm text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value="">Todo</option>
+              {Object.entries(entityConfig).map(([value, config]) => (
+                <option key={value} value={value}>{config.label}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={filter.action || ''}
+            onChange={(e) => setFilter({ ...filter, action: (e.target.value || null) as Activity['action'] | null })}
+            className="bg-[#11111b] border border-gray-700 rounded-lg py-1.5 px-3 text-sm text-white focus:outline-none focus:border-blue-500"
+          >
+            <option value="">Cualquier acción</option>
+            {Object.entries(actionLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={filter.userId || ''}
+            onChange={(e) => setFilter({ ...filter, userId: e.target.value || null })}
+            className="bg-[#11111b] border border-gray-700 rounded-lg py-1.5 px-3 text-sm text-white focus:outline-none focus:border-blue-500"
+          >
+            <option value="">Todo el equipo</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>{member.full_name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-8 h-8 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+        </div>
+      ) : activities.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <History size={40} className="mx-auto mb-3 opacity-50" />
+          <p>{isDemoMode ? 'El historial solo está disponible con Supabase configurado' : 'No hay actividad registrada'}</p>
+        </div>
+      ) : (
+        <div className="relative">
+          <div className="absolute left-4 top-0 bottom-0 w-px bg-gray-700" />
+          <div className="space-y-4">
+            {activities.map((activity) => {
+              const config = entityConfig[activity.entity_type] || entityConfig.note;
+              const Icon = config.icon;
+              const changes = activity.action === 'updated' ? Object.entries(activity.changes || {}) : [];
+              return (
+                <div key={activity.id} className="relative flex gap-4">
+                  <div className={`relative z-10 w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${config.color}`}>
+                    <Icon size={14} />
+                  </div>
+                  <div className="flex-1 min-w-0 pb-1">
+                    <p
+                      onClick={() => openEntity(activity)}
+                      className={`text-sm text-gray-300 ${activity.action !== 'deleted' ? 'cursor-pointer hover:text-white' : ''}`}
+                    >
+                      <span className="font-medium text-white">{activity.user?.full_name || 'Usuario'}</span>
+                      {' '}
+                      {activity.description
+                        ? activity.description.charAt(0).toLowerCase() + activity.description.slice(1)
+                        : fallbackDescriptions[activity.action]}
+                    </p>
+                    {changes.length > 0 && (
+                      <div className="mt-1 space-y-0.5">
+                        {changes.map(([field, change]) => (
+                          <p key={field} className="text-xs text-gray-500 flex items-center gap-1.5 flex-wrap">
+                            <span className="text-gray-400">{fieldLabels[field] || field}:</span>
+                            <span className="line-through">{formatValue(field, change.old)}</span>
+                            <ArrowRight size={12} />
+                            <span className="text-gray-300">{formatValue(field, change.new)}</span>
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-600 mt-1">
+                      {format(parseISO(activity.created_at), "d MMM yyyy, HH:mm", { locale: es })}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { useNotesStore } from '../store/notesStore';
+import { useSprintStore } from '../store/sprintStore';
+import { useMeetingsStore } from '../store/meetingsStore';
+import { useRealtimeStore } from '../store/realtimeStore';
+import { usePersonalNotesStore } from '../store/personalNotesStore';
+
+// Suscripciones y tareas de fondo de la sesión. Se monta una sola vez sobre
+// las rutas: Layout se vuelve a montar en cada navegación y los canales de
+// Realtime que se cierran y reabren con el mismo nombre quedan sin suscribir.
+export function BackgroundSync() {
+  const subscribeToNotes = useNotesStore((state) => state.subscribeToNotes);
+  const subscribeToSprints = useSprintStore((state) => state.subscribeToSprints);
+  const subscribeToMeetings = useMeetingsStore((state) => state.subscribeToMeetings);
+  const sendMeetingReminders = useMeetingsStore((state) => state.sendMeetingReminders);
+  const setOnline = useRealtimeStore((state) => state.setOnline);
+  const flushNotesOutbox = useNotesStore((state) => state.flushOutbox);
+  const flushPersonalOutbox = usePersonalNotesStore((state) => state.flushOutbox);
+
+  // Sincronización en tiempo real de los datos compartidos por el equipo
+  useEffect(() => {
+    const unsubscribers = [subscribeToNotes(), subscribeToSprints(), subscribeToMeetings()];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [subscribeToNotes, subscribeToSprints, subscribeToMeetings]);
+
+  // Avisos de reuniones próximas (respaldo si la base no tiene pg_cron)
+  useEffect(() => {
+    sendMeetingReminders();
+    const interval = setInterval(sendMeetingReminders, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [sendMeetingReminders]);
+
+  // Detectar caídas de red y enviar los cambios encolados al reconectar
+  useEffect(() => {
+    const flushOutbox = async () => {
+      await flushNotesOutbox();
+      await flushPersonalOutbox();
+    };
+    flushOutbox();
+
+    const handleOnline = () => {
+      setOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [setOnline, flushNotesOutbox, flushPersonalOutbox]);
+
+  return null;
+}
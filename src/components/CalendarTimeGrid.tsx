@@ -0,0 +1,188 @@
+import { useEffect, useRef } from 'react';
+import { format, isToday } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { CalendarEvent, getEventsForDay } from '../lib/calendar';
+
+const HOUR_HEIGHT = 48;
+const SNAP_MINUTES = 15;
+const hours = Array.from({ length: 24 }, (_, i) => i);
+
+interface CalendarTimeGridProps {
+  days: Date[];
+  events: CalendarEvent[];
+  eventColor: (event: CalendarEvent) => string;
+  canDrag: (event: CalendarEvent) => boolean;
+  onEventClick: (event: CalendarEvent) => void;
+  onDayClick: (day: Date) => void;
+  onDragStart: (event: CalendarEvent) => void;
+  onDragEnd: () => void;
+  // minutes: minuto del día donde se soltó; sin él, la fila de día completo
+  onDrop: (day: Date, minutes?: number) => void;
+}
+
+// Reparte en columnas las reuniones que se solapan dentro del mismo día
+function layoutTimedEvents(events: CalendarEvent[]) {
+  const laneEnds: Date[] = [];
+  const placed = events.map((event) => {
+    let lane = laneEnds.findIndex(end => end <= event.start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = event.end;
+    return { event, lane };
+  });
+  return { placed, lanes: Math.max(laneEnds.length, 1) };
+}
+
+const minutesFromTop = (e: React.DragEvent) =>
+  ((e.clientY - e.currentTarget.getBoundingClientRect().top) / HOUR_HEIGHT) * 60;
+
+// Vista semanal / diaria: fila de día completo y franjas por hora
+export function CalendarTimeGrid({
+  days,
+  events,
+  eventColor,
+  canDrag,
+  onEventClick,
+  onDayClick,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}: CalendarTimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Minutos entre el inicio de la reunión y el punto por el que se agarró
+  const grabOffsetRef = useRef(0);
+
+  // Empezar mostrando la jornada laboral
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 8 * HOUR_HEIGHT;
+  }, []);
+
+  const columns = `3.5rem repeat(${days.length}, minmax(0, 1fr))`;
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 bg-[#181825] border border-gray-700 rounded-lg overflow-hidden">
+      {/* Encabezado de los días */}
+      <div className="grid border-b border-gray-700" style={{ gridTemplateColumns: columns }}>
+        <div />
+        {days.map((day) => (
+          <button
+            key={day.toISOString()}
+            onClick={() => onDayClick(day)}
+            className="py-2 text-center border-l border-gray-700 hover:bg-[#1e1e2e] transition-colors"
+          >
+            <span className="block text-xs text-gray-500 capitalize">{format(day, 'EEE', { locale: es })}</span>
+            <span
+              className={`inline-flex items-center justify-center w-8 h-8 rounded-full text-sm font-medium ${
+                isToday(day) ? 'bg-blue-600 text-white' : 'text-gray-300'
+              }`}
+            >
+              {format(day, 'd')}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Día completo: sprints y fechas de entrega */}
+      <div className="grid border-b border-gray-700" style={{ gridTemplateColumns: columns }}>
+        <div className="text-[10px] text-gray-500 text-right pr-2 pt-1">Todo el día</div>
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              onDrop(day);
+            }}
+            className="min-h-[2.5rem] p-1 space-y-1 border-l border-gray-700"
+          >
+            {getEventsForDay(events, day).filter(ev => ev.allDay).map((event) => (
+              <div
+                key={event.id}
+                draggable={canDrag(event)}
+                onDragStart={() => {
+                  grabOffsetRef.current = 0;
+                  onDragStart(event);
+                }}
+                onDragEnd={onDragEnd}
+                onClick={() => onEventClick(event)}
+                className={`px-1.5 py-0.5 rounded text-xs text-white truncate cursor-pointer ${eventColor(event)} bg-opacity-30 hover:bg-opacity-50`}
+                title={event.title}
+              >
+                {event.title}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* Franjas por hora */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto">
+        <div className="grid relative" style={{ gridTemplateColumns: columns }}>
+          <div>
+            {hours.map((hour) => (
+              <div key={hour} className="text-[10px] text-gray-500 text-right pr-2 -mt-1.5" style={{ height: HOUR_HEIGHT }}>
+                {hour > 0 && `${String(hour).padStart(2, '0')}:00`}
+              </div>
+            ))}
+          </div>
+
+          {days.map((day) => {
+            const { placed, lanes } = layoutTimedEvents(getEventsForDay(events, day).filter(ev => !ev.allDay));
+            return (
+              <div
+                key={day.toISOString()}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const minutes = minutesFromTop(e) - grabOffsetRef.current;
+                  const snapped = Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+                  onDrop(day, Math.min(Math.max(snapped, 0), 24 * 60 - SNAP_MINUTES));
+                }}
+                className="relative border-l border-gray-700"
+              >
+                {hours.map((hour) => (
+                  <div key={hour} className="border-b border-gray-800" style={{ height: HOUR_HEIGHT }} />
+                ))}
+
+                {placed.map(({ event, lane }) => {
+                  // Una reunión que empezó el día anterior se recorta al inicio del día
+                  const startMinutes = event.start < day ? 0 : event.start.getHours() * 60 + event.start.getMinutes();
+                  const durationMinutes = Math.min(
+                    (event.end.getTime() - Math.max(event.start.getTime(), day.getTime())) / 60000,
+                    24 * 60 - startMinutes
+                  );
+                  return (
+                    <div
+                      key={event.id}
+                      draggable={canDrag(event)}
+                      onDragStart={(e) => {
+                        grabOffsetRef.current = minutesFromTop(e);
+                        onDragStart(event);
+                      }}
+                      onDragEnd={onDragEnd}
+                      onClick={() => onEventClick(event)}
+                      className={`absolute rounded px-1.5 py-0.5 text-xs text-white overflow-hidden cursor-pointer border-l-2 border-emerald-400 ${eventColor(event)} bg-opacity-30 hover:bg-opacity-50 ${
+                        event.meeting?.status === 'cancelled' ? 'line-through opacity-60' : ''
+                      }`}
+                      style={{
+                        top: (startMinutes / 60) * HOUR_HEIGHT,
+                        height: Math.max((durationMinutes / 60) * HOUR_HEIGHT, 18),
+                        left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                        width: `calc(${100 / lanes}% - 4px)`,
+                      }}
+                      title={event.title}
+                    >
+                      <p className="font-medium truncate">{event.title}</p>
+                      <p className="text-gray-300">
+                        {format(event.start, 'HH:mm')} – {format(event.end, 'HH:mm')}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Lock, LogOut, UserMinus, UserPlus, X } from 'lucide-react';
+import { useChatStore } from '../store/chatStore';
+import { useTeamStore } from '../store/teamStore';
+import { useAuthStore } from '../store/authStore';
+import { ChatChannel } from '../lib/supabase';
+
+interface ChannelMembersModalProps {
+  channel: ChatChannel | null;
+  onClose: () => void;
+}
+
+// Miembros de un canal privado: ver, añadir, quitar o salir
+export function ChannelMembersModal({ channel, onClose }: ChannelMembersModalProps) {
+  const { addChannelMember, removeChannelMember } = useChatStore();
+  const { members: team, fetchMembers } = useTeamStore();
+  const { user, can } = useAuthStore();
+  const [selectedUserId, setSelectedUserId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (channel) fetchMembers();
+  }, [channel, fetchMembers]);
+
+  if (!channel) return null;
+
+  const canManage = can('create_channels');
+  const members = channel.members || [];
+  const candidates = team.filter(t => !members.some(m => m.user_id === t.id));
+
+  const handleAdd = async () => {
+    const member = team.find(t => t.id === selectedUserId);
+    if (!member) return;
+    const result = await addChannelMember(channel.id, member);
+    setError(result.error);
+    if (!result.error) setSelectedUserId('');
+  };
+
+  const handleRemove = async (userId: string) => {
+    const result = await removeChannelMember(channel.id, userId);
+    setError(result.error);
+    if (!result.error && userId === user?.id) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-md p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+            <Lock size={18} className="text-gray-400" />
+            Miembros de #{channel.name}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto mb-4">
+          {members.map((member) => (
+            <div key={member.user_id} className="flex items-center gap-3 p-2 rounded-lg bg-[#11111b]">
+              <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-sm font-medium">
+                {member.user?.full_name?.charAt(0).toUpperCase() || '?'}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">
+                  {member.user?.full_name || 'Usuario'}
+                  {member.user_id === user?.id && <span className="text-gray-500"> (tú)</span>}
+                </p>
+                <p className="text-xs text-gray-500 truncate">{member.user?.email}</p>
+              </div>
+              {member.user_id === user?.id ? (
+                <button
+                  onClick={() => handleRemove(member.user_id)}
+                  className="p-1.5 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"
+                  title="Salir del canal"
+                >
+                  <LogOut size={16} />
+                </button>
+              ) : canManage && (
+                <button
+                  onClick={() => handleRemove(member.user_id)}
+                  className="p-1.5 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"
+                  title="Quitar del canal"
+                >
+                  <UserMinus size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <div className="flex gap-2">
+            <select
+              value={selectedUserId}
+              onChange={(e) => setSelectedUserId(e.target.value)}
+              className="flex-1 bg-[#11111b] border border-gray-600 rounded-lg px-3 py-2 text-white outline-none"
+            >
+              <option value="">Añadir miembro...</option>
+              {candidates.map(c => (
+                <option key={c.id} value={c.id}>{c.full_name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={!selectedUserId}
+              className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              title="Añadir"
+            >
+              <UserPlus size={18} />
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+      </div>
+    </div>
+  );
+}
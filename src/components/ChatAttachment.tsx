@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText, X } from 'lucide-react';
+import { useChatStore, formatFileSize } from '../store/chatStore';
+import { ChatMessage } from '../lib/supabase';
+
+interface ChatAttachmentProps {
+  message: ChatMessage;
+  compact?: boolean;
+}
+
+// Miniatura (con visor a pantalla completa) o tarjeta de descarga de un adjunto
+export function ChatAttachment({ message, compact = false }: ChatAttachmentProps) {
+  const { getFileUrl } = useChatStore();
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showLightbox, setShowLightbox] = useState(false);
+
+  useEffect(() => {
+    if (!message.file_path) {
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    getFileUrl(message.file_path).then((signedUrl) => {
+      if (cancelled) return;
+      setUrl(signedUrl);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [message.file_path, getFileUrl]);
+
+  const fileName = message.file_name || message.content;
+
+  if (message.message_type === 'image') {
+    if (isLoading || !url) {
+      return (
+        <div className={`mt-1 flex items-center justify-center bg-[#11111b] rounded-lg border border-gray-700 ${compact ? 'h-24 w-40' : 'h-40 w-60'}`}>
+          {isLoading ? (
+            <div className="w-5 h-5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+          ) : (
+            <span className="text-xs text-gray-500">Imagen no disponible</span>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <button onClick={() => setShowLightbox(true)} className="mt-1 block">
+          <img
+            src={url}
+            alt={fileName}
+            className={`rounded-lg border border-gray-700 object-cover hover:opacity-90 transition-opacity ${
+              compact ? 'max-h-32 max-w-[200px]' : 'max-h-60 max-w-sm'
+            }`}
+          />
+        </button>
+
+        {showLightbox && (
+          <div
+            className="fixed inset-0 bg-black/90 flex flex-col items-center justify-center z-50 p-6"
+            onClick={() => setShowLightbox(false)}
+          >
+            <div className="absolute top-4 right-4 flex items-center gap-2">
+              <a
+                href={url}
+                download={fileName}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white"
+                title="Descargar"
+              >
+                <Download size={20} />
+              </a>
+              <button className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white">
+                <X size={20} />
+              </button>
+            </div>
+            <img
+              src={url}
+              alt={fileName}
+              className="max-w-full max-h-[85vh] object-contain rounded-lg"
+              onClick={(e) => e.stopPropagation()}
+            />
+            <p className="mt-3 text-sm text-gray-300">{fileName}</p>
+          </div>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className={`mt-1 flex items-center gap-3 p-3 bg-[#11111b] rounded-lg border border-gray-700 ${compact ? 'max-w-full' : 'max-w-sm'}`}>
+      <div className="p-2 bg-blue-500/20 rounded-lg flex-shrink-0">
+        <FileText size={20} className="text-blue-400" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-white truncate" title={fileName}>{fileName}</p>
+        {message.file_size !== undefined && message.file_size !== null && (
+          <p className="text-xs text-gray-500">{formatFileSize(message.file_size)}</p>
+        )}
+      </div>
+      {url && (
+        <a
+          href={url}
+          download={fileName}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400 hover:text-white"
+          title="Descargar"
+        >
+          <Download size={16} />
+        </a>
+      )}
+    </div>
+  );
+}
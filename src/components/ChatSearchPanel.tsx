@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { MessageSquare, Search, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useChatStore } from '../store/chatStore';
+
+interface ChatSearchPanelProps {
+  channelId: string;
+  onClose: () => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Resalta las palabras buscadas dentro del texto del resultado
+function highlightTerms(content: string, query: string) {
+  const words = query.split(/\s+/).filter(w => w.length > 1).map(escapeRegExp);
+  if (words.length === 0) return content;
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  return content.split(pattern).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">{part}</mark>
+    ) : (
+      part
+    )
+  );
+}
+
+// Panel lateral de búsqueda en el historial del canal
+export function ChatSearchPanel({ channelId, onClose }: ChatSearchPanelProps) {
+  const { searchResults, isSearching, highlightedMessageId, searchMessages, clearSearch, jumpToMessage } = useChatStore();
+  const [query, setQuery] = useState('');
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setQuery('');
+    setSearchedQuery('');
+    setError(null);
+    clearSearch();
+  }, [channelId, clearSearch]);
+
+  const handleSearch = async () => {
+    const result = await searchMessages(channelId, query);
+    setError(result.error);
+    setSearchedQuery(query.trim());
+  };
+
+  const handleClose = () => {
+    clearSearch();
+    onClose();
+  };
+
+  return (
+    <div className="w-96 bg-[#181825] border-l border-gray-700 flex flex-col">
+      <div className="px-4 py-4 border-b border-gray-700 flex items-center justify-between">
+        <h2 className="font-semibold text-white flex items-center gap-2">
+          <Search size={18} className="text-blue-400" />
+          Buscar en el canal
+        </h2>
+        <button
+          onClick={handleClose}
+          className="p-1.5 rounded-lg hover:bg-[#1e1e2e] text-gray-400 hover:text-white"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-700">
+        <div className="flex items-center gap-2 bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2 focus-within:border-blue-500">
+          <Search size={16} className="text-gray-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            placeholder="Palabras, frases entre comillas..."
+            className="flex-1 bg-transparent text-sm text-white placeholder-gray-500 outline-none"
+            autoFocus
+          />
+        </div>
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {isSearching ? (
+          <div className="flex justify-center py-6">
+            <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+          </div>
+        ) : searchedQuery && searchResults.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">Sin resultados para "{searchedQuery}"</p>
+        ) : (
+          <div className="space-y-1">
+            {searchedQuery && (
+              <p className="px-2 pb-1 text-xs text-gray-500">
+                {searchResults.length === 1 ? '1 resultado' : `${searchResults.length} resultados`}
+              </p>
+            )}
+            {searchResults.map((msg) => (
+              <button
+                key={msg.id}
+                onClick={() => jumpToMessage(msg)}
+                className={`w-full text-left p-2 rounded-lg transition-colors ${
+                  msg.id === highlightedMessageId ? 'bg-[#1e1e2e]' : 'hover:bg-[#1e1e2e]'
+                }`}
+              >
+                <div className="flex items-baseline gap-2">
+                  <span className="text-sm font-medium text-white truncate">{msg.user?.full_name || 'Usuario'}</span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {format(parseISO(msg.created_at), "d MMM yyyy, HH:mm", { locale: es })}
+                  </span>
+                  {msg.reply_to && (
+                    <span className="ml-auto flex items-center gap-1 text-xs text-gray-500 flex-shrink-0">
+                      <MessageSquare size={12} />
+                      En hilo
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-400 mt-0.5 line-clamp-3 break-words">
+                  {highlightTerms(msg.content, searchedQuery)}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Trash2, X } from 'lucide-react';
+import { format, isToday, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useChatStore } from '../store/chatStore';
+import { useAuthStore } from '../store/authStore';
+import { ChatMessage } from '../lib/supabase';
+import { ChatAttachment } from './ChatAttachment';
+
+const formatTime = (date: string) => {
+  const d = parseISO(date);
+  return isToday(d) ? format(d, 'HH:mm') : format(d, "d MMM, HH:mm", { locale: es });
+};
+
+function MessageBody({ message }: { message: ChatMessage }) {
+  if (message.message_type === 'image' || message.message_type === 'file') {
+    return <ChatAttachment message={message} compact />;
+  }
+  if (message.message_type === 'code') {
+    return (
+      <pre className="mt-1 p-2 bg-[#11111b] border border-gray-700 rounded-lg text-sm text-gray-300 overflow-x-auto">
+        <code>{message.content}</code>
+      </pre>
+    );
+  }
+  return <p className="text-gray-300 text-sm mt-0.5 whitespace-pre-wrap break-words">{message.content}</p>;
+}
+
+// Panel lateral con las respuestas de un mensaje
+export function ChatThreadPanel() {
+  const { user } = useAuthStore();
+  const {
+    threadParent, threadMessages, isLoadingThread, highlightedMessageId,
+    closeThread, sendMessage, sendFile, deleteMessage, clearHighlight,
+  } = useChatStore();
+  const [reply, setReply] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    // Una respuesta encontrada en la búsqueda se muestra en lugar del final
+    const highlighted = highlightedMessageId && document.getElementById(`thread-message-${highlightedMessageId}`);
+    if (highlighted) {
+      highlighted.scrollIntoView({ block: 'center' });
+      const timer = setTimeout(clearHighlight, 2500);
+      return () => clearTimeout(timer);
+    }
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [threadMessages, highlightedMessageId, clearHighlight]);
+
+  useEffect(() => {
+    setReply('');
+    setError(null);
+  }, [threadParent?.id]);
+
+  if (!threadParent) return null;
+
+  const handleSend = async () => {
+    if (!reply.trim()) return;
+    const result = await sendMessage(threadParent.channel_id, reply, 'text', undefined, threadParent.id);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setReply('');
+    setError(null);
+  };
+
+  // Pegar archivos los publica como respuestas del hilo
+  const handlePaste = async (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    for (const file of files) {
+      const result = await sendFile(threadParent.channel_id, file, threadParent.id);
+      if (result.error) setError(`${file.name}: ${result.error}`);
+    }
+  };
+
+  const handleDelete = async (messageId: string) => {
+    const result = await deleteMessage(messageId);
+    setError(result.error);
+  };
+
+  const replyCount = threadParent.reply_count || 0;
+
+  return (
+    <div className="w-96 bg-[#181825] border-l border-gray-700 flex flex-col">
+      <div className="px-4 py-4 border-b border-gray-700 flex items-center justify-between">
+        <h2 className="font-semibold text-white flex items-center gap-2">
+          <MessageSquare size={18} className="text-blue-400" />
+          Hilo
+        </h2>
+        <button
+          onClick={closeThread}
+          className="p-1.5 rounded-lg hover:bg-[#1e1e2e] text-gray-400 hover:text-white"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {/* Mensaje original citado */}
+        <div className="border-l-4 border-blue-500/60 bg-[#11111b] rounded-r-lg px-3 py-2">
+          <div className="flex items-baseline gap-2">
+            <span className="text-sm font-medium text-white">{threadParent.user?.full_name || 'Usuario'}</span>
+            <span className="text-xs text-gray-500">{formatTime(threadParent.created_at)}</span>
+          </div>
+          <MessageBody message={threadParent} />
+        </div>
+
+        <div className="flex items-center gap-3 my-4">
+          <span className="text-xs text-gray-500">
+            {replyCount === 1 ? '1 respuesta' : `${replyCount} respuestas`}
+          </span>
+          <div className="flex-1 h-px bg-gray-700" />
+        </div>
+
+        {isLoadingThread ? (
+          <div className="flex justify-center py-6">
+            <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {threadMessages.map((msg) => (
+              <div
+                key={msg.id}
+                id={`thread-message-${msg.id}`}
+                className={`group flex gap-2 rounded-lg transition-colors ${
+                  msg.id === highlightedMessageId ? 'bg-yellow-500/10 ring-1 ring-yellow-500/40' : ''
+                }`}
+              >
+                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-sm font-medium flex-shrink-0">
+                  {msg.user?.full_name?.charAt(0).toUpperCase() || '?'}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-sm font-medium text-white">{msg.user?.full_name || 'Usuario'}</span>
+                    <span className="text-xs text-gray-500">{formatTime(msg.created_at)}</span>
+                    {msg.edited_at && <span className="text-xs text-gray-600">(editado)</span>}
+                  </div>
+                  <MessageBody message={msg} />
+                </div>
+                {msg.user_id === user?.id && (
+                  <button
+                    onClick={() => handleDelete(msg.id)}
+                    className="opacity-0 group-hover:opacity-100 self-start p-1 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400 transition-opacity"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            ))}
+            <div ref={endRef} />
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-gray-700">
+        {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+        <div className="flex items-end gap-2">
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            onPaste={handlePaste}
+            placeholder="Responder en el hilo..."
+            className="flex-1 bg-[#11111b] border border-gray-700 rounded-xl px-3 py-2 text-sm text-white placeholder-gray-500 outline-none focus:border-blue-500 resize-none"
+            rows={2}
+          />
+          <button
+            onClick={handleSend}
+            disabled={!reply.trim()}
+            className="p-2.5 rounded-xl bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Send size={18} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
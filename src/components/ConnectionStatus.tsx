@@ -0,0 +1,76 @@
+import { Wifi, WifiOff, RefreshCw, CloudUpload, AlertTriangle, X } from 'lucide-react';
+import { useRealtimeStore, selectConnectionStatus } from '../store/realtimeStore';
+import { useOutboxStore } from '../store/outboxStore';
+import { isSupabaseConfigured } from '../lib/supabase';
+
+export function ConnectionStatus() {
+  const status = useRealtimeStore(selectConnectionStatus);
+  const isOnline = useRealtimeStore((state) => state.isOnline);
+  const pendingCount = useOutboxStore((state) => state.entries.length);
+  const isSyncing = useOutboxStore((state) => state.isSyncing);
+  const lastError = useOutboxStore((state) => state.lastError);
+  const setLastError = useOutboxStore((state) => state.setLastError);
+
+  // En modo demo no hay sincronización que mostrar
+  if (!isSupabaseConfigured) return null;
+
+  const pending = (
+    <>
+      {lastError && (
+        <div className="mx-2 mb-2 flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400">
+          <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{lastError}</span>
+          <button onClick={() => setLastError(null)} className="hover:text-white" title="Cerrar">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+      {pendingCount > 0 && (
+        <div className="flex items-center gap-2 px-4 py-1 text-xs text-yellow-400">
+          <CloudUpload size={14} className={isSyncing ? 'animate-pulse' : ''} />
+          {isSyncing
+            ? 'Sincronizando cambios…'
+            : `${pendingCount} ${pendingCount === 1 ? 'cambio pendiente' : 'cambios pendientes'} de sincronizar`}
+        </div>
+      )}
+    </>
+  );
+
+  if (status === 'connected') {
+    return (
+      <>
+        {pending}
+        <div className="flex items-center gap-2 px-4 py-2 text-xs text-gray-500" title="Sincronización en tiempo real activa">
+          <Wifi size={14} className="text-green-400" />
+          En vivo
+        </div>
+      </>
+    );
+  }
+
+  if (status === 'connecting') {
+    return (
+      <>
+        {pending}
+        <div className="flex items-center gap-2 px-4 py-2 text-xs text-yellow-400">
+          <RefreshCw size={14} className="animate-spin" />
+          Conectando…
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {pending}
+      <div className="mx-2 mb-2 flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-xs text-red-400">
+        <WifiOff size={14} className="mt-0.5 flex-shrink-0" />
+        <span>
+          {isOnline
+            ? 'Se perdió la conexión en tiempo real. Reintentando…'
+            : 'Sin conexión a internet. Tus cambios se guardarán y se enviarán al reconectar.'}
+        </span>
+      </div>
+    </>
+  );
+}
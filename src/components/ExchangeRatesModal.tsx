@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { ArrowRight, Plus, Trash2, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useExchangeRatesStore } from '../store/exchangeRatesStore';
+import { CURRENCIES } from '../lib/currency';
+
+interface ExchangeRatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Tabla de tasas de cambio (solo administradores)
+export function ExchangeRatesModal({ isOpen, onClose }: ExchangeRatesModalProps) {
+  const { rates, saveRate, deleteRate } = useExchangeRatesStore();
+  const [form, setForm] = useState({
+    from_currency: 'USD',
+    to_currency: 'COP',
+    rate: '',
+    rate_date: new Date().toISOString().split('T')[0],
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const sortedRates = [...rates].sort((a, b) =>
+    b.rate_date.localeCompare(a.rate_date) || a.from_currency.localeCompare(b.from_currency)
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const result = await saveRate({
+      from_currency: form.from_currency,
+      to_currency: form.to_currency,
+      rate: parseFloat(form.rate.replace(',', '.')),
+      rate_date: form.rate_date,
+    });
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setForm({ ...form, rate: '' });
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteRate(id);
+    setError(result.error);
+  };
+
+  const inputClass =
+    'bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Tasas de Cambio</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Cada gasto se convierte con la tasa vigente en su fecha
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-700 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Fecha</label>
+            <input
+              type="date"
+              value={form.rate_date}
+              onChange={(e) => setForm({ ...form, rate_date: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">1 unidad de</label>
+            <select
+              value={form.from_currency}
+              onChange={(e) => setForm({ ...form, from_currency: e.target.value })}
+              className={inputClass}
+            >
+              {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <ArrowRight size={18} className="text-gray-500 mb-2.5" />
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Equivale a</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value.replace(/[^\d.,]/g, '') })}
+              className={`${inputClass} w-32`}
+              placeholder="4000"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Moneda</label>
+            <select
+              value={form.to_currency}
+              onChange={(e) => setForm({ ...form, to_currency: e.target.value })}
+              className={inputClass}
+            >
+              {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            <Plus size={16} />
+            Guardar
+          </button>
+          {error && <p className="w-full text-sm text-red-400">{error}</p>}
+        </form>
+
+        <div className="flex-1 overflow-y-auto">
+          {sortedRates.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">No hay tasas registradas</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left px-6 py-3 text-gray-400 font-medium">Fecha</th>
+                  <th className="text-left px-6 py-3 text-gray-400 font-medium">Par</th>
+                  <th className="text-right px-6 py-3 text-gray-400 font-medium">Tasa</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRates.map(rate => (
+                  <tr key={rate.id} className="border-b border-gray-700/50">
+                    <td className="px-6 py-3 text-gray-300">
+                      {format(parseISO(rate.rate_date), "d MMM yyyy", { locale: es })}
+                    </td>
+                    <td className="px-6 py-3 text-white">
+                      {rate.from_currency} → {rate.to_currency}
+                    </td>
+                    <td className="px-6 py-3 text-right text-white font-mono">
+                      {new Intl.NumberFormat('es-CO', { maximumFractionDigits: 6 }).format(rate.rate)}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => handleDelete(rate.id)}
+                        className="p-1.5 rounded hover:bg-[#11111b] text-gray-400 hover:text-red-400"
+                        title="Eliminar tasa"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, Copy, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { useExpensesStore } from '../store/expensesStore';
+import { CURRENCIES, formatCurrency } from '../lib/currency';
+import {
+  importFields,
+  readSpreadsheet,
+  guessMapping,
+  buildImportRows,
+  CellValue,
+  ColumnMapping,
+  ImportRow,
+  ImportRowStatus,
+} from '../lib/expenseImport';
+
+interface ExpenseImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+const rowStatusStyles: Record<ImportRowStatus, { label: string; className: string }> = {
+  ok: { label: 'Nuevo', className: 'text-green-400' },
+  duplicate: { label: 'Duplicado', className: 'text-yellow-400' },
+  invalid: { label: 'Error', className: 'text-red-400' },
+};
+
+const PREVIEW_LIMIT = 200;
+
+// Asistente de importación: archivo → mapeo de columnas → vista previa
+export function ExpenseImportModal({ isOpen, onClose, onImported }: ExpenseImportModalProps) {
+  const { expenses, categories, importExpenses } = useExpensesStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<CellValue[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultCurrency, setDefaultCurrency] = useState('COP');
+  const [categoryId, setCategoryId] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Filas marcadas como duplicadas que se importan de todos modos
+  const [forcedLines, setForcedLines] = useState<Set<number>>(new Set());
+
+  const importRows = useMemo(
+    () => (mapping ? buildImportRows(rows, mapping, { hasHeader, defaultCurrency, existing: expenses }) : []),
+    [rows, mapping, hasHeader, defaultCurrency, expenses]
+  );
+  const isSelected = (row: ImportRow) =>
+    row.status === 'ok' || (row.status === 'duplicate' && forcedLines.has(row.line));
+  const selectedRows = importRows.filter(isSelected);
+  const counts = {
+    ok: importRows.filter(r => r.status === 'ok').length,
+    duplicate: importRows.filter(r => r.status === 'duplicate').length,
+    forced: importRows.filter(r => r.status === 'duplicate' && forcedLines.has(r.line)).length,
+    invalid: importRows.filter(r => r.status === 'invalid').length,
+  };
+
+  const toggleForced = (line: number) => {
+    setForcedLines(prev => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setRows([]);
+    setMapping(null);
+    setCategoryId('');
+    setForcedLines(new Set());
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(csv|txt|xlsx)$/i.test(file.name)) {
+      setError('Formato no soportado: usa CSV o XLSX');
+      return;
+    }
+    setError(null);
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.length === 0) {
+        setError('El archivo está vacío');
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessMapping(parsed[0]));
+      setStep('mapping');
+    } catch (err: any) {
+      setError(err.message || 'No se pudo leer el archivo');
+    }
+  };
+
+  const columnCount = Math.max(...rows.map(r => r.length), 0);
+  const columnLabel = (index: number) => {
+    const header = hasHeader ? rows[0]?.[index] : null;
+    const letter = String.fromCharCode(65 + (index % 26));
+    return header !== null && header !== undefined && String(header).trim() !== ''
+      ? `${letter} · ${String(header)}`
+      : `Columna ${letter}`;
+  };
+  const missingRequired = importFields.filter(f => f.required && mapping?.[f.field] === null);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    const result = await importExpenses(
+      selectedRows.map(r => ({ ...r.expense, category_id: categoryId || undefined }))
+    );
+    setIsImporting(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    onImported(result.imported);
+    handleClose();
+  };
+
+  const selectClass =
+    'bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+              <FileSpreadsheet size={22} className="text-blue-400" />
+              Importar Gastos
+            </h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {step === 'upload' && 'Sube un extracto en CSV o XLSX'}
+              {step === 'mapping' && `${fileName}: indica qué columna corresponde a cada campo`}
+              {step === 'preview' && `${fileName}: revisa las filas antes de importar`}
+            </p>
+          </div>
+          <button onClick={handleClose} className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {step === 'upload' && (
+            <div
+              onClick={() => inputRef.current?.click()}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                handleFile(e.dataTransfer.files?.[0]);
+              }}
+              className={`flex flex-col items-center justify-center gap-3 border-2 border-dashed rounded-xl px-6 py-16 cursor-pointer transition-colors ${
+                isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-500'
+              }`}
+            >
+              <Upload size={32} className="text-gray-500" />
+              <p className="text-gray-300">Arrastra el archivo aquí o haz clic para elegirlo</p>
+              <p className="text-xs text-gray-500">
+                Columnas esperadas: {importFields.map(f => f.label).join(', ')}
+              </p>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          )}
+
+          {step === 'mapping' && mapping && (
+            <div className="space-y-6">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                  className="rounded border-gray-600 bg-[#11111b]"
+                />
+                La primera fila contiene los encabezados
+              </label>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {importFields.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm text-gray-400 mb-2">
+                      {label} {required && '*'}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({
+                        ...mapping,
+                        [field]: e.target.value === '' ? null : Number(e.target.value),
+                      })}
+                      className={`w-full ${selectClass}`}
+                    >
+                      <option value="">— No importar —</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i}>{columnLabel(i)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Moneda si la fila no la indica</label>
+                  <select
+                    value={defaultCurrency}
+                    onChange={(e) => setDefaultCurrency(e.target.value)}
+                    className={`w-full ${selectClass}`}
+                  >
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Categoría para todas las filas</label>
+                  <select
+                    value={categoryId}
+                    onChange={(e) => setCategoryId(e.target.value)}
+                    className={`w-full ${selectClass}`}
+                  >
+                    <option value="">Sin categoría</option>
+                    {categories.map(cat => (
+                      <option key={cat.id} value={cat.id}>{cat.icon} {cat.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-4 text-sm">
+                <span className="flex items-center gap-1.5 text-green-400">
+                  <CheckCircle size={16} /> {counts.ok} nuevos
+                </span>
+                <span className="flex items-center gap-1.5 text-yellow-400">
+                  <Copy size={16} /> {counts.duplicate} posibles duplicados
+                  {counts.forced > 0 ? ` (${counts.forced} se importan igual)` : ' (se omiten)'}
+                </span>
+                <span className="flex items-center gap-1.5 text-red-400">
+                  <AlertTriangle size={16} /> {counts.invalid} con errores (se omiten)
+                </span>
+              </div>
+              <p className="text-xs text-gray-500">
+                Se marca como duplicado si ya existe la misma factura por el mismo monto o, sin N° de factura,
+                un gasto con la misma fecha, monto, moneda y descripción. Marca la casilla para importarlo igual.
+              </p>
+
+              <div className="border border-gray-700 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-700 text-gray-400">
+                      <th className="text-left px-3 py-2 font-medium">Fila</th>
+                      <th className="text-left px-3 py-2 font-medium">Estado</th>
+                      <th className="text-left px-3 py-2 font-medium">Fecha</th>
+                      <th className="text-left px-3 py-2 font-medium">Descripción</th>
+                      <th className="text-left px-3 py-2 font-medium">Proveedor</th>
+                      <th className="text-right px-3 py-2 font-medium">Monto</th>
+                      <th className="text-left px-3 py-2 font-medium">N° Factura</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importRows.slice(0, PREVIEW_LIMIT).map(row => {
+                      const status = rowStatusStyles[row.status];
+                      return (
+                        <tr
+                          key={row.line}
+                          className={`border-b border-gray-700/50 ${isSelected(row) ? '' : 'opacity-60'}`}
+                        >
+                          <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                          <td className={`px-3 py-2 whitespace-nowrap ${status.className}`}>
+                            {row.status === 'duplicate' ? (
+                              <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={forcedLines.has(row.line)}
+                                  onChange={() => toggleForced(row.line)}
+                                  className="rounded border-gray-600 bg-[#11111b]"
+                                />
+                                {status.label}
+                              </label>
+                            ) : (
+                              row.error || status.label
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{row.expense.expense_date || '—'}</td>
+                          <td className="px-3 py-2 text-white">{row.expense.description || '—'}</td>
+                          <td className="px-3 py-2 text-gray-300">{row.expense.vendor || '—'}</td>
+                          <td className="px-3 py-2 text-right text-white whitespace-nowrap">
+                            {row.expense.amount ? formatCurrency(row.expense.amount, row.expense.currency) : '—'}
+                          </td>
+                          <td className="px-3 py-2 text-gray-300">{row.expense.invoice_number || '—'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {importRows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500">
+                  Mostrando {PREVIEW_LIMIT} de {importRows.length} filas
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400 mt-4">{error}</p>}
+        </div>
+
+        {step !== 'upload' && (
+          <div className="p-6 border-t border-gray-700 flex items-center justify-between gap-3">
+            <button
+              onClick={() => (step === 'preview' ? setStep('mapping') : reset())}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Atrás
+            </button>
+            {step === 'mapping' ? (
+              <div className="flex items-center gap-3">
+                {missingRequired.length > 0 && (
+                  <span className="text-sm text-orange-400">
+                    Falta: {missingRequired.map(f => f.label).join(', ')}
+                  </span>
+                )}
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={missingRequired.length > 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Vista previa
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={selectedRows.length === 0 || isImporting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importando...' : `Importar ${selectedRows.length} gastos`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
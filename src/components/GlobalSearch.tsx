@@ -19,6 +19,7 @@ import { useNotesStore } from '../store/notesStore';
 import { usePersonalNotesStore } from '../store/personalNotesStore';
 import { useMeetingsStore } from '../store/meetingsStore';
 import { useTeamStore } from '../store/teamStore';
+import { stripMarkdown, getSnippet } from '../lib/markdown';
 
 interface SearchResult {
   id: string;
@@ -80,13 +81,16 @@ export function GlobalSearch() {
     const q = searchQuery.toLowerCase();
     const searchResults: SearchResult[] = [];
 
-    // Buscar en notas
+    // Buscar en notas (sobre el texto sin sintaxis markdown)
     notes.forEach(note => {
-      if (note.title.toLowerCase().includes(q) || note.content?.toLowerCase().includes(q)) {
+      const text = stripMarkdown(note.content || '');
+      if (note.title.toLowerCase().includes(q) || text.toLowerCase().includes(q)) {
+        const typeLabel = note.type === 'task' ? 'Tarea' : note.type === 'bug' ? 'Bug' : note.type === 'feature' ? 'Feature' : 'Nota';
+        const snippet = getSnippet(text, q);
         searchResults.push({
           id: note.id,
           title: note.title,
-          subtitle: note.type === 'task' ? 'Tarea' : note.type === 'bug' ? 'Bug' : note.type === 'feature' ? 'Feature' : 'Nota',
+          subtitle: snippet ? `${typeLabel} · ${snippet}` : typeLabel,
           type: note.type as any,
           path: `/notes/${note.id}`,
         });
@@ -95,11 +99,13 @@ export function GlobalSearch() {
 
     // Buscar en notepads personales
     personalNotes.forEach(note => {
-      if (note.title.toLowerCase().includes(q) || note.content?.toLowerCase().includes(q)) {
+      const text = stripMarkdown(note.content || '');
+      if (note.title.toLowerCase().includes(q) || text.toLowerCase().includes(q)) {
+        const snippet = getSnippet(text, q);
         searchResults.push({
           id: note.id,
           title: note.title,
-          subtitle: 'Notepad Personal',
+          subtitle: snippet ? `Notepad Personal · ${snippet}` : 'Notepad Personal',
           type: 'notepad',
           path: '/notepad',
         });
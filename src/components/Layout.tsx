@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import { Sidebar } from './Sidebar';
+import { SyncConflictsModal } from './SyncConflictsModal';
 
 interface LayoutProps {
   children: ReactNode;
@@ -12,6 +13,7 @@ export function Layout({ children }: LayoutProps) {
       <main className="flex-1 overflow-auto">
         {children}
       </main>
+      <SyncConflictsModal />
     </div>
   );
 }
@@ -0,0 +1,143 @@
+import { useRef, useState } from 'react';
+import { Heading2, Bold, Italic, ListChecks, Code2, Table, Link2, Eye, Pencil, Columns2 } from 'lucide-react';
+import { MarkdownPreview } from './MarkdownPreview';
+import { toggleTaskAtLine } from '../lib/markdown';
+
+type EditorMode = 'edit' | 'preview' | 'split';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Por defecto marcar un checklist en la vista previa solo cambia el texto
+  onToggleTask?: (line: number) => void;
+  placeholder?: string;
+  rows?: number;
+  required?: boolean;
+  className?: string;
+}
+
+interface Snippet {
+  // Texto antes y después de la selección; block = empieza en línea nueva
+  before: string;
+  after?: string;
+  placeholder?: string;
+  block?: boolean;
+}
+
+const snippets: { label: string; icon: typeof Bold; snippet: Snippet }[] = [
+  { label: 'Título', icon: Heading2, snippet: { before: '## ', placeholder: 'Título', block: true } },
+  { label: 'Negrita', icon: Bold, snippet: { before: '**', after: '**', placeholder: 'texto' } },
+  { label: 'Cursiva', icon: Italic, snippet: { before: '_', after: '_', placeholder: 'texto' } },
+  { label: 'Checklist', icon: ListChecks, snippet: { before: '- [ ] ', placeholder: 'Tarea', block: true } },
+  { label: 'Bloque de código', icon: Code2, snippet: { before: '```ts\n', after: '\n```', placeholder: 'código', block: true } },
+  {
+    label: 'Tabla',
+    icon: Table,
+    snippet: { before: '| Columna | Columna |\n| --- | --- |\n| ', after: ' |  |', placeholder: 'valor', block: true },
+  },
+  { label: 'Enlace a otra nota', icon: Link2, snippet: { before: '[[', after: ']]', placeholder: 'Título de la nota' } },
+];
+
+const modes: { value: EditorMode; label: string; icon: typeof Eye }[] = [
+  { value: 'edit', label: 'Editar', icon: Pencil },
+  { value: 'preview', label: 'Vista previa', icon: Eye },
+  { value: 'split', label: 'Dividido', icon: Columns2 },
+];
+
+export function MarkdownEditor({
+  value,
+  onChange,
+  onToggleTask,
+  placeholder,
+  rows = 8,
+  required,
+  className = 'bg-[#181825]',
+}: MarkdownEditorProps) {
+  const [mode, setMode] = useState<EditorMode>('edit');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const insert = ({ before, after = '', placeholder: fallback = '', block }: Snippet) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const selected = value.slice(start, end) || fallback;
+    const prefix = block && start > 0 && value[start - 1] !== '\n' ? '\n' : '';
+    const inserted = `${prefix}${before}${selected}${after}`;
+
+    onChange(value.slice(0, start) + inserted + value.slice(end));
+
+    // Dejar seleccionado el texto de ejemplo para reemplazarlo al escribir
+    const selectionStart = start + prefix.length + before.length;
+    requestAnimationFrame(() => {
+      if (!textareaRef.current) return;
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(selectionStart, selectionStart + selected.length);
+    });
+  };
+
+  const handleToggleTask = onToggleTask || ((line: number) => onChange(toggleTaskAtLine(value, line)));
+
+  const showEditor = mode !== 'preview';
+  const showPreview = mode !== 'edit';
+
+  return (
+    <div className={`border border-gray-700 rounded-lg overflow-hidden focus-within:border-blue-500 transition-colors ${className}`}>
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 px-2 py-1.5 border-b border-gray-700 bg-[#11111b]">
+        <div className="flex items-center gap-0.5">
+          {snippets.map(({ label, icon: Icon, snippet }) => (
+            <button
+              key={label}
+              type="button"
+              title={label}
+              onClick={() => insert(snippet)}
+              disabled={!showEditor}
+              className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors"
+            >
+              <Icon size={16} />
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-0.5">
+          {modes.map(({ value: modeValue, label, icon: Icon }) => (
+            <button
+              key={modeValue}
+              type="button"
+              title={label}
+              onClick={() => setMode(modeValue)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors ${
+                mode === modeValue ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'
+              }`}
+            >
+              <Icon size={14} />
+              <span className="hidden sm:inline">{label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={mode === 'split' ? 'grid grid-cols-1 md:grid-cols-2 md:divide-x divide-gray-700' : ''}>
+        {showEditor && (
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            rows={rows}
+            required={required}
+            className="w-full h-full bg-transparent py-3 px-4 text-white placeholder-gray-500 focus:outline-none resize-y font-mono text-sm"
+          />
+        )}
+        {showPreview && (
+          <div className="py-3 px-4 overflow-auto" style={{ minHeight: `${rows * 1.5}rem` }}>
+            {value.trim() ? (
+              <MarkdownPreview content={value} onToggleTask={handleToggleTask} />
+            ) : (
+              <p className="text-gray-500 text-sm">Nada para previsualizar</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
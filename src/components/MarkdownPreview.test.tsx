@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { MarkdownPreview } from './MarkdownPreview';
+
+const renderPreview = (content: string, onToggleTask?: (line: number) => void) =>
+  render(
+    <MemoryRouter>
+      <MarkdownPreview content={content} onToggleTask={onToggleTask} />
+    </MemoryRouter>
+  );
+
+describe('MarkdownPreview', () => {
+  afterEach(cleanup);
+
+  it('marca una tarea con la línea de su <li>', () => {
+    const onToggleTask = vi.fn();
+    renderPreview('# Pendientes\n\n- [ ] uno\n- [x] dos', onToggleTask);
+
+    const [first, second] = screen.getAllByRole('checkbox');
+    expect((first as HTMLInputElement).disabled).toBe(false);
+    fireEvent.click(first);
+    fireEvent.click(second);
+
+    expect(onToggleTask).toHaveBeenNthCalledWith(1, 3);
+    expect(onToggleTask).toHaveBeenNthCalledWith(2, 4);
+  });
+
+  it('también en listas con párrafos', () => {
+    const onToggleTask = vi.fn();
+    renderPreview('- [ ] uno\n\n- [ ] dos', onToggleTask);
+
+    fireEvent.click(screen.getAllByRole('checkbox')[1]);
+
+    expect(onToggleTask).toHaveBeenCalledWith(3);
+  });
+
+  it('sin onToggleTask los checkboxes quedan deshabilitados', () => {
+    renderPreview('- [ ] uno');
+
+    expect((screen.getByRole('checkbox') as HTMLInputElement).disabled).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import type { Element, Root, RootContent } from 'hast';
+import { useNotesStore } from '../store/notesStore';
+import { linkNoteReferences, NOTE_LINK_PREFIX } from '../lib/markdown';
+
+interface MarkdownPreviewProps {
+  content: string;
+  // Si se indica, los checklists se pueden marcar desde la vista previa
+  onToggleTask?: (line: number) => void;
+  className?: string;
+}
+
+// remark-gfm crea el checkbox de una tarea sin posición: se le copia la del
+// <li> que lo contiene para saber qué línea del markdown marcar
+function rehypeTaskLines() {
+  const visit = (node: Root | RootContent, item: Element['position']) => {
+    if (node.type !== 'element' && node.type !== 'root') return;
+    if (node.type === 'element') {
+      if (node.tagName === 'li') item = node.position;
+      if (node.tagName === 'input' && node.properties.type === 'checkbox' && !node.position) {
+        node.position = item;
+      }
+    }
+    node.children.forEach((child) => visit(child, item));
+  };
+  return (tree: Root) => visit(tree, undefined);
+}
+
+export function MarkdownPreview({ content, onToggleTask, className = '' }: MarkdownPreviewProps) {
+  const { notes } = useNotesStore();
+
+  const source = useMemo(() => linkNoteReferences(content, notes), [content, notes]);
+
+  const components = useMemo<Components>(() => ({
+    a: ({ href, children }) => {
+      // Enlaces a otras notas: navegación interna
+      if (href?.startsWith(NOTE_LINK_PREFIX)) {
+        return (
+          <Link to={href} className="note-link">
+            {children}
+          </Link>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer">
+          {children}
+        </a>
+      );
+    },
+    input: ({ node, type, checked }) => {
+      if (type !== 'checkbox') return <input type={type} />;
+      const line = node?.position?.start.line;
+      return (
+        <input
+          type="checkbox"
+          checked={!!checked}
+          disabled={!onToggleTask || !line}
+          onChange={() => line && onToggleTask?.(line)}
+          className={onToggleTask ? 'cursor-pointer' : ''}
+        />
+      );
+    },
+  }), [onToggleTask]);
+
+  return (
+    <div className={`markdown-body ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeTaskLines, rehypeHighlight]}
+        components={components}
+      >
+        {source}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Pencil, Repeat, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useMeetingsStore, OccurrenceScope } from '../store/meetingsStore';
+import { describeRecurrence } from '../lib/recurrence';
+import { Meeting } from '../lib/supabase';
+
+interface MeetingEditModalProps {
+  meeting: Meeting | null;
+  onClose: () => void;
+}
+
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+// Edición de una reunión; en las periódicas se elige si aplica solo a esta
+// ocurrencia o también a las siguientes
+export function MeetingEditModal({ meeting, onClose }: MeetingEditModalProps) {
+  const { series, updateMeetingOccurrences } = useMeetingsStore();
+  const [form, setForm] = useState({
+    title: '',
+    description: '',
+    scheduled_at: '',
+    duration_minutes: 60,
+    reminder_minutes: 0,
+  });
+  const [scope, setScope] = useState<OccurrenceScope>('single');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!meeting) return;
+    setForm({
+      title: meeting.title,
+      description: meeting.description || '',
+      scheduled_at: toLocalInput(meeting.scheduled_at),
+      duration_minutes: meeting.duration_minutes,
+      reminder_minutes: meeting.reminder_minutes || 0,
+    });
+    setScope('single');
+    setError(null);
+  }, [meeting]);
+
+  if (!meeting) return null;
+
+  const meetingSeries = meeting.series_id ? series.find(s => s.id === meeting.series_id) : undefined;
+
+  const handleSave = async () => {
+    if (!form.title || !form.scheduled_at) return;
+    setIsSaving(true);
+    const updates: Partial<Meeting> = {
+      title: form.title,
+      description: form.description,
+      duration_minutes: form.duration_minutes,
+      reminder_minutes: form.reminder_minutes || null,
+    };
+    // Solo si cambió: en una serie mover la hora desplaza las siguientes
+    if (form.scheduled_at !== toLocalInput(meeting.scheduled_at)) {
+      updates.scheduled_at = new Date(form.scheduled_at).toISOString();
+    }
+    const result = await updateMeetingOccurrences(meeting.id, updates, scope);
+    setIsSaving(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-lg overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Pencil size={20} />
+            Editar reunión
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Título *</label>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-3 px-4 text-white focus:outline-none focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Descripción</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={2}
+              className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-3 px-4 text-white focus:outline-none focus:border-blue-500 resize-none"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Fecha y hora *</label>
+              <input
+                type="datetime-local"
+                value={form.scheduled_at}
+                onChange={(e) => setForm({ ...form, scheduled_at: e.target.value })}
+                className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-3 px-4 text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Duración (min)</label>
+              <select
+                value={form.duration_minutes}
+                onChange={(e) => setForm({ ...form, duration_minutes: parseInt(e.target.value) })}
+                className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-3 px-4 text-white focus:outline-none focus:border-blue-500"
+              >
+                {[15, 30, 45, 60, 90, 120].includes(form.duration_minutes) ? null : (
+                  <option value={form.duration_minutes}>{form.duration_minutes} minutos</option>
+                )}
+                <option value={15}>15 minutos</option>
+                <option value={30}>30 minutos</option>
+                <option value={45}>45 minutos</option>
+                <option value={60}>1 hora</option>
+                <option value={90}>1.5 horas</option>
+                <option value={120}>2 horas</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Recordatorio</label>
+            <select
+              value={form.reminder_minutes}
+              onChange={(e) => setForm({ ...form, reminder_minutes: parseInt(e.target.value) })}
+              className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-3 px-4 text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value={0}>Sin recordatorio</option>
+              <option value={5}>5 minutos antes</option>
+              <option value={10}>10 minutos antes</option>
+              <option value={15}>15 minutos antes</option>
+              <option value={30}>30 minutos antes</option>
+              <option value={60}>1 hora antes</option>
+              <option value={1440}>1 día antes</option>
+            </select>
+          </div>
+
+          {meeting.series_id && (
+            <div className="p-3 rounded-lg bg-[#11111b] border border-gray-700 space-y-2">
+              <p className="text-sm text-gray-300 flex items-center gap-2">
+                <Repeat size={16} className="text-blue-400" />
+                {meetingSeries ? describeRecurrence(meetingSeries) : 'Reunión periódica'}
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="radio"
+                  checked={scope === 'single'}
+                  onChange={() => setScope('single')}
+                />
+                Solo esta reunión
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="radio"
+                  checked={scope === 'future'}
+                  onChange={() => setScope('future')}
+                />
+                Esta y las siguientes
+              </label>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors">
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!form.title || !form.scheduled_at || isSaving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CalendarPlus, CheckCircle, Copy, Upload, Users, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useMeetingsStore } from '../store/meetingsStore';
+import { useTeamStore } from '../store/teamStore';
+import { useAuthStore } from '../store/authStore';
+import { IcsEvent, meetingUid, parseIcsEvents } from '../lib/ical';
+
+interface MeetingImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+type EventStatus = 'ok' | 'duplicate' | 'past' | 'cancelled';
+
+const eventStatusStyles: Record<EventStatus, { label: string; className: string }> = {
+  ok: { label: 'Nueva', className: 'text-green-400' },
+  duplicate: { label: 'Ya importada', className: 'text-yellow-400' },
+  past: { label: 'Pasada', className: 'text-gray-400' },
+  cancelled: { label: 'Cancelada', className: 'text-red-400' },
+};
+
+// Importación de reuniones desde un archivo iCalendar (.ics)
+export function MeetingImportModal({ isOpen, onClose, onImported }: MeetingImportModalProps) {
+  const { meetings, importMeetings } = useMeetingsStore();
+  const { members, fetchMembers } = useTeamStore();
+  const { user } = useAuthStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState('');
+  const [events, setEvents] = useState<IcsEvent[]>([]);
+  const [includePast, setIncludePast] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) fetchMembers();
+  }, [isOpen, fetchMembers]);
+
+  // Se reconocen tanto las reuniones importadas antes como las exportadas desde aquí
+  const knownUids = useMemo(
+    () => new Set(meetings.flatMap(m => [meetingUid(m), m.ical_uid].filter(Boolean) as string[])),
+    [meetings]
+  );
+
+  const rows = useMemo(() => {
+    const now = Date.now();
+    const seen = new Set(knownUids);
+    return events.map((event) => {
+      const participantIds = members
+        .filter(m => m.id !== user?.id && event.attendeeEmails.includes(m.email.toLowerCase()))
+        .map(m => m.id);
+      const ended = event.start.getTime() + event.durationMinutes * 60000 < now;
+      const status: EventStatus = seen.has(event.uid)
+        ? 'duplicate'
+        : event.cancelled
+          ? 'cancelled'
+          : ended && !includePast
+            ? 'past'
+            : 'ok';
+      seen.add(event.uid);
+      return { event, participantIds, status };
+    });
+  }, [events, members, user?.id, knownUids, includePast]);
+
+  const importable = rows.filter(r => r.status === 'ok');
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setFileName('');
+    setEvents([]);
+    setError(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(ics|ical|ifb|icalendar)$/i.test(file.name)) {
+      setError('Formato no soportado: usa un archivo .ics');
+      return;
+    }
+    setError(null);
+    try {
+      const parsed = parseIcsEvents(await file.text());
+      if (parsed.length === 0) {
+        setError('El archivo no contiene eventos');
+        return;
+      }
+      setFileName(file.name);
+      setEvents(parsed);
+    } catch (err: any) {
+      setError(err.message || 'No se pudo leer el archivo');
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    const now = Date.now();
+    const result = await importMeetings(importable.map(({ event, participantIds }) => ({
+      meeting: {
+        title: event.title.slice(0, 255),
+        description: event.description,
+        scheduled_at: event.start.toISOString(),
+        duration_minutes: event.durationMinutes,
+        status: event.start.getTime() + event.durationMinutes * 60000 < now ? 'completed' : 'scheduled',
+        ical_uid: event.uid,
+      },
+      participantIds,
+    })));
+    setIsImporting(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    onImported(result.imported);
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+              <CalendarPlus size={22} className="text-blue-400" />
+              Importar reuniones
+            </h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {fileName ? `${fileName}: revisa los eventos antes de importar` : 'Sube un archivo .ics exportado de tu calendario'}
+            </p>
+          </div>
+          <button onClick={handleClose} className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {events.length === 0 ? (
+            <div
+              onClick={() => inputRef.current?.click()}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                handleFile(e.dataTransfer.files?.[0]);
+              }}
+              className={`flex flex-col items-center justify-center gap-3 border-2 border-dashed rounded-xl px-6 py-16 cursor-pointer transition-colors ${
+                isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-500'
+              }`}
+            >
+              <Upload size={32} className="text-gray-500" />
+              <p className="text-gray-300">Arrastra el archivo aquí o haz clic para elegirlo</p>
+              <p className="text-xs text-gray-500">
+                Los asistentes que sean miembros del equipo quedan invitados. De los eventos repetitivos solo se importa la primera fecha.
+              </p>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="flex items-center gap-1.5 text-green-400">
+                  <CheckCircle size={16} /> {importable.length} nuevas
+                </span>
+                <span className="flex items-center gap-1.5 text-yellow-400">
+                  <Copy size={16} /> {rows.filter(r => r.status === 'duplicate').length} ya importadas
+                </span>
+                <span className="flex items-center gap-1.5 text-gray-400">
+                  <AlertTriangle size={16} /> {rows.filter(r => r.status === 'past' || r.status === 'cancelled').length} pasadas o canceladas
+                </span>
+                <label className="ml-auto flex items-center gap-2 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={includePast}
+                    onChange={(e) => setIncludePast(e.target.checked)}
+                    className="rounded border-gray-600 bg-[#11111b]"
+                  />
+                  Incluir eventos pasados
+                </label>
+              </div>
+
+              <div className="border border-gray-700 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-700 text-gray-400">
+                      <th className="text-left px-3 py-2 font-medium">Estado</th>
+                      <th className="text-left px-3 py-2 font-medium">Fecha</th>
+                      <th className="text-left px-3 py-2 font-medium">Título</th>
+                      <th className="text-right px-3 py-2 font-medium">Duración</th>
+                      <th className="text-right px-3 py-2 font-medium">Invitados</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(({ event, participantIds, status }) => (
+                      <tr
+                        key={`${event.uid}-${event.start.getTime()}`}
+                        className={`border-b border-gray-700/50 ${status === 'ok' ? '' : 'opacity-60'}`}
+                      >
+                        <td className={`px-3 py-2 whitespace-nowrap ${eventStatusStyles[status].className}`}>
+                          {eventStatusStyles[status].label}
+                        </td>
+                        <td className="px-3 py-2 text-gray-300 whitespace-nowrap">
+                          {event.allDay
+                            ? format(event.start, "d MMM yyyy", { locale: es })
+                            : format(event.start, "d MMM yyyy, HH:mm", { locale: es })}
+                        </td>
+                        <td className="px-3 py-2 text-white">{event.title}</td>
+                        <td className="px-3 py-2 text-right text-gray-300 whitespace-nowrap">
+                          {event.allDay ? 'Todo el día' : `${event.durationMinutes} min`}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-300">
+                          <span className="inline-flex items-center gap-1">
+                            <Users size={12} />
+                            {participantIds.length}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400 mt-4">{error}</p>}
+        </div>
+
+        {events.length > 0 && (
+          <div className="p-6 border-t border-gray-700 flex items-center justify-between gap-3">
+            <button
+              onClick={() => {
+                setFileName('');
+                setEvents([]);
+              }}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Otro archivo
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={importable.length === 0 || isImporting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importando...' : `Importar ${importable.length} reuniones`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
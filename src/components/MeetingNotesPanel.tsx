@@ -0,0 +1,447 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ListOrdered,
+  FileText,
+  CheckSquare,
+  Plus,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  Circle,
+  CheckCircle,
+  Calendar,
+  AlertTriangle,
+} from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useMeetingsStore, getSortedAgenda } from '../store/meetingsStore';
+import { useNotesStore } from '../store/notesStore';
+import { useTeamStore } from '../store/teamStore';
+import { MarkdownEditor } from './MarkdownEditor';
+import { Meeting } from '../lib/supabase';
+
+export type MeetingNotesTab = 'agenda' | 'minutes' | 'actions';
+
+const tabs: { value: MeetingNotesTab; label: string; icon: typeof FileText }[] = [
+  { value: 'agenda', label: 'Orden del día', icon: ListOrdered },
+  { value: 'minutes', label: 'Acta', icon: FileText },
+  { value: 'actions', label: 'Acciones', icon: CheckSquare },
+];
+
+const MINUTES_AUTOSAVE_MS = 1500;
+
+interface MeetingNotesPanelProps {
+  meeting: Meeting;
+  initialTab?: MeetingNotesTab;
+}
+
+// Orden del día, acta compartida y acciones (tareas) de una reunión
+export function MeetingNotesPanel({ meeting, initialTab = 'agenda' }: MeetingNotesPanelProps) {
+  const [tab, setTab] = useState<MeetingNotesTab>(initialTab);
+  const { notes } = useNotesStore();
+  const actionItems = notes.filter(n => n.meeting_id === meeting.id);
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="flex border-b border-gray-700">
+        {tabs.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`flex items-center gap-2 px-4 py-3 text-sm border-b-2 transition-colors ${
+              tab === value ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-white'
+            }`}
+          >
+            <Icon size={16} />
+            {label}
+            {value === 'agenda' && !!meeting.agenda?.length && (
+              <span className="text-xs text-gray-500">{meeting.agenda.length}</span>
+            )}
+            {value === 'actions' && actionItems.length > 0 && (
+              <span className="text-xs text-gray-500">{actionItems.length}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {tab === 'agenda' && <AgendaTab meeting={meeting} />}
+        {tab === 'minutes' && <MinutesTab meeting={meeting} />}
+        {tab === 'actions' && <ActionItemsTab meeting={meeting} />}
+      </div>
+    </div>
+  );
+}
+
+function AgendaTab({ meeting }: { meeting: Meeting }) {
+  const { addAgendaItem, updateAgendaItem, deleteAgendaItem, moveAgendaItem } = useMeetingsStore();
+  const [title, setTitle] = useState('');
+  const [duration, setDuration] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const agenda = getSortedAgenda(meeting);
+  const plannedMinutes = agenda.reduce((sum, item) => sum + (item.duration_minutes || 0), 0);
+
+  const run = async (action: Promise<{ error: string | null }>) => {
+    const result = await action;
+    setError(result.error);
+    return result;
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    const result = await run(addAgendaItem(meeting.id, {
+      title: title.trim(),
+      duration_minutes: duration ? parseInt(duration) : null,
+    }));
+    if (!result.error) {
+      setTitle('');
+      setDuration('');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {agenda.length === 0 ? (
+        <p className="text-sm text-gray-500">Aún no hay puntos en el orden del día.</p>
+      ) : (
+        <ol className="space-y-2">
+          {agenda.map((item, index) => (
+            <li
+              key={item.id}
+              className="group flex items-center gap-3 bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2"
+            >
+              <button
+                onClick={() => run(updateAgendaItem(meeting.id, item.id, { is_done: !item.is_done }))}
+                className={item.is_done ? 'text-green-400' : 'text-gray-500 hover:text-white'}
+                title={item.is_done ? 'Marcar como pendiente' : 'Marcar como tratado'}
+              >
+                {item.is_done ? <CheckCircle size={18} /> : <Circle size={18} />}
+              </button>
+              <span className="text-xs text-gray-500 w-4">{index + 1}.</span>
+              <span className={`flex-1 text-sm ${item.is_done ? 'text-gray-500 line-through' : 'text-white'}`}>
+                {item.title}
+              </span>
+              {!!item.duration_minutes && (
+                <span className="text-xs text-gray-400">{item.duration_minutes} min</span>
+              )}
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => run(moveAgendaItem(meeting.id, item.id, -1))}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Subir"
+                >
+                  <ChevronUp size={16} />
+                </button>
+                <button
+                  onClick={() => run(moveAgendaItem(meeting.id, item.id, 1))}
+                  disabled={index === agenda.length - 1}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                  title="Bajar"
+                >
+                  <ChevronDown size={16} />
+                </button>
+                <button
+                  onClick={() => run(deleteAgendaItem(meeting.id, item.id))}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  title="Quitar"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {plannedMinutes > 0 && (
+        <p className={`text-xs ${plannedMinutes > meeting.duration_minutes ? 'text-yellow-400' : 'text-gray-500'}`}>
+          {plannedMinutes} de {meeting.duration_minutes} min planeados
+        </p>
+      )}
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Nuevo punto..."
+          className="flex-1 bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+        />
+        <input
+          type="number"
+          min={1}
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          placeholder="min"
+          className="w-20 bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!title.trim()}
+          className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} />
+          Agregar
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+// Plantilla inicial del acta a partir del orden del día
+const minutesTemplate = (meeting: Meeting) => {
+  const agenda = getSortedAgenda(meeting).map(item => `- ${item.title}`).join('\n');
+  return `## Orden del día\n${agenda || '- '}\n\n## Notas\n\n## Decisiones\n`;
+};
+
+function MinutesTab({ meeting }: { meeting: Meeting }) {
+  const { saveMinutes } = useMeetingsStore();
+  const { members } = useTeamStore();
+  const [draft, setDraft] = useState(meeting.minutes || '');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasConflict, setHasConflict] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Último borrador para guardarlo si se cierra el panel antes del autoguardado
+  const pendingRef = useRef<string | null>(null);
+  // Versión del servidor sobre la que se edita: si otro guardó después, el
+  // guardado se rechaza en vez de pisar sus cambios
+  const baseRef = useRef(meeting.minutes_updated_at ?? null);
+
+  // Cambios de otros asistentes: solo si aquí no hay nada sin guardar
+  useEffect(() => {
+    if (isDirty) return;
+    setDraft(meeting.minutes || '');
+    baseRef.current = meeting.minutes_updated_at ?? null;
+  }, [meeting.minutes, meeting.minutes_updated_at, isDirty]);
+
+  useEffect(() => {
+    if (!isDirty || hasConflict) return;
+    const timeout = setTimeout(async () => {
+      setIsSaving(true);
+      const saved = draft;
+      const result = await saveMinutes(meeting.id, saved, baseRef.current);
+      setIsSaving(false);
+      setError(result.error);
+      if (result.conflict) {
+        setHasConflict(true);
+        return;
+      }
+      if (result.error) return;
+      baseRef.current = result.updatedAt ?? null;
+      // Si se siguió escribiendo mientras se guardaba, queda otro guardado pendiente
+      if (pendingRef.current === saved) {
+        pendingRef.current = null;
+        setIsDirty(false);
+      }
+    }, MINUTES_AUTOSAVE_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, isDirty, hasConflict, meeting.id, saveMinutes]);
+
+  useEffect(() => {
+    return () => {
+      if (pendingRef.current !== null) saveMinutes(meeting.id, pendingRef.current, baseRef.current);
+    };
+  }, [meeting.id, saveMinutes]);
+
+  const handleChange = (value: string) => {
+    pendingRef.current = value;
+    setDraft(value);
+    setIsDirty(true);
+  };
+
+  // Descartar lo propio y seguir desde la versión guardada por el otro asistente
+  const loadRemote = () => {
+    pendingRef.current = null;
+    setHasConflict(false);
+    setIsDirty(false);
+  };
+
+  // Guardar lo propio sobre la versión del otro asistente
+  const keepMine = () => {
+    baseRef.current = meeting.minutes_updated_at ?? null;
+    setHasConflict(false);
+  };
+
+  const editorName = members.find(m => m.id === meeting.minutes_updated_by)?.full_name;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {isSaving
+            ? 'Guardando...'
+            : hasConflict
+              ? 'Sin guardar: hay una versión más reciente'
+              : isDirty
+              ? 'Cambios sin guardar'
+              : meeting.minutes_updated_at
+                ? `Guardado ${format(parseISO(meeting.minutes_updated_at), "d MMM, HH:mm", { locale: es })}${editorName ? ` por ${editorName}` : ''}`
+                : 'Todos los asistentes pueden editar el acta'}
+        </span>
+        {!draft.trim() && (
+          <button
+            onClick={() => handleChange(minutesTemplate(meeting))}
+            className="text-blue-400 hover:text-blue-300"
+          >
+            Usar plantilla
+          </button>
+        )}
+      </div>
+      {hasConflict && (
+        <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm">
+          <p className="text-yellow-400 flex items-center gap-2">
+            <AlertTriangle size={16} />
+            {editorName ?? 'Otro asistente'} guardó el acta mientras editabas.
+          </p>
+          <div className="flex gap-3 mt-2">
+            <button onClick={loadRemote} className="text-blue-400 hover:text-blue-300">
+              Cargar su versión
+            </button>
+            <button onClick={keepMine} className="text-gray-400 hover:text-white">
+              Reemplazarla con la mía
+            </button>
+          </div>
+        </div>
+      )}
+      <MarkdownEditor
+        value={draft}
+        onChange={handleChange}
+        placeholder="Notas y decisiones de la reunión..."
+        rows={14}
+        className="bg-[#11111b]"
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+function ActionItemsTab({ meeting }: { meeting: Meeting }) {
+  const { createActionItem } = useMeetingsStore();
+  const { notes, updateNote } = useNotesStore();
+  const { members } = useTeamStore();
+  const [title, setTitle] = useState('');
+  const [assignedTo, setAssignedTo] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const actionItems = notes.filter(n => n.meeting_id === meeting.id);
+
+  // Primero los asistentes de la reunión
+  const attendeeIds = [meeting.created_by, ...(meeting.participants || []).map(p => p.user_id)];
+  const sortedMembers = [...members].sort(
+    (a, b) => Number(attendeeIds.includes(b.id)) - Number(attendeeIds.includes(a.id))
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    setIsCreating(true);
+    const result = await createActionItem(meeting, {
+      title: title.trim(),
+      assigned_to: assignedTo || null,
+      due_date: dueDate || null,
+    });
+    setIsCreating(false);
+    setError(result.error);
+    if (!result.error) {
+      setTitle('');
+      setAssignedTo('');
+      setDueDate('');
+    }
+  };
+
+  const toggleDone = async (noteId: string, completed: boolean) => {
+    const result = await updateNote(noteId, { status: completed ? 'pending' : 'completed' });
+    setError(result.error);
+  };
+
+  return (
+    <div className="space-y-4">
+      {actionItems.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Las acciones acordadas se crean como tareas con responsable y fecha de entrega.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {actionItems.map((note) => {
+            const completed = note.status === 'completed';
+            const assignee = members.find(m => m.id === note.assigned_to);
+            return (
+              <li
+                key={note.id}
+                className="flex items-center gap-3 bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2"
+              >
+                <button
+                  onClick={() => toggleDone(note.id, completed)}
+                  className={completed ? 'text-green-400' : 'text-gray-500 hover:text-white'}
+                  title={completed ? 'Marcar como pendiente' : 'Marcar como completada'}
+                >
+                  {completed ? <CheckCircle size={18} /> : <Circle size={18} />}
+                </button>
+                <Link
+                  to={`/notes/${note.id}`}
+                  className={`flex-1 text-sm hover:text-blue-400 ${completed ? 'text-gray-500 line-through' : 'text-white'}`}
+                >
+                  {note.title}
+                </Link>
+                <span className="text-xs text-gray-400">{assignee?.full_name || 'Sin asignar'}</span>
+                {note.due_date && (
+                  <span className="flex items-center gap-1 text-xs text-gray-400">
+                    <Calendar size={12} />
+                    {format(parseISO(note.due_date), 'd MMM', { locale: es })}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Nueva acción..."
+          className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex gap-2">
+          <select
+            value={assignedTo}
+            onChange={(e) => setAssignedTo(e.target.value)}
+            className="flex-1 bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:border-blue-500"
+          >
+            <option value="">Sin asignar</option>
+            {sortedMembers.map((member) => (
+              <option key={member.id} value={member.id}>{member.full_name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!title.trim() || isCreating}
+            className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Plus size={16} />
+            Crear tarea
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Check, HelpCircle, X } from 'lucide-react';
+import { useMeetingsStore } from '../store/meetingsStore';
+import { MeetingParticipant } from '../lib/supabase';
+
+type RsvpStatus = Extract<MeetingParticipant['status'], 'accepted' | 'tentative' | 'declined'>;
+
+const rsvpOptions: { status: RsvpStatus; label: string; icon: typeof Check; active: string }[] = [
+  { status: 'accepted', label: 'Aceptar', icon: Check, active: 'bg-green-500/20 text-green-400 border-green-500/40' },
+  { status: 'tentative', label: 'Tal vez', icon: HelpCircle, active: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/40' },
+  { status: 'declined', label: 'Rechazar', icon: X, active: 'bg-red-500/20 text-red-400 border-red-500/40' },
+];
+
+interface MeetingRsvpButtonsProps {
+  meetingId: string;
+  status?: MeetingParticipant['status'];
+  onResponded?: (status: RsvpStatus) => void;
+}
+
+// Respuesta del invitado a una reunión (tarjeta y notificación)
+export function MeetingRsvpButtons({ meetingId, status, onResponded }: MeetingRsvpButtonsProps) {
+  const updateParticipantStatus = useMeetingsStore((state) => state.updateParticipantStatus);
+  const [pending, setPending] = useState<RsvpStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Quien ya entró a la sala cuenta como aceptado
+  const current = status === 'joined' ? 'accepted' : status;
+
+  const respond = async (next: RsvpStatus) => {
+    if (next === current) return;
+    setPending(next);
+    const result = await updateParticipantStatus(meetingId, next);
+    setPending(null);
+    setError(result.error);
+    if (!result.error) onResponded?.(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {rsvpOptions.map(({ status: option, label, icon: Icon, active }) => (
+        <button
+          key={option}
+          onClick={(e) => {
+            e.stopPropagation();
+            respond(option);
+          }}
+          disabled={pending !== null}
+          className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-xs transition-colors disabled:opacity-50 ${
+            current === option
+              ? active
+              : 'border-gray-700 text-gray-400 hover:text-white hover:bg-[#1e1e2e]'
+          }`}
+        >
+          <Icon size={12} />
+          {label}
+        </button>
+      ))}
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { GitBranch, Plus, X, AlertTriangle, Ban, ArrowRight, Link2, Copy } from 'lucide-react';
+import { useDependenciesStore, getUnfinishedBlockers } from '../store/dependenciesStore';
+import { useNotesStore } from '../store/notesStore';
+import { useAuthStore } from '../store/authStore';
+import { Note, NoteDependency, NoteDependencyType } from '../lib/supabase';
+
+interface NoteDependenciesPanelProps {
+  noteId: string;
+}
+
+// Cómo se lee la relación desde la nota abierta
+type Relation = 'blocked_by' | 'blocks' | 'relates_to' | 'duplicates' | 'duplicated_by';
+
+const relationConfig: Record<Relation, { label: string; icon: typeof Ban; color: string }> = {
+  blocked_by: { label: 'Bloqueada por', icon: Ban, color: 'text-red-400' },
+  blocks: { label: 'Bloquea a', icon: ArrowRight, color: 'text-orange-400' },
+  relates_to: { label: 'Relacionada con', icon: Link2, color: 'text-blue-400' },
+  duplicates: { label: 'Duplica a', icon: Copy, color: 'text-purple-400' },
+  duplicated_by: { label: 'Duplicada por', icon: Copy, color: 'text-purple-400' },
+};
+
+// Relaciones que se pueden crear desde el formulario
+const creatableRelations: Relation[] = ['blocked_by', 'blocks', 'relates_to', 'duplicates'];
+
+const statusLabels: Record<Note['status'], string> = {
+  pending: 'Pendiente',
+  in_progress: 'En progreso',
+  completed: 'Completado',
+  cancelled: 'Cancelado',
+};
+
+const statusColors: Record<Note['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  in_progress: 'bg-blue-500/20 text-blue-400',
+  completed: 'bg-green-500/20 text-green-400',
+  cancelled: 'bg-gray-500/20 text-gray-400',
+};
+
+const relationFor = (dependency: NoteDependency, noteId: string): Relation => {
+  const isSource = dependency.source_id === noteId;
+  if (dependency.type === 'blocks') return isSource ? 'blocks' : 'blocked_by';
+  if (dependency.type === 'duplicates') return isSource ? 'duplicates' : 'duplicated_by';
+  return 'relates_to';
+};
+
+export function NoteDependenciesPanel({ noteId }: NoteDependenciesPanelProps) {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { notes } = useNotesStore();
+  const { dependencies, fetchDependencies, addDependency, removeDependency } = useDependenciesStore();
+
+  const [relation, setRelation] = useState<Relation>('blocked_by');
+  const [otherId, setOtherId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  const noteDependencies = dependencies.filter(
+    (d) => (d.source_id === noteId || d.target_id === noteId) && notes.some((n) => n.id === (d.source_id === noteId ? d.target_id : d.source_id))
+  );
+  const unfinishedBlockers = getUnfinishedBlockers(noteId, dependencies, notes);
+  const candidates = notes.filter((n) => n.id !== noteId);
+
+  const handleAdd = async () => {
+    if (!otherId || !user) return;
+    setError(null);
+
+    // "Bloqueada por X" se guarda como "X bloquea a esta nota"
+    const type: NoteDependencyType = relation === 'blocked_by' ? 'blocks' : relation as NoteDependencyType;
+    const [sourceId, targetId] = relation === 'blocked_by' ? [otherId, noteId] : [noteId, otherId];
+
+    const result = await addDependency(sourceId, targetId, type, user.id);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setOtherId('');
+  };
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    const result = await removeDependency(id);
+    if (result.error) setError(result.error);
+  };
+
+  return (
+    <div className="mt-8 p-6 bg-[#181825] rounded-xl border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <GitBranch size={20} />
+        Dependencias ({noteDependencies.length})
+      </h3>
+
+      {unfinishedBlockers.length > 0 && (
+        <div className="mb-4 flex items-start gap-2 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm text-yellow-400">
+          <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+          <span>
+            Esta tarea tiene {unfinishedBlockers.length}{' '}
+            {unfinishedBlockers.length === 1 ? 'bloqueo sin terminar' : 'bloqueos sin terminar'}.
+          </span>
+        </div>
+      )}
+
+      {/* Add dependency */}
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <select
+          value={relation}
+          onChange={(e) => setRelation(e.target.value as Relation)}
+          className="bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:border-blue-500"
+        >
+          {creatableRelations.map((value) => (
+            <option key={value} value={value}>{relationConfig[value].label}</option>
+          ))}
+        </select>
+        <select
+          value={otherId}
+          onChange={(e) => setOtherId(e.target.value)}
+          className="flex-1 min-w-0 bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:border-blue-500"
+        >
+          <option value="">Selecciona una nota...</option>
+          {candidates.map((note) => (
+            <option key={note.id} value={note.id}>{note.title}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!otherId}
+          className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
+        >
+          <Plus size={16} />
+          Agregar
+        </button>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-400">{error}</p>
+      )}
+
+      {noteDependencies.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">
+          Sin dependencias. Indica qué tareas bloquean o se relacionan con esta.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {noteDependencies.map((dependency) => {
+            const config = relationConfig[relationFor(dependency, noteId)];
+            const Icon = config.icon;
+            const other = notes.find((n) => n.id === (dependency.source_id === noteId ? dependency.target_id : dependency.source_id))!;
+            return (
+              <div
+                key={dependency.id}
+                className="flex items-center gap-3 p-3 bg-[#11111b] rounded-lg group"
+              >
+                <span className={`flex items-center gap-1.5 text-xs w-32 flex-shrink-0 ${config.color}`}>
+                  <Icon size={14} />
+                  {config.label}
+                </span>
+                <span
+                  onClick={() => navigate(`/notes/${other.id}`)}
+                  className="flex-1 min-w-0 truncate text-white cursor-pointer hover:text-blue-400 transition-colors"
+                >
+                  {other.title}
+                </span>
+                <span className={`text-xs px-2 py-1 rounded ${statusColors[other.status]}`}>
+                  {statusLabels[other.status]}
+                </span>
+                <button
+                  onClick={() => handleRemove(dependency.id)}
+                  className="p-1 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                  title="Quitar relación"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
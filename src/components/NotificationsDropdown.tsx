@@ -1,8 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Bell, MessageSquare, UserPlus, Check, Trash2, CheckCheck, Share2, Video } from 'lucide-react';
+import { Bell, MessageSquare, UserPlus, Check, Trash2, CheckCheck, Share2, Video, DollarSign, AlarmClock } from 'lucide-react';
 import { useNotificationsStore } from '../store/notificationsStore';
 import { useAuthStore } from '../store/authStore';
+import { useMeetingsStore } from '../store/meetingsStore';
+import { MeetingRsvpButtons } from './MeetingRsvpButtons';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { Notification } from '../lib/supabase';
@@ -14,6 +16,8 @@ const typeIcons: Record<Notification['type'], any> = {
   mention: MessageSquare,
   share: Share2,
   meeting_invite: Video,
+  meeting_reminder: AlarmClock,
+  expense_review: DollarSign,
 };
 
 const typeColors: Record<Notification['type'], string> = {
@@ -23,6 +27,8 @@ const typeColors: Record<Notification['type'], string> = {
   mention: 'bg-purple-500',
   share: 'bg-indigo-500',
   meeting_invite: 'bg-teal-500',
+  meeting_reminder: 'bg-orange-500',
+  expense_review: 'bg-emerald-500',
 };
 
 export function NotificationsDropdown() {
@@ -39,6 +45,7 @@ export function NotificationsDropdown() {
     deleteNotification,
     subscribeToNotifications 
   } = useNotificationsStore();
+  const meetings = useMeetingsStore((state) => state.meetings);
 
   useEffect(() => {
     if (user?.id) {
@@ -63,8 +70,12 @@ export function NotificationsDropdown() {
     await markAsRead(notification.id);
     
     // Navegar según el tipo de notificación
-    if (notification.type === 'meeting_invite') {
+    if (notification.type === 'meeting_invite' || notification.type === 'meeting_reminder') {
       navigate('/meetings');
+    } else if (notification.type === 'expense_review' || notification.expense_id) {
+      navigate('/expenses');
+    } else if (notification.channel_id) {
+      navigate(`/chat?channel=${notification.channel_id}`);
     } else if (notification.type === 'share' || notification.personal_note_id) {
       navigate('/notepad');
     } else if (notification.note_id) {
@@ -152,6 +163,17 @@ export function NotificationsDropdown() {
                       <p className="text-xs text-gray-600 mt-1">
                         {format(new Date(notification.created_at), "d MMM 'a las' HH:mm", { locale: es })}
                       </p>
+                      {notification.type === 'meeting_invite' && notification.meeting_id && (
+                        <div className="mt-2">
+                          <MeetingRsvpButtons
+                            meetingId={notification.meeting_id}
+                            status={meetings
+                              .find(m => m.id === notification.meeting_id)
+                              ?.participants?.find(p => p.user_id === user?.id)?.status}
+                            onResponded={() => !notification.read && markAsRead(notification.id)}
+                          />
+                        </div>
+                      )}
                     </div>
                     {!notification.read && (
                       <div className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0 mt-2" />
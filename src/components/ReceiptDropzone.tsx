@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import { Paperclip, Upload, X } from 'lucide-react';
+import { RECEIPT_ACCEPT, validateReceipt } from '../store/expensesStore';
+
+interface ReceiptDropzoneProps {
+  file: File | null;
+  // Comprobante ya guardado (al editar); se oculta si se elige otro o se quita
+  hasExisting: boolean;
+  onFileChange: (file: File | null) => void;
+  onRemoveExisting: () => void;
+}
+
+export function ReceiptDropzone({ file, hasExisting, onFileChange, onRemoveExisting }: ReceiptDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    const invalid = validateReceipt(selected);
+    setError(invalid);
+    if (!invalid) onFileChange(selected);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectFile(e.dataTransfer.files?.[0]);
+  };
+
+  const current = file?.name || (hasExisting ? 'Comprobante adjunto' : null);
+
+  return (
+    <div>
+      {current ? (
+        <div className="flex items-center gap-3 bg-[#11111b] border border-gray-700 rounded-lg px-4 py-3">
+          <Paperclip size={16} className="text-blue-400 flex-shrink-0" />
+          <span className="flex-1 text-sm text-white truncate">{current}</span>
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="text-sm text-gray-400 hover:text-white"
+          >
+            Cambiar
+          </button>
+          <button
+            type="button"
+            onClick={() => (file ? onFileChange(null) : onRemoveExisting())}
+            className="p-1 rounded hover:bg-[#181825] text-gray-400 hover:text-red-400"
+            title="Quitar comprobante"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ) : (
+        <div
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg px-4 py-6 cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          <Upload size={20} className="text-gray-500" />
+          <p className="text-sm text-gray-400">Arrastra el comprobante aquí o haz clic para elegirlo</p>
+          <p className="text-xs text-gray-500">Imagen o PDF, máximo 10MB</p>
+        </div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={RECEIPT_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          selectFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { ExternalLink, FileText } from 'lucide-react';
+import { useExpensesStore, isPdfReceipt } from '../store/expensesStore';
+
+interface ReceiptPreviewProps {
+  path: string;
+  className?: string;
+}
+
+// Vista previa de un comprobante (imagen o PDF) a partir de su URL firmada
+export function ReceiptPreview({ path, className = '' }: ReceiptPreviewProps) {
+  const { getReceiptUrl } = useExpensesStore();
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getReceiptUrl(path).then((signedUrl) => {
+      if (cancelled) return;
+      setUrl(signedUrl);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path, getReceiptUrl]);
+
+  if (isLoading) {
+    return (
+      <div className={`flex items-center justify-center bg-[#11111b] rounded-lg border border-gray-700 h-48 ${className}`}>
+        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className={`flex items-center justify-center bg-[#11111b] rounded-lg border border-gray-700 h-24 text-sm text-gray-500 ${className}`}>
+        No se pudo cargar el comprobante
+      </div>
+    );
+  }
+
+  const isPdf = isPdfReceipt(path);
+
+  return (
+    <div className={className}>
+      {isPdf ? (
+        <iframe
+          src={url}
+          title="Comprobante"
+          className="w-full h-96 bg-white rounded-lg border border-gray-700"
+        />
+      ) : (
+        <img
+          src={url}
+          alt="Comprobante"
+          className="w-full max-h-96 object-contain bg-[#11111b] rounded-lg border border-gray-700"
+        />
+      )}
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1.5 mt-2 text-sm text-blue-400 hover:text-blue-300"
+      >
+        {isPdf ? <FileText size={14} /> : <ExternalLink size={14} />}
+        Abrir en una pestaña nueva
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import { Edit, Pause, Play, Plus, Repeat, Trash2, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useRecurringExpensesStore, frequencyLabels } from '../store/recurringExpensesStore';
+import { useExpensesStore } from '../store/expensesStore';
+import { useAuthStore } from '../store/authStore';
+import { RecurringExpense } from '../lib/supabase';
+import { CURRENCIES, formatCurrency } from '../lib/currency';
+
+interface RecurringExpensesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyForm = () => ({
+  description: '',
+  amount: '',
+  currency: 'COP',
+  category_id: '',
+  vendor: '',
+  frequency: 'monthly' as RecurringExpense['frequency'],
+  start_date: new Date().toISOString().split('T')[0],
+  end_date: '',
+});
+
+// Gestión de plantillas de gastos recurrentes (suscripciones, servicios...)
+export function RecurringExpensesModal({ isOpen, onClose }: RecurringExpensesModalProps) {
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = useRecurringExpensesStore();
+  const { categories } = useExpensesStore();
+  const { user, can } = useAuthStore();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const canModify = (template: RecurringExpense) => can('approve_expenses') || template.created_by === user?.id;
+  const sortedTemplates = [...templates].sort((a, b) =>
+    Number(b.active) - Number(a.active) || a.next_due_date.localeCompare(b.next_due_date)
+  );
+
+  const openForm = (template?: RecurringExpense) => {
+    setError(null);
+    setEditingId(template?.id || null);
+    setForm(template
+      ? {
+          description: template.description,
+          amount: template.amount.toLocaleString('es-CO'),
+          currency: template.currency,
+          category_id: template.category_id || '',
+          vendor: template.vendor || '',
+          frequency: template.frequency,
+          start_date: template.start_date,
+          end_date: template.end_date || '',
+        }
+      : emptyForm());
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const data = {
+      description: form.description.trim(),
+      amount: parseInt(form.amount.replace(/\./g, ''), 10) || 0,
+      currency: form.currency,
+      category_id: form.category_id || null,
+      vendor: form.vendor.trim() || null,
+      frequency: form.frequency,
+      start_date: form.start_date,
+      end_date: form.end_date || null,
+    };
+    if (data.amount <= 0) {
+      setError('El monto debe ser mayor que cero');
+      return;
+    }
+
+    const result = editingId
+      ? await updateTemplate(editingId, data)
+      : await createTemplate({ ...data, payment_method: 'card', active: true });
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const runAction = async (action: Promise<{ error: string | null }>) => {
+    const result = await action;
+    setError(result.error);
+  };
+
+  const inputClass =
+    'w-full bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+              <Repeat size={22} className="text-blue-400" />
+              Gastos Recurrentes
+            </h2>
+            <p className="text-sm text-gray-400 mt-1">
+              En cada vencimiento se registra automáticamente un gasto pendiente
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {showForm ? (
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Descripción *</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                  placeholder="Ej: Suscripción GitHub"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm text-gray-400 mb-2">Monto *</label>
+                  <input
+                    type="text"
+                    value={form.amount}
+                    onChange={(e) => {
+                      const value = e.target.value.replace(/\D/g, '');
+                      setForm({ ...form, amount: value ? parseInt(value, 10).toLocaleString('es-CO') : '' });
+                    }}
+                    className={inputClass}
+                    placeholder="10.000"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Moneda</label>
+                  <select
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                    className={inputClass}
+                  >
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Categoría</label>
+                  <select
+                    value={form.category_id}
+                    onChange={(e) => setForm({ ...form, category_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Sin categoría</option>
+                    {categories.map(cat => (
+                      <option key={cat.id} value={cat.id}>{cat.icon} {cat.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Proveedor</label>
+                  <input
+                    type="text"
+                    value={form.vendor}
+                    onChange={(e) => setForm({ ...form, vendor: e.target.value })}
+                    className={inputClass}
+                    placeholder="Nombre del proveedor"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Frecuencia</label>
+                  <select
+                    value={form.frequency}
+                    onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurringExpense['frequency'] })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(frequencyLabels) as RecurringExpense['frequency'][]).map(f => (
+                      <option key={f} value={f}>{frequencyLabels[f]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Inicio *</label>
+                  <input
+                    type="date"
+                    value={form.start_date}
+                    onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">Fin</label>
+                  <input
+                    type="date"
+                    value={form.end_date}
+                    min={form.start_date}
+                    onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {editingId ? 'Guardar Cambios' : 'Crear'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="p-6 space-y-3">
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              {sortedTemplates.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No hay gastos recurrentes</p>
+              ) : (
+                sortedTemplates.map(template => {
+                  const category = categories.find(c => c.id === template.category_id);
+                  const finished = !!template.end_date && template.next_due_date > template.end_date;
+                  return (
+                    <div
+                      key={template.id}
+                      className={`flex items-center gap-4 p-4 rounded-lg border border-gray-700 bg-[#11111b] ${
+                        template.active && !finished ? '' : 'opacity-60'
+                      }`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white font-medium truncate">
+                          {category?.icon} {template.description}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {frequencyLabels[template.frequency]}
+                          {template.vendor && ` · ${template.vendor}`}
+                          {' · '}
+                          {finished
+                            ? 'Finalizado'
+                            : !template.active
+                              ? 'Pausado'
+                              : `Próximo: ${format(parseISO(template.next_due_date), "d MMM yyyy", { locale: es })}`}
+                          {template.end_date && !finished && ` · hasta ${format(parseISO(template.end_date), "d MMM yyyy", { locale: es })}`}
+                        </p>
+                      </div>
+                      <span className="text-white font-semibold whitespace-nowrap">
+                        {formatCurrency(template.amount, template.currency)}
+                      </span>
+                      {canModify(template) && (
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => runAction(updateTemplate(template.id, { active: !template.active }))}
+                            className="p-2 rounded-lg hover:bg-[#181825] text-gray-400 hover:text-white"
+                            title={template.active ? 'Pausar' : 'Reanudar'}
+                          >
+                            {template.active ? <Pause size={16} /> : <Play size={16} />}
+                          </button>
+                          <button
+                            onClick={() => openForm(template)}
+                            className="p-2 rounded-lg hover:bg-[#181825] text-gray-400 hover:text-white"
+                            title="Editar"
+                          >
+                            <Edit size={16} />
+                          </button>
+                          <button
+                            onClick={() => runAction(deleteTemplate(template.id))}
+                            className="p-2 rounded-lg hover:bg-[#181825] text-gray-400 hover:text-red-400"
+                            title="Eliminar (los gastos ya generados se conservan)"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+
+              <button
+                onClick={() => openForm()}
+                className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+              >
+                <Plus size={18} />
+                Nuevo gasto recurrente
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Square, Timer } from 'lucide-react';
+import { useTimeEntriesStore } from '../store/timeEntriesStore';
+import { useNotesStore } from '../store/notesStore';
+import { useAuthStore } from '../store/authStore';
+
+// hh:mm:ss desde el inicio del temporizador
+function formatElapsed(startTime: string, now: number) {
+  const totalSeconds = Math.max(0, Math.floor((now - new Date(startTime).getTime()) / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return [h, m, s].map(v => v.toString().padStart(2, '0')).join(':');
+}
+
+export function RunningTimer() {
+  const { user } = useAuthStore();
+  const { notes } = useNotesStore();
+  const { activeEntry, fetchActiveEntry, stopTimer } = useTimeEntriesStore();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchActiveEntry();
+    }
+  }, [user?.id, fetchActiveEntry]);
+
+  // Refrescar el contador cada segundo mientras haya un temporizador activo
+  useEffect(() => {
+    if (!activeEntry) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeEntry]);
+
+  if (!activeEntry) return null;
+
+  const noteTitle = activeEntry.note?.title
+    || notes.find(n => n.id === activeEntry.note_id)?.title
+    || 'Tarea';
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="flex items-center gap-3 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
+        <Timer size={18} className="text-green-400 animate-pulse flex-shrink-0" />
+        <Link to={`/notes/${activeEntry.note_id}`} className="flex-1 min-w-0 group">
+          <p className="text-xs text-gray-400 truncate group-hover:text-white">{noteTitle}</p>
+          <p className="text-sm font-mono text-green-400">{formatElapsed(activeEntry.start_time, now)}</p>
+        </Link>
+        <button
+          onClick={() => stopTimer()}
+          className="p-1.5 rounded hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors"
+          title="Detener temporizador"
+        >
+          <Square size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { NavLink, useNavigate } from 'react-router-dom';
 import {
   LayoutDashboard,
@@ -12,14 +13,21 @@ import {
   MessageSquare,
   Kanban,
   DollarSign,
+  GanttChart,
+  Target,
 } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
+import { useChatStore } from '../store/chatStore';
 import { NotificationsDropdown } from './NotificationsDropdown';
+import { RunningTimer } from './RunningTimer';
+import { ConnectionStatus } from './ConnectionStatus';
 
 const navItems = [
   { to: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
   { to: '/notes', icon: ClipboardList, label: 'Gestión' },
   { to: '/kanban', icon: Kanban, label: 'Kanban' },
+  { to: '/sprints', icon: Target, label: 'Sprints' },
+  { to: '/timeline', icon: GanttChart, label: 'Timeline' },
   { to: '/calendar', icon: Calendar, label: 'Calendario' },
   { to: '/meetings', icon: Video, label: 'Reuniones' },
   { to: '/chat', icon: MessageSquare, label: 'Chat' },
@@ -31,8 +39,19 @@ const navItems = [
 
 export function Sidebar() {
   const { user, logout } = useAuthStore();
+  const { unreadCounts, mentionCounts, fetchUnreadCounts, subscribeToUnread } = useChatStore();
   const navigate = useNavigate();
 
+  // Mensajes sin leer de todos los canales, para el badge del Chat
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchUnreadCounts();
+    return subscribeToUnread();
+  }, [user?.id, fetchUnreadCounts, subscribeToUnread]);
+
+  const chatUnread = Object.values(unreadCounts).reduce((sum, n) => sum + n, 0);
+  const chatMentions = Object.values(mentionCounts).reduce((sum, n) => sum + n, 0);
+
   const handleLogout = async () => {
     await logout();
     navigate('/login');
@@ -76,6 +95,9 @@ export function Sidebar() {
         </NavLink>
       </div>
 
+      {/* Temporizador activo */}
+      <RunningTimer />
+
       {/* Navigation */}
       <nav className="flex-1 p-2 overflow-y-auto">
         {navItems.map((item) => (
@@ -92,12 +114,20 @@ export function Sidebar() {
           >
             <item.icon size={20} />
             <span>{item.label}</span>
+            {item.to === '/chat' && chatUnread > 0 && (
+              <span className={`ml-auto px-1.5 min-w-[20px] text-center rounded-full text-xs font-medium text-white ${
+                chatMentions > 0 ? 'bg-red-500' : 'bg-gray-600'
+              }`}>
+                {chatUnread > 99 ? '99+' : chatUnread}
+              </span>
+            )}
           </NavLink>
         ))}
       </nav>
 
       {/* Bottom actions */}
       <div className="p-2 border-t border-gray-700">
+        <ConnectionStatus />
         <NavLink
           to="/settings"
           className="flex items-center gap-3 px-4 py-2.5 rounded-lg text-gray-400 hover:text-white hover:bg-[#1e1e2e] transition-colors"
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { GitMerge, Monitor, Cloud } from 'lucide-react';
+import { useOutboxStore, OutboxConflict } from '../store/outboxStore';
+import { useNotesStore } from '../store/notesStore';
+import { usePersonalNotesStore } from '../store/personalNotesStore';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+const statusLabels: Record<string, string> = {
+  pending: 'Pendiente',
+  in_progress: 'En progreso',
+  completed: 'Completado',
+  cancelled: 'Cancelado',
+};
+
+function VersionCard({
+  label,
+  icon: Icon,
+  record,
+  emptyText,
+}: {
+  label: string;
+  icon: typeof Monitor;
+  record: Record<string, any> | null;
+  emptyText: string;
+}) {
+  return (
+    <div className="flex-1 min-w-0 p-4 bg-[#11111b] rounded-lg border border-gray-700">
+      <p className="text-xs text-gray-400 mb-2 flex items-center gap-1.5">
+        <Icon size={14} />
+        {label}
+        {record?.updated_at && (
+          <span className="text-gray-600">
+            · {format(new Date(record.updated_at), "d MMM, HH:mm", { locale: es })}
+          </span>
+        )}
+      </p>
+      {record ? (
+        <>
+          <p className="text-white font-medium truncate">{record.title}</p>
+          {record.status && (
+            <p className="text-xs text-gray-400 mt-1">Estado: {statusLabels[record.status] || record.status}</p>
+          )}
+          <p className="text-sm text-gray-400 mt-2 whitespace-pre-wrap line-clamp-6">{record.content}</p>
+        </>
+      ) : (
+        <p className="text-sm text-red-400">{emptyText}</p>
+      )}
+    </div>
+  );
+}
+
+export function SyncConflictsModal() {
+  const { conflicts } = useOutboxStore();
+  const resolveNoteConflict = useNotesStore((state) => state.resolveConflict);
+  const resolvePersonalConflict = usePersonalNotesStore((state) => state.resolveConflict);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (conflicts.length === 0) return null;
+
+  // Se resuelven de uno en uno, en el orden en que se detectaron
+  const conflict = conflicts[0];
+
+  const handleResolve = async (target: OutboxConflict, keep: 'local' | 'remote') => {
+    setIsResolving(true);
+    setError(null);
+    const resolve = target.entry.table === 'notes' ? resolveNoteConflict : resolvePersonalConflict;
+    const result = await resolve(target, keep);
+    setIsResolving(false);
+    if (result.error) setError(result.error);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+      <div className="relative bg-[#181825] rounded-xl border border-gray-700 shadow-2xl w-full max-w-3xl mx-4 overflow-hidden">
+        <div className="flex items-center gap-3 p-4 border-b border-gray-700">
+          <div className="w-10 h-10 rounded-full bg-yellow-500/20 text-yellow-400 flex items-center justify-center">
+            <GitMerge size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Conflicto de sincronización</h3>
+            <p className="text-sm text-gray-400">
+              {conflict.entry.table === 'notes' ? 'Esta nota' : 'Este notepad'} cambió en el servidor mientras
+              trabajabas sin conexión. Elige qué versión conservar.
+              {conflicts.length > 1 && ` (${conflicts.length - 1} más pendientes)`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 flex flex-col md:flex-row gap-4">
+          <VersionCard
+            label="Tu versión"
+            icon={Monitor}
+            record={conflict.local}
+            emptyText="La eliminaste sin conexión"
+          />
+          <VersionCard
+            label="Versión del servidor"
+            icon={Cloud}
+            record={conflict.remote}
+            emptyText="Otro usuario la eliminó"
+          />
+        </div>
+
+        {error && <p className="px-6 pb-4 text-sm text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-3 p-4 bg-[#11111b] border-t border-gray-700">
+          <button
+            onClick={() => handleResolve(conflict, 'remote')}
+            disabled={isResolving}
+            className="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-[#1e1e2e] border border-gray-700 transition-colors disabled:opacity-50"
+          >
+            Usar versión del servidor
+          </button>
+          <button
+            onClick={() => handleResolve(conflict, 'local')}
+            disabled={isResolving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isResolving && (
+              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            )}
+            Mantener mi versión
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
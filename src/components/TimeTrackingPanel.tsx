@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import { Timer, Play, Square, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { useTimeEntriesStore, getEntryMinutes, formatMinutes } from '../store/timeEntriesStore';
+import { useAuthStore } from '../store/authStore';
+import { TimeEntry } from '../lib/supabase';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface TimeTrackingPanelProps {
+  noteId: string;
+  estimatedHours?: number | null;
+}
+
+// Valor para <input type="datetime-local"> en hora local
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+const emptyForm = () => {
+  const now = new Date();
+  return {
+    start_time: toLocalInput(new Date(now.getTime() - 60 * 60 * 1000).toISOString()),
+    end_time: toLocalInput(now.toISOString()),
+    description: '',
+  };
+};
+
+export function TimeTrackingPanel({ noteId, estimatedHours }: TimeTrackingPanelProps) {
+  const { user, isDemoMode } = useAuthStore();
+  const {
+    entries,
+    activeEntry,
+    fetchEntries,
+    startTimer,
+    stopTimer,
+    addManualEntry,
+    updateEntry,
+    deleteEntry,
+  } = useTimeEntriesStore();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEntries(noteId);
+  }, [noteId, fetchEntries]);
+
+  const noteEntries = entries
+    .filter(e => e.note_id === noteId)
+    .sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
+  const isRunningHere = activeEntry?.note_id === noteId;
+
+  const loggedMinutes = noteEntries.reduce((sum, e) => sum + getEntryMinutes(e), 0);
+  const estimatedMinutes = estimatedHours ? estimatedHours * 60 : 0;
+  const progress = estimatedMinutes > 0 ? (loggedMinutes / estimatedMinutes) * 100 : 0;
+  const isOverEstimate = estimatedMinutes > 0 && loggedMinutes > estimatedMinutes;
+
+  const handleToggleTimer = async () => {
+    setError(null);
+    const result = isRunningHere ? await stopTimer() : await startTimer(noteId);
+    if (result.error) setError(result.error);
+  };
+
+  const openNewEntry = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setShowForm(true);
+    setError(null);
+  };
+
+  const openEditEntry = (entry: TimeEntry) => {
+    setEditingId(entry.id);
+    setForm({
+      start_time: toLocalInput(entry.start_time),
+      end_time: entry.end_time ? toLocalInput(entry.end_time) : '',
+      description: entry.description || '',
+    });
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.start_time || !form.end_time) {
+      setError('Indica la hora de inicio y de fin');
+      return;
+    }
+
+    const payload = {
+      start_time: new Date(form.start_time).toISOString(),
+      end_time: new Date(form.end_time).toISOString(),
+      // null para poder borrar la descripción al editar
+      description: form.description.trim() || null,
+    };
+
+    const result = editingId
+      ? await updateEntry(editingId, payload)
+      : await addManualEntry({ note_id: noteId, ...payload });
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setShowForm(false);
+    setEditingId(null);
+    setError(null);
+  };
+
+  return (
+    <div className="mt-8 p-6 bg-[#181825] rounded-xl border border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Timer size={20} />
+          Registro de Tiempo
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={openNewEntry}
+            className="flex items-center gap-2 px-3 py-1.5 border border-gray-600 text-gray-400 hover:text-white hover:border-gray-500 text-sm rounded-lg transition-colors"
+          >
+            <Plus size={16} />
+            Entrada manual
+          </button>
+          <button
+            onClick={handleToggleTimer}
+            className={`flex items-center gap-2 px-3 py-1.5 text-white text-sm rounded-lg transition-colors ${
+              isRunningHere ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+            }`}
+          >
+            {isRunningHere ? <Square size={16} /> : <Play size={16} />}
+            {isRunningHere ? 'Detener' : 'Iniciar'}
+          </button>
+        </div>
+      </div>
+
+      {/* Estimado vs. registrado */}
+      <div className="p-4 bg-[#11111b] rounded-lg mb-4">
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="text-gray-400">Estimado vs. registrado</span>
+          <span className={isOverEstimate ? 'text-red-400 font-medium' : 'text-white'}>
+            {formatMinutes(loggedMinutes)}
+            {' / '}
+            {estimatedMinutes > 0 ? formatMinutes(estimatedMinutes) : 'sin estimar'}
+          </span>
+        </div>
+        {estimatedMinutes > 0 ? (
+          <>
+            <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${
+                  isOverEstimate ? 'bg-red-500' : progress >= 80 ? 'bg-yellow-500' : 'bg-green-500'
+                }`}
+                style={{ width: `${Math.min(progress, 100)}%` }}
+              />
+            </div>
+            <p className={`text-xs mt-2 ${isOverEstimate ? 'text-red-400' : 'text-gray-500'}`}>
+              {isOverEstimate
+                ? `Excede la estimación en ${formatMinutes(loggedMinutes - estimatedMinutes)}`
+                : `${Math.round(progress)}% de la estimación · quedan ${formatMinutes(estimatedMinutes - loggedMinutes)}`}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-gray-500">Agrega horas estimadas para comparar con el tiempo real.</p>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-400 mb-4">{error}</p>
+      )}
+
+      {/* Formulario de entrada manual / edición */}
+      {showForm && (
+        <div className="p-4 bg-[#11111b] rounded-lg mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Inicio</label>
+              <input
+                type="datetime-local"
+                value={form.start_time}
+                onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                className="w-full bg-[#181825] border border-gray-700 rounded-lg py-2 px-3 text-white focus:outline-none focus:border-blue-500 transition-colors"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Fin</label>
+              <input
+                type="datetime-local"
+                value={form.end_time}
+                onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                className="w-full bg-[#181825] border border-gray-700 rounded-lg py-2 px-3 text-white focus:outline-none focus:border-blue-500 transition-colors"
+              />
+            </div>
+          </div>
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="¿En qué trabajaste? (opcional)"
+            className="w-full bg-[#181825] border border-gray-700 rounded-lg py-2 px-3 text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 transition-colors"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setShowForm(false); setEditingId(null); setError(null); }}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-gray-400 hover:text-white transition-colors text-sm"
+            >
+              <X size={16} />
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm"
+            >
+              <Check size={16} />
+              {editingId ? 'Guardar' : 'Agregar'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Lista de entradas */}
+      {noteEntries.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">
+          Aún no se ha registrado tiempo en esta tarea.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {noteEntries.map((entry) => {
+            const isRunning = !entry.end_time;
+            return (
+              <div key={entry.id} className="flex items-center gap-3 p-3 bg-[#11111b] rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white">
+                    {format(new Date(entry.start_time), "d MMM yyyy, HH:mm", { locale: es })}
+                    {entry.end_time && ` – ${format(new Date(entry.end_time), 'HH:mm')}`}
+                  </p>
+                  {entry.description && (
+                    <p className="text-xs text-gray-500 truncate">{entry.description}</p>
+                  )}
+                </div>
+                <span className={`text-sm font-medium ${isRunning ? 'text-green-400' : 'text-gray-300'}`}>
+                  {isRunning ? 'En curso' : formatMinutes(getEntryMinutes(entry))}
+                </span>
+                {entry.user_id === user?.id || isDemoMode ? (
+                  <div className="flex gap-1">
+                    {!isRunning && (
+                      <button
+                        onClick={() => openEditEntry(entry)}
+                        className="p-1.5 rounded hover:bg-[#1e1e2e] text-gray-400 hover:text-white transition-colors"
+                        title="Editar entrada"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => deleteEntry(entry.id)}
+                      className="p-1.5 rounded hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors"
+                      title="Eliminar entrada"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { addMinutes, endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { Meeting, Note, Sprint } from './supabase';
+
+// Fuentes que se pueden mostrar u ocultar en el calendario
+export type CalendarSource = 'meetings' | 'sprints' | 'notes';
+
+export const calendarSources: { source: CalendarSource; label: string; color: string }[] = [
+  { source: 'meetings', label: 'Reuniones', color: 'bg-emerald-500' },
+  { source: 'sprints', label: 'Sprints', color: 'bg-indigo-500' },
+  { source: 'notes', label: 'Fechas de entrega', color: 'bg-blue-500' },
+];
+
+export interface CalendarEvent {
+  id: string;
+  source: CalendarSource;
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  href: string;
+  meeting?: Meeting;
+  sprint?: Sprint;
+  note?: Note;
+}
+
+// Reuniones con su duración, sprints de inicio a fin (ambos días incluidos)
+// y notas en su fecha de entrega
+export function buildCalendarEvents(meetings: Meeting[], sprints: Sprint[], notes: Note[]): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  meetings.forEach((meeting) => {
+    const start = parseISO(meeting.scheduled_at);
+    events.push({
+      id: `meeting-${meeting.id}`,
+      source: 'meetings',
+      title: meeting.title,
+      start,
+      end: addMinutes(start, meeting.duration_minutes || 60),
+      allDay: false,
+      href: '/meetings',
+      meeting,
+    });
+  });
+
+  sprints.forEach((sprint) => {
+    events.push({
+      id: `sprint-${sprint.id}`,
+      source: 'sprints',
+      title: sprint.name,
+      start: startOfDay(parseISO(sprint.start_date)),
+      end: endOfDay(parseISO(sprint.end_date)),
+      allDay: true,
+      href: `/sprints?id=${sprint.id}`,
+      sprint,
+    });
+  });
+
+  notes.forEach((note) => {
+    if (!note.due_date) return;
+    const day = parseISO(note.due_date);
+    events.push({
+      id: `note-${note.id}`,
+      source: 'notes',
+      title: note.title,
+      start: startOfDay(day),
+      end: endOfDay(day),
+      allDay: true,
+      href: `/notes/${note.id}`,
+      note,
+    });
+  });
+
+  return events;
+}
+
+// Eventos que tocan un día: primero los de día completo (sprints antes que
+// entregas) y después las reuniones por hora
+export function getEventsForDay(events: CalendarEvent[], day: Date): CalendarEvent[] {
+  const dayStart = startOfDay(day);
+  const dayEnd = endOfDay(day);
+  const order: Record<CalendarSource, number> = { sprints: 0, notes: 1, meetings: 2 };
+  return events
+    .filter(e => e.start <= dayEnd && e.end > dayStart)
+    .sort((a, b) => order[a.source] - order[b.source] || a.start.getTime() - b.start.getTime());
+}
+
+// Nueva fecha de una reunión arrastrada: el día de destino y, si no se
+// indica, la misma hora que tenía
+export function rescheduleMeetingDate(meeting: Meeting, day: Date, minutesFromMidnight?: number): string {
+  const previous = parseISO(meeting.scheduled_at);
+  const minutes = minutesFromMidnight ?? previous.getHours() * 60 + previous.getMinutes();
+  return addMinutes(startOfDay(day), minutes).toISOString();
+}
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
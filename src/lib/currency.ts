@@ -0,0 +1,66 @@
+import { ExchangeRate } from './supabase';
+
+// Monedas disponibles en los gastos (deben coincidir con el formulario)
+export const CURRENCIES = ['COP', 'USD', 'EUR', 'MXN'] as const;
+
+export const currencyLabels: Record<string, string> = {
+  COP: 'COP ($)',
+  USD: 'USD ($)',
+  EUR: 'EUR (€)',
+  MXN: 'MXN ($)',
+};
+
+// El COP se muestra sin decimales; el resto con el formato estándar
+export function formatCurrency(amount: number, currency: string = 'COP'): string {
+  if (currency === 'COP') {
+    return '$ ' + new Intl.NumberFormat('es-CO', { maximumFractionDigits: 0 }).format(amount);
+  }
+  return new Intl.NumberFormat('es-CO', { style: 'currency', currency }).format(amount);
+}
+
+// Tasa vigente de un par en una fecha: la más reciente en o antes de esa
+// fecha; si la fecha es anterior a todas, la más antigua registrada.
+function pickRate(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  const pair = rates
+    .filter(r => r.from_currency === from && r.to_currency === to)
+    .sort((a, b) => b.rate_date.localeCompare(a.rate_date));
+  if (pair.length === 0) return null;
+  return (pair.find(r => r.rate_date <= date) || pair[pair.length - 1]).rate;
+}
+
+// Par directo o, si no existe, el inverso
+function pairRate(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  const direct = pickRate(rates, from, to, date);
+  if (direct) return direct;
+  const inverse = pickRate(rates, to, from, date);
+  return inverse ? 1 / inverse : null;
+}
+
+// Tasa para convertir from → to en una fecha (yyyy-MM-dd). Si no hay par
+// directo se cruza a través de otra moneda (p. ej. EUR → COP → USD).
+export function getExchangeRate(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+
+  const rate = pairRate(rates, from, to, date);
+  if (rate) return rate;
+
+  for (const pivot of CURRENCIES) {
+    if (pivot === from || pivot === to) continue;
+    const first = pairRate(rates, from, pivot, date);
+    const second = first ? pairRate(rates, pivot, to, date) : null;
+    if (first && second) return first * second;
+  }
+  return null;
+}
+
+// Convierte un monto; null si no hay tasa registrada para el par
+export function convertAmount(
+  rates: ExchangeRate[],
+  amount: number,
+  from: string,
+  to: string,
+  date: string,
+): number | null {
+  const rate = getExchangeRate(rates, from, to, date);
+  return rate === null ? null : amount * rate;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import writeXlsxFile from 'write-excel-file/browser';
+import { buildImportRows, guessMapping, readSpreadsheet } from './expenseImport';
+import { Expense } from './supabase';
+
+const existing = [{
+  id: 'exp-1',
+  description: 'Hosting',
+  amount: 120000,
+  currency: 'COP',
+  expense_date: '2026-03-05',
+  invoice_number: 'FV-100',
+  status: 'pending',
+  created_at: '2026-03-05T00:00:00Z',
+  updated_at: '2026-03-05T00:00:00Z',
+}] as Expense[];
+
+const importRows = (rows: string[][]) => {
+  const all = [['Fecha', 'Descripción', 'Monto', 'N° Factura'], ...rows];
+  return buildImportRows(all, guessMapping(all[0]), { hasHeader: true, defaultCurrency: 'COP', existing });
+};
+
+describe('buildImportRows', () => {
+  it('marca como duplicada la misma factura, fecha y monto', () => {
+    const [row] = importRows([['05/03/2026', 'Hosting marzo', '120.000', 'FV-100']]);
+    expect(row.status).toBe('duplicate');
+  });
+
+  it('no marca la misma factura en otra fecha', () => {
+    const [row] = importRows([['06/03/2026', 'Hosting', '120.000', 'FV-100']]);
+    expect(row.status).toBe('ok');
+  });
+
+  it('sin factura compara fecha y monto', () => {
+    const rows = importRows([
+      ['07/03/2026', 'Café', '8.000', ''],
+      ['07/03/2026', 'Taxi', '8.000', ''],
+    ]);
+    expect(rows.map(r => r.status)).toEqual(['ok', 'duplicate']);
+  });
+});
+
+describe('readSpreadsheet', () => {
+  it('lee un XLSX con fechas y montos tipados', async () => {
+    const blob = await writeXlsxFile([
+      ['Fecha', 'Descripción', 'Monto'],
+      [{ value: new Date(Date.UTC(2026, 2, 5)), type: Date, format: 'dd/mm/yyyy' }, 'Hosting', 120000],
+    ]).toBlob();
+    const file = new File([blob], 'extracto.xlsx');
+
+    const rows = await readSpreadsheet(file);
+    const [row] = buildImportRows(rows, guessMapping(rows[0]), { hasHeader: true, defaultCurrency: 'COP', existing: [] });
+
+    expect(row.expense).toMatchObject({ expense_date: '2026-03-05', description: 'Hosting', amount: 120000 });
+  });
+
+  it('lee un CSV separado por punto y coma', async () => {
+    const file = new File(['\uFEFFFecha;Descripción;Monto\n05/03/2026;Hosting;"120.000"\n'], 'extracto.csv');
+
+    const rows = await readSpreadsheet(file);
+
+    expect(rows).toEqual([['Fecha', 'Descripción', 'Monto'], ['05/03/2026', 'Hosting', '120.000']]);
+  });
+});
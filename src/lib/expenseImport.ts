@@ -0,0 +1,243 @@
+import Papa from 'papaparse';
+import { readSheet } from 'read-excel-file/browser';
+import writeXlsxFile from 'write-excel-file/browser';
+import { format, isValid } from 'date-fns';
+import { Expense } from './supabase';
+
+// Columnas que se pueden importar / exportar (mismo formato en ambos sentidos)
+export type ImportField = 'expense_date' | 'description' | 'vendor' | 'amount' | 'currency' | 'invoice_number';
+
+export const importFields: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'expense_date', label: 'Fecha', required: true },
+  { field: 'description', label: 'Descripción', required: true },
+  { field: 'vendor', label: 'Proveedor', required: false },
+  { field: 'amount', label: 'Monto', required: true },
+  { field: 'currency', label: 'Moneda', required: false },
+  { field: 'invoice_number', label: 'N° Factura', required: false },
+];
+
+// Índice de columna por campo; null = no se importa
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type CellValue = string | number | boolean | Date | null;
+
+// Nombres de columna habituales en extractos bancarios y en nuestra exportación
+const headerHints: Record<ImportField, string[]> = {
+  expense_date: ['fecha', 'date', 'fecha operacion', 'fecha transaccion'],
+  description: ['descripcion', 'description', 'concepto', 'detalle', 'movimiento'],
+  vendor: ['proveedor', 'vendor', 'comercio', 'beneficiario', 'establecimiento'],
+  amount: ['monto', 'amount', 'valor', 'importe', 'debito', 'cargo'],
+  currency: ['moneda', 'currency', 'divisa'],
+  invoice_number: ['n° factura', 'factura', 'invoice', 'invoice number', 'referencia', 'documento'],
+};
+
+const normalizeHeader = (value: CellValue) =>
+  String(value ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim();
+
+export const isSpreadsheetFile = (file: File) => /\.xlsx$/i.test(file.name);
+
+// Lee la primera hoja de un CSV o XLSX como filas de celdas. En CSV el
+// separador (coma o punto y coma, como exporta Excel en español) se detecta
+// solo y las celdas quedan como texto: fechas y montos se interpretan después
+// con el formato local (03/04 no se toma como marzo). En XLSX fechas y
+// números ya vienen tipados.
+export async function readSpreadsheet(file: File): Promise<CellValue[][]> {
+  let rows: CellValue[][];
+  if (isSpreadsheetFile(file)) {
+    rows = (await readSheet(file)) as CellValue[][];
+  } else {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    rows = Papa.parse<string[]>(text, { skipEmptyLines: 'greedy' }).data;
+  }
+  return rows
+    .map(row => row.map(cell => (typeof cell === 'string' && cell.trim() === '' ? null : cell ?? null)))
+    .filter(row => row.some(cell => cell !== null));
+}
+
+// Propone un mapeo a partir de los encabezados
+export function guessMapping(headers: CellValue[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  const used = new Set<number>();
+
+  importFields.forEach(({ field }) => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && headerHints[field].includes(h));
+    const partial = index >= 0
+      ? index
+      : normalized.findIndex((h, i) => !used.has(i) && h !== '' && headerHints[field].some(hint => h.includes(hint)));
+    mapping[field] = partial >= 0 ? partial : null;
+    if (partial >= 0) used.add(partial);
+  });
+  return mapping;
+}
+
+// Fechas en formato día/mes/año (el habitual en los extractos), ISO o celdas
+// de fecha de XLSX
+export function parseImportDate(value: CellValue): string | null {
+  if (value === null || value === '') return null;
+
+  // read-excel-file entrega las fechas a medianoche UTC
+  if (value instanceof Date) {
+    return isValid(value) ? value.toISOString().slice(0, 10) : null;
+  }
+
+  const text = String(value).trim();
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    [day, month, year] = [Number(dayFirst[1]), Number(dayFirst[2]), Number(dayFirst[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (!isValid(date) || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Montos con separadores de miles en formato es-CO (1.234.567,89) o US
+// (1,234,567.89). Los débitos negativos se importan como positivos.
+export function parseImportAmount(value: CellValue): number | null {
+  if (value === null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.abs(value) : null;
+
+  let text = String(value).replace(/[^\d.,-]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // El último separador es el decimal
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    text = /,\d{1,2}$/.test(text) && text.indexOf(',') === lastComma
+      ? text.replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (lastDot >= 0) {
+    // "1.500" o "1.500.000" son miles; "12.5" es decimal
+    if (/\.\d{3}$/.test(text) || text.indexOf('.') !== lastDot) text = text.replace(/\./g, '');
+  }
+
+  const amount = Number(text);
+  return text !== '' && Number.isFinite(amount) ? Math.abs(amount) : null;
+}
+
+// Clave de duplicado: mismo N° de factura, fecha y monto. Sin factura, dos
+// gastos del mismo día por el mismo valor quedan marcados; quien importa
+// puede incluir la fila de todos modos.
+export const expenseDuplicateKey = (e: Pick<Expense, 'invoice_number' | 'expense_date' | 'amount'>) =>
+  `${(e.invoice_number || '').trim().toLowerCase()}|${e.expense_date}|${Math.round(e.amount)}`;
+
+export type ImportRowStatus = 'ok' | 'duplicate' | 'invalid';
+
+export interface ImportRow {
+  line: number;
+  status: ImportRowStatus;
+  error?: string;
+  expense: Pick<Expense, 'expense_date' | 'description' | 'amount' | 'currency'> &
+    Partial<Pick<Expense, 'vendor' | 'invoice_number'>>;
+}
+
+// Convierte las filas según el mapeo y marca inválidas y duplicadas
+// (contra los gastos existentes y contra filas anteriores del mismo archivo)
+export function buildImportRows(
+  rows: CellValue[][],
+  mapping: ColumnMapping,
+  options: { hasHeader: boolean; defaultCurrency: string; existing: Expense[] },
+): ImportRow[] {
+  const seen = new Set(options.existing.map(expenseDuplicateKey));
+  const cell = (row: CellValue[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? null : row[index] ?? null;
+  };
+  const text = (value: CellValue) => (value === null ? '' : String(value).trim());
+
+  return rows.slice(options.hasHeader ? 1 : 0).map((row, i) => {
+    const expense_date = parseImportDate(cell(row, 'expense_date'));
+    const amount = parseImportAmount(cell(row, 'amount'));
+    const currency = text(cell(row, 'currency')).toUpperCase() || options.defaultCurrency;
+    const expense = {
+      expense_date: expense_date || '',
+      description: text(cell(row, 'description')),
+      // La columna amount es entera (sin decimales, como en el formulario)
+      amount: amount === null ? 0 : Math.round(amount),
+      currency,
+      vendor: text(cell(row, 'vendor')) || undefined,
+      invoice_number: text(cell(row, 'invoice_number')) || undefined,
+    };
+    const line = i + (options.hasHeader ? 2 : 1);
+
+    const error = !expense_date
+      ? 'Fecha no válida'
+      : !expense.description
+        ? 'Falta la descripción'
+        : amount === null || amount === 0
+          ? 'Monto no válido'
+          : !/^[A-Z]{3}$/.test(currency)
+            ? 'Moneda no válida'
+            : undefined;
+    if (error) return { line, status: 'invalid', error, expense };
+
+    const key = expenseDuplicateKey(expense);
+    if (seen.has(key)) return { line, status: 'duplicate', expense };
+    seen.add(key);
+    return { line, status: 'ok', expense };
+  });
+}
+
+// Exporta en el mismo formato que acepta la importación, más estado,
+// categoría y el monto convertido a la moneda de reporte
+export async function exportExpenses(
+  expenses: Expense[],
+  fileFormat: 'csv' | 'xlsx',
+  options: { reportingCurrency: string; convert: (expense: Expense) => number | null },
+) {
+  const headers = [
+    ...importFields.map(f => f.label),
+    'Categoría',
+    'Estado',
+    `Monto (${options.reportingCurrency})`,
+  ];
+  const statusLabels: Record<Expense['status'], string> = {
+    pending: 'Pendiente',
+    approved: 'Aprobado',
+    rejected: 'Rechazado',
+    paid: 'Pagado',
+  };
+  const rows = expenses.map(e => [
+    e.expense_date,
+    e.description,
+    e.vendor || '',
+    e.amount,
+    e.currency,
+    e.invoice_number || '',
+    e.category?.name || '',
+    statusLabels[e.status],
+    options.convert(e) ?? '',
+  ]);
+
+  const fileName = `gastos-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`;
+  if (fileFormat === 'xlsx') {
+    await writeXlsxFile([headers, ...rows], { sheet: 'Gastos' }).toFile(fileName);
+    return;
+  }
+
+  // Con BOM para que Excel lo abra como UTF-8 (tildes y ñ)
+  const csv = `\uFEFF${Papa.unparse([headers, ...rows])}`;
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,307 @@
+import { addDays, addMinutes, format, parseISO } from 'date-fns';
+import { Meeting, MeetingParticipant, Note } from './supabase';
+
+// Generación y lectura de archivos iCalendar (RFC 5545)
+
+const PRODUCT_ID = '-//Kor4Soft//Kor4Soft Notes//ES';
+const UID_DOMAIN = 'kor4soft-notes';
+
+const partStatus: Record<MeetingParticipant['status'], string> = {
+  invited: 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  tentative: 'TENTATIVE',
+  declined: 'DECLINED',
+  joined: 'ACCEPTED',
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const escapeParam = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+// Líneas de máximo 75 octetos; las continuaciones empiezan con un espacio
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDateValue = (date: Date) => format(date, 'yyyyMMdd');
+
+export const meetingUid = (meeting: Pick<Meeting, 'id'>) => `meeting-${meeting.id}@${UID_DOMAIN}`;
+
+function meetingEvent(meeting: Meeting, roomUrl: string): string[] {
+  const start = parseISO(meeting.scheduled_at);
+  const description = [meeting.description, `Sala: ${roomUrl}`].filter(Boolean).join('\n\n');
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${meeting.ical_uid || meetingUid(meeting)}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `LAST-MODIFIED:${formatUtc(parseISO(meeting.updated_at))}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(addMinutes(start, meeting.duration_minutes || 60))}`,
+    `SUMMARY:${escapeText(meeting.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(roomUrl)}`,
+    `URL:${roomUrl}`,
+    `STATUS:${meeting.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+
+  if (meeting.creator) {
+    lines.push(`ORGANIZER;CN=${escapeParam(meeting.creator.full_name)}:mailto:${meeting.creator.email}`);
+  }
+  meeting.participants?.forEach((participant) => {
+    if (!participant.user) return;
+    lines.push(
+      `ATTENDEE;CN=${escapeParam(participant.user.full_name)};ROLE=REQ-PARTICIPANT;PARTSTAT=${partStatus[participant.status]}:mailto:${participant.user.email}`
+    );
+  });
+
+  if (meeting.reminder_minutes) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(meeting.title)}`,
+      `TRIGGER:-PT${meeting.reminder_minutes}M`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Las fechas de entrega son eventos de día completo
+function dueDateEvent(note: Note): string[] {
+  const day = parseISO(note.due_date!);
+  return [
+    'BEGIN:VEVENT',
+    `UID:note-${note.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(day)}`,
+    `DTEND;VALUE=DATE:${formatDateValue(addDays(day, 1))}`,
+    `SUMMARY:${escapeText(`Entrega: ${note.title}`)}`,
+    `DESCRIPTION:${escapeText(note.content.slice(0, 500))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+function buildCalendar(name: string, events: string[][]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function buildMeetingIcs(meeting: Meeting, roomUrl: string): string {
+  return buildCalendar(meeting.title, [meetingEvent(meeting, roomUrl)]);
+}
+
+// Calendario personal: reuniones del usuario y entregas de sus tareas
+export function buildUserFeedIcs(
+  userName: string,
+  meetings: Meeting[],
+  notes: Note[],
+  getRoomUrl: (meeting: Meeting) => string,
+): string {
+  return buildCalendar(`Kor4Soft - ${userName}`, [
+    ...meetings.map(m => meetingEvent(m, getRoomUrl(m))),
+    ...notes.filter(n => n.due_date).map(dueDateEvent),
+  ]);
+}
+
+export function downloadIcs(content: string, fileName: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// IMPORTACIÓN
+// ============================================
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  start: Date;
+  durationMinutes: number;
+  allDay: boolean;
+  cancelled: boolean;
+  attendeeEmails: string[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+function parseProperty(line: string): IcsProperty | null {
+  // El valor empieza en el primer ':' que no esté dentro de comillas
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// Diferencia entre la hora de una zona IANA y UTC en ese instante
+function timeZoneOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return (asUtc - instant) / 60000;
+}
+
+function parseDateValue(property: IcsProperty): { date: Date; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const year = Number(y);
+  const month = Number(mo) - 1;
+  const day = Number(d);
+
+  if (!h) return { date: new Date(year, month, day), allDay: true };
+
+  const wallClock = Date.UTC(year, month, day, Number(h), Number(mi), Number(s));
+  if (utc) return { date: new Date(wallClock), allDay: false };
+
+  const timeZone = property.params.TZID;
+  if (timeZone) {
+    try {
+      const offset = timeZoneOffsetMinutes(wallClock, timeZone);
+      return { date: new Date(wallClock - offset * 60000), allDay: false };
+    } catch {
+      // Zona desconocida: se toma como hora local
+    }
+  }
+  return { date: new Date(year, month, day, Number(h), Number(mi), Number(s)), allDay: false };
+}
+
+// Duraciones tipo P1DT2H30M (sin meses ni años, como exige el estándar)
+function parseDurationMinutes(value: string): number | null {
+  const match = value.match(/^[+-]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, w, d, h, m, s] = match.map(v => Number(v) || 0);
+  return w * 7 * 24 * 60 + d * 24 * 60 + h * 60 + m + Math.round(s / 60);
+}
+
+// Eventos (VEVENT) de un archivo .ics. Las recurrencias (RRULE) se
+// importan solo con su primera ocurrencia.
+export function parseIcsEvents(content: string): IcsEvent[] {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  // Componentes anidados (VALARM) cuyas propiedades no son del evento
+  let nested = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = [];
+      nested = 0;
+    } else if (line === 'END:VEVENT' && current) {
+      const event = buildEvent(current);
+      if (event) events.push(event);
+      current = null;
+    } else if (current && line.startsWith('BEGIN:')) {
+      nested++;
+    } else if (current && line.startsWith('END:')) {
+      nested = Math.max(nested - 1, 0);
+    } else if (current && nested === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function buildEvent(properties: IcsProperty[]): IcsEvent | null {
+  const find = (name: string) => properties.find(p => p.name === name);
+  // Cambios puntuales de una serie repetitiva: se queda solo la serie
+  if (find('RECURRENCE-ID')) return null;
+
+  const dtStart = find('DTSTART');
+  const start = dtStart && parseDateValue(dtStart);
+  if (!start) return null;
+
+  const dtEnd = find('DTEND');
+  const end = dtEnd && parseDateValue(dtEnd);
+  const duration = find('DURATION');
+  const durationMinutes = end
+    ? Math.round((end.date.getTime() - start.date.getTime()) / 60000)
+    : (duration && parseDurationMinutes(duration.value)) ?? (start.allDay ? 24 * 60 : 60);
+
+  const summary = find('SUMMARY');
+  const description = find('DESCRIPTION');
+
+  return {
+    uid: find('UID')?.value || `${formatUtc(start.date)}-${summary?.value || ''}`,
+    title: summary ? unescapeText(summary.value) : 'Evento importado',
+    description: description ? unescapeText(description.value) : undefined,
+    start: start.date,
+    durationMinutes: Math.max(durationMinutes, 1),
+    allDay: start.allDay,
+    cancelled: find('STATUS')?.value.toUpperCase() === 'CANCELLED',
+    attendeeEmails: properties
+      .filter(p => p.name === 'ATTENDEE' && /^mailto:/i.test(p.value))
+      .map(p => p.value.replace(/^mailto:/i, '').toLowerCase()),
+  };
+}
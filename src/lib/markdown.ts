@@ -0,0 +1,56 @@
+import { Note } from './supabase';
+
+// Prefijo de los enlaces internos a notas: [[Título]] → [Título](/notes/<id>)
+export const NOTE_LINK_PREFIX = '/notes/';
+
+const TASK_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/;
+const NOTE_REFERENCE_PATTERN = /\[\[([^\]\n]+)\]\]/g;
+
+// Marca o desmarca el checklist de una línea (1-indexada, como en el AST de markdown)
+export function toggleTaskAtLine(content: string, line: number): string {
+  const lines = content.split('\n');
+  const index = line - 1;
+  if (!lines[index] || !TASK_PATTERN.test(lines[index])) return content;
+  lines[index] = lines[index].replace(TASK_PATTERN, (_match, start, mark, end) =>
+    `${start}${mark === ' ' ? 'x' : ' '}${end}`
+  );
+  return lines.join('\n');
+}
+
+// Convierte [[Título]] en enlaces a la nota correspondiente. No agrega ni quita
+// líneas, así que las posiciones del AST siguen coincidiendo con el original.
+export function linkNoteReferences(content: string, notes: Pick<Note, 'id' | 'title'>[]): string {
+  return content.replace(NOTE_REFERENCE_PATTERN, (match, rawTitle: string) => {
+    const title = rawTitle.trim().toLowerCase();
+    const note = notes.find((n) => n.title.trim().toLowerCase() === title);
+    return note ? `[${rawTitle.trim()}](${NOTE_LINK_PREFIX}${note.id})` : match;
+  });
+}
+
+// Texto plano para extractos en listas y resultados de búsqueda
+export function stripMarkdown(content: string): string {
+  return content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(NOTE_REFERENCE_PATTERN, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+\[[ xX]\]\s+/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)]|>)\s+/gm, '')
+    .replace(/^\s*\|?[\s:|-]+\|[\s:|-]*$/gm, '')
+    .replace(/\|/g, ' ')
+    .replace(/(\*\*|__|~~|\*|_)(.*?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Fragmento del texto alrededor de la primera coincidencia de la búsqueda
+export function getSnippet(text: string, query: string, radius = 40): string {
+  if (!text) return '';
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text;
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + query.length + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,36 @@
+import { User } from './supabase';
+
+// Acciones restringidas por rol. Lo que no aparece aquí (notas, reuniones
+// propias, mensajes...) lo puede hacer cualquier miembro del equipo.
+// Debe coincidir con las políticas de supabase/role_permissions.sql.
+export type Permission =
+  | 'manage_sprints'
+  | 'approve_expenses'
+  | 'create_channels'
+  | 'manage_members';
+
+const rolePermissions: Record<User['role'], Permission[]> = {
+  admin: ['manage_sprints', 'approve_expenses', 'create_channels', 'manage_members'],
+  developer: [],
+};
+
+export const roleLabels: Record<User['role'], string> = {
+  admin: 'Administrador',
+  developer: 'Desarrollador',
+};
+
+export const permissionLabels: Record<Permission, string> = {
+  manage_sprints: 'Gestionar sprints',
+  approve_expenses: 'Aprobar gastos',
+  create_channels: 'Crear canales',
+  manage_members: 'Gestionar miembros',
+};
+
+export function hasPermission(user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return rolePermissions[user.role]?.includes(permission) ?? false;
+}
+
+// Error estándar que devuelven los stores cuando falta el permiso
+export const permissionError = (permission: Permission) =>
+  `No tienes permiso para esta acción (${permissionLabels[permission].toLowerCase()})`;
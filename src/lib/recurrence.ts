@@ -0,0 +1,87 @@
+import { addDays, addMonths, addWeeks, endOfDay, format, isWeekend, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { MeetingFrequency, MeetingSeries } from './supabase';
+
+// Reglas de repetición de las reuniones periódicas
+
+export const meetingFrequencyLabels: Record<MeetingFrequency, string> = {
+  weekdays: 'Cada día hábil (lun–vie)',
+  weekly: 'Cada semana',
+  biweekly: 'Cada dos semanas',
+  monthly: 'Cada mes',
+};
+
+// Las ocurrencias se crean como reuniones normales hasta este horizonte; las
+// siguientes las agrega generate_series_meetings (pg_cron y al abrir Reuniones).
+// En Supabase las fechas se calculan en SQL con las mismas reglas.
+export const SERIES_HORIZON_DAYS = 60;
+
+// Tope de seguridad por si una regla no tiene fin
+const MAX_OCCURRENCES = 500;
+
+type SeriesRule = Pick<MeetingSeries, 'start_at' | 'frequency' | 'until_date' | 'occurrence_count' | 'exceptions'>;
+
+export interface SeriesOccurrence {
+  // Día original en la serie (yyyy-MM-dd): identifica la ocurrencia
+  date: string;
+  start: Date;
+}
+
+// Inicios en orden, a la misma hora local que el primero. Los meses se
+// cuentan desde el inicio para que el día 31 no se desplace tras febrero.
+function* occurrenceStarts(start: Date, frequency: MeetingFrequency): Generator<Date> {
+  if (frequency === 'weekdays') {
+    for (let day = start; ; day = addDays(day, 1)) {
+      if (!isWeekend(day)) yield day;
+    }
+  }
+  for (let i = 0; ; i++) {
+    if (frequency === 'monthly') yield addMonths(start, i);
+    else yield addWeeks(start, frequency === 'biweekly' ? i * 2 : i);
+  }
+}
+
+// Todas las ocurrencias (también las omitidas), hasta el fin de la serie o `limit`
+function* ruleOccurrences(rule: SeriesRule, limit: Date): Generator<SeriesOccurrence> {
+  const until = rule.until_date ? endOfDay(parseISO(rule.until_date)) : null;
+  let generated = 0;
+  for (const start of occurrenceStarts(parseISO(rule.start_at), rule.frequency)) {
+    if (start > limit || (until && start > until)) return;
+    // Como COUNT en RFC 5545, las fechas omitidas también cuentan
+    if (rule.occurrence_count && generated >= rule.occurrence_count) return;
+    if (generated >= MAX_OCCURRENCES) return;
+    generated++;
+    yield { date: format(start, 'yyyy-MM-dd'), start };
+  }
+}
+
+// Ocurrencias que deben existir como reunión, sin los días omitidos
+export function getSeriesOccurrences(rule: SeriesRule, limit: Date): SeriesOccurrence[] {
+  return [...ruleOccurrences(rule, limit)].filter(o => !rule.exceptions.includes(o.date));
+}
+
+// Ocurrencias anteriores a `date` (omitidas incluidas): al partir una serie
+// la nueva hereda lo que quedaba de occurrence_count
+export function countOccurrencesBefore(rule: SeriesRule, date: string): number {
+  let count = 0;
+  for (const occurrence of ruleOccurrences(rule, parseISO(date))) {
+    if (occurrence.date >= date) break;
+    count++;
+  }
+  return count;
+}
+
+// Hora que le da la regla a una ocurrencia (aunque se haya movido a mano)
+export function getOccurrenceStart(rule: SeriesRule, date: string): Date | null {
+  for (const occurrence of ruleOccurrences(rule, endOfDay(parseISO(date)))) {
+    if (occurrence.date === date) return occurrence.start;
+  }
+  return null;
+}
+
+export function describeRecurrence(rule: SeriesRule): string {
+  const base = meetingFrequencyLabels[rule.frequency];
+  if (rule.until_date) return `${base} · hasta el ${format(parseISO(rule.until_date), "d 'de' MMMM", { locale: es })}`;
+  if (rule.occurrence_count) return `${base} · ${rule.occurrence_count} veces`;
+  return base;
+}
@@ -42,6 +42,10 @@ export interface Note {
   due_date?: string | null;
   start_date?: string | null;
   estimated_hours?: number | null;
+  // Lo mantiene un trigger al pasar a / salir de 'completed'
+  completed_at?: string | null;
+  // Reunión en la que se acordó (acción del acta)
+  meeting_id?: string | null;
   assigned_user?: {
     full_name: string;
     email: string;
@@ -49,13 +53,25 @@ export interface Note {
   };
 }
 
+export type ActivityEntityType = 'note' | 'sprint' | 'expense' | 'meeting';
+
+export type ActivityChanges = Record<string, { old: unknown; new: unknown }>;
+
 export interface Activity {
   id: string;
   user_id: string;
-  note_id?: string;
-  action: string;
-  description: string;
+  note_id?: string | null;
+  entity_type: ActivityEntityType;
+  entity_id: string;
+  action: 'created' | 'updated' | 'deleted';
+  // Nullable en la tabla (filas anteriores al historial estructurado)
+  description: string | null;
+  changes?: ActivityChanges | null;
   created_at: string;
+  user?: {
+    full_name: string;
+    avatar_url?: string;
+  };
 }
 
 export interface Comment {
@@ -73,15 +89,30 @@ export interface Comment {
   };
 }
 
+// 'blocks' es dirigida (source bloquea a target); "bloqueada por" es la
+// misma fila vista desde target. 'relates_to' y 'duplicates' son informativas.
+export type NoteDependencyType = 'blocks' | 'relates_to' | 'duplicates';
+
+export interface NoteDependency {
+  id: string;
+  source_id: string;
+  target_id: string;
+  type: NoteDependencyType;
+  created_by: string;
+  created_at: string;
+}
+
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'comment' | 'assignment' | 'status_change' | 'mention' | 'share' | 'meeting_invite';
+  type: 'comment' | 'assignment' | 'status_change' | 'mention' | 'share' | 'meeting_invite' | 'meeting_reminder' | 'expense_review';
   title: string;
   message: string;
   note_id?: string;
   personal_note_id?: string;
   meeting_id?: string;
+  expense_id?: string;
+  channel_id?: string;
   from_user_id?: string;
   read: boolean;
   created_at: string;
@@ -100,6 +131,8 @@ export async function createNotification(data: {
   noteId?: string;
   personalNoteId?: string;
   meetingId?: string;
+  expenseId?: string;
+  channelId?: string;
   fromUserId?: string;
 }): Promise<{ error: string | null }> {
   if (!isSupabaseConfigured || !supabase) {
@@ -118,6 +151,8 @@ export async function createNotification(data: {
       note_id: data.noteId || null,
       personal_note_id: data.personalNoteId || null,
       meeting_id: data.meetingId || null,
+      expense_id: data.expenseId || null,
+      channel_id: data.channelId || null,
       from_user_id: data.fromUserId || null,
       read: false,
     };
@@ -137,6 +172,65 @@ export async function createNotification(data: {
   }
 }
 
+// Campos que no aportan nada al historial
+const IGNORED_ACTIVITY_FIELDS = ['updated_at', 'created_at', 'assigned_user', 'category', 'creator', 'approver', 'participants', 'agenda'];
+
+// Calcula los campos que realmente cambiaron (valor anterior → nuevo)
+export function diffChanges(before: Record<string, any> | null | undefined, updates: Record<string, any>): ActivityChanges {
+  const changes: ActivityChanges = {};
+  for (const [field, newValue] of Object.entries(updates)) {
+    if (IGNORED_ACTIVITY_FIELDS.includes(field) || newValue === undefined) continue;
+    const oldValue = before?.[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue ?? null)) {
+      changes[field] = { old: oldValue, new: newValue ?? null };
+    }
+  }
+  return changes;
+}
+
+// Servicio para registrar actividad (historial de auditoría)
+export async function logActivity(data: {
+  entityType: ActivityEntityType;
+  entityId: string;
+  action: Activity['action'];
+  description: string;
+  changes?: ActivityChanges;
+  noteId?: string;
+}): Promise<{ error: string | null }> {
+  if (!isSupabaseConfigured || !supabase) {
+    return { error: null };
+  }
+
+  // Una actualización sin cambios reales no se registra
+  if (data.action === 'updated' && data.changes && Object.keys(data.changes).length === 0) {
+    return { error: null };
+  }
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { error: 'No autenticado' };
+
+    const { error } = await supabase.from('activities').insert([{
+      user_id: user.id,
+      entity_type: data.entityType,
+      entity_id: data.entityId,
+      note_id: data.noteId || null,
+      action: data.action,
+      description: data.description,
+      changes: data.changes && Object.keys(data.changes).length > 0 ? data.changes : null,
+    }]);
+
+    if (error) {
+      console.error('[Activity] Error logging activity:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err: any) {
+    console.error('[Activity] Exception:', err);
+    return { error: err.message };
+  }
+}
+
 export interface Sprint {
   id: string;
   name: string;
@@ -144,6 +238,12 @@ export interface Sprint {
   start_date: string;
   end_date: string;
   status: 'planning' | 'active' | 'completed' | 'cancelled';
+  // Resumen guardado al cerrar el sprint (las tareas pendientes se mueven)
+  closed_at?: string | null;
+  completed_tasks?: number | null;
+  completed_hours?: number | null;
+  carried_over_tasks?: number | null;
+  carried_over_hours?: number | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -156,9 +256,9 @@ export interface TimeEntry {
   start_time: string;
   end_time?: string;
   duration_minutes?: number;
-  description?: string;
+  description?: string | null;
   created_at: string;
-  note?: Note;
+  note?: Pick<Note, 'id' | 'title' | 'estimated_hours'>;
 }
 
 export interface PersonalNote {
@@ -191,17 +291,68 @@ export interface Meeting {
   duration_minutes: number;
   created_by: string;
   status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+  // UID del evento si se importó desde un archivo .ics
+  ical_uid?: string | null;
+  // Ocurrencia de una reunión periódica: serie y día original en ella
+  series_id?: string | null;
+  occurrence_date?: string | null;
+  // Minutos antes del inicio para avisar a los asistentes (null: sin aviso)
+  reminder_minutes?: number | null;
+  // Acta compartida (markdown): la editan todos los asistentes
+  minutes?: string | null;
+  minutes_updated_at?: string | null;
+  minutes_updated_by?: string | null;
   created_at: string;
   updated_at: string;
   creator?: User;
   participants?: MeetingParticipant[];
+  agenda?: MeetingAgendaItem[];
+}
+
+export type MeetingFrequency = 'weekdays' | 'weekly' | 'biweekly' | 'monthly';
+
+// Reunión periódica: regla de repetición y datos comunes de sus ocurrencias,
+// que se crean como reuniones normales con la misma sala
+export interface MeetingSeries {
+  id: string;
+  title: string;
+  description?: string | null;
+  room_name: string;
+  // Inicio de la primera ocurrencia; las demás a la misma hora local
+  start_at: string;
+  duration_minutes: number;
+  reminder_minutes?: number | null;
+  frequency: MeetingFrequency;
+  // Fin de la serie: fecha o número de ocurrencias (ninguno: sin fin)
+  until_date?: string | null;
+  occurrence_count?: number | null;
+  // Días omitidos (yyyy-MM-dd)
+  exceptions: string[];
+  participant_ids: string[];
+  // Zona horaria en la que el servidor calcula las ocurrencias
+  time_zone: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Punto del orden del día de una reunión
+export interface MeetingAgendaItem {
+  id: string;
+  meeting_id: string;
+  title: string;
+  duration_minutes?: number | null;
+  position: number;
+  is_done: boolean;
+  created_by: string;
+  created_at: string;
 }
 
 export interface MeetingParticipant {
   id: string;
   meeting_id: string;
   user_id: string;
-  status: 'invited' | 'accepted' | 'declined' | 'joined';
+  status: 'invited' | 'accepted' | 'tentative' | 'declined' | 'joined';
   joined_at?: string;
   left_at?: string;
   created_at: string;
@@ -217,6 +368,27 @@ export interface ChatChannel {
   created_by?: string;
   created_at: string;
   updated_at: string;
+  members?: ChatChannelMember[];
+}
+
+export interface ChatChannelMember {
+  id: string;
+  channel_id: string;
+  user_id: string;
+  joined_at: string;
+  user?: {
+    id: string;
+    full_name: string;
+    email: string;
+    avatar_url?: string;
+  };
+}
+
+// Último momento en que cada usuario leyó un canal
+export interface ChatChannelRead {
+  channel_id: string;
+  user_id: string;
+  last_read_at: string;
 }
 
 export interface ChatMessage {
@@ -226,9 +398,16 @@ export interface ChatMessage {
   content: string;
   message_type: 'text' | 'code' | 'image' | 'file';
   code_language?: string;
+  // Mensajes 'image' / 'file': ruta en el bucket chat-files y metadatos
+  file_path?: string;
+  file_name?: string;
+  file_size?: number;
+  file_type?: string;
   reply_to?: string;
   edited_at?: string;
   created_at: string;
+  // Solo en mensajes raíz: número de respuestas del hilo
+  reply_count?: number;
   user?: {
     id: string;
     full_name: string;
@@ -259,8 +438,16 @@ export interface Expense {
   status: 'pending' | 'approved' | 'rejected' | 'paid';
   notes?: string;
   receipt_url?: string;
+  // Plantilla recurrente que generó este gasto
+  recurring_id?: string | null;
   created_by: string;
-  approved_by?: string;
+  // Quien aprobó o rechazó el gasto
+  approved_by?: string | null;
+  approved_at?: string | null;
+  rejected_at?: string | null;
+  rejection_reason?: string | null;
+  paid_by?: string | null;
+  paid_at?: string | null;
   created_at: string;
   updated_at: string;
   category?: ExpenseCategory;
@@ -268,4 +455,51 @@ export interface Expense {
     full_name: string;
     email: string;
   };
+  approver?: {
+    full_name: string;
+    email: string;
+  } | null;
+}
+
+// Tasa de cambio: 1 from_currency = rate to_currency en rate_date
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string;
+  created_by?: string;
+  created_at: string;
+}
+
+// Presupuesto mensual por categoría de gasto
+export interface ExpenseBudget {
+  id: string;
+  category_id: string;
+  amount: number;
+  currency: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Plantilla de gasto recurrente: genera un gasto pendiente en cada vencimiento
+export interface RecurringExpense {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category_id?: string | null;
+  vendor?: string | null;
+  payment_method?: Expense['payment_method'];
+  notes?: string | null;
+  frequency: 'monthly' | 'quarterly' | 'yearly';
+  start_date: string;
+  end_date?: string | null;
+  // Próximo vencimiento aún no generado
+  next_due_date: string;
+  active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
 }
@@ -10,12 +10,50 @@ import {
   Sparkles,
   FileText,
   Plus,
+  Video,
+  Flag,
+  X,
+  Download,
 } from 'lucide-react';
 import { useNotesStore } from '../store/notesStore';
-import { Note } from '../lib/supabase';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, isToday } from 'date-fns';
+import { useMeetingsStore, getMeetingRoomUrl } from '../store/meetingsStore';
+import { useSprintStore } from '../store/sprintStore';
+import { useAuthStore } from '../store/authStore';
+import {
+  CalendarEvent,
+  CalendarSource,
+  calendarSources,
+  buildCalendarEvents,
+  getEventsForDay,
+  rescheduleMeetingDate,
+  toDateKey,
+} from '../lib/calendar';
+import { buildUserFeedIcs, downloadIcs } from '../lib/ical';
+import { CalendarTimeGrid } from '../components/CalendarTimeGrid';
+import {
+  format,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  eachDayOfInterval,
+  isSameMonth,
+  isSameDay,
+  addMonths,
+  addWeeks,
+  addDays,
+  isToday,
+} from 'date-fns';
 import { es } from 'date-fns/locale';
 
+type CalendarView = 'month' | 'week' | 'day';
+
+const viewLabels: Record<CalendarView, string> = {
+  month: 'Mes',
+  week: 'Semana',
+  day: 'Día',
+};
+
 const typeIcons: Record<string, any> = {
   task: CheckSquare,
   bug: Bug,
@@ -37,71 +75,137 @@ const statusColors: Record<string, string> = {
   cancelled: 'border-l-gray-500',
 };
 
+
+const eventColor = (event: CalendarEvent) =>
+  (event.note && typeColors[event.note.type]) ||
+  calendarSources.find(s => s.source === event.source)?.color ||
+  'bg-blue-500';
+
+const eventIcon = (event: CalendarEvent) =>
+  event.source === 'meetings' ? Video
+    : event.source === 'sprints' ? Flag
+    : typeIcons[event.note?.type || 'note'] || FileText;
+
+const meetingStatusLabels: Record<string, string> = {
+  scheduled: 'Programada',
+  in_progress: 'En curso',
+  completed: 'Finalizada',
+  cancelled: 'Cancelada',
+};
+
 export function Calendar() {
   const navigate = useNavigate();
-  const { notes, fetchNotes } = useNotesStore();
+  const { user } = useAuthStore();
+  const { notes, fetchNotes, updateNote } = useNotesStore();
+  const { meetings, fetchMeetings, updateMeeting } = useMeetingsStore();
+  const { sprints, fetchSprints } = useSprintStore();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  
+  const [view, setView] = useState<CalendarView>('month');
+  const [visibleSources, setVisibleSources] = useState<CalendarSource[]>(['meetings', 'sprints', 'notes']);
+  const [draggedEvent, setDraggedEvent] = useState<CalendarEvent | null>(null);
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+  const [dropError, setDropError] = useState<string | null>(null);
+
   useEffect(() => {
     fetchNotes();
-  }, [fetchNotes]);
-
-  const monthStart = startOfMonth(currentDate);
-  const monthEnd = endOfMonth(currentDate);
-  const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
-
-  // Agregar días del mes anterior para completar la primera semana
-  const startDay = monthStart.getDay();
-  const prefixDays = Array.from({ length: startDay }, (_, i) => {
-    const date = new Date(monthStart);
-    date.setDate(date.getDate() - (startDay - i));
-    return date;
-  });
+    fetchMeetings();
+    fetchSprints();
+  }, [fetchNotes, fetchMeetings, fetchSprints]);
 
-  // Agregar días del mes siguiente para completar la última semana
-  const endDay = monthEnd.getDay();
-  const suffixDays = Array.from({ length: 6 - endDay }, (_, i) => {
-    const date = new Date(monthEnd);
-    date.setDate(date.getDate() + i + 1);
-    return date;
-  });
+  const events = useMemo(
+    () => buildCalendarEvents(meetings, sprints, notes).filter(e => visibleSources.includes(e.source)),
+    [meetings, sprints, notes, visibleSources]
+  );
 
-  const allDays = [...prefixDays, ...daysInMonth, ...suffixDays];
-
-  // Agrupar notas por fecha
-  const notesByDate = useMemo(() => {
-    const grouped: Record<string, Note[]> = {};
-    notes.forEach((note) => {
-      if (note.due_date) {
-        const dateKey = note.due_date;
-        if (!grouped[dateKey]) grouped[dateKey] = [];
-        grouped[dateKey].push(note);
-      }
-    });
-    return grouped;
-  }, [notes]);
-
-  const getNotesForDate = (date: Date): Note[] => {
-    const dateKey = format(date, 'yyyy-MM-dd');
-    return notesByDate[dateKey] || [];
-  };
+  // Semanas completas (de domingo a sábado) que cubren el mes
+  const allDays = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(currentDate)),
+    end: endOfWeek(endOfMonth(currentDate)),
+  });
+  const weekDays = eachDayOfInterval({ start: startOfWeek(currentDate), end: endOfWeek(currentDate) });
 
-  const selectedDateNotes = selectedDate ? getNotesForDate(selectedDate) : [];
+  const selectedDateEvents = selectedDate ? getEventsForDay(events, selectedDate) : [];
 
-  const goToPreviousMonth = () => setCurrentDate(subMonths(currentDate, 1));
-  const goToNextMonth = () => setCurrentDate(addMonths(currentDate, 1));
+  const goToPrevious = () => setCurrentDate(
+    view === 'month' ? addMonths(currentDate, -1) : view === 'week' ? addWeeks(currentDate, -1) : addDays(currentDate, -1)
+  );
+  const goToNext = () => setCurrentDate(
+    view === 'month' ? addMonths(currentDate, 1) : view === 'week' ? addWeeks(currentDate, 1) : addDays(currentDate, 1)
+  );
   const goToToday = () => {
     setCurrentDate(new Date());
     setSelectedDate(new Date());
   };
 
+  const openDay = (day: Date) => {
+    setCurrentDate(day);
+    setSelectedDate(day);
+    setView('day');
+  };
+
+  const periodTitle = view === 'month'
+    ? format(currentDate, 'MMMM yyyy', { locale: es })
+    : view === 'week'
+      ? `${format(weekDays[0], 'd MMM', { locale: es })} – ${format(weekDays[6], 'd MMM yyyy', { locale: es })}`
+      : format(currentDate, "EEEE d 'de' MMMM, yyyy", { locale: es });
+
+  const toggleSource = (source: CalendarSource) => {
+    setVisibleSources(prev => prev.includes(source) ? prev.filter(s => s !== source) : [...prev, source]);
+  };
+
+  // Solo se mueve lo propio: las notas las edita quien las creó y las
+  // reuniones también (política mtg_update)
+  const canDrag = (event: CalendarEvent) =>
+    (event.source === 'notes' && event.note?.created_by === user?.id) ||
+    (event.source === 'meetings' && event.meeting?.created_by === user?.id);
+
+  const handleDragEnd = () => {
+    setDraggedEvent(null);
+    setDragOverDay(null);
+  };
+
+  const handleDrop = async (day: Date, minutes?: number) => {
+    const event = draggedEvent;
+    handleDragEnd();
+    if (!event) return;
+
+    let result: { error: string | null } = { error: null };
+    if (event.meeting) {
+      const scheduledAt = rescheduleMeetingDate(event.meeting, day, minutes);
+      if (new Date(scheduledAt).getTime() === event.start.getTime()) return;
+      result = await updateMeeting(event.meeting.id, { scheduled_at: scheduledAt });
+    } else if (event.note) {
+      const dueDate = toDateKey(day);
+      if (dueDate === event.note.due_date) return;
+      result = await updateNote(event.note.id, { due_date: dueDate });
+    }
+    setDropError(result.error);
+  };
+
+  // Reuniones a las que asiste el usuario y entregas de sus tareas, para
+  // suscribirse desde un calendario externo
+  const handleExportFeed = () => {
+    if (!user) return;
+    const myMeetings = meetings.filter(m =>
+      m.created_by === user.id ||
+      m.participants?.some(p => p.user_id === user.id && p.status !== 'declined')
+    );
+    const myNotes = notes.filter(n =>
+      n.status !== 'cancelled' && (n.assigned_to === user.id || (!n.assigned_to && n.created_by === user.id))
+    );
+    downloadIcs(
+      buildUserFeedIcs(user.full_name, myMeetings, myNotes, getMeetingRoomUrl),
+      `calendario-${format(new Date(), 'yyyy-MM-dd')}`
+    );
+  };
+
   return (
     <div className="flex h-full">
       {/* Calendario */}
-      <div className="flex-1 p-6 overflow-auto">
+      <div className="flex-1 p-6 overflow-auto flex flex-col min-h-0">
         {/* Header */}
-        <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-4">
             <h1 className="text-2xl font-bold text-white flex items-center gap-3">
               <CalendarIcon size={28} />
@@ -117,107 +221,199 @@ export function Calendar() {
 
           <div className="flex items-center gap-2">
             <button
-              onClick={goToPreviousMonth}
+              onClick={goToPrevious}
               className="p-2 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white transition-colors"
             >
               <ChevronLeft size={20} />
             </button>
-            <h2 className="text-lg font-semibold text-white min-w-[200px] text-center">
-              {format(currentDate, 'MMMM yyyy', { locale: es })}
+            <h2 className="text-lg font-semibold text-white min-w-[240px] text-center capitalize">
+              {periodTitle}
             </h2>
             <button
-              onClick={goToNextMonth}
+              onClick={goToNext}
               className="p-2 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white transition-colors"
             >
               <ChevronRight size={20} />
             </button>
           </div>
 
-          <button
-            onClick={() => {
-              const dateParam = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
-              navigate(`/notes/new?date=${dateParam}&type=task`);
-            }}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-          >
-            <Plus size={18} />
-            Nueva Tarea
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleExportFeed}
+              className="flex items-center gap-2 px-4 py-2 bg-[#181825] border border-gray-700 hover:bg-[#1e1e2e] text-gray-300 rounded-lg transition-colors"
+              title="Tus reuniones y fechas de entrega en formato iCalendar"
+            >
+              <Download size={18} />
+              Exportar .ics
+            </button>
+            <button
+              onClick={() => {
+                const dateParam = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
+                navigate(`/notes/new?date=${dateParam}&type=task`);
+              }}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              <Plus size={18} />
+              Nueva Tarea
+            </button>
+          </div>
         </div>
 
-        {/* Días de la semana */}
-        <div className="grid grid-cols-7 gap-1 mb-2">
-          {['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'].map((day) => (
-            <div key={day} className="text-center text-sm font-medium text-gray-500 py-2">
-              {day}
-            </div>
-          ))}
+        {/* Vista y fuentes visibles */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex bg-[#181825] border border-gray-700 rounded-lg p-0.5">
+            {(Object.keys(viewLabels) as CalendarView[]).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  view === v ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {viewLabels[v]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            {calendarSources.map(({ source, label, color }) => {
+              const active = visibleSources.includes(source);
+              return (
+                <button
+                  key={source}
+                  onClick={() => toggleSource(source)}
+                  className={`flex items-center gap-2 px-3 py-1 rounded-lg border text-sm transition-colors ${
+                    active ? 'border-gray-600 text-white bg-[#181825]' : 'border-gray-800 text-gray-500'
+                  }`}
+                >
+                  <span className={`w-2.5 h-2.5 rounded-full ${color} ${active ? '' : 'opacity-30'}`} />
+                  {label}
+                </button>
+              );
+            })}
+          </div>
         </div>
 
-        {/* Grid del calendario */}
-        <div className="grid grid-cols-7 gap-1">
-          {allDays.map((day, index) => {
-            const dayNotes = getNotesForDate(day);
-            const isCurrentMonth = isSameMonth(day, currentDate);
-            const isSelected = selectedDate && isSameDay(day, selectedDate);
-            const isTodayDate = isToday(day);
-
-            return (
-              <div
-                key={index}
-                onClick={() => setSelectedDate(day)}
-                onDoubleClick={() => navigate(`/notes/new?date=${format(day, 'yyyy-MM-dd')}&type=task`)}
-                className={`
-                  min-h-[100px] p-2 rounded-lg border cursor-pointer transition-all
-                  ${isCurrentMonth ? 'bg-[#181825]' : 'bg-[#11111b]'}
-                  ${isSelected ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700 hover:border-gray-600'}
-                `}
-              >
-                <div className={`
-                  text-sm font-medium mb-1
-                  ${!isCurrentMonth && 'text-gray-600'}
-                  ${isCurrentMonth && !isTodayDate && 'text-gray-300'}
-                  ${isTodayDate && 'text-blue-400'}
-                `}>
-                  <span className={`
-                    inline-flex items-center justify-center w-7 h-7 rounded-full
-                    ${isTodayDate && 'bg-blue-600 text-white'}
-                  `}>
-                    {format(day, 'd')}
-                  </span>
+        {dropError && (
+          <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-400">
+            {dropError}
+            <button onClick={() => setDropError(null)} className="text-gray-500 hover:text-white">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {view === 'month' ? (
+          <>
+            {/* Días de la semana */}
+            <div className="grid grid-cols-7 gap-1 mb-2">
+              {['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'].map((day) => (
+                <div key={day} className="text-center text-sm font-medium text-gray-500 py-2">
+                  {day}
                 </div>
-                
-                <div className="space-y-1">
-                  {dayNotes.slice(0, 3).map((note) => {
-                    const Icon = typeIcons[note.type] || FileText;
-                    return (
-                      <div
-                        key={note.id}
+              ))}
+            </div>
+
+            {/* Grid del calendario */}
+            <div className="grid grid-cols-7 gap-1">
+              {allDays.map((day) => {
+                const dayKey = toDateKey(day);
+                const dayEvents = getEventsForDay(events, day);
+                const isCurrentMonth = isSameMonth(day, currentDate);
+                const isSelected = selectedDate && isSameDay(day, selectedDate);
+                const isTodayDate = isToday(day);
+
+                return (
+                  <div
+                    key={dayKey}
+                    onClick={() => setSelectedDate(day)}
+                    onDoubleClick={() => navigate(`/notes/new?date=${dayKey}&type=task`)}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragOverDay(dayKey);
+                    }}
+                    onDragLeave={() => setDragOverDay(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(day);
+                    }}
+                    className={`
+                      min-h-[100px] p-2 rounded-lg border cursor-pointer transition-all
+                      ${isCurrentMonth ? 'bg-[#181825]' : 'bg-[#11111b]'}
+                      ${dragOverDay === dayKey ? 'border-blue-400 bg-blue-500/10' :
+                        isSelected ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700 hover:border-gray-600'}
+                    `}
+                  >
+                    <div className={`
+                      text-sm font-medium mb-1
+                      ${!isCurrentMonth && 'text-gray-600'}
+                      ${isCurrentMonth && !isTodayDate && 'text-gray-300'}
+                      ${isTodayDate && 'text-blue-400'}
+                    `}>
+                      <span
                         onClick={(e) => {
                           e.stopPropagation();
-                          navigate(`/notes/${note.id}`);
+                          openDay(day);
                         }}
                         className={`
-                          flex items-center gap-1 px-1.5 py-0.5 rounded text-xs truncate
-                          ${typeColors[note.type]} bg-opacity-20 text-white
-                          hover:bg-opacity-30 transition-colors
+                          inline-flex items-center justify-center w-7 h-7 rounded-full hover:ring-1 hover:ring-gray-500
+                          ${isTodayDate && 'bg-blue-600 text-white'}
                         `}
                       >
-                        <Icon size={10} />
-                        <span className="truncate">{note.title}</span>
-                      </div>
-                    );
-                  })}
-                  {dayNotes.length > 3 && (
-                    <div className="text-xs text-gray-500 px-1">
-                      +{dayNotes.length - 3} más
+                        {format(day, 'd')}
+                      </span>
                     </div>
-                  )}
-                </div>
-              </div>
-            );
-          })}
-        </div>
+
+                    <div className="space-y-1">
+                      {dayEvents.slice(0, 3).map((event) => {
+                        const Icon = eventIcon(event);
+                        return (
+                          <div
+                            key={event.id}
+                            draggable={canDrag(event)}
+                            onDragStart={() => setDraggedEvent(event)}
+                            onDragEnd={handleDragEnd}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate(event.href);
+                            }}
+                            className={`
+                              flex items-center gap-1 px-1.5 py-0.5 rounded text-xs truncate
+                              ${eventColor(event)} bg-opacity-20 text-white
+                              hover:bg-opacity-30 transition-colors
+                              ${draggedEvent?.id === event.id ? 'opacity-50' : ''}
+                            `}
+                          >
+                            <Icon size={10} className="flex-shrink-0" />
+                            {!event.allDay && <span className="text-gray-300">{format(event.start, 'HH:mm')}</span>}
+                            <span className="truncate">{event.title}</span>
+                          </div>
+                        );
+                      })}
+                      {dayEvents.length > 3 && (
+                        <div className="text-xs text-gray-500 px-1">
+                          +{dayEvents.length - 3} más
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <CalendarTimeGrid
+            days={view === 'week' ? weekDays : [currentDate]}
+            events={events}
+            eventColor={eventColor}
+            canDrag={canDrag}
+            onEventClick={(event) => navigate(event.href)}
+            onDayClick={openDay}
+            onDragStart={setDraggedEvent}
+            onDragEnd={handleDragEnd}
+            onDrop={handleDrop}
+          />
+        )}
       </div>
 
       {/* Sidebar - Detalle del día seleccionado */}
@@ -228,10 +424,10 @@ export function Calendar() {
 
         {selectedDate && (
           <>
-            {selectedDateNotes.length === 0 ? (
+            {selectedDateEvents.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 <Clock size={32} className="mx-auto mb-2 opacity-50" />
-                <p className="text-sm">No hay tareas para este día</p>
+                <p className="text-sm">No hay eventos para este día</p>
                 <button
                   onClick={() => navigate(`/notes/new?date=${format(selectedDate!, 'yyyy-MM-dd')}&type=task`)}
                   className="mt-4 flex items-center gap-2 mx-auto px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors"
@@ -242,12 +438,51 @@ export function Calendar() {
               </div>
             ) : (
               <div className="space-y-3">
-                {selectedDateNotes.map((note) => {
-                  const Icon = typeIcons[note.type] || FileText;
+                {selectedDateEvents.map((event) => {
+                  const Icon = eventIcon(event);
+                  const note = event.note;
+
+                  if (!note) {
+                    return (
+                      <div
+                        key={event.id}
+                        onClick={() => navigate(event.href)}
+                        className={`p-3 bg-[#11111b] rounded-lg border-l-4 cursor-pointer hover:bg-[#1e1e2e] transition-colors ${
+                          event.source === 'meetings' ? 'border-l-emerald-500' : 'border-l-indigo-500'
+                        }`}
+                      >
+                        <div className="flex items-start gap-3">
+                          <div className={`p-2 rounded ${eventColor(event)} bg-opacity-20`}>
+                            <Icon size={16} className="text-white" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h4 className="text-white font-medium text-sm truncate">{event.title}</h4>
+                            {event.meeting ? (
+                              <p className="text-gray-500 text-xs mt-1 flex items-center gap-1">
+                                <Clock size={12} />
+                                {format(event.start, 'HH:mm')} – {format(event.end, 'HH:mm')}
+                                <span className="ml-1">· {meetingStatusLabels[event.meeting.status]}</span>
+                              </p>
+                            ) : (
+                              <>
+                                <p className="text-gray-500 text-xs mt-1">
+                                  {format(event.start, 'd MMM', { locale: es })} – {format(event.end, 'd MMM', { locale: es })}
+                                </p>
+                                {event.sprint?.goal && (
+                                  <p className="text-gray-500 text-xs mt-1 line-clamp-2">{event.sprint.goal}</p>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  }
+
                   return (
                     <div
-                      key={note.id}
-                      onClick={() => navigate(`/notes/${note.id}`)}
+                      key={event.id}
+                      onClick={() => navigate(event.href)}
                       className={`
                         p-3 bg-[#11111b] rounded-lg border-l-4 cursor-pointer
                         hover:bg-[#1e1e2e] transition-colors
@@ -255,7 +490,7 @@ export function Calendar() {
                       `}
                     >
                       <div className="flex items-start gap-3">
-                        <div className={`p-2 rounded ${typeColors[note.type]} bg-opacity-20`}>
+                        <div className={`p-2 rounded ${eventColor(event)} bg-opacity-20`}>
                           <Icon size={16} className="text-white" />
                         </div>
                         <div className="flex-1 min-w-0">
@@ -1,4 +1,5 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Hash,
   Send,
@@ -8,14 +9,27 @@ import {
   Trash2,
   X,
   Lock,
+  MessageSquare,
+  Paperclip,
+  Upload,
+  Users,
+  AtSign,
+  CheckCheck,
+  Search,
+  ArrowDown,
 } from 'lucide-react';
-import { useChatStore } from '../store/chatStore';
+import { useChatStore, getChannelDisplayName, getMentionHandle } from '../store/chatStore';
+import { useTeamStore } from '../store/teamStore';
 import { useAuthStore } from '../store/authStore';
+import { ChatThreadPanel } from '../components/ChatThreadPanel';
+import { ChatAttachment } from '../components/ChatAttachment';
+import { ChannelMembersModal } from '../components/ChannelMembersModal';
+import { ChatSearchPanel } from '../components/ChatSearchPanel';
 import { format, isToday, isYesterday, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
 
 export function Chat() {
-  const { user } = useAuthStore();
+  const { user, can } = useAuthStore();
   const {
     channels,
     messages,
@@ -25,11 +39,29 @@ export function Chat() {
     fetchChannels,
     setCurrentChannel,
     sendMessage,
+    sendFile,
     editMessage,
     deleteMessage,
     createChannel,
     subscribeToMessages,
+    threadParent,
+    openThread,
+    unreadCounts,
+    mentionCounts,
+    channelReads,
+    markChannelRead,
+    setViewingChannel,
+    hasOlderMessages,
+    hasNewerMessages,
+    isLoadingMore,
+    loadOlderMessages,
+    loadNewerMessages,
+    fetchMessages,
+    highlightedMessageId,
+    clearHighlight,
   } = useChatStore();
+  const { members: team, fetchMembers } = useTeamStore();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [newMessage, setNewMessage] = useState('');
   const [isCodeMode, setIsCodeMode] = useState(false);
@@ -37,16 +69,53 @@ export function Chat() {
   const [showNewChannel, setShowNewChannel] = useState(false);
   const [newChannelName, setNewChannelName] = useState('');
   const [newChannelDesc, setNewChannelDesc] = useState('');
+  const [newChannelPrivate, setNewChannelPrivate] = useState(false);
+  const [newChannelMembers, setNewChannelMembers] = useState<string[]>([]);
+  const [channelError, setChannelError] = useState<string | null>(null);
+  const [showMembers, setShowMembers] = useState(false);
   const [editingMessage, setEditingMessage] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
   const [contextMenu, setContextMenu] = useState<{ id: string; x: number; y: number } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [messageError, setMessageError] = useState<string | null>(null);
+  const [readMarker, setReadMarker] = useState<string | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [showSearch, setShowSearch] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Distancia al final antes de cargar mensajes antiguos, para no mover la vista
+  const scrollAnchorRef = useRef<number | null>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetchChannels();
-  }, [fetchChannels]);
+    fetchMembers();
+  }, [fetchChannels, fetchMembers]);
+
+  // Abrir el canal indicado en la URL (p. ej. desde una notificación de mención)
+  const channelParam = searchParams.get('channel');
+  useEffect(() => {
+    if (!channelParam) return;
+    const target = channels.find(c => c.id === channelParam);
+    if (!target) return;
+    if (currentChannel?.id !== target.id) setCurrentChannel(target);
+    setSearchParams({}, { replace: true });
+  }, [channelParam, channels, currentChannel?.id, setCurrentChannel, setSearchParams]);
+
+  // Al abrir un canal se guarda la marca de lectura anterior (para el
+  // separador de "nuevos mensajes") y se marca como leído
+  const currentChannelId = currentChannel?.id;
+  useEffect(() => {
+    if (!currentChannelId) return;
+    setReadMarker(useChatStore.getState().lastReadAt[currentChannelId] || null);
+    markChannelRead(currentChannelId);
+    setViewingChannel(currentChannelId);
+    return () => setViewingChannel(null);
+  }, [currentChannelId, markChannelRead, setViewingChannel]);
 
   useEffect(() => {
     if (currentChannel) {
@@ -56,9 +125,48 @@ export function Chat() {
   }, [currentChannel, subscribeToMessages]);
 
   useEffect(() => {
-    // Auto-scroll al final cuando llegan nuevos mensajes
+    setShowSearch(false);
+  }, [currentChannelId]);
+
+  // Auto-scroll al final solo cuando llega un mensaje nuevo (no al cargar
+  // historial ni al saltar a un resultado de búsqueda)
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    if (useChatStore.getState().highlightedMessageId) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [lastMessageId]);
+
+  const firstMessageId = messages[0]?.id;
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container || scrollAnchorRef.current === null) return;
+    container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+    scrollAnchorRef.current = null;
+  }, [firstMessageId]);
+
+  // Llevar a la vista el mensaje encontrado y quitar el resaltado después
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const element = document.getElementById(`message-${highlightedMessageId}`);
+    if (!element) return;
+    element.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(clearHighlight, 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, messages, clearHighlight]);
+
+  const handleMessagesScroll = () => {
+    const container = scrollRef.current;
+    if (!container || isLoadingMore) return;
+    if (container.scrollTop < 120 && hasOlderMessages) {
+      scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      loadOlderMessages();
+    } else if (
+      hasNewerMessages &&
+      container.scrollHeight - container.scrollTop - container.clientHeight < 120
+    ) {
+      loadNewerMessages();
+    }
+  };
 
   const handleSendMessage = async () => {
     if (!newMessage.trim() || !currentChannel) return;
@@ -75,7 +183,92 @@ export function Chat() {
     inputRef.current?.focus();
   };
 
+  const handleDeleteMessage = async (messageId: string) => {
+    setMessageError(null);
+    const result = await deleteMessage(messageId);
+    if (result.error) setMessageError(result.error);
+  };
+
+  const handleUploadFiles = async (files: File[]) => {
+    if (!currentChannel || files.length === 0) return;
+    setMessageError(null);
+    setUploadingCount((n) => n + files.length);
+    for (const file of files) {
+      const result = await sendFile(currentChannel.id, file);
+      setUploadingCount((n) => n - 1);
+      if (result.error) setMessageError(`${file.name}: ${result.error}`);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleUploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Pegar una captura o un archivo lo sube directamente
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleUploadFiles(files);
+  };
+
+  // Autocompletado de @menciones: miembros que pueden ver el canal
+  const mentionCandidates = mentionQuery === null ? [] : team
+    .filter(member => member.id !== user?.id)
+    .filter(member => currentChannel?.type === 'public' || currentChannel?.members?.some(m => m.user_id === member.id))
+    .filter(member =>
+      getMentionHandle(member).includes(mentionQuery.toLowerCase()) ||
+      member.full_name.toLowerCase().includes(mentionQuery.toLowerCase())
+    )
+    .slice(0, 6);
+
+  const handleMessageChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value;
+    setNewMessage(value);
+    const beforeCaret = value.slice(0, e.target.selectionStart);
+    const match = !isCodeMode && beforeCaret.match(/(^|\s)@([\w.-]*)$/);
+    setMentionQuery(match ? match[2] : null);
+    setMentionIndex(0);
+  };
+
+  const insertMention = (member: typeof team[number]) => {
+    const textarea = inputRef.current;
+    const caret = textarea?.selectionStart ?? newMessage.length;
+    const beforeCaret = newMessage.slice(0, caret).replace(/@([\w.-]*)$/, `@${getMentionHandle(member)} `);
+    setNewMessage(beforeCaret + newMessage.slice(caret));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(beforeCaret.length, beforeCaret.length);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionCandidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const delta = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex((mentionIndex + delta + mentionCandidates.length) % mentionCandidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(mentionCandidates[mentionIndex] || mentionCandidates[0]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMentionQuery(null);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -84,10 +277,78 @@ export function Chat() {
 
   const handleCreateChannel = async () => {
     if (!newChannelName.trim()) return;
-    await createChannel(newChannelName.toLowerCase().replace(/\s+/g, '-'), newChannelDesc);
+    const result = await createChannel(
+      newChannelName.toLowerCase().replace(/\s+/g, '-'),
+      newChannelDesc,
+      newChannelPrivate ? 'private' : 'public',
+      newChannelPrivate ? newChannelMembers : []
+    );
+    if (result.error) {
+      setChannelError(result.error);
+      return;
+    }
     setShowNewChannel(false);
     setNewChannelName('');
     setNewChannelDesc('');
+    setNewChannelPrivate(false);
+    setNewChannelMembers([]);
+    setChannelError(null);
+  };
+
+  const openNewChannel = () => {
+    setChannelError(null);
+    setShowNewChannel(true);
+    fetchMembers();
+  };
+
+  const roomChannels = channels.filter(c => c.type !== 'direct');
+  const directChannels = channels.filter(c => c.type === 'direct');
+  const currentChannelName = currentChannel ? getChannelDisplayName(currentChannel, user?.id) : '';
+  const isDirect = currentChannel?.type === 'direct';
+
+  // Primer mensaje ajeno posterior a la última lectura
+  const firstUnreadId = readMarker
+    ? messages.find(m => m.user_id !== user?.id && m.created_at > readMarker)?.id
+    : undefined;
+
+  // Confirmación de lectura bajo el último mensaje propio
+  const lastOwnMessage = [...messages].reverse().find(m => m.user_id === user?.id);
+  const seenBy = lastOwnMessage
+    ? channelReads.filter(r => r.user_id !== user?.id && r.last_read_at >= lastOwnMessage.created_at)
+    : [];
+  const seenByNames = seenBy
+    .map(r => team.find(t => t.id === r.user_id)?.full_name)
+    .filter(Boolean)
+    .join(', ');
+
+  // Resalta las @menciones de miembros del equipo (las propias en amarillo)
+  const renderContent = (content: string) =>
+    content.split(/(@[\w.-]+)/g).map((part, i) => {
+      const member = part.startsWith('@') && team.concat(user ? [user] : [])
+        .find(t => getMentionHandle(t) === part.slice(1).toLowerCase());
+      if (!member) return part;
+      return (
+        <span
+          key={i}
+          className={`px-0.5 rounded ${member.id === user?.id ? 'bg-yellow-500/20 text-yellow-300' : 'bg-blue-500/20 text-blue-300'}`}
+          title={member.full_name}
+        >
+          {part}
+        </span>
+      );
+    });
+
+  const unreadBadge = (channelId: string) => {
+    const unread = unreadCounts[channelId] || 0;
+    if (unread === 0 || channelId === currentChannel?.id) return null;
+    const mentions = mentionCounts[channelId] || 0;
+    return (
+      <span className={`ml-auto px-1.5 min-w-[20px] text-center rounded-full text-xs font-medium ${
+        mentions > 0 ? 'bg-red-500 text-white' : 'bg-gray-600 text-white'
+      }`}>
+        {mentions > 0 ? `@${mentions}` : unread}
+      </span>
+    );
   };
 
   const handleEditMessage = async () => {
@@ -140,13 +401,15 @@ export function Chat() {
         <div className="p-4 border-b border-gray-700">
           <div className="flex items-center justify-between">
             <h2 className="font-semibold text-white">Canales</h2>
-            <button
-              onClick={() => setShowNewChannel(true)}
-              className="p-1.5 rounded-lg hover:bg-[#1e1e2e] text-gray-400 hover:text-white transition-colors"
-              title="Crear canal"
-            >
-              <Plus size={18} />
-            </button>
+            {can('create_channels') && (
+              <button
+                onClick={openNewChannel}
+                className="p-1.5 rounded-lg hover:bg-[#1e1e2e] text-gray-400 hover:text-white transition-colors"
+                title="Crear canal"
+              >
+                <Plus size={18} />
+              </button>
+            )}
           </div>
         </div>
 
@@ -156,49 +419,129 @@ export function Chat() {
               <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
             </div>
           ) : (
-            <div className="space-y-1">
-              {channels.map((channel) => (
-                <button
-                  key={channel.id}
-                  onClick={() => setCurrentChannel(channel)}
-                  className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left transition-colors ${
-                    currentChannel?.id === channel.id
-                      ? 'bg-blue-500/20 text-blue-400'
-                      : 'text-gray-400 hover:bg-[#1e1e2e] hover:text-white'
-                  }`}
-                >
-                  {channel.type === 'private' ? (
-                    <Lock size={16} />
-                  ) : (
-                    <Hash size={16} />
-                  )}
-                  <span className="truncate">{channel.name}</span>
-                </button>
-              ))}
-            </div>
+            <>
+              <div className="space-y-1">
+                {roomChannels.map((channel) => (
+                  <button
+                    key={channel.id}
+                    onClick={() => setCurrentChannel(channel)}
+                    className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left transition-colors ${
+                      currentChannel?.id === channel.id
+                        ? 'bg-blue-500/20 text-blue-400'
+                        : 'text-gray-400 hover:bg-[#1e1e2e] hover:text-white'
+                    }`}
+                  >
+                    {channel.type === 'private' ? (
+                      <Lock size={16} />
+                    ) : (
+                      <Hash size={16} />
+                    )}
+                    <span className={`truncate ${unreadCounts[channel.id] && currentChannel?.id !== channel.id ? 'text-white font-medium' : ''}`}>
+                      {channel.name}
+                    </span>
+                    {unreadBadge(channel.id)}
+                  </button>
+                ))}
+              </div>
+
+              {/* Mensajes directos (se inician desde la página de Equipo) */}
+              <h3 className="px-3 mt-6 mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                Mensajes directos
+              </h3>
+              <div className="space-y-1">
+                {directChannels.length === 0 ? (
+                  <p className="px-3 text-xs text-gray-600">Escribe a alguien desde la página de Equipo</p>
+                ) : (
+                  directChannels.map((channel) => {
+                    const name = getChannelDisplayName(channel, user?.id);
+                    return (
+                      <button
+                        key={channel.id}
+                        onClick={() => setCurrentChannel(channel)}
+                        className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left transition-colors ${
+                          currentChannel?.id === channel.id
+                            ? 'bg-blue-500/20 text-blue-400'
+                            : 'text-gray-400 hover:bg-[#1e1e2e] hover:text-white'
+                        }`}
+                      >
+                        <span className="w-5 h-5 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-[10px] font-medium flex-shrink-0">
+                          {name.charAt(0).toUpperCase()}
+                        </span>
+                        <span className={`truncate ${unreadCounts[channel.id] && currentChannel?.id !== channel.id ? 'text-white font-medium' : ''}`}>
+                          {name}
+                        </span>
+                        {unreadBadge(channel.id)}
+                      </button>
+                    );
+                  })
+                )}
+              </div>
+            </>
           )}
         </div>
       </div>
 
       {/* Área principal de chat */}
-      <div className="flex-1 flex flex-col">
+      <div
+        className="relative flex-1 flex flex-col"
+        onDragOver={currentChannel ? handleDragOver : undefined}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+        }}
+        onDrop={currentChannel ? handleDrop : undefined}
+      >
+        {isDragging && (
+          <div className="absolute inset-0 z-30 flex items-center justify-center bg-blue-500/10 border-2 border-dashed border-blue-500 rounded-lg pointer-events-none">
+            <div className="flex flex-col items-center text-blue-300">
+              <Upload size={40} className="mb-2" />
+              <p className="font-medium">Suelta para subir a {isDirect ? currentChannelName : `#${currentChannelName}`}</p>
+            </div>
+          </div>
+        )}
         {currentChannel ? (
           <>
             {/* Header del canal */}
             <div className="px-6 py-4 border-b border-gray-700 bg-[#181825]">
               <div className="flex items-center gap-3">
-                <Hash size={20} className="text-gray-400" />
-                <div>
-                  <h1 className="font-semibold text-white">{currentChannel.name}</h1>
+                {currentChannel.type === 'private' ? (
+                  <Lock size={20} className="text-gray-400" />
+                ) : isDirect ? (
+                  <span className="w-7 h-7 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-sm font-medium">
+                    {currentChannelName.charAt(0).toUpperCase()}
+                  </span>
+                ) : (
+                  <Hash size={20} className="text-gray-400" />
+                )}
+                <div className="flex-1">
+                  <h1 className="font-semibold text-white">{currentChannelName}</h1>
                   {currentChannel.description && (
                     <p className="text-sm text-gray-500">{currentChannel.description}</p>
                   )}
                 </div>
+                {currentChannel.type === 'private' && (
+                  <button
+                    onClick={() => setShowMembers(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-[#1e1e2e] transition-colors"
+                    title="Miembros del canal"
+                  >
+                    <Users size={16} />
+                    {currentChannel.members?.length || 0}
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowSearch(!showSearch)}
+                  className={`p-2 rounded-lg transition-colors ${
+                    showSearch ? 'bg-[#1e1e2e] text-white' : 'text-gray-400 hover:text-white hover:bg-[#1e1e2e]'
+                  }`}
+                  title="Buscar en el canal"
+                >
+                  <Search size={16} />
+                </button>
               </div>
             </div>
 
             {/* Mensajes */}
-            <div className="flex-1 overflow-y-auto px-6 py-4">
+            <div ref={scrollRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto px-6 py-4">
               {isLoadingMessages ? (
                 <div className="flex items-center justify-center h-full">
                   <div className="w-8 h-8 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
@@ -206,11 +549,25 @@ export function Chat() {
               ) : messages.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-gray-500">
                   <Hash size={48} className="mb-4 opacity-50" />
-                  <p className="text-lg font-medium">Bienvenido a #{currentChannel.name}</p>
-                  <p className="text-sm">Este es el inicio del canal. ¡Envía el primer mensaje!</p>
+                  {isDirect ? (
+                    <>
+                      <p className="text-lg font-medium">Conversación con {currentChannelName}</p>
+                      <p className="text-sm">Solo ustedes dos pueden ver estos mensajes.</p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-lg font-medium">Bienvenido a #{currentChannel.name}</p>
+                      <p className="text-sm">Este es el inicio del canal. ¡Envía el primer mensaje!</p>
+                    </>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-6">
+                  {isLoadingMore && hasOlderMessages && (
+                    <div className="flex justify-center">
+                      <div className="w-5 h-5 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+                    </div>
+                  )}
                   {groupMessagesByDate().map((group) => (
                     <div key={group.date}>
                       {/* Separador de fecha */}
@@ -227,9 +584,20 @@ export function Chat() {
                         {group.messages.map((msg) => (
                           <div
                             key={msg.id}
-                            className="group flex gap-3 hover:bg-[#181825]/50 -mx-4 px-4 py-2 rounded-lg"
+                            id={`message-${msg.id}`}
+                            className={`relative group flex gap-3 -mx-4 px-4 py-2 rounded-lg transition-colors ${
+                              msg.id === highlightedMessageId
+                                ? 'bg-yellow-500/10 ring-1 ring-yellow-500/40'
+                                : 'hover:bg-[#181825]/50'
+                            }${msg.id === firstUnreadId ? ' mt-6 border-t border-red-500/50 rounded-t-none' : ''}`}
                             onContextMenu={(e) => msg.user_id === user?.id && handleContextMenu(e, msg.id)}
                           >
+                            {/* Separador de mensajes nuevos desde la última lectura */}
+                            {msg.id === firstUnreadId && (
+                              <span className="absolute -top-2.5 left-1/2 -translate-x-1/2 px-3 bg-[#11111b] text-xs text-red-400 font-medium">
+                                Nuevos mensajes
+                              </span>
+                            )}
                             {/* Avatar */}
                             <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white font-medium flex-shrink-0">
                               {msg.user?.full_name?.charAt(0).toUpperCase() || '?'}
@@ -284,33 +652,65 @@ export function Chat() {
                                     <code>{msg.content}</code>
                                   </pre>
                                 </div>
+                              ) : msg.message_type === 'image' || msg.message_type === 'file' ? (
+                                <ChatAttachment message={msg} />
                               ) : (
                                 <p className="text-gray-300 mt-1 whitespace-pre-wrap break-words">
-                                  {msg.content}
+                                  {renderContent(msg.content)}
                                 </p>
                               )}
-                            </div>
 
-                            {/* Acciones (solo para mensajes propios) */}
-                            {msg.user_id === user?.id && (
-                              <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-start gap-1">
+                              {!!msg.reply_count && (
                                 <button
-                                  onClick={() => {
-                                    setEditingMessage(msg.id);
-                                    setEditContent(msg.content);
-                                  }}
-                                  className="p-1.5 rounded hover:bg-[#1e1e2e] text-gray-500 hover:text-white"
+                                  onClick={() => openThread(msg)}
+                                  className={`mt-1 flex items-center gap-1.5 text-xs font-medium hover:underline ${
+                                    threadParent?.id === msg.id ? 'text-blue-300' : 'text-blue-400'
+                                  }`}
                                 >
-                                  <Edit2 size={14} />
+                                  <MessageSquare size={12} />
+                                  {msg.reply_count === 1 ? '1 respuesta' : `${msg.reply_count} respuestas`}
                                 </button>
-                                <button
-                                  onClick={() => deleteMessage(msg.id)}
-                                  className="p-1.5 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"
-                                >
-                                  <Trash2 size={14} />
-                                </button>
-                              </div>
-                            )}
+                              )}
+
+                              {msg.id === lastOwnMessage?.id && seenBy.length > 0 && (
+                                <p className="mt-1 flex items-center gap-1 text-xs text-gray-500" title={seenByNames}>
+                                  <CheckCheck size={12} className="text-blue-400" />
+                                  {isDirect ? 'Visto' : `Visto por ${seenBy.length}`}
+                                </p>
+                              )}
+                            </div>
+
+                            {/* Acciones: responder en hilo; editar y eliminar solo mensajes propios */}
+                            <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-start gap-1">
+                              <button
+                                onClick={() => openThread(msg)}
+                                className="p-1.5 rounded hover:bg-[#1e1e2e] text-gray-500 hover:text-white"
+                                title="Responder en hilo"
+                              >
+                                <MessageSquare size={14} />
+                              </button>
+                              {msg.user_id === user?.id && (
+                                <>
+                                  {(msg.message_type === 'text' || msg.message_type === 'code') && (
+                                    <button
+                                      onClick={() => {
+                                        setEditingMessage(msg.id);
+                                        setEditContent(msg.content);
+                                      }}
+                                      className="p-1.5 rounded hover:bg-[#1e1e2e] text-gray-500 hover:text-white"
+                                    >
+                                      <Edit2 size={14} />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => handleDeleteMessage(msg.id)}
+                                    className="p-1.5 rounded hover:bg-red-500/20 text-gray-500 hover:text-red-400"
+                                  >
+                                    <Trash2 size={14} />
+                                  </button>
+                                </>
+                              )}
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -319,10 +719,36 @@ export function Chat() {
                   <div ref={messagesEndRef} />
                 </div>
               )}
+
+              {hasNewerMessages && !isLoadingMessages && (
+                <div className="sticky bottom-0 flex justify-center">
+                  <button
+                    onClick={() => fetchMessages(currentChannel.id)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-blue-600 text-white text-sm shadow-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <ArrowDown size={14} />
+                    Ir a los mensajes recientes
+                  </button>
+                </div>
+              )}
             </div>
 
             {/* Input de mensaje */}
             <div className="px-6 py-4 border-t border-gray-700 bg-[#181825]">
+              {uploadingCount > 0 && (
+                <div className="flex items-center gap-2 mb-2 text-sm text-gray-400">
+                  <div className="w-4 h-4 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+                  Subiendo {uploadingCount === 1 ? '1 archivo' : `${uploadingCount} archivos`}...
+                </div>
+              )}
+              {messageError && (
+                <div className="flex items-center justify-between mb-2 text-sm text-red-400">
+                  {messageError}
+                  <button onClick={() => setMessageError(null)} className="text-gray-500 hover:text-white">
+                    <X size={14} />
+                  </button>
+                </div>
+              )}
               {isCodeMode && (
                 <div className="flex items-center gap-2 mb-2">
                   <Code size={16} className="text-blue-400" />
@@ -352,19 +778,57 @@ export function Chat() {
                 </div>
               )}
               <div className="flex items-end gap-3">
-                <div className="flex-1 bg-[#11111b] rounded-xl border border-gray-700 focus-within:border-blue-500 transition-colors">
+                <div className="relative flex-1 bg-[#11111b] rounded-xl border border-gray-700 focus-within:border-blue-500 transition-colors">
+                  {mentionCandidates.length > 0 && (
+                    <div className="absolute bottom-full left-0 mb-2 w-72 bg-[#1e1e2e] border border-gray-700 rounded-lg shadow-xl py-1 z-20">
+                      {mentionCandidates.map((member, i) => (
+                        <button
+                          key={member.id}
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            insertMention(member);
+                          }}
+                          className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm ${
+                            i === mentionIndex ? 'bg-blue-500/20 text-white' : 'text-gray-300 hover:bg-[#181825]'
+                          }`}
+                        >
+                          <AtSign size={14} className="text-gray-500" />
+                          <span className="truncate">{member.full_name}</span>
+                          <span className="ml-auto text-xs text-gray-500">@{getMentionHandle(member)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <textarea
                     ref={inputRef}
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={handleMessageChange}
                     onKeyDown={handleKeyDown}
-                    placeholder={`Mensaje en #${currentChannel.name}`}
+                    onPaste={handlePaste}
+                    placeholder={isDirect ? `Mensaje a ${currentChannelName}` : `Mensaje en #${currentChannel.name}`}
                     className="w-full bg-transparent px-4 py-3 text-white placeholder-gray-500 outline-none resize-none"
                     rows={isCodeMode ? 4 : 1}
                     style={{ minHeight: isCodeMode ? '100px' : '44px', maxHeight: '200px' }}
                   />
                 </div>
                 <div className="flex items-center gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      handleUploadFiles(Array.from(e.target.files || []));
+                      e.target.value = '';
+                    }}
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="p-3 rounded-xl bg-[#11111b] text-gray-400 hover:text-white hover:bg-[#1e1e2e] transition-colors"
+                    title="Adjuntar archivo (también puedes arrastrarlo o pegarlo)"
+                  >
+                    <Paperclip size={20} />
+                  </button>
                   <button
                     onClick={() => setIsCodeMode(!isCodeMode)}
                     className={`p-3 rounded-xl transition-colors ${
@@ -398,6 +862,17 @@ export function Chat() {
         )}
       </div>
 
+      {/* Panel del hilo; la búsqueda ocupa el mismo sitio cuando no hay hilo abierto */}
+      <ChatThreadPanel />
+      {showSearch && !threadParent && currentChannel && (
+        <ChatSearchPanel channelId={currentChannel.id} onClose={() => setShowSearch(false)} />
+      )}
+
+      <ChannelMembersModal
+        channel={showMembers && currentChannel?.type === 'private' ? currentChannel : null}
+        onClose={() => setShowMembers(false)}
+      />
+
       {/* Modal nuevo canal */}
       {showNewChannel && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
@@ -442,6 +917,42 @@ export function Chat() {
                 />
               </div>
 
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={newChannelPrivate}
+                  onChange={(e) => setNewChannelPrivate(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-600 bg-[#11111b]"
+                />
+                <span className="text-sm text-gray-300 flex items-center gap-1.5">
+                  <Lock size={14} />
+                  Canal privado (solo lo ven sus miembros)
+                </span>
+              </label>
+
+              {newChannelPrivate && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Miembros</label>
+                  <div className="max-h-40 overflow-y-auto space-y-1 bg-[#11111b] border border-gray-600 rounded-lg p-2">
+                    {team.filter(m => m.id !== user?.id).map(member => (
+                      <label key={member.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-[#1e1e2e] cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={newChannelMembers.includes(member.id)}
+                          onChange={(e) => setNewChannelMembers(e.target.checked
+                            ? [...newChannelMembers, member.id]
+                            : newChannelMembers.filter(id => id !== member.id))}
+                          className="w-4 h-4 rounded border-gray-600 bg-[#11111b]"
+                        />
+                        <span className="text-sm text-gray-300">{member.full_name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {channelError && <p className="text-sm text-red-400">{channelError}</p>}
+
               <div className="flex gap-3 mt-6">
                 <button
                   onClick={() => setShowNewChannel(false)}
@@ -473,23 +984,25 @@ export function Chat() {
             className="fixed z-50 bg-[#181825] border border-gray-700 rounded-lg shadow-xl py-1 min-w-[150px]"
             style={{ left: contextMenu.x, top: contextMenu.y }}
           >
+            {['text', 'code'].includes(messages.find(m => m.id === contextMenu.id)?.message_type || '') && (
+              <button
+                onClick={() => {
+                  const msg = messages.find(m => m.id === contextMenu.id);
+                  if (msg) {
+                    setEditingMessage(msg.id);
+                    setEditContent(msg.content);
+                  }
+                  setContextMenu(null);
+                }}
+                className="w-full flex items-center gap-2 px-4 py-2 text-gray-300 hover:bg-[#1e1e2e] text-left"
+              >
+                <Edit2 size={16} />
+                Editar
+              </button>
+            )}
             <button
               onClick={() => {
-                const msg = messages.find(m => m.id === contextMenu.id);
-                if (msg) {
-                  setEditingMessage(msg.id);
-                  setEditContent(msg.content);
-                }
-                setContextMenu(null);
-              }}
-              className="w-full flex items-center gap-2 px-4 py-2 text-gray-300 hover:bg-[#1e1e2e] text-left"
-            >
-              <Edit2 size={16} />
-              Editar
-            </button>
-            <button
-              onClick={() => {
-                deleteMessage(contextMenu.id);
+                handleDeleteMessage(contextMenu.id);
                 setContextMenu(null);
               }}
               className="w-full flex items-center gap-2 px-4 py-2 text-red-400 hover:bg-red-500/10 text-left"
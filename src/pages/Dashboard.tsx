@@ -19,12 +19,14 @@ import {
   Edit,
   Copy,
   Trash2,
+  History,
 } from 'lucide-react';
 import { useNotesStore } from '../store/notesStore';
 import { useAuthStore } from '../store/authStore';
 import { useMeetingsStore } from '../store/meetingsStore';
 import { useSprintStore } from '../store/sprintStore';
 import { ContextMenu, useContextMenu } from '../components/ContextMenu';
+import { ActivityTimeline } from '../components/ActivityTimeline';
 import { format, isToday, isTomorrow, parseISO, differenceInDays } from 'date-fns';
 import { es } from 'date-fns/locale';
 
@@ -225,7 +227,13 @@ export function Dashboard() {
                 <p className="text-gray-400 text-sm mt-1">{currentSprint.goal}</p>
               )}
             </div>
-            <div className="text-right">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => navigate(`/sprints?id=${currentSprint.id}`)}
+                className="text-sm text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                Ver reporte
+              </button>
               <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                 sprintStats && sprintStats.daysRemaining <= 3 
                   ? 'bg-red-500/20 text-red-400' 
@@ -433,6 +441,19 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Historial de cambios del equipo */}
+      <div className="mt-6 bg-[#181825] rounded-xl border border-gray-700">
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="font-semibold text-white flex items-center gap-2">
+            <History size={18} />
+            Historial de Cambios
+          </h2>
+        </div>
+        <div className="p-4">
+          <ActivityTimeline showFilters limit={30} />
+        </div>
+      </div>
+
       {/* Context Menu */}
       {contextMenu && (
         <ContextMenu
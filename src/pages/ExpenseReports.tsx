@@ -0,0 +1,487 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  BarChart3,
+  ArrowLeft,
+  TrendingUp,
+  TrendingDown,
+  Tag,
+  Store,
+  Wallet,
+  AlertTriangle,
+  Edit,
+  Trash2,
+  Check,
+  X,
+} from 'lucide-react';
+import { useExpensesStore } from '../store/expensesStore';
+import { useExchangeRatesStore } from '../store/exchangeRatesStore';
+import { useBudgetsStore, getBudgetUsage, BudgetLevel } from '../store/budgetsStore';
+import { useAuthStore } from '../store/authStore';
+import { Expense } from '../lib/supabase';
+import { CURRENCIES, formatCurrency, convertAmount } from '../lib/currency';
+import {
+  format,
+  parseISO,
+  startOfMonth,
+  endOfMonth,
+  subMonths,
+  eachMonthOfInterval,
+} from 'date-fns';
+import { es } from 'date-fns/locale';
+
+type StatusFilter = 'active' | 'all' | Expense['status'];
+
+const statusFilterLabels: Record<StatusFilter, string> = {
+  active: 'Todos salvo rechazados',
+  all: 'Todos los estados',
+  pending: 'Pendientes',
+  approved: 'Aprobados',
+  paid: 'Pagados',
+  rejected: 'Rechazados',
+};
+
+const budgetLevelStyles: Record<BudgetLevel, { bar: string; text: string }> = {
+  ok: { bar: 'bg-green-500', text: 'text-gray-400' },
+  warning: { bar: 'bg-yellow-500', text: 'text-yellow-400' },
+  exceeded: { bar: 'bg-red-500', text: 'text-red-400' },
+};
+
+const MAX_VENDORS = 10;
+
+export function ExpenseReports() {
+  const navigate = useNavigate();
+  const { expenses, categories, fetchExpenses, fetchCategories } = useExpensesStore();
+  const { rates, reportingCurrency, fetchRates, setReportingCurrency } = useExchangeRatesStore();
+  const { budgets, fetchBudgets, saveBudget, deleteBudget } = useBudgetsStore();
+  const { can } = useAuthStore();
+  const canManageBudgets = can('approve_expenses');
+
+  const [from, setFrom] = useState(format(startOfMonth(subMonths(new Date(), 5)), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [budgetMonth, setBudgetMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [editingBudget, setEditingBudget] = useState<{ categoryId: string; amount: string; currency: string } | null>(null);
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCategories();
+    fetchExpenses();
+    fetchRates();
+    fetchBudgets();
+  }, [fetchCategories, fetchExpenses, fetchRates, fetchBudgets]);
+
+  const report = useMemo(() => {
+    const convert = (e: Expense) =>
+      convertAmount(rates, e.amount, e.currency, reportingCurrency, e.expense_date);
+
+    const inRange = expenses.filter(e => {
+      if (e.expense_date < from || e.expense_date > to) return false;
+      if (statusFilter === 'active') return e.status !== 'rejected';
+      if (statusFilter === 'all') return true;
+      return e.status === statusFilter;
+    });
+
+    const byCategory = new Map<string, number>();
+    const byVendor = new Map<string, number>();
+    const byMonth = new Map<string, number>();
+    let total = 0;
+    let missingRate = 0;
+
+    inRange.forEach(e => {
+      const amount = convert(e);
+      if (amount === null) {
+        missingRate++;
+        return;
+      }
+      total += amount;
+      const categoryKey = e.category_id || '';
+      byCategory.set(categoryKey, (byCategory.get(categoryKey) || 0) + amount);
+      const vendorKey = e.vendor?.trim() || '';
+      byVendor.set(vendorKey, (byVendor.get(vendorKey) || 0) + amount);
+      const monthKey = e.expense_date.slice(0, 7);
+      byMonth.set(monthKey, (byMonth.get(monthKey) || 0) + amount);
+    });
+
+    const months = from <= to
+      ? eachMonthOfInterval({ start: parseISO(from), end: parseISO(to) }).map(month => ({
+          month,
+          total: byMonth.get(format(month, 'yyyy-MM')) || 0,
+        }))
+      : [];
+
+    return {
+      count: inRange.length,
+      total,
+      missingRate,
+      categories: [...byCategory.entries()]
+        .map(([categoryId, amount]) => ({ category: categories.find(c => c.id === categoryId), amount }))
+        .sort((a, b) => b.amount - a.amount),
+      vendors: [...byVendor.entries()]
+        .map(([vendor, amount]) => ({ vendor, amount }))
+        .sort((a, b) => b.amount - a.amount),
+      months,
+    };
+  }, [expenses, categories, rates, reportingCurrency, from, to, statusFilter]);
+
+  const budgetUsage = useMemo(
+    () => budgets
+      .map(b => getBudgetUsage(b, expenses, rates, parseISO(`${budgetMonth}-01`)))
+      .sort((a, b) => b.ratio - a.ratio),
+    [budgets, expenses, rates, budgetMonth]
+  );
+  const unbudgetedCategories = categories.filter(c => !budgets.some(b => b.category_id === c.id));
+
+  const maxCategory = Math.max(1, ...report.categories.map(c => c.amount));
+  const maxVendor = Math.max(1, ...report.vendors.map(v => v.amount));
+  const maxMonth = Math.max(1, ...report.months.map(m => m.total));
+  const monthsWithSpend = report.months.filter(m => m.total > 0).length;
+  const lastMonths = report.months.slice(-2);
+  const monthChange = lastMonths.length === 2 && lastMonths[0].total > 0
+    ? (lastMonths[1].total - lastMonths[0].total) / lastMonths[0].total
+    : null;
+
+  const handleSaveBudget = async () => {
+    if (!editingBudget) return;
+    setBudgetError(null);
+    const amount = parseInt(editingBudget.amount.replace(/\./g, ''), 10) || 0;
+    const result = await saveBudget(editingBudget.categoryId, amount, editingBudget.currency);
+    if (result.error) {
+      setBudgetError(result.error);
+      return;
+    }
+    setEditingBudget(null);
+  };
+
+  const handleDeleteBudget = async (id: string) => {
+    const result = await deleteBudget(id);
+    setBudgetError(result.error);
+  };
+
+  const startEditing = (categoryId: string) => {
+    const budget = budgets.find(b => b.category_id === categoryId);
+    setBudgetError(null);
+    setEditingBudget({
+      categoryId,
+      amount: budget ? budget.amount.toLocaleString('es-CO') : '',
+      currency: budget?.currency || reportingCurrency,
+    });
+  };
+
+  const renderBudgetEditor = () => editingBudget && (
+    <div className="flex items-center gap-2 mt-2">
+      <input
+        type="text"
+        value={editingBudget.amount}
+        onChange={(e) => {
+          const value = e.target.value.replace(/\D/g, '');
+          setEditingBudget({ ...editingBudget, amount: value ? parseInt(value, 10).toLocaleString('es-CO') : '' });
+        }}
+        className="flex-1 bg-[#11111b] border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+        placeholder="Monto mensual"
+        autoFocus
+      />
+      <select
+        value={editingBudget.currency}
+        onChange={(e) => setEditingBudget({ ...editingBudget, currency: e.target.value })}
+        className="bg-[#11111b] border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+      >
+        {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+      </select>
+      <button onClick={handleSaveBudget} className="p-1.5 rounded hover:bg-[#11111b] text-green-400" title="Guardar">
+        <Check size={16} />
+      </button>
+      <button onClick={() => setEditingBudget(null)} className="p-1.5 rounded hover:bg-[#11111b] text-gray-400" title="Cancelar">
+        <X size={16} />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <button
+            onClick={() => navigate('/expenses')}
+            className="flex items-center gap-1 text-sm text-gray-400 hover:text-white mb-2"
+          >
+            <ArrowLeft size={16} />
+            Volver a gastos
+          </button>
+          <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+            <BarChart3 size={28} className="text-blue-400" />
+            Reportes de Gastos
+          </h1>
+          <p className="text-gray-400 mt-1">Distribución, tendencia y presupuestos</p>
+        </div>
+        <select
+          value={reportingCurrency}
+          onChange={(e) => setReportingCurrency(e.target.value)}
+          className="bg-[#181825] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+        >
+          {CURRENCIES.map(c => (
+            <option key={c} value={c}>Totales en {c}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Desde</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="bg-[#181825] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Hasta</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="bg-[#181825] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Estado</label>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="bg-[#181825] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+          >
+            {(Object.keys(statusFilterLabels) as StatusFilter[]).map(status => (
+              <option key={status} value={status}>{statusFilterLabels[status]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {report.missingRate > 0 && (
+        <div className="mb-6 p-3 rounded-lg bg-orange-500/10 border border-orange-500/20 text-sm text-orange-400">
+          {report.missingRate} gasto(s) sin tasa de cambio a {reportingCurrency} no se incluyen en el reporte.
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <p className="text-gray-400 text-sm">Total del período</p>
+          <p className="text-2xl font-bold text-white mt-1">{formatCurrency(report.total, reportingCurrency)}</p>
+          <p className="text-xs text-gray-500 mt-1">{report.count} gastos</p>
+        </div>
+        <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <p className="text-gray-400 text-sm">Promedio mensual</p>
+          <p className="text-2xl font-bold text-white mt-1">
+            {formatCurrency(monthsWithSpend > 0 ? report.total / monthsWithSpend : 0, reportingCurrency)}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">Meses con gastos: {monthsWithSpend}</p>
+        </div>
+        <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <p className="text-gray-400 text-sm">Último mes vs. anterior</p>
+          {monthChange === null ? (
+            <p className="text-2xl font-bold text-gray-500 mt-1">—</p>
+          ) : (
+            <p className={`text-2xl font-bold mt-1 flex items-center gap-2 ${monthChange > 0 ? 'text-red-400' : 'text-green-400'}`}>
+              {monthChange > 0 ? <TrendingUp size={22} /> : <TrendingDown size={22} />}
+              {monthChange > 0 ? '+' : ''}{Math.round(monthChange * 100)}%
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Tendencia mensual */}
+      <div className="bg-[#181825] rounded-xl border border-gray-700 p-5 mb-6">
+        <h2 className="font-semibold text-white mb-4">Tendencia mensual</h2>
+        {report.months.length === 0 ? (
+          <p className="text-gray-500 text-center py-8 text-sm">Rango de fechas no válido</p>
+        ) : (
+          <div className="flex items-end gap-2 h-48">
+            {report.months.map((m, i) => {
+              const previous = i > 0 ? report.months[i - 1].total : 0;
+              const change = previous > 0 ? (m.total - previous) / previous : null;
+              return (
+                <div key={m.month.toISOString()} className="flex-1 flex flex-col items-center justify-end h-full min-w-0">
+                  <span className="text-[10px] text-gray-400 mb-1 truncate max-w-full">
+                    {m.total > 0 ? formatCurrency(m.total, reportingCurrency) : ''}
+                  </span>
+                  <div
+                    className="w-full max-w-[48px] bg-blue-500/70 rounded-t"
+                    style={{ height: `${(m.total / maxMonth) * 100}%`, minHeight: m.total > 0 ? 2 : 0 }}
+                    title={change !== null ? `${change > 0 ? '+' : ''}${Math.round(change * 100)}% vs. mes anterior` : undefined}
+                  />
+                  <span className="text-xs text-gray-500 mt-2 capitalize">
+                    {format(m.month, 'MMM yy', { locale: es })}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Por categoría */}
+        <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <h2 className="font-semibold text-white mb-4 flex items-center gap-2">
+            <Tag size={18} className="text-gray-400" />
+            Por categoría
+          </h2>
+          {report.categories.length === 0 ? (
+            <p className="text-gray-500 text-center py-8 text-sm">Sin datos</p>
+          ) : (
+            <div className="space-y-3">
+              {report.categories.map(({ category, amount }) => (
+                <div key={category?.id || 'none'}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-300 truncate">
+                      {category ? `${category.icon} ${category.name}` : 'Sin categoría'}
+                    </span>
+                    <span className="text-gray-400">
+                      {formatCurrency(amount, reportingCurrency)}
+                      <span className="text-gray-500"> · {Math.round((amount / (report.total || 1)) * 100)}%</span>
+                    </span>
+                  </div>
+                  <div className="h-2.5 bg-[#11111b] rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${(amount / maxCategory) * 100}%`, backgroundColor: category?.color || '#64748b' }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Por proveedor */}
+        <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <h2 className="font-semibold text-white mb-4 flex items-center gap-2">
+            <Store size={18} className="text-gray-400" />
+            Por proveedor
+            {report.vendors.length > MAX_VENDORS && (
+              <span className="text-xs font-normal text-gray-500">(top {MAX_VENDORS})</span>
+            )}
+          </h2>
+          {report.vendors.length === 0 ? (
+            <p className="text-gray-500 text-center py-8 text-sm">Sin datos</p>
+          ) : (
+            <div className="space-y-3">
+              {report.vendors.slice(0, MAX_VENDORS).map(({ vendor, amount }) => (
+                <div key={vendor || 'none'}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className={`truncate ${vendor ? 'text-gray-300' : 'text-gray-500 italic'}`}>
+                      {vendor || 'Sin proveedor'}
+                    </span>
+                    <span className="text-gray-400">{formatCurrency(amount, reportingCurrency)}</span>
+                  </div>
+                  <div className="h-2.5 bg-[#11111b] rounded-full overflow-hidden">
+                    <div className="h-full bg-purple-500/70 rounded-full" style={{ width: `${(amount / maxVendor) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Presupuestos */}
+      <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-white flex items-center gap-2">
+            <Wallet size={18} className="text-gray-400" />
+            Presupuestos mensuales
+          </h2>
+          <input
+            type="month"
+            value={budgetMonth}
+            onChange={(e) => e.target.value && setBudgetMonth(e.target.value)}
+            className="bg-[#11111b] border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        {budgetError && <p className="text-sm text-red-400 mb-3">{budgetError}</p>}
+
+        {budgetUsage.length === 0 && !canManageBudgets ? (
+          <p className="text-gray-500 text-center py-8 text-sm">No hay presupuestos definidos</p>
+        ) : (
+          <div className="space-y-4">
+            {budgetUsage.map(({ budget, spent, ratio, level }) => {
+              const category = categories.find(c => c.id === budget.category_id);
+              const styles = budgetLevelStyles[level];
+              const isEditing = editingBudget?.categoryId === budget.category_id;
+              return (
+                <div key={budget.id}>
+                  <div className="flex items-center justify-between text-sm mb-1 gap-3">
+                    <span className="text-gray-300 truncate flex items-center gap-2">
+                      {category ? `${category.icon} ${category.name}` : 'Categoría eliminada'}
+                      {level !== 'ok' && (
+                        <span className={`flex items-center gap-1 text-xs ${styles.text}`}>
+                          <AlertTriangle size={12} />
+                          {level === 'exceeded' ? 'Excedido' : 'Cerca del límite'}
+                        </span>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <span className={styles.text}>
+                        {formatCurrency(spent, budget.currency)} / {formatCurrency(budget.amount, budget.currency)}
+                        <span className="text-gray-500"> · {Math.round(ratio * 100)}%</span>
+                      </span>
+                      {canManageBudgets && !isEditing && (
+                        <>
+                          <button
+                            onClick={() => startEditing(budget.category_id)}
+                            className="p-1 rounded hover:bg-[#11111b] text-gray-500 hover:text-white"
+                            title="Editar presupuesto"
+                          >
+                            <Edit size={14} />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteBudget(budget.id)}
+                            className="p-1 rounded hover:bg-[#11111b] text-gray-500 hover:text-red-400"
+                            title="Eliminar presupuesto"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </>
+                      )}
+                    </span>
+                  </div>
+                  <div className="h-2.5 bg-[#11111b] rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${styles.bar}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+                  </div>
+                  {isEditing && renderBudgetEditor()}
+                </div>
+              );
+            })}
+
+            {canManageBudgets && unbudgetedCategories.length > 0 && (
+              <div className="pt-4 border-t border-gray-700/50">
+                <p className="text-xs text-gray-500 mb-2">Categorías sin presupuesto</p>
+                <div className="flex flex-wrap gap-2">
+                  {unbudgetedCategories.map(category => (
+                    <button
+                      key={category.id}
+                      onClick={() => startEditing(category.id)}
+                      className={`px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                        editingBudget?.categoryId === category.id
+                          ? 'border-blue-500 text-blue-400'
+                          : 'border-gray-700 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {category.icon} {category.name}
+                    </button>
+                  ))}
+                </div>
+                {editingBudget && unbudgetedCategories.some(c => c.id === editingBudget.categoryId) && renderBudgetEditor()}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Plus,
   DollarSign,
@@ -14,11 +15,31 @@ import {
   CheckCircle,
   Clock,
   XCircle,
+  ThumbsUp,
+  ThumbsDown,
+  Inbox,
+  Paperclip,
+  ArrowLeftRight,
+  BarChart3,
+  AlertTriangle,
+  Upload,
+  Download,
+  Repeat,
 } from 'lucide-react';
 import { useExpensesStore } from '../store/expensesStore';
+import { useExchangeRatesStore } from '../store/exchangeRatesStore';
+import { useBudgetsStore, getBudgetUsage } from '../store/budgetsStore';
+import { useRecurringExpensesStore, frequencyLabels, isTemplateDue } from '../store/recurringExpensesStore';
 import { useAuthStore } from '../store/authStore';
 import { Expense } from '../lib/supabase';
 import { ConfirmModal } from '../components/ConfirmModal';
+import { ReceiptDropzone } from '../components/ReceiptDropzone';
+import { ReceiptPreview } from '../components/ReceiptPreview';
+import { ExchangeRatesModal } from '../components/ExchangeRatesModal';
+import { ExpenseImportModal } from '../components/ExpenseImportModal';
+import { RecurringExpensesModal } from '../components/RecurringExpensesModal';
+import { exportExpenses } from '../lib/expenseImport';
+import { CURRENCIES, currencyLabels, formatCurrency, convertAmount } from '../lib/currency';
 import { format, parseISO, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
 import { es } from 'date-fns/locale';
 
@@ -38,8 +59,27 @@ const statusConfig = {
 };
 
 export function Expenses() {
-  useAuthStore();
-  const { expenses, categories, isLoading, fetchExpenses, fetchCategories, createExpense, updateExpense, deleteExpense } = useExpensesStore();
+  const navigate = useNavigate();
+  const { user, can } = useAuthStore();
+  const canApprove = can('approve_expenses');
+  const {
+    expenses,
+    categories,
+    isLoading,
+    fetchExpenses,
+    fetchCategories,
+    createExpense,
+    updateExpense,
+    deleteExpense,
+    approveExpense,
+    rejectExpense,
+    markExpensePaid,
+    uploadReceipt,
+    removeReceipt,
+  } = useExpensesStore();
+  const { rates, reportingCurrency, fetchRates, setReportingCurrency } = useExchangeRatesStore();
+  const { budgets, fetchBudgets } = useBudgetsStore();
+  const { templates, fetchTemplates, generateDueExpenses } = useRecurringExpensesStore();
 
   const [showModal, setShowModal] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
@@ -50,6 +90,19 @@ export function Expenses() {
   const [dateFilter, setDateFilter] = useState<'all' | 'month' | 'custom'>('month');
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
+  const [view, setView] = useState<'all' | 'review'>('all');
+  const [rejectModal, setRejectModal] = useState<{ expense: Expense | null; reason: string }>({ expense: null, reason: '' });
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [removeExistingReceipt, setRemoveExistingReceipt] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [missingReceiptOnly, setMissingReceiptOnly] = useState(false);
+  const [showRatesModal, setShowRatesModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showRecurringModal, setShowRecurringModal] = useState(false);
 
   const [formData, setFormData] = useState({
     description: '',
@@ -66,7 +119,19 @@ export function Expenses() {
   useEffect(() => {
     fetchCategories();
     fetchExpenses();
-  }, [fetchCategories, fetchExpenses]);
+    fetchRates();
+    fetchBudgets();
+  }, [fetchCategories, fetchExpenses, fetchRates, fetchBudgets]);
+
+  // Registrar los cargos recurrentes vencidos. Con pg_cron ya los registra el
+  // servidor y esto no encuentra nada; sin él, se hace al abrir la página.
+  useEffect(() => {
+    fetchTemplates()
+      .then(() => generateDueExpenses())
+      .then(({ generated }) => {
+        if (generated > 0) setNotice(`Se registraron ${generated} gastos recurrentes como pendientes`);
+      });
+  }, [fetchTemplates, generateDueExpenses]);
 
   const resetForm = () => {
     setFormData({
@@ -81,6 +146,9 @@ export function Expenses() {
       notes: '',
     });
     setEditingExpense(null);
+    setReceiptFile(null);
+    setRemoveExistingReceipt(false);
+    setFormError(null);
   };
 
   const handleOpenModal = (expense?: Expense) => {
@@ -97,6 +165,9 @@ export function Expenses() {
         payment_method: expense.payment_method || 'card',
         notes: expense.notes || '',
       });
+      setReceiptFile(null);
+      setRemoveExistingReceipt(false);
+      setFormError(null);
     } else {
       resetForm();
     }
@@ -112,10 +183,23 @@ export function Expenses() {
       category_id: formData.category_id || undefined,
     };
 
+    let result: { error: string | null };
     if (editingExpense) {
-      await updateExpense(editingExpense.id, expenseData);
+      result = await updateExpense(editingExpense.id, expenseData);
+      if (!result.error && receiptFile) {
+        result = await uploadReceipt(editingExpense.id, receiptFile);
+      } else if (!result.error && removeExistingReceipt) {
+        result = await removeReceipt(editingExpense.id);
+      }
     } else {
-      await createExpense(expenseData);
+      const created = await createExpense(expenseData, receiptFile);
+      if (created.warning) setActionError(created.warning);
+      result = created;
+    }
+
+    if (result.error) {
+      setFormError(result.error);
+      return;
     }
 
     setShowModal(false);
@@ -129,6 +213,32 @@ export function Expenses() {
     setDeleteModal({ isOpen: false, id: null });
   };
 
+  const runAction = async (action: () => Promise<{ error: string | null }>) => {
+    setActionError(null);
+    const { error } = await action();
+    if (error) setActionError(error);
+    return !error;
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { expense, reason } = rejectModal;
+    if (!expense) return;
+    if (await runAction(() => rejectExpense(expense.id, reason))) {
+      setRejectModal({ expense: null, reason: '' });
+    }
+  };
+
+  // Cola de aprobación: lo pendiente de revisar y lo aprobado pendiente de pago,
+  // sin filtro de fecha y empezando por lo más antiguo
+  const reviewQueue = canApprove
+    ? expenses
+        .filter(e => e.status === 'pending' || e.status === 'approved')
+        .sort((a, b) => a.expense_date.localeCompare(b.expense_date))
+    : [];
+  const awaitingReview = reviewQueue.filter(e => e.status === 'pending').length;
+  const detailExpense = expenses.find(e => e.id === detailId) || null;
+
   // Filtrar gastos
   const filteredExpenses = expenses.filter(expense => {
     // Búsqueda
@@ -145,6 +255,9 @@ export function Expenses() {
     
     // Estado
     if (statusFilter && expense.status !== statusFilter) return false;
+
+    // Sin comprobante (revisión antes del cierre de mes)
+    if (missingReceiptOnly && expense.receipt_url) return false;
     
     // Fecha (mes actual por defecto)
     if (dateFilter === 'month') {
@@ -159,20 +272,42 @@ export function Expenses() {
     return true;
   });
 
-  // Calcular totales
+  // Monto en la moneda de reporte con la tasa de la fecha del gasto
+  const toReporting = (expense: Expense) =>
+    convertAmount(rates, expense.amount, expense.currency, reportingCurrency, expense.expense_date);
+
+  // Calcular totales (los gastos sin tasa no se suman y se avisa)
+  const sumConverted = (list: Expense[]) => list.reduce((sum, e) => sum + (toReporting(e) ?? 0), 0);
   const totals = {
-    month: filteredExpenses.reduce((sum, e) => sum + e.amount, 0),
-    pending: filteredExpenses.filter(e => e.status === 'pending').reduce((sum, e) => sum + e.amount, 0),
-    paid: filteredExpenses.filter(e => e.status === 'paid').reduce((sum, e) => sum + e.amount, 0),
+    month: sumConverted(filteredExpenses),
+    pending: sumConverted(filteredExpenses.filter(e => e.status === 'pending')),
+    paid: sumConverted(filteredExpenses.filter(e => e.status === 'paid')),
   };
+  // Presupuestos del mes en curso que llegaron al 80% o más
+  const budgetAlerts = budgets
+    .map(b => getBudgetUsage(b, expenses, rates, new Date()))
+    .filter(u => u.level !== 'ok')
+    .sort((a, b) => b.ratio - a.ratio);
 
-  const formatCurrency = (amount: number, currency: string = 'COP') => {
-    if (currency === 'COP') {
-      return '$ ' + new Intl.NumberFormat('es-CO', { maximumFractionDigits: 0 }).format(amount);
+  const handleExport = async (fileFormat: 'csv' | 'xlsx') => {
+    setShowExportMenu(false);
+    try {
+      await exportExpenses(filteredExpenses, fileFormat, { reportingCurrency, convert: toReporting });
+    } catch (err: any) {
+      setActionError(`No se pudo exportar: ${err.message}`);
     }
-    return new Intl.NumberFormat('es-CO', { style: 'currency', currency }).format(amount);
   };
 
+  // Próximos cargos de las plantillas activas que aún no terminaron
+  const upcomingRecurring = templates
+    .filter(t => isTemplateDue(t, t.next_due_date))
+    .sort((a, b) => a.next_due_date.localeCompare(b.next_due_date))
+    .slice(0, 5);
+
+  const missingRateCurrencies = [
+    ...new Set(filteredExpenses.filter(e => toReporting(e) === null).map(e => e.currency)),
+  ];
+
   return (
     <div className="p-6">
       {/* Header */}
@@ -184,22 +319,214 @@ export function Expenses() {
           </h1>
           <p className="text-gray-400 mt-1">Registra y gestiona los gastos de la empresa</p>
         </div>
-        <button
-          onClick={() => handleOpenModal()}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-        >
-          <Plus size={20} />
-          Nuevo Gasto
-        </button>
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          <select
+            value={reportingCurrency}
+            onChange={(e) => setReportingCurrency(e.target.value)}
+            className="bg-[#181825] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+            title="Moneda de reporte"
+          >
+            {CURRENCIES.map(c => (
+              <option key={c} value={c}>Totales en {c}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-[#181825] border border-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+          >
+            <Upload size={18} />
+            Importar
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className="flex items-center gap-2 px-4 py-2 bg-[#181825] border border-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+            >
+              <Download size={18} />
+              Exportar
+            </button>
+            {showExportMenu && (
+              <>
+                <div className="fixed inset-0 z-10" onClick={() => setShowExportMenu(false)} />
+                <div className="absolute right-0 top-full mt-1 bg-[#1e1e2e] border border-gray-700 rounded-lg shadow-xl z-20 py-1 min-w-[180px]">
+                  <p className="px-4 py-1.5 text-xs text-gray-500">
+                    {filteredExpenses.length} gastos filtrados
+                  </p>
+                  <button
+                    onClick={() => handleExport('csv')}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-300 hover:bg-[#181825]"
+                  >
+                    CSV
+                  </button>
+                  <button
+                    onClick={() => handleExport('xlsx')}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-300 hover:bg-[#181825]"
+                  >
+                    Excel (XLSX)
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+          <button
+            onClick={() => setShowRecurringModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-[#181825] border border-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+          >
+            <Repeat size={18} />
+            Recurrentes
+          </button>
+          <button
+            onClick={() => navigate('/expenses/reports')}
+            className="flex items-center gap-2 px-4 py-2 bg-[#181825] border border-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+          >
+            <BarChart3 size={18} />
+            Reportes
+          </button>
+          {canApprove && (
+            <button
+              onClick={() => setShowRatesModal(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-[#181825] border border-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+            >
+              <ArrowLeftRight size={18} />
+              Tasas de cambio
+            </button>
+          )}
+          <button
+            onClick={() => handleOpenModal()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            <Plus size={20} />
+            Nuevo Gasto
+          </button>
+        </div>
       </div>
 
+      {canApprove && (
+        <div className="flex gap-2 mb-6">
+          <button
+            onClick={() => setView('all')}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+              view === 'all' ? 'bg-blue-600 text-white' : 'bg-[#181825] border border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            Todos los gastos
+          </button>
+          <button
+            onClick={() => setView('review')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm transition-colors ${
+              view === 'review' ? 'bg-blue-600 text-white' : 'bg-[#181825] border border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            <Inbox size={16} />
+            Pendientes de mi aprobación
+            {awaitingReview > 0 && (
+              <span className="px-1.5 py-0.5 rounded-full bg-yellow-500/20 text-yellow-400 text-xs">{awaitingReview}</span>
+            )}
+          </button>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-6 p-3 rounded-lg bg-green-500/10 border border-green-500/20 text-sm text-green-400 flex items-center justify-between">
+          {notice}
+          <button onClick={() => setNotice(null)} className="text-green-400 hover:text-green-300">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="mb-6 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400 flex items-center justify-between">
+          {actionError}
+          <button onClick={() => setActionError(null)} className="text-red-400 hover:text-red-300">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {view === 'review' && canApprove ? (
+        <div className="bg-[#181825] rounded-xl border border-gray-700">
+          {reviewQueue.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              No hay gastos pendientes de aprobación o pago
+            </div>
+          ) : (
+            reviewQueue.map(expense => {
+              const status = statusConfig[expense.status];
+              const StatusIcon = status.icon;
+
+              return (
+                <div key={expense.id} className="flex items-center gap-4 p-4 border-b border-gray-700/50 last:border-b-0">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setDetailId(expense.id)}
+                        className="text-white font-medium truncate hover:text-blue-400"
+                      >
+                        {expense.description}
+                      </button>
+                      {!expense.receipt_url && (
+                        <span className="px-2 py-0.5 rounded-lg text-xs bg-orange-500/20 text-orange-400">Sin comprobante</span>
+                      )}
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-lg text-xs font-medium ${status.color}`}>
+                        <StatusIcon size={12} />
+                        {status.label}
+                      </span>
+                    </div>
+                    <p className="text-gray-500 text-sm mt-0.5">
+                      {expense.creator?.full_name || 'Sin autor'}
+                      {expense.vendor && ` · ${expense.vendor}`}
+                      {' · '}
+                      {format(parseISO(expense.expense_date), "d MMM yyyy", { locale: es })}
+                      {expense.approved_at && expense.status === 'approved' && (
+                        <> · aprobado el {format(parseISO(expense.approved_at), "d MMM", { locale: es })}</>
+                      )}
+                    </p>
+                  </div>
+                  <span className="text-white font-semibold whitespace-nowrap">
+                    {formatCurrency(expense.amount, expense.currency)}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {expense.status === 'pending' && (
+                      <button
+                        onClick={() => runAction(() => approveExpense(expense.id))}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 transition-colors"
+                      >
+                        <ThumbsUp size={14} />
+                        Aprobar
+                      </button>
+                    )}
+                    {expense.status === 'approved' && (
+                      <button
+                        onClick={() => runAction(() => markExpensePaid(expense.id))}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors"
+                      >
+                        <CheckCircle size={14} />
+                        Marcar pagado
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setRejectModal({ expense, reason: '' })}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
+                    >
+                      <ThumbsDown size={14} />
+                      Rechazar
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      ) : (
+      <>
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         <div className="bg-gradient-to-br from-green-500/10 to-emerald-500/10 rounded-xl border border-green-500/20 p-5">
           <div className="flex items-center justify-between">
             <div>
               <p className="text-gray-400 text-sm">Total del Mes</p>
-              <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totals.month)}</p>
+              <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totals.month, reportingCurrency)}</p>
             </div>
             <div className="p-3 bg-green-500/20 rounded-lg">
               <TrendingUp size={24} className="text-green-400" />
@@ -211,7 +538,7 @@ export function Expenses() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-gray-400 text-sm">Pendientes</p>
-              <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totals.pending)}</p>
+              <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totals.pending, reportingCurrency)}</p>
             </div>
             <div className="p-3 bg-yellow-500/20 rounded-lg">
               <Clock size={24} className="text-yellow-400" />
@@ -223,7 +550,7 @@ export function Expenses() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-gray-400 text-sm">Pagados</p>
-              <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totals.paid)}</p>
+              <p className="text-2xl font-bold text-white mt-1">{formatCurrency(totals.paid, reportingCurrency)}</p>
             </div>
             <div className="p-3 bg-blue-500/20 rounded-lg">
               <CheckCircle size={24} className="text-blue-400" />
@@ -232,6 +559,75 @@ export function Expenses() {
         </div>
       </div>
 
+      {budgetAlerts.length > 0 && (
+        <div className="mb-6 space-y-2">
+          {budgetAlerts.map(({ budget, spent, ratio, level }) => {
+            const category = categories.find(c => c.id === budget.category_id);
+            return (
+              <button
+                key={budget.id}
+                onClick={() => navigate('/expenses/reports')}
+                className={`w-full flex items-center gap-2 p-3 rounded-lg border text-sm text-left ${
+                  level === 'exceeded'
+                    ? 'bg-red-500/10 border-red-500/20 text-red-400'
+                    : 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
+                }`}
+              >
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                {level === 'exceeded' ? 'Presupuesto excedido' : `Presupuesto al ${Math.round(ratio * 100)}%`}
+                {` en ${category?.name || 'una categoría'}: ${formatCurrency(spent, budget.currency)} de ${formatCurrency(budget.amount, budget.currency)} este mes`}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {upcomingRecurring.length > 0 && (
+        <div className="bg-[#181825] rounded-xl p-4 border border-gray-700 mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-white font-medium flex items-center gap-2">
+              <Repeat size={18} className="text-blue-400" />
+              Próximos cargos recurrentes
+            </h3>
+            <button
+              onClick={() => setShowRecurringModal(true)}
+              className="text-sm text-blue-400 hover:text-blue-300"
+            >
+              Gestionar
+            </button>
+          </div>
+          <div className="divide-y divide-gray-700/50">
+            {upcomingRecurring.map(template => {
+              const category = categories.find(c => c.id === template.category_id);
+              const converted = convertAmount(rates, template.amount, template.currency, reportingCurrency, template.next_due_date);
+              return (
+                <div key={template.id} className="flex items-center gap-3 py-2 text-sm">
+                  <span className="text-gray-400 w-24 flex-shrink-0">
+                    {format(parseISO(template.next_due_date), "d MMM yyyy", { locale: es })}
+                  </span>
+                  <span className="flex-1 text-white truncate">
+                    {category?.icon} {template.description}
+                  </span>
+                  <span className="text-gray-500">{frequencyLabels[template.frequency]}</span>
+                  <span className="text-white font-medium w-36 text-right">
+                    {formatCurrency(template.amount, template.currency)}
+                    {template.currency !== reportingCurrency && converted !== null && (
+                      <span className="block text-xs text-gray-500">≈ {formatCurrency(converted, reportingCurrency)}</span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {missingRateCurrencies.length > 0 && (
+        <div className="mb-6 p-3 rounded-lg bg-orange-500/10 border border-orange-500/20 text-sm text-orange-400">
+          Sin tasa de cambio de {missingRateCurrencies.join(', ')} a {reportingCurrency}: esos gastos no se incluyen en los totales.
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex flex-wrap gap-3 mb-6">
         {/* Search */}
@@ -280,6 +676,20 @@ export function Expenses() {
           <option value="month">Este mes</option>
           <option value="all">Todo el tiempo</option>
         </select>
+
+        {canApprove && (
+          <button
+            onClick={() => setMissingReceiptOnly(!missingReceiptOnly)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors ${
+              missingReceiptOnly
+                ? 'bg-orange-500/20 border-orange-500/40 text-orange-400'
+                : 'bg-[#181825] border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            <Paperclip size={16} />
+            Sin comprobante
+          </button>
+        )}
       </div>
 
       {/* Expenses Table */}
@@ -318,7 +728,16 @@ export function Expenses() {
                     <tr key={expense.id} className="border-b border-gray-700/50 hover:bg-[#1e1e2e] transition-colors">
                       <td className="p-4">
                         <div>
-                          <p className="text-white font-medium">{expense.description}</p>
+                          <button
+                            onClick={() => setDetailId(expense.id)}
+                            className="flex items-center gap-1.5 text-white font-medium hover:text-blue-400 text-left"
+                          >
+                            {expense.description}
+                            {expense.recurring_id && (
+                              <span title="Gasto recurrente"><Repeat size={14} className="text-gray-500" /></span>
+                            )}
+                            {expense.receipt_url && <Paperclip size={14} className="text-gray-500" />}
+                          </button>
                           {expense.vendor && (
                             <p className="text-gray-500 text-sm">{expense.vendor}</p>
                           )}
@@ -343,65 +762,112 @@ export function Expenses() {
                         <span className="text-white font-semibold">
                           {formatCurrency(expense.amount, expense.currency)}
                         </span>
+                        {expense.currency !== reportingCurrency && (() => {
+                          const converted = toReporting(expense);
+                          return (
+                            <p className={`text-xs mt-0.5 ${converted === null ? 'text-orange-400' : 'text-gray-500'}`}>
+                              {converted === null ? 'Sin tasa de cambio' : `≈ ${formatCurrency(converted, reportingCurrency)}`}
+                            </p>
+                          );
+                        })()}
                       </td>
                       <td className="p-4">
                         <span className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs font-medium ${status.color}`}>
                           <StatusIcon size={12} />
                           {status.label}
                         </span>
+                        {expense.status === 'rejected' && expense.rejection_reason && (
+                          <p className="text-xs text-red-400/80 mt-1 max-w-[220px]" title={expense.rejection_reason}>
+                            {expense.rejection_reason}
+                          </p>
+                        )}
+                        {expense.approver && expense.status !== 'pending' && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            por {expense.approver.full_name}
+                            {(expense.paid_at || expense.rejected_at || expense.approved_at) && (
+                              <> · {format(parseISO((expense.paid_at || expense.rejected_at || expense.approved_at)!), "d MMM", { locale: es })}</>
+                            )}
+                          </p>
+                        )}
                       </td>
                       <td className="p-4 text-right">
-                        <div className="relative">
-                          <button
-                            onClick={() => setActiveMenu(activeMenu === expense.id ? null : expense.id)}
-                            className="p-2 rounded-lg hover:bg-[#11111b] text-gray-400 hover:text-white transition-colors"
-                          >
-                            <MoreVertical size={16} />
-                          </button>
-                          
-                          {activeMenu === expense.id && (
-                            <>
-                              <div 
-                                className="fixed inset-0 z-10"
-                                onClick={() => setActiveMenu(null)}
-                              />
-                              <div className="absolute right-0 bottom-full mb-1 bg-[#1e1e2e] border border-gray-700 rounded-lg shadow-xl z-20 py-1 min-w-[140px]">
-                                <button
-                                  onClick={() => {
-                                    handleOpenModal(expense);
-                                    setActiveMenu(null);
-                                  }}
-                                  className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-300 hover:bg-[#181825]"
-                                >
-                                  <Edit size={14} />
-                                  Editar
-                                </button>
-                                {expense.status === 'pending' && (
+                        {(canApprove || (expense.created_by === user?.id && expense.status === 'pending')) && (
+                          <div className="relative">
+                            <button
+                              onClick={() => setActiveMenu(activeMenu === expense.id ? null : expense.id)}
+                              className="p-2 rounded-lg hover:bg-[#11111b] text-gray-400 hover:text-white transition-colors"
+                            >
+                              <MoreVertical size={16} />
+                            </button>
+                            
+                            {activeMenu === expense.id && (
+                              <>
+                                <div 
+                                  className="fixed inset-0 z-10"
+                                  onClick={() => setActiveMenu(null)}
+                                />
+                                <div className="absolute right-0 bottom-full mb-1 bg-[#1e1e2e] border border-gray-700 rounded-lg shadow-xl z-20 py-1 min-w-[140px]">
                                   <button
                                     onClick={() => {
-                                      updateExpense(expense.id, { status: 'paid' });
+                                      handleOpenModal(expense);
                                       setActiveMenu(null);
                                     }}
-                                    className="flex items-center gap-2 w-full px-4 py-2 text-sm text-green-400 hover:bg-[#181825]"
+                                    className="flex items-center gap-2 w-full px-4 py-2 text-sm text-gray-300 hover:bg-[#181825]"
                                   >
-                                    <CheckCircle size={14} />
-                                    Marcar Pagado
+                                    <Edit size={14} />
+                                    Editar
                                   </button>
-                                )}
-                                <button
-                                  onClick={() => {
-                                    setDeleteModal({ isOpen: true, id: expense.id });
-                                    setActiveMenu(null);
-                                  }}
-                                  className="flex items-center gap-2 w-full px-4 py-2 text-sm text-red-400 hover:bg-[#181825]"
-                                >
-                                  <Trash2 size={14} />
-                                  Eliminar
-                                </button>
-                              </div>
-                            </>
-                          )}
-                        </div>
+                                  {canApprove && expense.status === 'pending' && (
+                                    <button
+                                      onClick={() => {
+                                        runAction(() => approveExpense(expense.id));
+                                        setActiveMenu(null);
+                                      }}
+                                      className="flex items-center gap-2 w-full px-4 py-2 text-sm text-blue-400 hover:bg-[#181825]"
+                                    >
+                                      <ThumbsUp size={14} />
+                                      Aprobar
+                                    </button>
+                                  )}
+                                  {canApprove && expense.status === 'approved' && (
+                                    <button
+                                      onClick={() => {
+                                        runAction(() => markExpensePaid(expense.id));
+                                        setActiveMenu(null);
+                                      }}
+                                      className="flex items-center gap-2 w-full px-4 py-2 text-sm text-green-400 hover:bg-[#181825]"
+                                    >
+                                      <CheckCircle size={14} />
+                                      Marcar Pagado
+                                    </button>
+                                  )}
+                                  {canApprove && (expense.status === 'pending' || expense.status === 'approved') && (
+                                    <button
+                                      onClick={() => {
+                                        setRejectModal({ expense, reason: '' });
+                                        setActiveMenu(null);
+                                      }}
+                                      className="flex items-center gap-2 w-full px-4 py-2 text-sm text-orange-400 hover:bg-[#181825]"
+                                    >
+                                      <ThumbsDown size={14} />
+                                      Rechazar
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => {
+                                      setDeleteModal({ isOpen: true, id: expense.id });
+                                      setActiveMenu(null);
+                                    }}
+                                    className="flex items-center gap-2 w-full px-4 py-2 text-sm text-red-400 hover:bg-[#181825]"
+                                  >
+                                    <Trash2 size={14} />
+                                    Eliminar
+                                  </button>
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        )}
                       </td>
                     </tr>
                   );
@@ -411,6 +877,8 @@ export function Expenses() {
           </table>
         </div>
       </div>
+      </>
+      )}
 
       {/* Modal de crear/editar */}
       {showModal && (
@@ -470,10 +938,9 @@ export function Expenses() {
                     onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
                     className="w-full bg-[#11111b] border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500"
                   >
-                    <option value="COP">COP ($)</option>
-                    <option value="USD">USD ($)</option>
-                    <option value="EUR">EUR (€)</option>
-                    <option value="MXN">MXN ($)</option>
+                    {CURRENCIES.map(c => (
+                      <option key={c} value={c}>{currencyLabels[c]}</option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -594,6 +1061,19 @@ export function Expenses() {
                 />
               </div>
 
+              {/* Comprobante */}
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Comprobante</label>
+                <ReceiptDropzone
+                  file={receiptFile}
+                  hasExisting={!!editingExpense?.receipt_url && !removeExistingReceipt}
+                  onFileChange={setReceiptFile}
+                  onRemoveExisting={() => setRemoveExistingReceipt(true)}
+                />
+              </div>
+
+              {formError && <p className="text-sm text-red-400">{formError}</p>}
+
               {/* Botones */}
               <div className="flex gap-3 pt-4">
                 <button
@@ -615,6 +1095,183 @@ export function Expenses() {
         </div>
       )}
 
+      {/* Detalle del gasto con vista previa del comprobante */}
+      {detailExpense && (() => {
+        const status = statusConfig[detailExpense.status];
+        const StatusIcon = status.icon;
+        const canModify = canApprove || (detailExpense.created_by === user?.id && detailExpense.status === 'pending');
+        const method = paymentMethods.find(m => m.value === detailExpense.payment_method);
+
+        return (
+          <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+            <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-700 flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-white">{detailExpense.description}</h2>
+                  <p className="text-2xl font-bold text-white mt-2">
+                    {formatCurrency(detailExpense.amount, detailExpense.currency)}
+                  </p>
+                  {detailExpense.currency !== reportingCurrency && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      {(() => {
+                        const converted = toReporting(detailExpense);
+                        return converted === null
+                          ? `Sin tasa de cambio a ${reportingCurrency}`
+                          : `≈ ${formatCurrency(converted, reportingCurrency)}`;
+                      })()}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => setDetailId(null)}
+                  className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-6">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Estado</p>
+                    <span className={`inline-flex items-center gap-1.5 mt-1 px-2 py-1 rounded-lg text-xs font-medium ${status.color}`}>
+                      <StatusIcon size={12} />
+                      {status.label}
+                    </span>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Fecha</p>
+                    <p className="text-white mt-1">
+                      {format(parseISO(detailExpense.expense_date), "d 'de' MMMM yyyy", { locale: es })}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Categoría</p>
+                    <p className="text-white mt-1">
+                      {detailExpense.category ? `${detailExpense.category.icon} ${detailExpense.category.name}` : '-'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Método de pago</p>
+                    <p className="text-white mt-1">{method?.label || '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Proveedor</p>
+                    <p className="text-white mt-1">{detailExpense.vendor || '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">N° Factura</p>
+                    <p className="text-white mt-1">{detailExpense.invoice_number || '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Registrado por</p>
+                    <p className="text-white mt-1">{detailExpense.creator?.full_name || '-'}</p>
+                  </div>
+                  {detailExpense.approver && detailExpense.status !== 'pending' && (
+                    <div>
+                      <p className="text-gray-500">Revisado por</p>
+                      <p className="text-white mt-1">{detailExpense.approver.full_name}</p>
+                    </div>
+                  )}
+                </div>
+
+                {detailExpense.status === 'rejected' && detailExpense.rejection_reason && (
+                  <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm">
+                    <p className="text-red-400 font-medium">Motivo del rechazo</p>
+                    <p className="text-gray-300 mt-1">{detailExpense.rejection_reason}</p>
+                  </div>
+                )}
+
+                {detailExpense.notes && (
+                  <div className="text-sm">
+                    <p className="text-gray-500">Notas</p>
+                    <p className="text-gray-300 mt-1 whitespace-pre-wrap">{detailExpense.notes}</p>
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-sm text-gray-500 mb-2">Comprobante</p>
+                  {detailExpense.receipt_url ? (
+                    <ReceiptPreview path={detailExpense.receipt_url} />
+                  ) : canModify ? (
+                    <ReceiptDropzone
+                      file={null}
+                      hasExisting={false}
+                      onFileChange={(file) => file && runAction(() => uploadReceipt(detailExpense.id, file))}
+                      onRemoveExisting={() => {}}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-500">Sin comprobante</p>
+                  )}
+                  {actionError && <p className="text-sm text-red-400 mt-2">{actionError}</p>}
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Modal de rechazo (el motivo es obligatorio) */}
+      {rejectModal.expense && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleReject} className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-md">
+            <div className="p-6 border-b border-gray-700 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-white">Rechazar Gasto</h2>
+              <button
+                type="button"
+                onClick={() => setRejectModal({ expense: null, reason: '' })}
+                className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400"
+              >
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-gray-300 text-sm">
+                {rejectModal.expense.description} · {formatCurrency(rejectModal.expense.amount, rejectModal.expense.currency)}
+              </p>
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Motivo del rechazo *</label>
+                <textarea
+                  value={rejectModal.reason}
+                  onChange={(e) => setRejectModal({ ...rejectModal, reason: e.target.value })}
+                  className="w-full bg-[#11111b] border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500 resize-none"
+                  rows={3}
+                  placeholder="Explica por qué se rechaza; el autor recibirá este mensaje"
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setRejectModal({ expense: null, reason: '' })}
+                  className="flex-1 px-4 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  disabled={!rejectModal.reason.trim()}
+                  className="flex-1 px-4 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Rechazar
+                </button>
+              </div>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <ExchangeRatesModal isOpen={showRatesModal} onClose={() => setShowRatesModal(false)} />
+
+      <RecurringExpensesModal isOpen={showRecurringModal} onClose={() => setShowRecurringModal(false)} />
+
+      <ExpenseImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={(count) => setNotice(`Se importaron ${count} gastos como pendientes`)}
+      />
+
       {/* Modal de confirmación de eliminación */}
       <ConfirmModal
         isOpen={deleteModal.isOpen}
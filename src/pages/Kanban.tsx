@@ -16,10 +16,13 @@ import {
   Trash2,
   ExternalLink,
   GripVertical,
+  Ban,
 } from 'lucide-react';
 import { useNotesStore } from '../store/notesStore';
 import { useSprintStore } from '../store/sprintStore';
 import { useTeamStore } from '../store/teamStore';
+import { useDependenciesStore, getUnfinishedBlockers } from '../store/dependenciesStore';
+import { ConfirmModal } from '../components/ConfirmModal';
 import { Note } from '../lib/supabase';
 import { format, parseISO, isPast, isToday } from 'date-fns';
 import { es } from 'date-fns/locale';
@@ -84,18 +87,21 @@ export function Kanban() {
   const { notes, fetchNotes, updateNote, deleteNote } = useNotesStore();
   const { sprints, currentSprint, fetchSprints } = useSprintStore();
   const { members, fetchMembers } = useTeamStore();
+  const { dependencies, fetchDependencies } = useDependenciesStore();
   
   const [selectedSprint, setSelectedSprint] = useState<string | 'all' | 'backlog'>('all');
   const [typeFilter, setTypeFilter] = useState<string | null>(null);
   const [draggedNote, setDraggedNote] = useState<Note | null>(null);
   const [dragOverColumn, setDragOverColumn] = useState<KanbanColumn | null>(null);
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
+  const [blockedMove, setBlockedMove] = useState<{ note: Note; status: Note['status']; blockers: Note[] } | null>(null);
 
   useEffect(() => {
     fetchNotes();
     fetchSprints();
     fetchMembers();
-  }, [fetchNotes, fetchSprints, fetchMembers]);
+    fetchDependencies();
+  }, [fetchNotes, fetchSprints, fetchMembers, fetchDependencies]);
 
   // Filtrar notas (excluir subtareas y canceladas)
   const filteredNotes = notes.filter(note => {
@@ -170,12 +176,27 @@ export function Kanban() {
     // Si el estado ya es el mismo, no hacer nada
     if (column.statuses.includes(draggedNote.status)) return;
     
-    // Actualizar el estado de la nota
     const newStatus = column.statuses[0];
+
+    // Avisar antes de empezar una tarea con bloqueos sin terminar
+    const blockers = getUnfinishedBlockers(draggedNote.id, dependencies, notes);
+    if (newStatus === 'in_progress' && blockers.length > 0) {
+      setBlockedMove({ note: draggedNote, status: newStatus, blockers });
+      setDraggedNote(null);
+      return;
+    }
+
+    // Actualizar el estado de la nota
     await updateNote(draggedNote.id, { status: newStatus });
     setDraggedNote(null);
   };
 
+  const confirmBlockedMove = async () => {
+    if (!blockedMove) return;
+    await updateNote(blockedMove.note.id, { status: blockedMove.status });
+    setBlockedMove(null);
+  };
+
   const getAssignedUser = (userId?: string | null) => {
     if (!userId) return null;
     return members.find(m => m.id === userId);
@@ -299,6 +320,7 @@ export function Kanban() {
                     columnNotes.map(note => {
                       const assignedUser = getAssignedUser(note.assigned_to);
                       const overdue = isOverdue(note.due_date);
+                      const blockers = note.status !== 'completed' ? getUnfinishedBlockers(note.id, dependencies, notes) : [];
                       
                       return (
                         <div
@@ -316,6 +338,16 @@ export function Kanban() {
                             </div>
                             
                             <div className="flex items-center gap-1">
+                              {blockers.length > 0 && (
+                                <div
+                                  className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs text-red-400 bg-red-500/20"
+                                  title={`Bloqueada por: ${blockers.map(b => b.title).join(', ')}`}
+                                >
+                                  <Ban size={12} />
+                                  {blockers.length}
+                                </div>
+                              )}
+
                               {/* Priority indicator */}
                               <div 
                                 className={`w-2 h-2 rounded-full ${priorityColors[note.priority]}`}
@@ -469,6 +501,18 @@ export function Kanban() {
           })}
         </div>
       </div>
+
+      <ConfirmModal
+        isOpen={!!blockedMove}
+        onClose={() => setBlockedMove(null)}
+        onConfirm={confirmBlockedMove}
+        title="Tarea bloqueada"
+        message={blockedMove
+          ? `"${blockedMove.note.title}" está bloqueada por: ${blockedMove.blockers.map(b => `"${b.title}"`).join(', ')}. ¿Moverla a En Progreso de todos modos?`
+          : ''}
+        confirmText="Mover igualmente"
+        variant="warning"
+      />
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Video,
   Plus,
@@ -10,38 +11,97 @@ import {
   UserPlus,
   Phone,
   PhoneOff,
+  Download,
+  Upload,
+  AlarmClock,
+  AlertTriangle,
+  FileText,
+  CheckSquare,
+  ListOrdered,
+  Repeat,
+  Pencil,
 } from 'lucide-react';
-import { useMeetingsStore } from '../store/meetingsStore';
+import {
+  useMeetingsStore,
+  getMeetingRoomUrl,
+  MeetingConflict,
+  MeetingRecurrence,
+  OccurrenceScope,
+} from '../store/meetingsStore';
 import { useTeamStore } from '../store/teamStore';
 import { useAuthStore } from '../store/authStore';
+import { useNotesStore } from '../store/notesStore';
 import { ConfirmModal } from '../components/ConfirmModal';
-import { Meeting } from '../lib/supabase';
+import { MeetingImportModal } from '../components/MeetingImportModal';
+import { MeetingRsvpButtons } from '../components/MeetingRsvpButtons';
+import { MeetingNotesPanel, MeetingNotesTab } from '../components/MeetingNotesPanel';
+import { MarkdownPreview } from '../components/MarkdownPreview';
+import { MeetingEditModal } from '../components/MeetingEditModal';
+import { buildMeetingIcs, downloadIcs } from '../lib/ical';
+import { describeRecurrence, getSeriesOccurrences, meetingFrequencyLabels } from '../lib/recurrence';
+import { Meeting, MeetingFrequency } from '../lib/supabase';
 import { format, isPast, isToday, addMinutes } from 'date-fns';
 import { es } from 'date-fns/locale';
 
-// Configuración de JaaS (Jitsi as a Service)
-const JAAS_APP_ID = 'vpaas-magic-cookie-1ce7135e1c534d72904f14bcef702bc4';
-
 export function Meetings() {
   const { user } = useAuthStore();
-  const { meetings, isLoading, fetchMeetings, createMeeting, deleteMeeting, updateMeetingStatus } = useMeetingsStore();
+  const {
+    meetings,
+    series,
+    isLoading,
+    fetchMeetings,
+    extendMeetingSeries,
+    createMeeting,
+    deleteMeeting,
+    updateMeetingStatus,
+  } = useMeetingsStore();
   const { members, fetchMembers } = useTeamStore();
+  const { fetchNotes } = useNotesStore();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [showNewMeeting, setShowNewMeeting] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
   const [showVideoCall, setShowVideoCall] = useState<Meeting | null>(null);
+  const [showCallNotes, setShowCallNotes] = useState(false);
+  const [notesModal, setNotesModal] = useState<{ meetingId: string; tab: MeetingNotesTab } | null>(null);
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; meetingId: string | null }>({ isOpen: false, meetingId: null });
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [editingMeeting, setEditingMeeting] = useState<Meeting | null>(null);
   const [selectedParticipants, setSelectedParticipants] = useState<string[]>([]);
   const [newMeeting, setNewMeeting] = useState({
     title: '',
     description: '',
     scheduled_at: '',
     duration_minutes: 60,
+    reminder_minutes: 15,
   });
+  const [repeat, setRepeat] = useState<{ frequency: MeetingFrequency | ''; ends: 'never' | 'date' | 'count'; until_date: string; occurrence_count: number }>({
+    frequency: '',
+    ends: 'never',
+    until_date: '',
+    occurrence_count: 10,
+  });
+  const [conflicts, setConflicts] = useState<MeetingConflict[]>([]);
+  const [createError, setCreateError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchMeetings();
+    fetchMeetings().then(() => extendMeetingSeries());
     fetchMembers();
-  }, [fetchMeetings, fetchMembers]);
+    fetchNotes();
+  }, [fetchMeetings, extendMeetingSeries, fetchMembers, fetchNotes]);
+
+  // Enlace desde una tarea (/meetings?id=...): abrir el acta de su reunión
+  const meetingFromUrl = searchParams.get('id');
+  useEffect(() => {
+    if (!meetingFromUrl || !meetings.some(m => m.id === meetingFromUrl)) return;
+    setNotesModal({ meetingId: meetingFromUrl, tab: 'actions' });
+    setSearchParams({}, { replace: true });
+  }, [meetingFromUrl, meetings, setSearchParams]);
+
+  // Versión al día (realtime) de las reuniones abiertas
+  const notesMeeting = notesModal ? meetings.find(m => m.id === notesModal.meetingId) : undefined;
+  const activeCall = showVideoCall ? meetings.find(m => m.id === showVideoCall.id) || showVideoCall : null;
 
   // Separar reuniones por estado (sin redundancia)
   const todayMeetings = meetings.filter(m => 
@@ -51,25 +111,72 @@ export function Meetings() {
     m.status === 'scheduled' && 
     !isPast(new Date(m.scheduled_at)) && 
     !isToday(new Date(m.scheduled_at)) // Excluir las de hoy para evitar duplicados
+  ).filter((m, index, list) =>
+    // De cada serie solo la próxima ocurrencia
+    !m.series_id || list.findIndex(other => other.series_id === m.series_id) === index
   );
   const pastMeetings = meetings.filter(m => 
     m.status === 'completed' || (m.status === 'scheduled' && isPast(addMinutes(new Date(m.scheduled_at), m.duration_minutes)))
   );
 
-  const handleCreateMeeting = async () => {
+  const recurrence: MeetingRecurrence | undefined = repeat.frequency
+    ? {
+      frequency: repeat.frequency,
+      until_date: repeat.ends === 'date' ? repeat.until_date || null : null,
+      occurrence_count: repeat.ends === 'count' ? repeat.occurrence_count : null,
+    }
+    : undefined;
+
+  // Primeras fechas de la serie para revisarlas antes de crearla
+  const recurrencePreview = recurrence && newMeeting.scheduled_at
+    ? getSeriesOccurrences(
+      { ...recurrence, start_at: new Date(newMeeting.scheduled_at).toISOString(), exceptions: [] },
+      addMinutes(new Date(newMeeting.scheduled_at), 366 * 24 * 60),
+    )
+    : [];
+
+  // Al cambiar horario o invitados hay que volver a comprobar los cruces
+  useEffect(() => {
+    setConflicts([]);
+  }, [newMeeting.scheduled_at, newMeeting.duration_minutes, selectedParticipants]);
+
+  const closeNewMeeting = () => {
+    setShowNewMeeting(false);
+    setConflicts([]);
+    setCreateError(null);
+  };
+
+  // La primera vez se avisa de los cruces de horario; después se puede crear igual
+  const handleCreateMeeting = async (ignoreConflicts = false) => {
     if (!newMeeting.title || !newMeeting.scheduled_at) return;
 
-    await createMeeting({
+    const result = await createMeeting({
       ...newMeeting,
+      // datetime-local no lleva zona horaria: se guarda en UTC
+      scheduled_at: new Date(newMeeting.scheduled_at).toISOString(),
+      reminder_minutes: newMeeting.reminder_minutes || null,
       created_by: user?.id,
-    }, selectedParticipants);
+    }, selectedParticipants, { ignoreConflicts, recurrence });
 
-    setShowNewMeeting(false);
-    setNewMeeting({ title: '', description: '', scheduled_at: '', duration_minutes: 60 });
+    if (result.conflicts) {
+      setConflicts(result.conflicts);
+      return;
+    }
+    if (result.error) {
+      setCreateError(result.error);
+      return;
+    }
+
+    closeNewMeeting();
+    setNewMeeting({ title: '', description: '', scheduled_at: '', duration_minutes: 60, reminder_minutes: 15 });
+    setRepeat({ frequency: '', ends: 'never', until_date: '', occurrence_count: 10 });
     setSelectedParticipants([]);
     fetchMeetings();
   };
 
+  const memberName = (userId: string) =>
+    userId === user?.id ? 'Tú' : members.find(m => m.id === userId)?.full_name || 'Usuario';
+
   const handleJoinMeeting = (meeting: Meeting) => {
     setShowVideoCall(meeting);
     updateMeetingStatus(meeting.id, 'in_progress');
@@ -80,14 +187,35 @@ export function Meetings() {
       updateMeetingStatus(showVideoCall.id, 'completed');
     }
     setShowVideoCall(null);
+    setShowCallNotes(false);
   };
 
-  const handleDeleteMeeting = async () => {
+  const handleExportMeeting = (meeting: Meeting) => {
+    const fileName = `reunion-${format(new Date(meeting.scheduled_at), 'yyyy-MM-dd')}-${meeting.room_name}`;
+    downloadIcs(buildMeetingIcs(meeting, getMeetingRoomUrl(meeting)), fileName);
+  };
+
+  const handleDeleteMeeting = async (scope?: OccurrenceScope) => {
     if (deleteModal.meetingId) {
-      await deleteMeeting(deleteModal.meetingId);
+      const result = await deleteMeeting(deleteModal.meetingId, scope);
+      if (result.error) {
+        setDeleteError(result.error);
+        return;
+      }
       fetchMeetings();
     }
+    closeDeleteModal();
+  };
+
+  const closeDeleteModal = () => {
     setDeleteModal({ isOpen: false, meetingId: null });
+    setDeleteError(null);
+  };
+
+  const meetingToDelete = meetings.find(m => m.id === deleteModal.meetingId);
+  const seriesLabel = (meeting: Meeting) => {
+    const meetingSeries = meeting.series_id ? series.find(s => s.id === meeting.series_id) : undefined;
+    return meetingSeries ? describeRecurrence(meetingSeries) : meeting.series_id ? 'Reunión periódica' : null;
   };
 
   const toggleParticipant = (userId: string) => {
@@ -118,31 +246,53 @@ export function Meetings() {
   };
 
   // Si hay una videollamada activa, mostrar la sala
-  if (showVideoCall) {
+  if (activeCall) {
     return (
       <div className="h-full flex flex-col bg-[#11111b]">
         {/* Header de la llamada */}
         <div className="flex items-center justify-between p-4 bg-[#181825] border-b border-gray-700">
           <div className="flex items-center gap-3">
             <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
-            <span className="text-white font-medium">{showVideoCall.title}</span>
+            <span className="text-white font-medium">{activeCall.title}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowCallNotes(!showCallNotes)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors ${
+                showCallNotes
+                  ? 'bg-blue-600/20 border-blue-500/40 text-blue-400'
+                  : 'border-gray-700 text-gray-300 hover:bg-[#1e1e2e]'
+              }`}
+            >
+              <FileText size={18} />
+              Agenda y acta
+            </button>
+            <button
+              onClick={handleLeaveMeeting}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+            >
+              <PhoneOff size={18} />
+              Salir de la reunión
+            </button>
           </div>
-          <button
-            onClick={handleLeaveMeeting}
-            className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
-          >
-            <PhoneOff size={18} />
-            Salir de la reunión
-          </button>
         </div>
 
-        {/* Iframe de Jitsi */}
-        <div className="flex-1">
-          <iframe
-            src={`https://8x8.vc/${JAAS_APP_ID}/${showVideoCall.room_name}`}
-            allow="camera; microphone; fullscreen; display-capture; autoplay; clipboard-write"
-            className="w-full h-full border-0"
-          />
+        <div className="flex-1 flex min-h-0">
+          {/* Iframe de Jitsi */}
+          <div className="flex-1">
+            <iframe
+              src={getMeetingRoomUrl(activeCall)}
+              allow="camera; microphone; fullscreen; display-capture; autoplay; clipboard-write"
+              className="w-full h-full border-0"
+            />
+          </div>
+
+          {/* Acta compartida mientras dura la llamada */}
+          {showCallNotes && (
+            <div className="w-[28rem] bg-[#181825] border-l border-gray-700">
+              <MeetingNotesPanel meeting={activeCall} initialTab="minutes" />
+            </div>
+          )}
         </div>
       </div>
     );
@@ -159,15 +309,33 @@ export function Meetings() {
           </h1>
           <p className="text-gray-400 mt-1">Programa y gestiona videollamadas con tu equipo</p>
         </div>
-        <button
-          onClick={() => setShowNewMeeting(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-        >
-          <Plus size={18} />
-          Nueva Reunión
-        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-[#181825] border border-gray-700 hover:bg-[#1e1e2e] text-gray-300 rounded-lg transition-colors"
+          >
+            <Upload size={18} />
+            Importar .ics
+          </button>
+          <button
+            onClick={() => setShowNewMeeting(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            <Plus size={18} />
+            Nueva Reunión
+          </button>
+        </div>
       </div>
 
+      {importNotice && (
+        <div className="mb-6 flex items-center justify-between px-4 py-3 rounded-lg bg-green-500/10 border border-green-500/30 text-sm text-green-400">
+          {importNotice}
+          <button onClick={() => setImportNotice(null)} className="text-gray-500 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Reuniones de hoy */}
       {todayMeetings.length > 0 && (
         <div className="mb-8">
@@ -182,6 +350,10 @@ export function Meetings() {
                 meeting={meeting}
                 onJoin={() => handleJoinMeeting(meeting)}
                 onDelete={() => setDeleteModal({ isOpen: true, meetingId: meeting.id })}
+                onExport={() => handleExportMeeting(meeting)}
+                onOpenNotes={(tab) => setNotesModal({ meetingId: meeting.id, tab })}
+                onEdit={() => setEditingMeeting(meeting)}
+                recurrenceLabel={seriesLabel(meeting)}
                 statusBadge={getStatusBadge(meeting)}
                 isCreator={meeting.created_by === user?.id}
               />
@@ -219,6 +391,10 @@ export function Meetings() {
                 meeting={meeting}
                 onJoin={() => handleJoinMeeting(meeting)}
                 onDelete={() => setDeleteModal({ isOpen: true, meetingId: meeting.id })}
+                onExport={() => handleExportMeeting(meeting)}
+                onOpenNotes={(tab) => setNotesModal({ meetingId: meeting.id, tab })}
+                onEdit={() => setEditingMeeting(meeting)}
+                recurrenceLabel={seriesLabel(meeting)}
                 statusBadge={getStatusBadge(meeting)}
                 isCreator={meeting.created_by === user?.id}
               />
@@ -240,6 +416,10 @@ export function Meetings() {
                 meeting={meeting}
                 onJoin={() => {}}
                 onDelete={() => setDeleteModal({ isOpen: true, meetingId: meeting.id })}
+                onExport={() => handleExportMeeting(meeting)}
+                onOpenNotes={(tab) => setNotesModal({ meetingId: meeting.id, tab })}
+                onEdit={() => setEditingMeeting(meeting)}
+                recurrenceLabel={seriesLabel(meeting)}
                 statusBadge={getStatusBadge(meeting)}
                 isCreator={meeting.created_by === user?.id}
                 disabled
@@ -259,7 +439,7 @@ export function Meetings() {
                 Nueva Reunión
               </h3>
               <button
-                onClick={() => setShowNewMeeting(false)}
+                onClick={closeNewMeeting}
                 className="p-1 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white"
               >
                 <X size={20} />
@@ -316,6 +496,85 @@ export function Meetings() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
+                  <AlarmClock size={16} />
+                  Recordatorio
+                </label>
+                <select
+                  value={newMeeting.reminder_minutes}
+                  onChange={(e) => setNewMeeting({ ...newMeeting, reminder_minutes: parseInt(e.target.value) })}
+                  className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-3 px-4 text-white focus:outline-none focus:border-blue-500"
+                >
+                  <option value={0}>Sin recordatorio</option>
+                  <option value={5}>5 minutos antes</option>
+                  <option value={10}>10 minutos antes</option>
+                  <option value={15}>15 minutos antes</option>
+                  <option value={30}>30 minutos antes</option>
+                  <option value={60}>1 hora antes</option>
+                  <option value={1440}>1 día antes</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
+                  <Repeat size={16} />
+                  Repetir
+                </label>
+                <select
+                  value={repeat.frequency}
+                  onChange={(e) => setRepeat({ ...repeat, frequency: e.target.value as MeetingFrequency | '' })}
+                  className="w-full bg-[#11111b] border border-gray-700 rounded-lg py-3 px-4 text-white focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">No se repite</option>
+                  {(Object.keys(meetingFrequencyLabels) as MeetingFrequency[]).map((frequency) => (
+                    <option key={frequency} value={frequency}>{meetingFrequencyLabels[frequency]}</option>
+                  ))}
+                </select>
+
+                {repeat.frequency && (
+                  <div className="mt-3 flex items-center gap-3 text-sm">
+                    <span className="text-gray-400">Termina</span>
+                    <select
+                      value={repeat.ends}
+                      onChange={(e) => setRepeat({ ...repeat, ends: e.target.value as typeof repeat.ends })}
+                      className="bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-white focus:outline-none focus:border-blue-500"
+                    >
+                      <option value="never">Nunca</option>
+                      <option value="date">El día</option>
+                      <option value="count">Después de</option>
+                    </select>
+                    {repeat.ends === 'date' && (
+                      <input
+                        type="date"
+                        value={repeat.until_date}
+                        onChange={(e) => setRepeat({ ...repeat, until_date: e.target.value })}
+                        className="bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-white focus:outline-none focus:border-blue-500"
+                      />
+                    )}
+                    {repeat.ends === 'count' && (
+                      <span className="flex items-center gap-2 text-gray-400">
+                        <input
+                          type="number"
+                          min={2}
+                          value={repeat.occurrence_count}
+                          onChange={(e) => setRepeat({ ...repeat, occurrence_count: Math.max(parseInt(e.target.value) || 2, 2) })}
+                          className="w-20 bg-[#11111b] border border-gray-700 rounded-lg py-2 px-3 text-white focus:outline-none focus:border-blue-500"
+                        />
+                        veces
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {recurrencePreview.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Próximas: {recurrencePreview.slice(0, 4).map(o => format(o.start, 'EEE d MMM', { locale: es })).join(', ')}
+                    {recurrencePreview.length > 4 && '…'} · siempre en la misma sala
+                  </p>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
                   <UserPlus size={16} />
@@ -339,19 +598,114 @@ export function Meetings() {
               </div>
             </div>
 
+            {conflicts.length > 0 && (
+              <div className="mx-4 mb-4 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+                <p className="text-sm text-yellow-400 font-medium flex items-center gap-2 mb-2">
+                  <AlertTriangle size={16} />
+                  Cruce de horario
+                </p>
+                <ul className="space-y-1 text-xs text-gray-300">
+                  {conflicts.map((conflict, index) => (
+                    <li key={`${conflict.user_id}-${conflict.meeting_id ?? index}`}>
+                      <span className="text-white">{memberName(conflict.user_id)}</span>
+                      {' '}ya tiene {conflict.title ? `"${conflict.title}"` : 'otra reunión'} de {format(new Date(conflict.scheduled_at), 'HH:mm')} a{' '}
+                      {format(addMinutes(new Date(conflict.scheduled_at), conflict.duration_minutes), 'HH:mm')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {createError && !conflicts.length && (
+              <p className="mx-4 mb-4 text-sm text-red-400">{createError}</p>
+            )}
+
             <div className="flex justify-end gap-3 p-4 border-t border-gray-700">
               <button
-                onClick={() => setShowNewMeeting(false)}
+                onClick={closeNewMeeting}
                 className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
               >
                 Cancelar
               </button>
               <button
-                onClick={handleCreateMeeting}
+                onClick={() => handleCreateMeeting(conflicts.length > 0)}
                 disabled={!newMeeting.title || !newMeeting.scheduled_at}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 ${
+                  conflicts.length > 0 ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {conflicts.length > 0 ? 'Crear de todos modos' : 'Crear Reunión'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Orden del día, acta y acciones */}
+      {notesModal && notesMeeting && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-2xl h-[80vh] flex flex-col overflow-hidden">
+            <div className="flex items-center justify-between p-4 border-b border-gray-700">
+              <div>
+                <h3 className="text-lg font-semibold text-white">{notesMeeting.title}</h3>
+                <p className="text-sm text-gray-400">
+                  {format(new Date(notesMeeting.scheduled_at), "d 'de' MMMM, yyyy · HH:mm", { locale: es })}
+                </p>
+              </div>
+              <button
+                onClick={() => setNotesModal(null)}
+                className="p-1 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white"
+              >
+                <X size={20} />
+              </button>
+            </div>
+            <div className="flex-1 min-h-0">
+              <MeetingNotesPanel key={notesMeeting.id} meeting={notesMeeting} initialTab={notesModal.tab} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <MeetingImportModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={(count) => setImportNotice(
+          count === 1 ? 'Se importó 1 reunión' : `Se importaron ${count} reuniones`
+        )}
+      />
+
+      <MeetingEditModal meeting={editingMeeting} onClose={() => setEditingMeeting(null)} />
+
+      {/* Eliminar una ocurrencia de una reunión periódica */}
+      {deleteModal.isOpen && meetingToDelete?.series_id && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+          <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-md p-6">
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2 mb-2">
+              <Repeat size={20} className="text-red-400" />
+              Eliminar reunión periódica
+            </h3>
+            <p className="text-sm text-gray-400 mb-6">
+              "{meetingToDelete.title}" del {format(new Date(meetingToDelete.scheduled_at), "d 'de' MMMM", { locale: es })}
+            </p>
+            <div className="space-y-2">
+              <button
+                onClick={() => handleDeleteMeeting('single')}
+                className="w-full px-4 py-2 bg-[#11111b] border border-gray-700 hover:bg-[#1e1e2e] text-white rounded-lg transition-colors text-left"
+              >
+                Solo esta reunión
+                <span className="block text-xs text-gray-500">Se omite ese día y la serie sigue igual</span>
+              </button>
+              <button
+                onClick={() => handleDeleteMeeting('future')}
+                className="w-full px-4 py-2 bg-red-600/20 border border-red-500/40 hover:bg-red-600/30 text-red-400 rounded-lg transition-colors text-left"
               >
-                Crear Reunión
+                Esta y las siguientes
+                <span className="block text-xs text-red-400/70">La serie termina el día anterior</span>
+              </button>
+            </div>
+            {deleteError && <p className="mt-3 text-sm text-red-400">{deleteError}</p>}
+            <div className="flex justify-end mt-4">
+              <button onClick={closeDeleteModal} className="px-4 py-2 text-gray-400 hover:text-white transition-colors">
+                Cancelar
               </button>
             </div>
           </div>
@@ -360,9 +714,9 @@ export function Meetings() {
 
       {/* Delete Confirmation */}
       <ConfirmModal
-        isOpen={deleteModal.isOpen}
-        onClose={() => setDeleteModal({ isOpen: false, meetingId: null })}
-        onConfirm={handleDeleteMeeting}
+        isOpen={deleteModal.isOpen && !meetingToDelete?.series_id}
+        onClose={closeDeleteModal}
+        onConfirm={() => handleDeleteMeeting()}
         title="Eliminar reunión"
         message="¿Estás seguro de eliminar esta reunión? Esta acción no se puede deshacer."
         confirmText="Eliminar"
@@ -377,6 +731,10 @@ function MeetingCard({
   meeting, 
   onJoin, 
   onDelete, 
+  onExport,
+  onOpenNotes,
+  onEdit,
+  recurrenceLabel,
   statusBadge, 
   isCreator,
   disabled = false 
@@ -384,10 +742,27 @@ function MeetingCard({
   meeting: Meeting; 
   onJoin: () => void; 
   onDelete: () => void;
+  onExport: () => void;
+  onOpenNotes: (tab: MeetingNotesTab) => void;
+  onEdit: () => void;
+  recurrenceLabel: string | null;
   statusBadge: React.ReactNode;
   isCreator: boolean;
   disabled?: boolean;
 }) {
+  const { user } = useAuthStore();
+  const { notes } = useNotesStore();
+  const participants = meeting.participants || [];
+  const actionItems = notes.filter(n => n.meeting_id === meeting.id);
+  const pendingActions = actionItems.filter(n => n.status !== 'completed' && n.status !== 'cancelled').length;
+  const myParticipation = participants.find(p => p.user_id === user?.id);
+  const responses = {
+    accepted: participants.filter(p => p.status === 'accepted' || p.status === 'joined').length,
+    tentative: participants.filter(p => p.status === 'tentative').length,
+    declined: participants.filter(p => p.status === 'declined').length,
+    invited: participants.filter(p => p.status === 'invited').length,
+  };
+
   return (
     <div className={`bg-[#181825] rounded-xl border border-gray-700 p-4 ${disabled ? 'pointer-events-none' : ''}`}>
       <div className="flex items-start justify-between">
@@ -412,7 +787,67 @@ function MeetingCard({
               <Users size={14} />
               {meeting.duration_minutes} min
             </span>
+            {recurrenceLabel && (
+              <span className="flex items-center gap-1 text-blue-400">
+                <Repeat size={14} />
+                {recurrenceLabel}
+              </span>
+            )}
+            {!!meeting.reminder_minutes && (
+              <span className="flex items-center gap-1" title="Recordatorio">
+                <AlarmClock size={14} />
+                {meeting.reminder_minutes >= 60
+                  ? `${meeting.reminder_minutes / 60} h antes`
+                  : `${meeting.reminder_minutes} min antes`}
+              </span>
+            )}
           </div>
+
+          {isCreator && participants.length > 0 && (
+            <p className="mt-2 text-xs text-gray-500">
+              {responses.accepted} aceptaron · {responses.tentative} tal vez · {responses.declined} rechazaron
+              {responses.invited > 0 && ` · ${responses.invited} sin responder`}
+            </p>
+          )}
+          {!isCreator && myParticipation && !disabled && (
+            <div className="mt-3">
+              <MeetingRsvpButtons meetingId={meeting.id} status={myParticipation.status} />
+            </div>
+          )}
+
+          {meeting.status !== 'completed' && !!meeting.agenda?.length && (
+            <button
+              onClick={() => onOpenNotes('agenda')}
+              className="mt-2 flex items-center gap-1 text-xs text-gray-500 hover:text-white pointer-events-auto"
+            >
+              <ListOrdered size={12} />
+              {meeting.agenda.length} puntos en el orden del día
+            </button>
+          )}
+
+          {/* Acta de las reuniones finalizadas */}
+          {meeting.status === 'completed' && (meeting.minutes || actionItems.length > 0) && (
+            <div className="mt-3 pointer-events-auto">
+              {meeting.minutes && (
+                <button
+                  onClick={() => onOpenNotes('minutes')}
+                  className="block w-full text-left max-h-32 overflow-hidden bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2 text-sm hover:border-gray-500"
+                  title="Ver acta completa"
+                >
+                  <MarkdownPreview content={meeting.minutes} />
+                </button>
+              )}
+              {actionItems.length > 0 && (
+                <button
+                  onClick={() => onOpenNotes('actions')}
+                  className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+                >
+                  <CheckSquare size={12} />
+                  {actionItems.length} acciones · {pendingActions} pendientes
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -425,6 +860,29 @@ function MeetingCard({
               Unirse
             </button>
           )}
+          <button
+            onClick={() => onOpenNotes(meeting.status === 'completed' ? 'minutes' : 'agenda')}
+            className="p-2 hover:bg-[#1e1e2e] text-gray-400 hover:text-white rounded-lg transition-colors pointer-events-auto"
+            title="Agenda y acta"
+          >
+            <FileText size={18} />
+          </button>
+          <button
+            onClick={onExport}
+            className="p-2 hover:bg-[#1e1e2e] text-gray-400 hover:text-white rounded-lg transition-colors pointer-events-auto"
+            title="Descargar .ics"
+          >
+            <Download size={18} />
+          </button>
+          {isCreator && !disabled && (
+            <button
+              onClick={onEdit}
+              className="p-2 hover:bg-[#1e1e2e] text-gray-400 hover:text-white rounded-lg transition-colors"
+              title="Editar"
+            >
+              <Pencil size={18} />
+            </button>
+          )}
           {isCreator && (
             <button
               onClick={onDelete}
@@ -19,12 +19,20 @@ import {
   UserPlus,
   Plus,
   ChevronRight,
+  History,
+  Video,
 } from 'lucide-react';
 import { useNotesStore } from '../store/notesStore';
 import { useAuthStore } from '../store/authStore';
 import { useCommentsStore } from '../store/commentsStore';
 import { useTeamStore } from '../store/teamStore';
+import { useMeetingsStore } from '../store/meetingsStore';
+import { TimeTrackingPanel } from '../components/TimeTrackingPanel';
+import { ActivityTimeline } from '../components/ActivityTimeline';
+import { NoteDependenciesPanel } from '../components/NoteDependenciesPanel';
+import { MarkdownEditor } from '../components/MarkdownEditor';
 import { Note } from '../lib/supabase';
+import { toggleTaskAtLine } from '../lib/markdown';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 
@@ -65,8 +73,9 @@ export function NoteEditor() {
   const typeFromUrl = searchParams.get('type') as Note['type'] | null;
   const { notes, createNote, updateNote } = useNotesStore();
   const { user } = useAuthStore();
-  const { comments, fetchComments, addComment, deleteComment } = useCommentsStore();
+  const { comments, fetchComments, addComment, deleteComment, subscribeToComments } = useCommentsStore();
   const { members, fetchMembers } = useTeamStore();
+  const { meetings, isLoading: isLoadingMeetings, fetchMeetings } = useMeetingsStore();
   
   const [isLoading, setIsLoading] = useState(false);
   const [newComment, setNewComment] = useState('');
@@ -91,12 +100,19 @@ export function NoteEditor() {
   const parentNote = currentNote?.parent_id ? notes.find(n => n.id === currentNote.parent_id) : null;
   const parentNoteFromUrl = parentFromUrl ? notes.find(n => n.id === parentFromUrl) : null;
   const isCreatingSubtask = !isEditing && !!parentFromUrl;
+  const sourceMeetingId = currentNote?.meeting_id;
+  const sourceMeeting = sourceMeetingId ? meetings.find(m => m.id === sourceMeetingId) : null;
 
   // Cargar miembros del equipo
   useEffect(() => {
     fetchMembers();
   }, [fetchMembers]);
 
+  // Reunión de la que salió la tarea (acción del acta)
+  useEffect(() => {
+    if (sourceMeetingId) fetchMeetings();
+  }, [sourceMeetingId, fetchMeetings]);
+
   // Resetear formulario cuando se crea una nueva nota/subtarea
   useEffect(() => {
     if (!id) {
@@ -139,6 +155,12 @@ export function NoteEditor() {
     }
   }, [id, notes, fetchComments]);
 
+  // Comentarios de otros usuarios en tiempo real
+  useEffect(() => {
+    if (!id) return;
+    return subscribeToComments(id);
+  }, [id, subscribeToComments]);
+
   const handleStatusChange = async (newStatus: Note['status']) => {
     setFormData({ ...formData, status: newStatus });
     if (isEditing && id) {
@@ -146,6 +168,15 @@ export function NoteEditor() {
     }
   };
 
+  // Los checklists marcados desde la vista previa se guardan al momento
+  const handleToggleTask = async (line: number) => {
+    const content = toggleTaskAtLine(formData.content, line);
+    setFormData({ ...formData, content });
+    if (isEditing && id) {
+      await updateNote(id, { content });
+    }
+  };
+
   const handleAddComment = async () => {
     if (!newComment.trim() || !id || !user) return;
     await addComment(id, newComment.trim(), user.id);
@@ -271,12 +302,12 @@ export function NoteEditor() {
         {/* Content */}
         <div>
           <label className="block text-sm text-gray-400 mb-2">Contenido</label>
-          <textarea
+          <MarkdownEditor
             value={formData.content}
-            onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-            placeholder="Describe los detalles..."
+            onChange={(content) => setFormData({ ...formData, content })}
+            onToggleTask={handleToggleTask}
+            placeholder="Describe los detalles... (admite Markdown y [[enlaces a otras notas]])"
             rows={8}
-            className="w-full bg-[#181825] border border-gray-700 rounded-lg py-3 px-4 text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 transition-colors resize-none"
             required
           />
         </div>
@@ -411,6 +442,25 @@ export function NoteEditor() {
           </div>
         )}
 
+        {/* Acción acordada en una reunión */}
+        {sourceMeetingId && (
+          <div className="flex items-center gap-2 text-sm text-gray-400 bg-[#181825] p-3 rounded-lg">
+            <Video size={14} />
+            <span>Acordada en la reunión:</span>
+            {sourceMeeting ? (
+              <Link
+                to={`/meetings?id=${sourceMeeting.id}`}
+                className="flex items-center gap-1 text-blue-400 hover:text-blue-300"
+              >
+                {sourceMeeting.title} · {format(new Date(sourceMeeting.scheduled_at), "d MMM yyyy", { locale: es })}
+                <ChevronRight size={14} />
+              </Link>
+            ) : !isLoadingMeetings && (
+              <span className="text-gray-500">no eres asistente de esa reunión</span>
+            )}
+          </div>
+        )}
+
         {/* Tags */}
         <div>
           <label className="block text-sm text-gray-400 mb-2">Etiquetas</label>
@@ -507,6 +557,27 @@ export function NoteEditor() {
         </div>
       )}
 
+      {/* Time Tracking - Solo en modo edición */}
+      {isEditing && id && (
+        <TimeTrackingPanel noteId={id} estimatedHours={currentNote?.estimated_hours} />
+      )}
+
+      {/* Dependencias - Solo en modo edición */}
+      {isEditing && id && (
+        <NoteDependenciesPanel noteId={id} />
+      )}
+
+      {/* Historial - Solo en modo edición */}
+      {isEditing && id && (
+        <div className="mt-8 p-6 bg-[#181825] rounded-xl border border-gray-700">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <History size={20} />
+            Historial
+          </h3>
+          <ActivityTimeline entityType="note" entityId={id} showFilters />
+        </div>
+      )}
+
       {/* Comments Section - Solo en modo edición */}
       {isEditing && (
         <div className="mt-8 p-6 bg-[#181825] rounded-xl border border-gray-700">
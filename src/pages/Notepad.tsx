@@ -15,7 +15,10 @@ import { usePersonalNotesStore } from '../store/personalNotesStore';
 import { useTeamStore } from '../store/teamStore';
 import { useAuthStore } from '../store/authStore';
 import { ConfirmModal } from '../components/ConfirmModal';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { MarkdownPreview } from '../components/MarkdownPreview';
 import { PersonalNote } from '../lib/supabase';
+import { stripMarkdown, toggleTaskAtLine } from '../lib/markdown';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 
@@ -107,6 +110,14 @@ export function Notepad() {
     setShares(newShares);
   };
 
+  // Marcar un checklist desde la vista previa guarda la nota directamente
+  const handleToggleTask = async (line: number) => {
+    if (!selectedNote) return;
+    const content = toggleTaskAtLine(selectedNote.content, line);
+    setSelectedNote({ ...selectedNote, content });
+    await updateNote(selectedNote.id, { content });
+  };
+
   const canEditNote = (note: PersonalNote) => {
     if (note.owner_id === user?.id) return true;
     // Verificar si tiene permiso de edición en shares
@@ -195,7 +206,7 @@ export function Notepad() {
                   </div>
                 </div>
                 <p className="text-gray-500 text-xs mt-1 line-clamp-2">
-                  {note.content || 'Sin contenido'}
+                  {stripMarkdown(note.content) || 'Sin contenido'}
                 </p>
                 <p className="text-gray-600 text-xs mt-2">
                   {format(new Date(note.updated_at), "d MMM HH:mm", { locale: es })}
@@ -277,18 +288,20 @@ export function Notepad() {
             {/* Editor Content */}
             <div className="flex-1 p-6 overflow-y-auto">
               {isEditing ? (
-                <textarea
+                <MarkdownEditor
                   value={editContent}
-                  onChange={(e) => setEditContent(e.target.value)}
-                  className="w-full h-full bg-transparent text-gray-300 resize-none focus:outline-none text-base leading-relaxed"
-                  placeholder="Escribe tu nota aquí..."
+                  onChange={setEditContent}
+                  rows={20}
+                  className="bg-[#181825]"
+                  placeholder="Escribe tu nota aquí... (admite Markdown y [[enlaces a notas]])"
                 />
               ) : (
-                <div className="prose prose-invert max-w-none">
+                <div className="max-w-none">
                   {selectedNote.content ? (
-                    <pre className="whitespace-pre-wrap font-sans text-gray-300 text-base leading-relaxed">
-                      {selectedNote.content}
-                    </pre>
+                    <MarkdownPreview
+                      content={selectedNote.content}
+                      onToggleTask={canEditNote(selectedNote) ? handleToggleTask : undefined}
+                    />
                   ) : (
                     <p className="text-gray-500 italic">Esta nota está vacía. Haz clic en "Editar" para agregar contenido.</p>
                   )}
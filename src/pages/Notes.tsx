@@ -16,6 +16,7 @@ import {
 import { useNotesStore } from '../store/notesStore';
 import { ConfirmModal } from '../components/ConfirmModal';
 import { ContextMenu, useContextMenu } from '../components/ContextMenu';
+import { stripMarkdown } from '../lib/markdown';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 
@@ -188,7 +189,7 @@ export function Notes() {
 
               {/* Card Body */}
               <h3 className="text-white font-medium mb-2 line-clamp-2">{note.title}</h3>
-              <p className="text-gray-400 text-sm line-clamp-3 mb-4">{note.content}</p>
+              <p className="text-gray-400 text-sm line-clamp-3 mb-4">{stripMarkdown(note.content)}</p>
 
               {/* Card Footer */}
               <div className="flex items-center justify-between pt-3 border-t border-gray-700">
@@ -0,0 +1,454 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Target, CheckCircle, Clock, TrendingDown, Repeat, Flag, X, ChevronRight } from 'lucide-react';
+import { useSprintStore, getSprintNotes, getSprintSummary } from '../store/sprintStore';
+import { useNotesStore } from '../store/notesStore';
+import { useAuthStore } from '../store/authStore';
+import { Sprint, Note } from '../lib/supabase';
+import {
+  format,
+  parseISO,
+  startOfDay,
+  endOfDay,
+  eachDayOfInterval,
+  differenceInCalendarDays,
+  isAfter,
+} from 'date-fns';
+import { es } from 'date-fns/locale';
+
+type Metric = 'hours' | 'tasks';
+
+const statusLabels: Record<Sprint['status'], string> = {
+  planning: 'Planificación',
+  active: 'Activo',
+  completed: 'Completado',
+  cancelled: 'Cancelado',
+};
+
+const statusColors: Record<Sprint['status'], string> = {
+  planning: 'bg-blue-500/20 text-blue-400',
+  active: 'bg-green-500/20 text-green-400',
+  completed: 'bg-gray-500/20 text-gray-400',
+  cancelled: 'bg-gray-500/10 text-gray-500',
+};
+
+const noteStatusLabels: Record<Note['status'], string> = {
+  pending: 'Pendiente',
+  in_progress: 'En progreso',
+  completed: 'Completado',
+  cancelled: 'Cancelado',
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = { top: 16, right: 16, bottom: 28, left: 40 };
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+export function SprintReport() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { sprints, currentSprint, fetchSprints, closeSprint } = useSprintStore();
+  const { notes, fetchNotes } = useNotesStore();
+  const { can } = useAuthStore();
+
+  const [metric, setMetric] = useState<Metric>('hours');
+  const [showCloseModal, setShowCloseModal] = useState(false);
+  const [targetSprintId, setTargetSprintId] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSprints();
+    fetchNotes();
+  }, [fetchSprints, fetchNotes]);
+
+  const sortedSprints = useMemo(
+    () => [...sprints].sort((a, b) => parseISO(b.start_date).getTime() - parseISO(a.start_date).getTime()),
+    [sprints]
+  );
+  const sprint = sprints.find(s => s.id === searchParams.get('id')) || currentSprint || sortedSprints[0] || null;
+
+  const sprintNotes = useMemo(() => (sprint ? getSprintNotes(sprint.id, notes) : []), [sprint, notes]);
+  const summary = useMemo(() => (sprint ? getSprintSummary(sprint, notes) : null), [sprint, notes]);
+  const unfinishedNotes = sprintNotes.filter(n => n.status !== 'completed');
+  const isOpen = sprint?.status === 'planning' || sprint?.status === 'active';
+
+  // Si no hay estimaciones, el burndown en horas no dice nada
+  const effectiveMetric: Metric = summary && summary.totalHours === 0 ? 'tasks' : metric;
+
+  // Burndown: lo que queda al final de cada día del sprint
+  const burndown = useMemo(() => {
+    if (!sprint || !summary) return [];
+    const start = startOfDay(parseISO(sprint.start_date));
+    const end = startOfDay(parseISO(sprint.end_date));
+    if (isAfter(start, end)) return [];
+
+    const days = eachDayOfInterval({ start, end });
+    const total = effectiveMetric === 'hours' ? summary.totalHours : summary.totalTasks;
+    const completed = sprintNotes.filter(n => n.status === 'completed');
+    const today = new Date();
+
+    return days.map((day, index) => {
+      const doneBy = completed.filter(n => parseISO(n.completed_at || n.updated_at) <= endOfDay(day));
+      const done = effectiveMetric === 'hours'
+        ? doneBy.reduce((sum, n) => sum + (n.estimated_hours || 0), 0)
+        : doneBy.length;
+      return {
+        day,
+        ideal: days.length > 1 ? total * (1 - index / (days.length - 1)) : 0,
+        // Días futuros sin dato real
+        remaining: isAfter(startOfDay(day), today) ? null : Math.max(total - done, 0),
+      };
+    });
+  }, [sprint, summary, sprintNotes, effectiveMetric]);
+
+  // Velocidad: últimos sprints ya iniciados, del más antiguo al más reciente
+  const velocity = useMemo(
+    () => sortedSprints
+      .filter(s => s.status !== 'cancelled' && s.status !== 'planning')
+      .slice(0, 6)
+      .reverse()
+      .map(s => ({ sprint: s, ...getSprintSummary(s, notes) })),
+    [sortedSprints, notes]
+  );
+  const closedVelocity = velocity.filter(v => v.sprint.status === 'completed');
+  const averageVelocity = closedVelocity.length > 0
+    ? closedVelocity.reduce((sum, v) => sum + (effectiveMetric === 'hours' ? v.completedHours : v.completedTasks), 0) / closedVelocity.length
+    : null;
+  const maxVelocity = Math.max(1, ...velocity.map(v => effectiveMetric === 'hours' ? v.totalHours : v.totalTasks));
+
+  // Siguiente sprint por defecto: el próximo que no ha terminado
+  const candidateSprints = sortedSprints.filter(s => s.id !== sprint?.id && (s.status === 'planning' || s.status === 'active'));
+  const openCloseModal = () => {
+    const next = [...candidateSprints]
+      .reverse()
+      .find(s => sprint && parseISO(s.start_date) >= parseISO(sprint.start_date));
+    setTargetSprintId(next?.id || '');
+    setError(null);
+    setShowCloseModal(true);
+  };
+
+  const handleCloseSprint = async () => {
+    if (!sprint) return;
+    setIsClosing(true);
+    const result = await closeSprint(sprint.id, targetSprintId || null);
+    setIsClosing(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setShowCloseModal(false);
+  };
+
+  const chartInnerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const chartInnerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const chartMax = Math.max(1, ...burndown.map(p => p.ideal));
+  const pointX = (index: number) =>
+    CHART_PADDING.left + (burndown.length > 1 ? (index / (burndown.length - 1)) * chartInnerWidth : 0);
+  const pointY = (value: number) => CHART_PADDING.top + chartInnerHeight * (1 - value / chartMax);
+  const idealPath = burndown.map((p, i) => `${pointX(i)},${pointY(p.ideal)}`).join(' ');
+  const actualPath = burndown
+    .map((p, i) => (p.remaining === null ? null : `${pointX(i)},${pointY(p.remaining)}`))
+    .filter(Boolean)
+    .join(' ');
+  const labelEvery = Math.max(1, Math.ceil(burndown.length / 10));
+
+  if (!sprint || !summary) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-16 text-gray-500">
+          <Target size={64} className="mx-auto mb-4 opacity-30" />
+          <h3 className="text-xl font-medium text-white mb-2">No hay sprints</h3>
+          <p>Crea un sprint para ver su burndown y velocidad</p>
+        </div>
+      </div>
+    );
+  }
+
+  const daysLeft = differenceInCalendarDays(parseISO(sprint.end_date), new Date());
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+            <Target size={28} />
+            Reporte de Sprint
+          </h1>
+          <p className="text-gray-400 mt-1">
+            {format(parseISO(sprint.start_date), "d MMM", { locale: es })} - {format(parseISO(sprint.end_date), "d MMM yyyy", { locale: es })}
+            {sprint.goal && <> · {sprint.goal}</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={sprint.id}
+            onChange={(e) => setSearchParams({ id: e.target.value })}
+            className="bg-[#181825] border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            {sortedSprints.map(s => (
+              <option key={s.id} value={s.id}>
+                {s.status === 'active' ? '🟢 ' : ''}{s.name}
+              </option>
+            ))}
+          </select>
+          <span className={`px-3 py-1 rounded-full text-xs font-medium ${statusColors[sprint.status]}`}>
+            {statusLabels[sprint.status]}
+          </span>
+          {isOpen && can('manage_sprints') && (
+            <button
+              onClick={openCloseModal}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors"
+            >
+              <Flag size={16} />
+              Cerrar sprint
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-[#181825] rounded-xl p-4 border border-gray-700">
+          <div className="flex items-center gap-2 text-gray-400 text-sm mb-1">
+            <CheckCircle size={16} className="text-green-400" />
+            Tareas completadas
+          </div>
+          <p className="text-2xl font-bold text-white">
+            {summary.completedTasks}<span className="text-base text-gray-500"> / {summary.totalTasks}</span>
+          </p>
+        </div>
+        <div className="bg-[#181825] rounded-xl p-4 border border-gray-700">
+          <div className="flex items-center gap-2 text-gray-400 text-sm mb-1">
+            <Clock size={16} className="text-blue-400" />
+            Horas completadas
+          </div>
+          <p className="text-2xl font-bold text-white">
+            {formatHours(summary.completedHours)}<span className="text-base text-gray-500"> / {formatHours(summary.totalHours)}</span>
+          </p>
+        </div>
+        <div className="bg-[#181825] rounded-xl p-4 border border-gray-700">
+          <div className="flex items-center gap-2 text-gray-400 text-sm mb-1">
+            <Repeat size={16} className="text-orange-400" />
+            {sprint.closed_at ? 'Arrastre' : 'Arrastre previsto'}
+          </div>
+          <p className="text-2xl font-bold text-white">
+            {Math.round(summary.carryOverRate * 100)}%
+            <span className="text-base text-gray-500"> · {summary.carriedOverTasks} tareas</span>
+          </p>
+        </div>
+        <div className="bg-[#181825] rounded-xl p-4 border border-gray-700">
+          <div className="flex items-center gap-2 text-gray-400 text-sm mb-1">
+            <TrendingDown size={16} className="text-purple-400" />
+            {sprint.closed_at ? 'Cerrado' : 'Días restantes'}
+          </div>
+          <p className="text-2xl font-bold text-white">
+            {sprint.closed_at
+              ? format(parseISO(sprint.closed_at), 'd MMM', { locale: es })
+              : Math.max(daysLeft, 0)}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        {/* Burndown */}
+        <div className="lg:col-span-2 bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-semibold text-white flex items-center gap-2">
+              <TrendingDown size={18} className="text-purple-400" />
+              Burndown
+            </h2>
+            <div className="flex bg-[#11111b] border border-gray-700 rounded-lg p-1">
+              {(['hours', 'tasks'] as Metric[]).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setMetric(value)}
+                  disabled={value === 'hours' && summary.totalHours === 0}
+                  className={`px-3 py-1 rounded text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    effectiveMetric === value ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {value === 'hours' ? 'Horas' : 'Tareas'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {burndown.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">Las fechas del sprint no son válidas</p>
+          ) : (
+            <>
+              <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+                {/* Eje Y */}
+                {[0, 0.25, 0.5, 0.75, 1].map(fraction => {
+                  const value = chartMax * fraction;
+                  return (
+                    <g key={fraction}>
+                      <line
+                        x1={CHART_PADDING.left}
+                        x2={CHART_WIDTH - CHART_PADDING.right}
+                        y1={pointY(value)}
+                        y2={pointY(value)}
+                        stroke="#374151"
+                        strokeWidth={1}
+                        strokeDasharray={fraction === 0 ? undefined : '2 4'}
+                      />
+                      <text x={CHART_PADDING.left - 6} y={pointY(value) + 4} textAnchor="end" fontSize={10} fill="#6b7280">
+                        {Math.round(value)}
+                      </text>
+                    </g>
+                  );
+                })}
+                {/* Eje X */}
+                {burndown.map((p, i) => i % labelEvery === 0 || i === burndown.length - 1 ? (
+                  <text key={i} x={pointX(i)} y={CHART_HEIGHT - 8} textAnchor="middle" fontSize={10} fill="#6b7280">
+                    {format(p.day, 'd MMM', { locale: es })}
+                  </text>
+                ) : null)}
+                <polyline points={idealPath} fill="none" stroke="#6b7280" strokeWidth={1.5} strokeDasharray="6 4" />
+                {actualPath && (
+                  <polyline points={actualPath} fill="none" stroke="#a855f7" strokeWidth={2.5} strokeLinejoin="round" />
+                )}
+                {burndown.map((p, i) => p.remaining === null ? null : (
+                  <circle key={i} cx={pointX(i)} cy={pointY(p.remaining)} r={3} fill="#a855f7">
+                    <title>
+                      {format(p.day, "d 'de' MMMM", { locale: es })}: {effectiveMetric === 'hours' ? formatHours(p.remaining) : `${p.remaining} tareas`} restantes
+                    </title>
+                  </circle>
+                ))}
+              </svg>
+              <div className="flex items-center gap-6 mt-2 text-xs text-gray-400">
+                <span className="flex items-center gap-2"><span className="w-4 border-t-2 border-dashed border-gray-500" /> Ideal</span>
+                <span className="flex items-center gap-2"><span className="w-4 border-t-2 border-purple-500" /> Restante</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Velocidad */}
+        <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <h2 className="font-semibold text-white mb-1">Velocidad</h2>
+          <p className="text-sm text-gray-400 mb-4">
+            {averageVelocity !== null
+              ? `Promedio: ${effectiveMetric === 'hours' ? formatHours(averageVelocity) : `${Math.round(averageVelocity * 10) / 10} tareas`} por sprint`
+              : 'Aún no hay sprints cerrados'}
+          </p>
+          {velocity.length === 0 ? (
+            <p className="text-gray-500 text-center py-8 text-sm">Sin datos</p>
+          ) : (
+            <div className="space-y-3">
+              {velocity.map(v => {
+                const done = effectiveMetric === 'hours' ? v.completedHours : v.completedTasks;
+                const carried = effectiveMetric === 'hours' ? v.carriedOverHours : v.carriedOverTasks;
+                return (
+                  <button
+                    key={v.sprint.id}
+                    onClick={() => setSearchParams({ id: v.sprint.id })}
+                    className={`w-full text-left ${v.sprint.id === sprint.id ? '' : 'opacity-70 hover:opacity-100'} transition-opacity`}
+                  >
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="text-gray-300 truncate">{v.sprint.name}</span>
+                      <span className="text-gray-500">
+                        {effectiveMetric === 'hours' ? formatHours(done) : done}
+                        {carried > 0 && <span className="text-orange-400"> +{effectiveMetric === 'hours' ? formatHours(carried) : carried}</span>}
+                      </span>
+                    </div>
+                    <div className="h-2.5 bg-[#11111b] rounded-full overflow-hidden flex">
+                      <div className="h-full bg-green-500" style={{ width: `${(done / maxVelocity) * 100}%` }} />
+                      <div className="h-full bg-orange-500/60" style={{ width: `${(carried / maxVelocity) * 100}%` }} />
+                    </div>
+                  </button>
+                );
+              })}
+              <div className="flex items-center gap-4 pt-2 text-xs text-gray-400">
+                <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-green-500" /> Completado</span>
+                <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-orange-500/60" /> Arrastrado</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Pendientes */}
+      {isOpen && (
+        <div className="bg-[#181825] rounded-xl border border-gray-700 p-5">
+          <h2 className="font-semibold text-white mb-4">Tareas sin terminar ({unfinishedNotes.length})</h2>
+          {unfinishedNotes.length === 0 ? (
+            <p className="text-gray-500 text-center py-6">Todo el trabajo del sprint está completado 🎉</p>
+          ) : (
+            <div className="space-y-2">
+              {unfinishedNotes.map(note => (
+                <div
+                  key={note.id}
+                  onClick={() => navigate(`/notes/${note.id}`)}
+                  className="flex items-center gap-3 p-3 bg-[#11111b] rounded-lg hover:bg-[#1e1e2e] cursor-pointer transition-colors"
+                >
+                  <span className="flex-1 text-white truncate">{note.title}</span>
+                  {note.estimated_hours ? <span className="text-xs text-gray-500">{note.estimated_hours}h</span> : null}
+                  <span className="text-xs text-gray-400">{noteStatusLabels[note.status]}</span>
+                  <ChevronRight size={16} className="text-gray-500" />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Close Sprint Modal */}
+      {showCloseModal && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+          <div className="bg-[#181825] rounded-xl border border-gray-700 w-full max-w-md">
+            <div className="flex items-center justify-between p-4 border-b border-gray-700">
+              <h3 className="text-lg font-semibold text-white">Cerrar "{sprint.name}"</h3>
+              <button
+                onClick={() => setShowCloseModal(false)}
+                className="p-1 hover:bg-[#1e1e2e] rounded text-gray-400 hover:text-white"
+              >
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <p className="text-gray-300 text-sm">
+                Se completaron {summary.completedTasks} de {summary.totalTasks} tareas.
+                {unfinishedNotes.length > 0
+                  ? ` Las ${unfinishedNotes.length} tareas sin terminar (y sus subtareas) se moverán a:`
+                  : ' No quedan tareas pendientes.'}
+              </p>
+              {unfinishedNotes.length > 0 && (
+                <select
+                  value={targetSprintId}
+                  onChange={(e) => setTargetSprintId(e.target.value)}
+                  className="w-full bg-[#11111b] border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">Backlog (sin sprint)</option>
+                  {candidateSprints.map(s => (
+                    <option key={s.id} value={s.id}>{s.name} · {statusLabels[s.status]}</option>
+                  ))}
+                </select>
+              )}
+              {error && <p className="text-sm text-red-400">{error}</p>}
+            </div>
+            <div className="flex justify-end gap-3 p-4 border-t border-gray-700">
+              <button
+                onClick={() => setShowCloseModal(false)}
+                className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleCloseSprint}
+                disabled={isClosing}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+              >
+                <Flag size={16} />
+                {isClosing ? 'Cerrando...' : 'Cerrar sprint'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
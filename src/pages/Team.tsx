@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Users,
@@ -10,9 +10,14 @@ import {
   Sparkles,
   Clock,
   ChevronRight,
+  MessageCircle,
 } from 'lucide-react';
 import { useTeamStore } from '../store/teamStore';
 import { useNotesStore } from '../store/notesStore';
+import { useAuthStore } from '../store/authStore';
+import { useChatStore } from '../store/chatStore';
+import { User } from '../lib/supabase';
+import { roleLabels } from '../lib/permissions';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 
@@ -32,8 +37,12 @@ const typeColors: Record<string, string> = {
 
 export function Team() {
   const navigate = useNavigate();
-  const { members, fetchMembers, isLoading } = useTeamStore();
+  const { members, fetchMembers, updateMemberRole, isLoading } = useTeamStore();
   const { notes, fetchNotes } = useNotesStore();
+  const { user, can } = useAuthStore();
+  const { openDirectMessage } = useChatStore();
+  const canManageMembers = can('manage_members');
+  const [actionError, setActionError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchMembers();
@@ -51,6 +60,22 @@ export function Team() {
     return { lastNote, totalNotes, pendingTasks, completedTasks };
   };
 
+  const handleRoleChange = async (memberId: string, role: User['role']) => {
+    setActionError(null);
+    const result = await updateMemberRole(memberId, role);
+    if (result.error) setActionError(result.error);
+  };
+
+  const handleDirectMessage = async (member: User) => {
+    setActionError(null);
+    const result = await openDirectMessage(member);
+    if (result.error) {
+      setActionError(result.error);
+      return;
+    }
+    navigate('/chat');
+  };
+
   if (isLoading) {
     return (
       <div className="p-6 flex items-center justify-center">
@@ -70,6 +95,9 @@ export function Team() {
         <p className="text-gray-400 mt-1">
           {members.length} miembro{members.length !== 1 ? 's' : ''} del equipo
         </p>
+        {actionError && (
+          <p className="mt-3 text-sm text-red-400">{actionError}</p>
+        )}
       </div>
 
       {/* Team Grid */}
@@ -102,6 +130,15 @@ export function Team() {
                       </span>
                     </div>
                   </div>
+                  {member.id !== user?.id && (
+                    <button
+                      onClick={() => handleDirectMessage(member)}
+                      className="p-2 rounded-lg hover:bg-[#1e1e2e] text-gray-400 hover:text-blue-400 transition-colors self-start"
+                      title="Enviar mensaje directo"
+                    >
+                      <MessageCircle size={18} />
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -150,13 +187,30 @@ export function Team() {
 
               {/* Badge de rol */}
               <div className="px-4 pb-4">
-                <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
-                  member.role === 'admin' 
-                    ? 'bg-purple-500/20 text-purple-400' 
-                    : 'bg-blue-500/20 text-blue-400'
-                }`}>
-                  {member.role === 'admin' ? 'Administrador' : 'Desarrollador'}
-                </span>
+                {canManageMembers ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member.id, e.target.value as User['role'])}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium border-0 focus:outline-none focus:ring-1 focus:ring-blue-500 cursor-pointer ${
+                      member.role === 'admin'
+                        ? 'bg-purple-500/20 text-purple-400'
+                        : 'bg-blue-500/20 text-blue-400'
+                    }`}
+                    title="Cambiar rol"
+                  >
+                    {Object.entries(roleLabels).map(([value, label]) => (
+                      <option key={value} value={value} className="bg-[#181825] text-white">{label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
+                    member.role === 'admin' 
+                      ? 'bg-purple-500/20 text-purple-400' 
+                      : 'bg-blue-500/20 text-blue-400'
+                  }`}>
+                    {roleLabels[member.role]}
+                  </span>
+                )}
               </div>
             </div>
           );
@@ -0,0 +1,426 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, GanttChart, Target, Users, ZoomIn, ZoomOut } from 'lucide-react';
+import { useNotesStore } from '../store/notesStore';
+import { useSprintStore } from '../store/sprintStore';
+import { useTeamStore } from '../store/teamStore';
+import { Note } from '../lib/supabase';
+import {
+  format,
+  parseISO,
+  startOfDay,
+  startOfWeek,
+  addDays,
+  differenceInCalendarDays,
+  isToday,
+  isWeekend,
+  isSameDay,
+} from 'date-fns';
+import { es } from 'date-fns/locale';
+
+type GroupBy = 'sprint' | 'assignee';
+type DragMode = 'move' | 'resize-start' | 'resize-end';
+
+interface DragState {
+  note: Note;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+interface TimelineGroup {
+  id: string;
+  label: string;
+  notes: Note[];
+}
+
+const VISIBLE_DAYS = 42;
+const ROW_HEIGHT = 40;
+const LABEL_WIDTH = 260;
+
+const statusBarColors: Record<Note['status'], string> = {
+  pending: 'bg-yellow-500/80 border-yellow-400',
+  in_progress: 'bg-blue-500/80 border-blue-400',
+  completed: 'bg-green-500/70 border-green-400',
+  cancelled: 'bg-gray-500/60 border-gray-400',
+};
+
+const sprintColors: Record<string, string> = {
+  active: 'bg-green-500/20 text-green-400 border-green-500/40',
+  planning: 'bg-blue-500/20 text-blue-400 border-blue-500/40',
+  completed: 'bg-gray-500/20 text-gray-400 border-gray-500/40',
+  cancelled: 'bg-gray-500/10 text-gray-500 border-gray-600/40',
+};
+
+const toDay = (value: string) => startOfDay(parseISO(value));
+
+// Rango de la barra: si solo hay una fecha, la barra ocupa ese día
+const getNoteRange = (note: Note) => {
+  const start = toDay((note.start_date || note.due_date)!);
+  const end = toDay((note.due_date || note.start_date)!);
+  return end < start ? { start: end, end: start } : { start, end };
+};
+
+// Aplica el arrastre en curso al rango original de la nota
+const applyDrag = (range: { start: Date; end: Date }, mode: DragMode, deltaDays: number) => {
+  if (mode === 'move') {
+    return { start: addDays(range.start, deltaDays), end: addDays(range.end, deltaDays) };
+  }
+  if (mode === 'resize-start') {
+    const start = addDays(range.start, deltaDays);
+    return { start: start > range.end ? range.end : start, end: range.end };
+  }
+  const end = addDays(range.end, deltaDays);
+  return { start: range.start, end: end < range.start ? range.start : end };
+};
+
+export function Timeline() {
+  const navigate = useNavigate();
+  const { notes, fetchNotes, updateNote } = useNotesStore();
+  const { sprints, fetchSprints } = useSprintStore();
+  const { members, fetchMembers } = useTeamStore();
+
+  const [groupBy, setGroupBy] = useState<GroupBy>('sprint');
+  const [dayWidth, setDayWidth] = useState(36);
+  const [rangeStart, setRangeStart] = useState(() => startOfWeek(addDays(new Date(), -7), { weekStartsOn: 1 }));
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    fetchNotes();
+    fetchSprints();
+    fetchMembers();
+  }, [fetchNotes, fetchSprints, fetchMembers]);
+
+  const days = useMemo(
+    () => Array.from({ length: VISIBLE_DAYS }, (_, i) => addDays(rangeStart, i)),
+    [rangeStart]
+  );
+  const rangeEnd = days[days.length - 1];
+
+  const scheduledNotes = useMemo(() => notes.filter((n) => n.start_date || n.due_date), [notes]);
+  const unscheduledCount = notes.length - scheduledNotes.length;
+
+  const groups = useMemo<TimelineGroup[]>(() => {
+    const byStart = (a: Note, b: Note) => getNoteRange(a).start.getTime() - getNoteRange(b).start.getTime();
+
+    if (groupBy === 'sprint') {
+      const sprintGroups = [...sprints]
+        .sort((a, b) => toDay(a.start_date).getTime() - toDay(b.start_date).getTime())
+        .map((sprint) => ({
+          id: sprint.id,
+          label: sprint.name,
+          notes: scheduledNotes.filter((n) => n.sprint_id === sprint.id).sort(byStart),
+        }));
+      return [
+        ...sprintGroups,
+        {
+          id: 'backlog',
+          label: 'Backlog (sin sprint)',
+          notes: scheduledNotes.filter((n) => !n.sprint_id || !sprints.some((s) => s.id === n.sprint_id)).sort(byStart),
+        },
+      ].filter((g) => g.notes.length > 0);
+    }
+
+    const memberGroups = members.map((member) => ({
+      id: member.id,
+      label: member.full_name || member.email,
+      notes: scheduledNotes.filter((n) => n.assigned_to === member.id).sort(byStart),
+    }));
+    return [
+      ...memberGroups,
+      {
+        id: 'unassigned',
+        label: 'Sin asignar',
+        notes: scheduledNotes.filter((n) => !n.assigned_to || !members.some((m) => m.id === n.assigned_to)).sort(byStart),
+      },
+    ].filter((g) => g.notes.length > 0);
+  }, [groupBy, scheduledNotes, sprints, members]);
+
+  // Seguir el puntero mientras se arrastra una barra
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+    };
+
+    const handleUp = async () => {
+      const { note, mode, deltaDays } = drag;
+      setDrag(null);
+
+      // Sin desplazamiento es un clic: abrir la nota
+      if (deltaDays === 0) {
+        if (mode === 'move') navigate(`/notes/${note.id}`);
+        return;
+      }
+
+      const { start, end } = applyDrag(getNoteRange(note), mode, deltaDays);
+      const updates: Partial<Note> = {};
+      // Al mover solo se tocan las fechas que la nota ya tenía
+      if (mode !== 'resize-end' && (note.start_date || mode === 'resize-start')) {
+        updates.start_date = format(start, 'yyyy-MM-dd');
+      }
+      if (mode !== 'resize-start' && (note.due_date || mode === 'resize-end')) {
+        updates.due_date = format(end, 'yyyy-MM-dd');
+      }
+      await updateNote(note.id, updates);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, dayWidth, navigate, updateNote]);
+
+  const startDrag = (e: React.PointerEvent, note: Note, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ note, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const offsetOf = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+  const trackWidth = VISIBLE_DAYS * dayWidth;
+
+  // Sprints que se cruzan con el rango visible
+  const visibleSprints = sprints.filter(
+    (s) => toDay(s.end_date) >= rangeStart && toDay(s.start_date) <= rangeEnd
+  );
+
+  const renderBar = (note: Note) => {
+    const range = getNoteRange(note);
+    const { start, end } = drag?.note.id === note.id ? applyDrag(range, drag.mode, drag.deltaDays) : range;
+    if (end < rangeStart || start > rangeEnd) return null;
+
+    const left = offsetOf(start);
+    const width = (differenceInCalendarDays(end, start) + 1) * dayWidth;
+    const isDragging = drag?.note.id === note.id;
+
+    return (
+      <div
+        onPointerDown={(e) => startDrag(e, note, 'move')}
+        className={`absolute top-1.5 h-7 rounded-md border text-xs text-white flex items-center select-none group ${
+          statusBarColors[note.status]
+        } ${isDragging ? 'ring-2 ring-white/60 cursor-grabbing z-10' : 'cursor-grab'}`}
+        style={{ left, width: Math.max(width, dayWidth) }}
+        title={`${note.title}\n${format(start, 'd MMM', { locale: es })} – ${format(end, 'd MMM yyyy', { locale: es })}`}
+      >
+        <div
+          onPointerDown={(e) => startDrag(e, note, 'resize-start')}
+          className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-l-md opacity-0 group-hover:opacity-100 bg-white/30"
+        />
+        <span className="px-2 truncate">{note.title}</span>
+        <div
+          onPointerDown={(e) => startDrag(e, note, 'resize-end')}
+          className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-r-md opacity-0 group-hover:opacity-100 bg-white/30"
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-[#11111b]">
+      {/* Header */}
+      <div className="p-6 border-b border-gray-700">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <GanttChart size={28} />
+              Línea de Tiempo
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Arrastra una barra para reprogramarla o sus extremos para cambiar la duración
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {/* Agrupar */}
+            <div className="flex bg-[#181825] border border-gray-700 rounded-lg p-1">
+              <button
+                onClick={() => setGroupBy('sprint')}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-sm transition-colors ${
+                  groupBy === 'sprint' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                <Target size={14} />
+                Sprint
+              </button>
+              <button
+                onClick={() => setGroupBy('assignee')}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-sm transition-colors ${
+                  groupBy === 'assignee' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                <Users size={14} />
+                Responsable
+              </button>
+            </div>
+
+            {/* Zoom */}
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setDayWidth(Math.max(20, dayWidth - 8))}
+                className="p-2 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white transition-colors"
+                title="Alejar"
+              >
+                <ZoomOut size={18} />
+              </button>
+              <button
+                onClick={() => setDayWidth(Math.min(68, dayWidth + 8))}
+                className="p-2 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white transition-colors"
+                title="Acercar"
+              >
+                <ZoomIn size={18} />
+              </button>
+            </div>
+
+            {/* Navegación */}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setRangeStart(addDays(rangeStart, -14))}
+                className="p-2 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white transition-colors"
+              >
+                <ChevronLeft size={20} />
+              </button>
+              <button
+                onClick={() => setRangeStart(startOfWeek(addDays(new Date(), -7), { weekStartsOn: 1 }))}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors"
+              >
+                Hoy
+              </button>
+              <button
+                onClick={() => setRangeStart(addDays(rangeStart, 14))}
+                className="p-2 hover:bg-[#1e1e2e] rounded-lg text-gray-400 hover:text-white transition-colors"
+              >
+                <ChevronRight size={20} />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Gantt */}
+      <div className="flex-1 overflow-auto">
+        <div className="relative" style={{ width: LABEL_WIDTH + trackWidth }}>
+          {/* Cabecera de días + sprints */}
+          <div className="sticky top-0 z-20 flex bg-[#181825] border-b border-gray-700">
+            <div
+              className="sticky left-0 z-30 flex-shrink-0 bg-[#181825] border-r border-gray-700 px-4 flex items-end pb-2 text-sm text-gray-400"
+              style={{ width: LABEL_WIDTH }}
+            >
+              {format(rangeStart, "d MMM", { locale: es })} – {format(rangeEnd, "d MMM yyyy", { locale: es })}
+            </div>
+            <div className="relative" style={{ width: trackWidth }}>
+              <div className="relative h-7 border-b border-gray-700/50">
+                {visibleSprints.map((sprint) => {
+                  const start = toDay(sprint.start_date) < rangeStart ? rangeStart : toDay(sprint.start_date);
+                  const end = toDay(sprint.end_date) > rangeEnd ? rangeEnd : toDay(sprint.end_date);
+                  return (
+                    <div
+                      key={sprint.id}
+                      className={`absolute top-1 h-5 px-2 rounded border text-xs truncate ${sprintColors[sprint.status]}`}
+                      style={{ left: offsetOf(start), width: (differenceInCalendarDays(end, start) + 1) * dayWidth }}
+                      title={`${sprint.name}: ${format(toDay(sprint.start_date), 'd MMM', { locale: es })} – ${format(toDay(sprint.end_date), 'd MMM', { locale: es })}`}
+                    >
+                      {sprint.name}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex">
+                {days.map((day) => (
+                  <div
+                    key={day.toISOString()}
+                    className={`flex-shrink-0 text-center py-1 text-xs border-r border-gray-700/30 ${
+                      isToday(day) ? 'text-blue-400 font-semibold' : isWeekend(day) ? 'text-gray-600' : 'text-gray-400'
+                    }`}
+                    style={{ width: dayWidth }}
+                  >
+                    <div>{format(day, 'EEEEE', { locale: es })}</div>
+                    <div>{format(day, 'd')}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Fondo: fines de semana, hoy y límites de sprint */}
+          <div className="absolute bottom-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: trackWidth, top: 0 }}>
+            {days.map((day) =>
+              isWeekend(day) ? (
+                <div
+                  key={day.toISOString()}
+                  className="absolute top-0 bottom-0 bg-white/[0.02]"
+                  style={{ left: offsetOf(day), width: dayWidth }}
+                />
+              ) : null
+            )}
+            {visibleSprints.flatMap((sprint) => [
+              { key: `${sprint.id}-start`, date: toDay(sprint.start_date) },
+              { key: `${sprint.id}-end`, date: addDays(toDay(sprint.end_date), 1) },
+            ])
+              .filter(({ date }) => date >= rangeStart && date <= addDays(rangeEnd, 1))
+              .map(({ key, date }) => (
+                <div
+                  key={key}
+                  className="absolute top-0 bottom-0 border-l border-dashed border-purple-500/40"
+                  style={{ left: offsetOf(date) }}
+                />
+              ))}
+            {days.some((day) => isSameDay(day, new Date())) && (
+              <div
+                className="absolute top-0 bottom-0 w-px bg-blue-500"
+                style={{ left: offsetOf(startOfDay(new Date())) + dayWidth / 2 }}
+              />
+            )}
+          </div>
+
+          {/* Filas */}
+          {groups.length === 0 ? (
+            <div className="sticky left-0 text-center py-16 text-gray-500" style={{ width: `min(100%, ${LABEL_WIDTH + trackWidth}px)` }}>
+              <GanttChart size={48} className="mx-auto mb-3 opacity-30" />
+              <p>No hay tareas con fecha de inicio o vencimiento</p>
+            </div>
+          ) : (
+            groups.map((group) => (
+              <div key={group.id}>
+                <div className="flex bg-[#1e1e2e]/60 border-b border-gray-700">
+                  <div
+                    className="sticky left-0 z-10 flex-shrink-0 bg-[#1e1e2e] border-r border-gray-700 px-4 py-2 text-sm font-semibold text-white"
+                    style={{ width: LABEL_WIDTH }}
+                  >
+                    {group.label}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{group.notes.length}</span>
+                  </div>
+                  <div style={{ width: trackWidth }} />
+                </div>
+                {group.notes.map((note) => (
+                  <div key={note.id} className="flex border-b border-gray-700/40 hover:bg-white/[0.02]">
+                    <div
+                      onClick={() => navigate(`/notes/${note.id}`)}
+                      className="sticky left-0 z-10 flex-shrink-0 bg-[#11111b] border-r border-gray-700 px-4 flex items-center text-sm text-gray-300 hover:text-white cursor-pointer truncate"
+                      style={{ width: LABEL_WIDTH, height: ROW_HEIGHT }}
+                    >
+                      <span className="truncate">{note.title}</span>
+                    </div>
+                    <div className="relative" style={{ width: trackWidth, height: ROW_HEIGHT }}>
+                      {renderBar(note)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {unscheduledCount > 0 && (
+        <div className="px-6 py-2 border-t border-gray-700 text-xs text-gray-500">
+          {unscheduledCount} {unscheduledCount === 1 ? 'nota sin fechas no aparece' : 'notas sin fechas no aparecen'} en la línea de tiempo
+        </div>
+      )}
+    </div>
+  );
+}
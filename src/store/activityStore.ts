@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { supabase, isSupabaseConfigured, Activity, ActivityEntityType } from '../lib/supabase';
+
+export interface ActivityFilter {
+  entityType?: ActivityEntityType | null;
+  entityId?: string | null;
+  userId?: string | null;
+  action?: Activity['action'] | null;
+}
+
+interface ActivityState {
+  activities: Activity[];
+  isLoading: boolean;
+
+  fetchActivities: (filter?: ActivityFilter, limit?: number) => Promise<void>;
+  clearActivities: () => void;
+}
+
+export const useActivityStore = create<ActivityState>((set) => ({
+  activities: [],
+  isLoading: false,
+
+  fetchActivities: async (filter = {}, limit = 50) => {
+    if (!isSupabaseConfigured || !supabase) {
+      // En modo demo no se registra historial
+      set({ activities: [], isLoading: false });
+      return;
+    }
+
+    set({ isLoading: true });
+    try {
+      let query = supabase
+        .from('activities')
+        .select(`
+          *,
+          user:profiles!activities_user_id_fkey(full_name, avatar_url)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (filter.entityType) query = query.eq('entity_type', filter.entityType);
+      if (filter.entityId) query = query.eq('entity_id', filter.entityId);
+      if (filter.userId) query = query.eq('user_id', filter.userId);
+      if (filter.action) query = query.eq('action', filter.action);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      set({ activities: data || [], isLoading: false });
+    } catch (error) {
+      console.error('Error fetching activities:', error);
+      set({ isLoading: false });
+    }
+  },
+
+  clearActivities: () => set({ activities: [] }),
+}));
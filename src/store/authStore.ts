@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { supabase, isSupabaseConfigured, User } from '../lib/supabase';
+import { hasPermission, Permission } from '../lib/permissions';
 
 interface AuthState {
   user: User | null;
@@ -17,6 +18,7 @@ interface AuthState {
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
   loginDemo: () => void;
+  can: (permission: Permission) => boolean;
 }
 
 // Usuario demo para probar sin Supabase
@@ -30,7 +32,7 @@ const demoUser: User = {
 
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       user: null,
       session: null,
       isLoading: false,
@@ -143,6 +145,8 @@ export const useAuthStore = create<AuthState>()(
         set({ user: null, session: null, isAuthenticated: false });
       },
 
+      can: (permission) => hasPermission(get().user, permission),
+
       checkAuth: async () => {
         if (!isSupabaseConfigured || !supabase) {
           set({ isLoading: false });
@@ -0,0 +1,151 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { format } from 'date-fns';
+import { supabase, isSupabaseConfigured, Expense, ExpenseBudget, ExchangeRate } from '../lib/supabase';
+import { convertAmount } from '../lib/currency';
+import { useAuthStore } from './authStore';
+import { permissionError } from '../lib/permissions';
+
+interface BudgetsState {
+  budgets: ExpenseBudget[];
+  isLoading: boolean;
+
+  fetchBudgets: () => Promise<void>;
+  saveBudget: (categoryId: string, amount: number, currency: string) => Promise<{ error: string | null }>;
+  deleteBudget: (id: string) => Promise<{ error: string | null }>;
+}
+
+// Generar ID único para modo demo
+const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Avisos al llegar al 80% y al 100% del presupuesto
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetUsage {
+  budget: ExpenseBudget;
+  spent: number;
+  ratio: number;
+  level: BudgetLevel;
+}
+
+// Gasto de una categoría en el mes (en la moneda del presupuesto). Los
+// rechazados no cuentan y los que no tienen tasa de cambio se omiten.
+export function getBudgetUsage(
+  budget: ExpenseBudget,
+  expenses: Expense[],
+  rates: ExchangeRate[],
+  month: Date,
+): BudgetUsage {
+  const monthKey = format(month, 'yyyy-MM');
+  const spent = expenses
+    .filter(e =>
+      e.category_id === budget.category_id &&
+      e.status !== 'rejected' &&
+      e.expense_date.startsWith(monthKey)
+    )
+    .reduce((sum, e) => sum + (convertAmount(rates, e.amount, e.currency, budget.currency, e.expense_date) ?? 0), 0);
+
+  const ratio = budget.amount > 0 ? spent / budget.amount : 0;
+  const level: BudgetLevel = ratio >= 1 ? 'exceeded' : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok';
+  return { budget, spent, ratio, level };
+}
+
+export const useBudgetsStore = create<BudgetsState>()(
+  persist(
+    (set, get) => ({
+      budgets: [],
+      isLoading: false,
+
+      fetchBudgets: async () => {
+        if (!isSupabaseConfigured || !supabase) {
+          // En modo demo se usan los guardados localmente
+          set({ isLoading: false });
+          return;
+        }
+
+        set({ isLoading: true });
+        try {
+          const { data, error } = await supabase
+            .from('expense_budgets')
+            .select('*');
+
+          if (error) throw error;
+          set({ budgets: data || [], isLoading: false });
+        } catch (error) {
+          console.error('Error fetching budgets:', error);
+          set({ isLoading: false });
+        }
+      },
+
+      // Un presupuesto por categoría: si ya existe se reemplaza
+      saveBudget: async (categoryId, amount, currency) => {
+        if (!useAuthStore.getState().can('approve_expenses')) {
+          return { error: permissionError('approve_expenses') };
+        }
+        if (!(amount > 0)) {
+          return { error: 'El presupuesto debe ser mayor que cero' };
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          const existing = get().budgets.find(b => b.category_id === categoryId);
+          const now = new Date().toISOString();
+          const saved: ExpenseBudget = existing
+            ? { ...existing, amount, currency, updated_at: now }
+            : { id: generateId(), category_id: categoryId, amount, currency, created_at: now, updated_at: now };
+          set((state) => ({
+            budgets: [...state.budgets.filter(b => b.id !== saved.id), saved],
+          }));
+          return { error: null };
+        }
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          const { data, error } = await supabase
+            .from('expense_budgets')
+            .upsert(
+              [{ category_id: categoryId, amount, currency, created_by: user?.id, updated_at: new Date().toISOString() }],
+              { onConflict: 'category_id' }
+            )
+            .select()
+            .single();
+
+          if (error) return { error: error.message };
+
+          set((state) => ({
+            budgets: [...state.budgets.filter(b => b.category_id !== categoryId), data],
+          }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      deleteBudget: async (id) => {
+        if (!useAuthStore.getState().can('approve_expenses')) {
+          return { error: permissionError('approve_expenses') };
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          set((state) => ({ budgets: state.budgets.filter(b => b.id !== id) }));
+          return { error: null };
+        }
+
+        try {
+          const { error } = await supabase.from('expense_budgets').delete().eq('id', id);
+          if (error) return { error: error.message };
+
+          set((state) => ({ budgets: state.budgets.filter(b => b.id !== id) }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+    }),
+    {
+      name: 'budgets-storage',
+      partialize: (state) => ({ budgets: state.budgets }),
+    }
+  )
+);
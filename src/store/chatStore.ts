@@ -1,5 +1,17 @@
 import { create } from 'zustand';
-import { supabase, isSupabaseConfigured, ChatChannel, ChatMessage } from '../lib/supabase';
+import {
+  supabase,
+  isSupabaseConfigured,
+  ChatChannel,
+  ChatChannelMember,
+  ChatChannelRead,
+  ChatMessage,
+  User,
+  createNotification,
+} from '../lib/supabase';
+import { useAuthStore } from './authStore';
+import { useTeamStore } from './teamStore';
+import { permissionError } from '../lib/permissions';
 
 interface ChatState {
   channels: ChatChannel[];
@@ -7,28 +19,197 @@ interface ChatState {
   currentChannel: ChatChannel | null;
   isLoading: boolean;
   isLoadingMessages: boolean;
+  isLoadingMore: boolean;
+  hasOlderMessages: boolean;
+  hasNewerMessages: boolean;
+  highlightedMessageId: string | null;
+  searchResults: ChatMessage[];
+  isSearching: boolean;
+  threadParent: ChatMessage | null;
+  threadMessages: ChatMessage[];
+  isLoadingThread: boolean;
+  unreadCounts: Record<string, number>;
+  mentionCounts: Record<string, number>;
+  lastReadAt: Record<string, string>;
+  channelReads: ChatChannelRead[];
+  viewingChannelId: string | null;
   
   fetchChannels: () => Promise<void>;
   fetchMessages: (channelId: string) => Promise<void>;
-  sendMessage: (channelId: string, content: string, messageType?: 'text' | 'code', codeLanguage?: string) => Promise<{ error: string | null }>;
+  loadOlderMessages: () => Promise<void>;
+  loadNewerMessages: () => Promise<void>;
+  searchMessages: (channelId: string, query: string) => Promise<{ error: string | null }>;
+  clearSearch: () => void;
+  jumpToMessage: (message: ChatMessage) => Promise<void>;
+  clearHighlight: () => void;
+  sendMessage: (channelId: string, content: string, messageType?: 'text' | 'code', codeLanguage?: string, replyTo?: string) => Promise<{ error: string | null }>;
+  sendFile: (channelId: string, file: File, replyTo?: string) => Promise<{ error: string | null }>;
+  getFileUrl: (path: string) => Promise<string | null>;
   editMessage: (messageId: string, content: string) => Promise<{ error: string | null }>;
   deleteMessage: (messageId: string) => Promise<{ error: string | null }>;
-  createChannel: (name: string, description?: string, type?: 'public' | 'private') => Promise<{ error: string | null }>;
+  createChannel: (name: string, description?: string, type?: 'public' | 'private', memberIds?: string[]) => Promise<{ error: string | null }>;
+  openDirectMessage: (member: User) => Promise<{ error: string | null }>;
+  addChannelMember: (channelId: string, member: User) => Promise<{ error: string | null }>;
+  removeChannelMember: (channelId: string, userId: string) => Promise<{ error: string | null }>;
   setCurrentChannel: (channel: ChatChannel | null) => void;
   subscribeToMessages: (channelId: string) => () => void;
   addMessage: (message: ChatMessage) => void;
+  removeMessage: (message: Pick<ChatMessage, 'id' | 'reply_to'>) => void;
+  openThread: (message: ChatMessage) => Promise<void>;
+  closeThread: () => void;
+  fetchUnreadCounts: () => Promise<void>;
+  markChannelRead: (channelId: string) => Promise<void>;
+  setViewingChannel: (channelId: string | null) => void;
+  subscribeToUnread: () => () => void;
 }
 
+const CHANNEL_SELECT = `
+  *,
+  members:chat_channel_members(
+    id, channel_id, user_id, joined_at,
+    user:profiles!chat_channel_members_user_id_fkey(id, full_name, email, avatar_url)
+  )
+`;
+
+// Nombre único del canal directo entre dos usuarios (índice único en SQL)
+const directChannelName = (a: string, b: string) => `dm:${[a, b].sort().join(':')}`;
+
+// En los mensajes directos se muestra el nombre del otro participante
+export const getChannelDisplayName = (channel: ChatChannel, currentUserId?: string) => {
+  if (channel.type !== 'direct') return channel.name;
+  const other = channel.members?.find(m => m.user_id !== currentUserId);
+  return other?.user?.full_name || 'Mensaje directo';
+};
+
+const isChannelMember = (channel: ChatChannel, userId?: string) =>
+  !!userId && !!channel.members?.some(m => m.user_id === userId);
+
+const memberFromUser = (channelId: string, user: Pick<User, 'id' | 'full_name' | 'email' | 'avatar_url'>): ChatChannelMember => ({
+  id: `demo-member-${channelId}-${user.id}`,
+  channel_id: channelId,
+  user_id: user.id,
+  joined_at: new Date().toISOString(),
+  user: { id: user.id, full_name: user.full_name, email: user.email, avatar_url: user.avatar_url },
+});
+
+// Las menciones usan la parte local del email: @carlos
+export const getMentionHandle = (user: Pick<User, 'email'>) => user.email.split('@')[0].toLowerCase();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const mentionsUser = (content: string, user: Pick<User, 'email'>) =>
+  new RegExp(`(^|\\s)@${escapeRegExp(getMentionHandle(user))}\\b`, 'i').test(content);
+
+// Avisa a los mencionados que pueden ver el canal (en privados, solo miembros)
+const notifyMentions = async (channelId: string, content: string, authorId: string) => {
+  const channel = useChatStore.getState().channels.find(c => c.id === channelId);
+  if (!channel) return;
+  const mentioned = useTeamStore.getState().members.filter(member =>
+    member.id !== authorId &&
+    mentionsUser(content, member) &&
+    (channel.type === 'public' || isChannelMember(channel, member.id))
+  );
+  if (mentioned.length === 0) return;
+
+  const author = useAuthStore.getState().user;
+  const where = channel.type === 'direct' ? 'un mensaje directo' : `#${channel.name}`;
+  const preview = content.length > 120 ? `${content.slice(0, 120)}…` : content;
+  await Promise.all(mentioned.map(member =>
+    createNotification({
+      userId: member.id,
+      type: 'mention',
+      title: `${author?.full_name || 'Alguien'} te mencionó en ${where}`,
+      message: preview,
+      channelId,
+      fromUserId: authorId,
+    })
+  ));
+};
+
+const MESSAGE_SELECT = `
+  *,
+  user:profiles!chat_messages_user_id_fkey(id, full_name, email, avatar_url)
+`;
+
+// Mensajes raíz con el número de respuestas de su hilo
+const ROOT_MESSAGE_SELECT = `
+  *,
+  user:profiles!chat_messages_user_id_fkey(id, full_name, email, avatar_url),
+  replies:chat_messages!chat_messages_reply_to_fkey(count)
+`;
+
+const CHAT_FILES_BUCKET = 'chat-files';
+const CHAT_FILE_URL_TTL = 60 * 60;
+export const CHAT_FILE_MAX_SIZE = 25 * 1024 * 1024;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const withReplyCount = ({ replies, ...message }: ChatMessage & { replies?: { count: number }[] }): ChatMessage => ({
+  ...message,
+  reply_count: replies?.[0]?.count ?? 0,
+});
+
+const MESSAGES_PAGE_SIZE = 50;
+
+// Página de mensajes raíz con cursor (created_at, id): los anteriores o los
+// posteriores a `cursor`, siempre devueltos en orden cronológico
+const fetchRootPage = async (
+  client: NonNullable<typeof supabase>,
+  channelId: string,
+  cursor?: { message: ChatMessage; direction: 'older' | 'newer' },
+) => {
+  const newer = cursor?.direction === 'newer';
+  let query = client
+    .from('chat_messages')
+    .select(ROOT_MESSAGE_SELECT)
+    .eq('channel_id', channelId)
+    .is('reply_to', null);
+
+  if (cursor) {
+    const { created_at, id } = cursor.message;
+    const op = newer ? 'gt' : 'lt';
+    query = query.or(`created_at.${op}."${created_at}",and(created_at.eq."${created_at}",id.${op}.${id})`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: newer })
+    .order('id', { ascending: newer })
+    .limit(MESSAGES_PAGE_SIZE);
+
+  if (error) throw error;
+  const page = (data || []).map(withReplyCount);
+  return { messages: newer ? page : page.reverse(), hasMore: page.length === MESSAGES_PAGE_SIZE };
+};
+
 export const useChatStore = create<ChatState>((set, get) => ({
   channels: [],
   messages: [],
   currentChannel: null,
   isLoading: false,
   isLoadingMessages: false,
+  isLoadingMore: false,
+  hasOlderMessages: false,
+  hasNewerMessages: false,
+  highlightedMessageId: null,
+  searchResults: [],
+  isSearching: false,
+  threadParent: null,
+  threadMessages: [],
+  isLoadingThread: false,
+  unreadCounts: {},
+  mentionCounts: {},
+  lastReadAt: {},
+  channelReads: [],
+  viewingChannelId: null,
 
   fetchChannels: async () => {
     if (!isSupabaseConfigured || !supabase) {
-      // Demo mode
+      // Demo mode (se conservan los canales y mensajes directos creados en la sesión)
+      if (get().channels.length > 0) return;
       set({
         channels: [
           { id: 'demo-1', name: 'general', description: 'Canal general para todo el equipo', type: 'public', created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
@@ -44,16 +225,19 @@ export const useChatStore = create<ChatState>((set, get) => ({
     try {
       const { data, error } = await supabase
         .from('chat_channels')
-        .select('*')
+        .select(CHANNEL_SELECT)
         .order('created_at', { ascending: true });
 
       if (error) throw error;
       
-      const channels = data || [];
+      // RLS ya oculta los canales ajenos; se filtra también aquí por si acaso
+      const userId = useAuthStore.getState().user?.id;
+      const channels = (data || []).filter((c: ChatChannel) => c.type === 'public' || isChannelMember(c, userId));
+      const current = get().currentChannel;
       set({ 
         channels, 
         isLoading: false,
-        currentChannel: get().currentChannel || channels[0] || null,
+        currentChannel: channels.find(c => c.id === current?.id) || channels.find(c => c.type === 'public') || channels[0] || null,
       });
     } catch (error) {
       console.error('Error fetching channels:', error);
@@ -73,36 +257,194 @@ export const useChatStore = create<ChatState>((set, get) => ({
             content: '¡Bienvenidos al chat del equipo! 🎉', 
             message_type: 'text',
             created_at: new Date(Date.now() - 3600000).toISOString(),
+            reply_count: 0,
             user: { id: 'demo-user', full_name: 'Sistema', email: 'system@kor4soft.com' }
           },
         ],
+        hasOlderMessages: false,
+        hasNewerMessages: false,
         isLoadingMessages: false,
       });
       return;
     }
 
     set({ isLoadingMessages: true });
+    try {
+      // Última página; las respuestas se cargan aparte, al abrir su hilo
+      const page = await fetchRootPage(supabase, channelId);
+      if (get().currentChannel?.id !== channelId) return;
+      set({
+        messages: page.messages,
+        hasOlderMessages: page.hasMore,
+        hasNewerMessages: false,
+        isLoadingMessages: false,
+      });
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      set({ isLoadingMessages: false });
+    }
+  },
+
+  // Scroll infinito hacia atrás
+  loadOlderMessages: async () => {
+    const { currentChannel, messages, hasOlderMessages, isLoadingMore } = get();
+    if (!currentChannel || !hasOlderMessages || isLoadingMore || messages.length === 0) return;
+    if (!isSupabaseConfigured || !supabase) {
+      set({ hasOlderMessages: false });
+      return;
+    }
+
+    set({ isLoadingMore: true });
+    try {
+      const page = await fetchRootPage(supabase, currentChannel.id, { message: messages[0], direction: 'older' });
+      if (get().currentChannel?.id !== currentChannel.id) return;
+      set((state) => ({
+        messages: [...page.messages, ...state.messages],
+        hasOlderMessages: page.hasMore,
+        isLoadingMore: false,
+      }));
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+      set({ isLoadingMore: false });
+    }
+  },
+
+  // Tras saltar a un resultado de búsqueda, la lista no llega al final
+  loadNewerMessages: async () => {
+    const { currentChannel, messages, hasNewerMessages, isLoadingMore } = get();
+    if (!currentChannel || !hasNewerMessages || isLoadingMore || messages.length === 0) return;
+    if (!isSupabaseConfigured || !supabase) {
+      set({ hasNewerMessages: false });
+      return;
+    }
+
+    set({ isLoadingMore: true });
+    try {
+      const page = await fetchRootPage(supabase, currentChannel.id, {
+        message: messages[messages.length - 1],
+        direction: 'newer',
+      });
+      if (get().currentChannel?.id !== currentChannel.id) return;
+      set((state) => ({
+        messages: [...state.messages, ...page.messages],
+        hasNewerMessages: page.hasMore,
+        isLoadingMore: false,
+      }));
+    } catch (error) {
+      console.error('Error fetching newer messages:', error);
+      set({ isLoadingMore: false });
+    }
+  },
+
+  // Búsqueda de texto completo en el historial del canal (respuestas incluidas)
+  searchMessages: async (channelId, query) => {
+    const term = query.trim();
+    if (!term) {
+      set({ searchResults: [] });
+      return { error: null };
+    }
+
+    if (!isSupabaseConfigured || !supabase) {
+      const needle = term.toLowerCase();
+      const { messages, threadMessages } = get();
+      set({
+        searchResults: [...messages, ...threadMessages]
+          .filter(m => m.channel_id === channelId && m.content.toLowerCase().includes(needle))
+          .reverse(),
+      });
+      return { error: null };
+    }
+
+    set({ isSearching: true });
     try {
       const { data, error } = await supabase
         .from('chat_messages')
-        .select(`
-          *,
-          user:profiles!chat_messages_user_id_fkey(id, full_name, email, avatar_url)
-        `)
+        .select(ROOT_MESSAGE_SELECT)
         .eq('channel_id', channelId)
-        .order('created_at', { ascending: true })
-        .limit(100);
+        .textSearch('search_vector', term, { type: 'websearch', config: 'spanish' })
+        .order('created_at', { ascending: false })
+        .limit(50);
 
-      if (error) throw error;
-      set({ messages: data || [], isLoadingMessages: false });
+      if (error) {
+        set({ isSearching: false });
+        return { error: error.message };
+      }
+      set({ searchResults: (data || []).map(withReplyCount), isSearching: false });
+      return { error: null };
+    } catch (err: any) {
+      set({ isSearching: false });
+      return { error: err.message };
+    }
+  },
+
+  clearSearch: () => {
+    set({ searchResults: [], isSearching: false });
+  },
+
+  // Muestra el mensaje en su contexto: las respuestas en su hilo; los
+  // mensajes raíz con una página antes y otra después
+  jumpToMessage: async (message) => {
+    if (message.reply_to) {
+      let parent = get().messages.find(m => m.id === message.reply_to);
+      if (!parent && isSupabaseConfigured && supabase) {
+        const { data } = await supabase
+          .from('chat_messages')
+          .select(ROOT_MESSAGE_SELECT)
+          .eq('id', message.reply_to)
+          .single();
+        if (data) parent = withReplyCount(data);
+      }
+      if (!parent) return;
+      set({ highlightedMessageId: message.id });
+      await get().openThread(parent);
+      return;
+    }
+
+    if (get().messages.some(m => m.id === message.id) || !isSupabaseConfigured || !supabase) {
+      set({ highlightedMessageId: message.id });
+      return;
+    }
+
+    set({ isLoadingMessages: true });
+    try {
+      const [before, after] = await Promise.all([
+        fetchRootPage(supabase, message.channel_id, { message, direction: 'older' }),
+        fetchRootPage(supabase, message.channel_id, { message, direction: 'newer' }),
+      ]);
+      set({
+        messages: [...before.messages, message, ...after.messages],
+        hasOlderMessages: before.hasMore,
+        hasNewerMessages: after.hasMore,
+        highlightedMessageId: message.id,
+        isLoadingMessages: false,
+      });
     } catch (error) {
-      console.error('Error fetching messages:', error);
+      console.error('Error jumping to message:', error);
       set({ isLoadingMessages: false });
     }
   },
 
-  sendMessage: async (channelId, content, messageType = 'text', codeLanguage) => {
+  clearHighlight: () => {
+    set({ highlightedMessageId: null });
+  },
+
+  sendMessage: async (channelId, content, messageType = 'text', codeLanguage, replyTo) => {
     if (!isSupabaseConfigured || !supabase) {
+      // En modo demo solo se simulan las respuestas en hilos
+      const { user } = useAuthStore.getState();
+      if (replyTo && user) {
+        get().addMessage({
+          id: `demo-msg-${Date.now()}`,
+          channel_id: channelId,
+          user_id: user.id,
+          content,
+          message_type: messageType,
+          code_language: codeLanguage,
+          reply_to: replyTo,
+          created_at: new Date().toISOString(),
+          user: { id: user.id, full_name: user.full_name, email: user.email, avatar_url: user.avatar_url },
+        });
+      }
       return { error: null };
     }
 
@@ -118,15 +460,92 @@ export const useChatStore = create<ChatState>((set, get) => ({
           content,
           message_type: messageType,
           code_language: codeLanguage || null,
+          reply_to: replyTo || null,
         }]);
 
       if (error) return { error: error.message };
+      if (messageType === 'text') await notifyMentions(channelId, content, user.id);
       return { error: null };
     } catch (err: any) {
       return { error: err.message };
     }
   },
 
+  // Sube el archivo a chat-files/<canal>/<usuario>/ y publica el mensaje.
+  // Las políticas del bucket solo dejan leer a quien puede ver el canal.
+  sendFile: async (channelId, file, replyTo) => {
+    if (file.size > CHAT_FILE_MAX_SIZE) {
+      return { error: `El archivo no debe superar ${formatFileSize(CHAT_FILE_MAX_SIZE)}` };
+    }
+
+    const messageType = file.type.startsWith('image/') ? 'image' : 'file';
+    const fileFields = { file_name: file.name, file_size: file.size, file_type: file.type || undefined };
+
+    if (!isSupabaseConfigured || !supabase) {
+      const { user } = useAuthStore.getState();
+      if (!user) return { error: 'No autenticado' };
+      get().addMessage({
+        id: `demo-msg-${Date.now()}`,
+        channel_id: channelId,
+        user_id: user.id,
+        content: file.name,
+        message_type: messageType,
+        ...fileFields,
+        file_path: URL.createObjectURL(file),
+        reply_to: replyTo,
+        created_at: new Date().toISOString(),
+        user: { id: user.id, full_name: user.full_name, email: user.email, avatar_url: user.avatar_url },
+      });
+      return { error: null };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return { error: 'No autenticado' };
+
+      const safeName = file.name.replace(/[^\w.-]+/g, '_');
+      const path = `${channelId}/${user.id}/${Date.now()}-${safeName}`;
+      const { error: uploadError } = await supabase.storage
+        .from(CHAT_FILES_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined });
+      if (uploadError) return { error: uploadError.message };
+
+      const { error } = await supabase
+        .from('chat_messages')
+        .insert([{
+          channel_id: channelId,
+          user_id: user.id,
+          content: file.name,
+          message_type: messageType,
+          file_path: path,
+          ...fileFields,
+          reply_to: replyTo || null,
+        }]);
+
+      if (error) {
+        await supabase.storage.from(CHAT_FILES_BUCKET).remove([path]);
+        return { error: error.message };
+      }
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  getFileUrl: async (path) => {
+    if (!isSupabaseConfigured || !supabase || /^(blob:|https?:)/.test(path)) return path;
+
+    const { data, error } = await supabase.storage
+      .from(CHAT_FILES_BUCKET)
+      .createSignedUrl(path, CHAT_FILE_URL_TTL);
+
+    if (error) {
+      console.error('Error signing chat file URL:', error);
+      return null;
+    }
+    return data.signedUrl;
+  },
+
   editMessage: async (messageId, content) => {
     if (!isSupabaseConfigured || !supabase) {
       return { error: null };
@@ -140,10 +559,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
       if (error) return { error: error.message };
       
+      const edited_at = new Date().toISOString();
+      const applyEdit = (m: ChatMessage) => m.id === messageId ? { ...m, content, edited_at } : m;
       set((state) => ({
-        messages: state.messages.map(m => 
-          m.id === messageId ? { ...m, content, edited_at: new Date().toISOString() } : m
-        ),
+        messages: state.messages.map(applyEdit),
+        threadMessages: state.threadMessages.map(applyEdit),
+        threadParent: state.threadParent && applyEdit(state.threadParent),
       }));
       return { error: null };
     } catch (err: any) {
@@ -157,64 +578,297 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
 
     try {
-      const { error } = await supabase
+      // Las respuestas se borran en cascada: hay que saber antes qué archivos tenían
+      const { data: replies, error: repliesError } = await supabase
+        .from('chat_messages')
+        .select('file_path')
+        .eq('reply_to', messageId)
+        .not('file_path', 'is', null);
+
+      if (repliesError) return { error: repliesError.message };
+
+      const { data: deleted, error } = await supabase
         .from('chat_messages')
         .delete()
-        .eq('id', messageId);
+        .eq('id', messageId)
+        .select('file_path, reply_to')
+        .maybeSingle();
 
       if (error) return { error: error.message };
-      
-      set((state) => ({
-        messages: state.messages.filter(m => m.id !== messageId),
-      }));
+
+      get().removeMessage({ id: messageId, reply_to: deleted?.reply_to });
+
+      const paths = [deleted?.file_path, ...(replies || []).map(r => r.file_path)].filter(Boolean) as string[];
+      if (paths.length > 0) {
+        const { data: removed, error: storageError } = await supabase.storage.from(CHAT_FILES_BUCKET).remove(paths);
+        if (storageError || (removed?.length ?? 0) < paths.length) {
+          console.error('Error removing chat files:', storageError);
+          return { error: 'El mensaje se eliminó, pero no se pudieron borrar todos sus archivos' };
+        }
+      }
       return { error: null };
     } catch (err: any) {
       return { error: err.message };
     }
   },
 
-  createChannel: async (name, description, type = 'public') => {
+  createChannel: async (name, description, type = 'public', memberIds = []) => {
+    const { user: currentUser, can } = useAuthStore.getState();
+    if (!can('create_channels')) {
+      return { error: permissionError('create_channels') };
+    }
+
     if (!isSupabaseConfigured || !supabase) {
+      const now = new Date().toISOString();
+      const id = `demo-channel-${Date.now()}`;
+      set((state) => ({
+        channels: [...state.channels, {
+          id, name, description, type, created_by: currentUser?.id, created_at: now, updated_at: now,
+          members: type === 'private' && currentUser ? [memberFromUser(id, currentUser)] : [],
+        }],
+      }));
       return { error: null };
     }
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return { error: 'No autenticado' };
       
       const { data, error } = await supabase
         .from('chat_channels')
-        .insert([{ name, description, type, created_by: user?.id }])
+        .insert([{ name, description, type, created_by: user.id }])
         .select()
         .single();
 
       if (error) return { error: error.message };
-      
-      set((state) => ({
-        channels: [...state.channels, data],
-      }));
+
+      // En los canales privados el creador es miembro desde el inicio
+      if (type === 'private') {
+        const userIds = [...new Set([user.id, ...memberIds])];
+        const { error: membersError } = await supabase
+          .from('chat_channel_members')
+          .insert(userIds.map(userId => ({ channel_id: data.id, user_id: userId })));
+        if (membersError) return { error: membersError.message };
+      }
+
+      await get().fetchChannels();
       return { error: null };
     } catch (err: any) {
       return { error: err.message };
     }
   },
 
+  // Abre (o crea) la conversación directa con otro miembro del equipo
+  openDirectMessage: async (member) => {
+    const currentUser = useAuthStore.getState().user;
+    if (!currentUser) return { error: 'No autenticado' };
+    if (member.id === currentUser.id) return { error: 'No puedes enviarte mensajes directos a ti mismo' };
+
+    const name = directChannelName(currentUser.id, member.id);
+    const existing = get().channels.find(c => c.type === 'direct' && c.name === name);
+    if (existing) {
+      get().setCurrentChannel(existing);
+      return { error: null };
+    }
+
+    if (!isSupabaseConfigured || !supabase) {
+      const now = new Date().toISOString();
+      const id = `demo-dm-${member.id}`;
+      const channel: ChatChannel = {
+        id, name, type: 'direct', created_by: currentUser.id, created_at: now, updated_at: now,
+        members: [memberFromUser(id, currentUser), memberFromUser(id, member)],
+      };
+      set((state) => ({ channels: [...state.channels, channel] }));
+      get().setCurrentChannel(channel);
+      return { error: null };
+    }
+
+    try {
+      // Canal y membresías en una transacción (reutiliza el canal si ya existe)
+      const { error } = await supabase.rpc('open_direct_channel', { p_user_id: member.id });
+      if (error) return { error: error.message };
+
+      await get().fetchChannels();
+      const channel = get().channels.find(c => c.type === 'direct' && c.name === name);
+      if (!channel) return { error: 'No se pudo abrir la conversación' };
+      get().setCurrentChannel(channel);
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  addChannelMember: async (channelId, member) => {
+    if (!useAuthStore.getState().can('create_channels')) {
+      return { error: permissionError('create_channels') };
+    }
+    const channel = get().channels.find(c => c.id === channelId);
+    if (channel?.type !== 'private') return { error: 'Solo los canales privados tienen miembros' };
+    if (isChannelMember(channel, member.id)) return { error: null };
+
+    let added = memberFromUser(channelId, member);
+    if (isSupabaseConfigured && supabase) {
+      const { data, error } = await supabase
+        .from('chat_channel_members')
+        .insert([{ channel_id: channelId, user_id: member.id }])
+        .select(`
+          id, channel_id, user_id, joined_at,
+          user:profiles!chat_channel_members_user_id_fkey(id, full_name, email, avatar_url)
+        `)
+        .single();
+      if (error) return { error: error.message };
+      added = data as unknown as ChatChannelMember;
+    }
+
+    const withMember = (c: ChatChannel) =>
+      c.id === channelId ? { ...c, members: [...(c.members || []), added] } : c;
+    set((state) => ({
+      channels: state.channels.map(withMember),
+      currentChannel: state.currentChannel && withMember(state.currentChannel),
+    }));
+    return { error: null };
+  },
+
+  // Quitar a otro requiere permiso; salir de un canal privado, no
+  removeChannelMember: async (channelId, userId) => {
+    const { user, can } = useAuthStore.getState();
+    if (userId !== user?.id && !can('create_channels')) {
+      return { error: permissionError('create_channels') };
+    }
+
+    if (isSupabaseConfigured && supabase) {
+      const { error } = await supabase
+        .from('chat_channel_members')
+        .delete()
+        .eq('channel_id', channelId)
+        .eq('user_id', userId);
+      if (error) return { error: error.message };
+    }
+
+    if (userId === user?.id) {
+      // Al salir, el canal deja de ser visible
+      set((state) => ({ channels: state.channels.filter(c => c.id !== channelId) }));
+      if (get().currentChannel?.id === channelId) {
+        get().setCurrentChannel(get().channels.find(c => c.type === 'public') || null);
+      }
+      return { error: null };
+    }
+
+    const withoutMember = (c: ChatChannel) =>
+      c.id === channelId ? { ...c, members: (c.members || []).filter(m => m.user_id !== userId) } : c;
+    set((state) => ({
+      channels: state.channels.map(withoutMember),
+      currentChannel: state.currentChannel && withoutMember(state.currentChannel),
+    }));
+    return { error: null };
+  },
+
   setCurrentChannel: (channel) => {
-    set({ currentChannel: channel, messages: [] });
+    set({
+      currentChannel: channel,
+      messages: [],
+      threadParent: null,
+      threadMessages: [],
+      channelReads: [],
+      searchResults: [],
+      highlightedMessageId: null,
+    });
     if (channel) {
       get().fetchMessages(channel.id);
+      if (isSupabaseConfigured && supabase) {
+        // Marcas de lectura del resto de miembros (confirmaciones de lectura)
+        supabase
+          .from('chat_channel_reads')
+          .select('*')
+          .eq('channel_id', channel.id)
+          .then(({ data }) => {
+            if (get().currentChannel?.id === channel.id) set({ channelReads: data || [] });
+          });
+      }
     }
   },
 
   addMessage: (message) => {
     set((state) => {
-      // Evitar duplicados
-      if (state.messages.some(m => m.id === message.id)) {
+      if (!message.reply_to) {
+        // Evitar duplicados; si la lista no llega al final (tras saltar a un
+        // resultado de búsqueda) el mensaje se verá al volver a lo reciente
+        if (state.messages.some(m => m.id === message.id) || state.hasNewerMessages) {
+          return state;
+        }
+        return { messages: [...state.messages, { ...message, reply_count: message.reply_count ?? 0 }] };
+      }
+
+      // Respuesta: se suma al contador del padre y, si el hilo está abierto, se muestra
+      if (state.threadMessages.some(m => m.id === message.id)) {
         return state;
       }
-      return { messages: [...state.messages, message] };
+      const bumpCount = (m: ChatMessage) =>
+        m.id === message.reply_to ? { ...m, reply_count: (m.reply_count || 0) + 1 } : m;
+      const isOpenThread = state.threadParent?.id === message.reply_to;
+      return {
+        messages: state.messages.map(bumpCount),
+        threadParent: state.threadParent && bumpCount(state.threadParent),
+        threadMessages: isOpenThread ? [...state.threadMessages, message] : state.threadMessages,
+      };
+    });
+  },
+
+  removeMessage: (deleted) => {
+    set((state) => {
+      if (state.threadParent?.id === deleted.id) {
+        // Al borrar el mensaje raíz se borran sus respuestas (ON DELETE CASCADE)
+        return {
+          messages: state.messages.filter(m => m.id !== deleted.id),
+          threadParent: null,
+          threadMessages: [],
+        };
+      }
+
+      // reply_to lo conoce quien borra; en los eventos de Realtime (solo
+      // traen el id) se busca en el hilo abierto
+      const parentId = deleted.reply_to ?? state.threadMessages.find(m => m.id === deleted.id)?.reply_to;
+      const dropCount = (m: ChatMessage) =>
+        parentId && m.id === parentId
+          ? { ...m, reply_count: Math.max((m.reply_count || 1) - 1, 0) }
+          : m;
+      return {
+        messages: state.messages.filter(m => m.id !== deleted.id).map(dropCount),
+        threadParent: state.threadParent && dropCount(state.threadParent),
+        threadMessages: state.threadMessages.filter(m => m.id !== deleted.id),
+      };
     });
   },
 
+  openThread: async (message) => {
+    set({ threadParent: message, threadMessages: [], isLoadingThread: true });
+
+    if (!isSupabaseConfigured || !supabase) {
+      set({ isLoadingThread: false });
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .select(MESSAGE_SELECT)
+        .eq('reply_to', message.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      // Si el usuario cambió de hilo mientras cargaba, se descarta
+      if (get().threadParent?.id !== message.id) return;
+      set({ threadMessages: data || [], isLoadingThread: false });
+    } catch (error) {
+      console.error('Error fetching thread:', error);
+      set({ isLoadingThread: false });
+    }
+  },
+
+  closeThread: () => {
+    set({ threadParent: null, threadMessages: [] });
+  },
+
   subscribeToMessages: (channelId: string) => {
     if (!isSupabaseConfigured || !supabase) {
       return () => {};
@@ -222,6 +876,27 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
     const supabaseClient = supabase; // TypeScript narrowing
     let isSubscribed = false;
+
+    // Vuelve a contar las respuestas de los mensajes cargados que tienen hilo
+    const refreshReplyCounts = async () => {
+      const parentIds = get().messages.filter(m => (m.reply_count || 0) > 0).map(m => m.id);
+      if (parentIds.length === 0) return;
+      const { data, error } = await supabaseClient
+        .from('chat_messages')
+        .select('id, replies:chat_messages!chat_messages_reply_to_fkey(count)')
+        .in('id', parentIds);
+      if (error) {
+        console.error('Error refreshing reply counts:', error);
+        return;
+      }
+      const counts = new Map<string, number>((data || []).map(m => [m.id, m.replies?.[0]?.count ?? 0]));
+      const applyCount = (m: ChatMessage) => (counts.has(m.id) ? { ...m, reply_count: counts.get(m.id) } : m);
+      set((state) => ({
+        messages: state.messages.map(applyCount),
+        threadParent: state.threadParent && applyCount(state.threadParent),
+      }));
+    };
+
     const channel = supabaseClient
       .channel(`chat-messages-${channelId}`)
       .on(
@@ -236,13 +911,11 @@ export const useChatStore = create<ChatState>((set, get) => ({
           // Obtener el mensaje con datos del usuario
           const { data } = await supabaseClient
             .from('chat_messages')
-            .select(`
-              *,
-              user:profiles!chat_messages_user_id_fkey(id, full_name, email, avatar_url)
-            `)
+            .select(MESSAGE_SELECT)
             .eq('id', payload.new.id)
             .single();
           
+          // Las respuestas actualizan el contador del hilo y el panel abierto
           if (data) {
             get().addMessage(data);
           }
@@ -251,14 +924,144 @@ export const useChatStore = create<ChatState>((set, get) => ({
       .on(
         'postgres_changes',
         {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chat_messages',
+          filter: `channel_id=eq.${channelId}`,
+        },
+        (payload) => {
+          // Ediciones de otros usuarios (se conservan usuario y contador de respuestas)
+          const updated = payload.new as ChatMessage;
+          const applyEdit = (m: ChatMessage) =>
+            m.id === updated.id ? { ...m, content: updated.content, edited_at: updated.edited_at } : m;
+          set((state) => ({
+            messages: state.messages.map(applyEdit),
+            threadMessages: state.threadMessages.map(applyEdit),
+            threadParent: state.threadParent && applyEdit(state.threadParent),
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Realtime no aplica filtros a los DELETE: llegan los de todos los
+          // canales y solo afectan a los mensajes cargados (se buscan por id)
           event: 'DELETE',
           schema: 'public',
           table: 'chat_messages',
+        },
+        (payload) => {
+          const { id } = payload.old as Pick<ChatMessage, 'id'>;
+          const { messages, threadMessages } = get();
+          const reply = threadMessages.find(m => m.id === id);
+          get().removeMessage({ id, reply_to: reply?.reply_to });
+          // Puede ser una respuesta de un hilo cerrado: no se sabe de qué mensaje
+          if (!reply && !messages.some(m => m.id === id)) refreshReplyCounts();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chat_channel_reads',
           filter: `channel_id=eq.${channelId}`,
         },
         (payload) => {
+          const read = payload.new as ChatChannelRead;
+          if (!read?.user_id) return;
+          set((state) => ({
+            channelReads: [...state.channelReads.filter(r => r.user_id !== read.user_id), read],
+          }));
+        }
+      )
+      .subscribe((status) => {
+        isSubscribed = status === 'SUBSCRIBED';
+      });
+
+    return () => {
+      if (isSubscribed) {
+        supabaseClient.removeChannel(channel);
+      }
+    };
+  },
+
+  fetchUnreadCounts: async () => {
+    if (!isSupabaseConfigured || !supabase) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_chat_unread_counts');
+      if (error) throw error;
+
+      const unreadCounts: Record<string, number> = {};
+      const mentionCounts: Record<string, number> = {};
+      const lastReadAt: Record<string, string> = {};
+      (data || []).forEach((row: { channel_id: string; last_read_at: string | null; unread_count: number; mention_count: number }) => {
+        unreadCounts[row.channel_id] = row.unread_count;
+        mentionCounts[row.channel_id] = row.mention_count;
+        if (row.last_read_at) lastReadAt[row.channel_id] = row.last_read_at;
+      });
+      set({ unreadCounts, mentionCounts, lastReadAt });
+    } catch (error) {
+      console.error('Error fetching unread counts:', error);
+    }
+  },
+
+  markChannelRead: async (channelId) => {
+    const last_read_at = new Date().toISOString();
+    set((state) => ({
+      unreadCounts: { ...state.unreadCounts, [channelId]: 0 },
+      mentionCounts: { ...state.mentionCounts, [channelId]: 0 },
+      lastReadAt: { ...state.lastReadAt, [channelId]: last_read_at },
+    }));
+
+    if (!isSupabaseConfigured || !supabase) return;
+    const userId = useAuthStore.getState().user?.id;
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from('chat_channel_reads')
+      .upsert({ channel_id: channelId, user_id: userId, last_read_at }, { onConflict: 'channel_id,user_id' });
+    if (error) console.error('Error marking channel as read:', error);
+  },
+
+  // Canal abierto en pantalla: sus mensajes nuevos se dan por leídos
+  setViewingChannel: (channelId) => {
+    set({ viewingChannelId: channelId });
+  },
+
+  // Suscripción global (desde el Sidebar) a mensajes nuevos de cualquier canal visible
+  subscribeToUnread: () => {
+    if (!isSupabaseConfigured || !supabase) {
+      return () => {};
+    }
+
+    const supabaseClient = supabase;
+    let isSubscribed = false;
+    const channel = supabaseClient
+      .channel('chat-unread')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chat_messages' },
+        (payload) => {
+          const message = payload.new as ChatMessage;
+          const user = useAuthStore.getState().user;
+          if (!user || message.user_id === user.id || message.reply_to) return;
+
+          if (get().viewingChannelId === message.channel_id && document.visibilityState === 'visible') {
+            get().markChannelRead(message.channel_id);
+            return;
+          }
+
+          const mentioned = mentionsUser(message.content, user);
           set((state) => ({
-            messages: state.messages.filter(m => m.id !== payload.old.id),
+            unreadCounts: {
+              ...state.unreadCounts,
+              [message.channel_id]: (state.unreadCounts[message.channel_id] || 0) + 1,
+            },
+            mentionCounts: mentioned
+              ? { ...state.mentionCounts, [message.channel_id]: (state.mentionCounts[message.channel_id] || 0) + 1 }
+              : state.mentionCounts,
           }));
         }
       )
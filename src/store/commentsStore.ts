@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { supabase, isSupabaseConfigured, Comment } from '../lib/supabase';
+import { trackChannelStatus } from './realtimeStore';
 
 interface CommentsState {
   comments: Comment[];
@@ -10,12 +11,13 @@ interface CommentsState {
   updateComment: (commentId: string, content: string) => Promise<{ error: string | null }>;
   deleteComment: (commentId: string) => Promise<{ error: string | null }>;
   clearComments: () => void;
+  subscribeToComments: (noteId: string) => () => void;
 }
 
 // Generar ID único para modo demo
 const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-export const useCommentsStore = create<CommentsState>((set) => ({
+export const useCommentsStore = create<CommentsState>((set, get) => ({
   comments: [],
   isLoading: false,
 
@@ -131,4 +133,84 @@ export const useCommentsStore = create<CommentsState>((set) => ({
   },
 
   clearComments: () => set({ comments: [] }),
+
+  subscribeToComments: (noteId: string) => {
+    if (!isSupabaseConfigured || !supabase) {
+      return () => {};
+    }
+
+    const supabaseClient = supabase; // TypeScript narrowing
+    const tracker = trackChannelStatus(`comments-${noteId}`, () => get().fetchComments(noteId));
+
+    const channel = supabaseClient
+      .channel(`comments-${noteId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'comments',
+          filter: `note_id=eq.${noteId}`,
+        },
+        async (payload) => {
+          if (get().comments.some((c) => c.id === payload.new.id)) return;
+
+          // Obtener el comentario con datos del usuario
+          const { data } = await supabaseClient
+            .from('comments')
+            .select(`
+              *,
+              user:profiles(full_name, email, avatar_url)
+            `)
+            .eq('id', payload.new.id)
+            .single();
+
+          if (data) {
+            set((state) => {
+              if (state.comments.some((c) => c.id === data.id)) return state;
+              return { comments: [...state.comments, data] };
+            });
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'comments',
+          filter: `note_id=eq.${noteId}`,
+        },
+        (payload) => {
+          set((state) => ({
+            comments: state.comments.map((c) =>
+              c.id === payload.new.id
+                ? { ...c, content: payload.new.content, updated_at: payload.new.updated_at }
+                : c
+            ),
+          }));
+        }
+      )
+      // Realtime no aplica filtros a los DELETE: se escuchan todos y solo se
+      // quitan los comentarios que están cargados
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'comments',
+        },
+        (payload) => {
+          set((state) => ({
+            comments: state.comments.filter((c) => c.id !== payload.old.id),
+          }));
+        }
+      )
+      .subscribe(tracker.onStatus);
+
+    return () => {
+      tracker.stop();
+      supabaseClient.removeChannel(channel);
+    };
+  },
 }));
@@ -0,0 +1,147 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase, isSupabaseConfigured, Note, NoteDependency, NoteDependencyType } from '../lib/supabase';
+
+interface DependenciesState {
+  dependencies: NoteDependency[];
+  isLoading: boolean;
+
+  fetchDependencies: () => Promise<void>;
+  addDependency: (sourceId: string, targetId: string, type: NoteDependencyType, userId: string) => Promise<{ error: string | null }>;
+  removeDependency: (id: string) => Promise<{ error: string | null }>;
+}
+
+// Generar ID único para modo demo
+const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// ¿Agregar "source bloquea a target" cerraría un ciclo? Ocurre si target ya
+// bloquea (directa o indirectamente) a source.
+export function wouldCreateCycle(dependencies: NoteDependency[], sourceId: string, targetId: string): boolean {
+  if (sourceId === targetId) return true;
+
+  const visited = new Set<string>();
+  const stack = [targetId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === sourceId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    dependencies
+      .filter((d) => d.type === 'blocks' && d.source_id === current)
+      .forEach((d) => stack.push(d.target_id));
+  }
+  return false;
+}
+
+// Notas que bloquean a noteId y todavía no están completadas
+export function getUnfinishedBlockers(noteId: string, dependencies: NoteDependency[], notes: Note[]): Note[] {
+  return dependencies
+    .filter((d) => d.type === 'blocks' && d.target_id === noteId)
+    .map((d) => notes.find((n) => n.id === d.source_id))
+    .filter((n): n is Note => !!n && n.status !== 'completed' && n.status !== 'cancelled');
+}
+
+export const useDependenciesStore = create<DependenciesState>()(
+  persist(
+    (set, get) => ({
+      dependencies: [],
+      isLoading: false,
+
+      fetchDependencies: async () => {
+        if (!isSupabaseConfigured || !supabase) {
+          // En modo demo se usan las guardadas localmente
+          set({ isLoading: false });
+          return;
+        }
+
+        set({ isLoading: true });
+        try {
+          const { data, error } = await supabase
+            .from('note_dependencies')
+            .select('*')
+            .order('created_at', { ascending: true });
+
+          if (error) throw error;
+          set({ dependencies: data || [], isLoading: false });
+        } catch (error) {
+          console.error('Error fetching dependencies:', error);
+          set({ isLoading: false });
+        }
+      },
+
+      addDependency: async (sourceId, targetId, type, userId) => {
+        const { dependencies } = get();
+
+        if (sourceId === targetId) {
+          return { error: 'Una nota no puede depender de sí misma' };
+        }
+
+        // Las relaciones no dirigidas se consideran iguales en ambos sentidos
+        const exists = dependencies.some((d) =>
+          d.type === type && (
+            (d.source_id === sourceId && d.target_id === targetId) ||
+            (type !== 'blocks' && d.source_id === targetId && d.target_id === sourceId)
+          )
+        );
+        if (exists) {
+          return { error: 'Esta relación ya existe' };
+        }
+
+        if (type === 'blocks' && wouldCreateCycle(dependencies, sourceId, targetId)) {
+          return { error: 'No se puede agregar: crearía una dependencia circular' };
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          const newDependency: NoteDependency = {
+            id: generateId(),
+            source_id: sourceId,
+            target_id: targetId,
+            type,
+            created_by: userId,
+            created_at: new Date().toISOString(),
+          };
+          set((state) => ({ dependencies: [...state.dependencies, newDependency] }));
+          return { error: null };
+        }
+
+        try {
+          const { data, error } = await supabase
+            .from('note_dependencies')
+            .insert([{ source_id: sourceId, target_id: targetId, type, created_by: userId }])
+            .select()
+            .single();
+
+          if (error) return { error: error.message };
+          set((state) => ({ dependencies: [...state.dependencies, data] }));
+          return { error: null };
+        } catch (error: any) {
+          return { error: error.message };
+        }
+      },
+
+      removeDependency: async (id) => {
+        if (!isSupabaseConfigured || !supabase) {
+          set((state) => ({ dependencies: state.dependencies.filter((d) => d.id !== id) }));
+          return { error: null };
+        }
+
+        try {
+          const { error } = await supabase
+            .from('note_dependencies')
+            .delete()
+            .eq('id', id);
+
+          if (error) return { error: error.message };
+          set((state) => ({ dependencies: state.dependencies.filter((d) => d.id !== id) }));
+          return { error: null };
+        } catch (error: any) {
+          return { error: error.message };
+        }
+      },
+    }),
+    {
+      name: 'dependencies-storage',
+      partialize: (state) => ({ dependencies: state.dependencies }),
+    }
+  )
+);
@@ -0,0 +1,133 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase, isSupabaseConfigured, ExchangeRate } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+import { permissionError } from '../lib/permissions';
+
+interface ExchangeRatesState {
+  rates: ExchangeRate[];
+  // Moneda en la que se muestran totales, gráficos y exportaciones
+  reportingCurrency: string;
+  isLoading: boolean;
+
+  fetchRates: () => Promise<void>;
+  saveRate: (rate: Pick<ExchangeRate, 'from_currency' | 'to_currency' | 'rate' | 'rate_date'>) => Promise<{ error: string | null }>;
+  deleteRate: (id: string) => Promise<{ error: string | null }>;
+  setReportingCurrency: (currency: string) => void;
+}
+
+// Generar ID único para modo demo
+const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const demoRates: ExchangeRate[] = [
+  { id: 'rate-1', from_currency: 'USD', to_currency: 'COP', rate: 4000, rate_date: '2024-01-01', created_at: new Date().toISOString() },
+  { id: 'rate-2', from_currency: 'EUR', to_currency: 'COP', rate: 4350, rate_date: '2024-01-01', created_at: new Date().toISOString() },
+  { id: 'rate-3', from_currency: 'MXN', to_currency: 'COP', rate: 230, rate_date: '2024-01-01', created_at: new Date().toISOString() },
+];
+
+export const useExchangeRatesStore = create<ExchangeRatesState>()(
+  persist(
+    (set, get) => ({
+      rates: demoRates,
+      reportingCurrency: 'COP',
+      isLoading: false,
+
+      fetchRates: async () => {
+        if (!isSupabaseConfigured || !supabase) {
+          // En modo demo se usan las guardadas localmente
+          set({ isLoading: false });
+          return;
+        }
+
+        set({ isLoading: true });
+        try {
+          const { data, error } = await supabase
+            .from('exchange_rates')
+            .select('*')
+            .order('rate_date', { ascending: false });
+
+          if (error) throw error;
+          set({ rates: data || [], isLoading: false });
+        } catch (error) {
+          console.error('Error fetching exchange rates:', error);
+          set({ isLoading: false });
+        }
+      },
+
+      // Una tasa por par y fecha: si ya existe se reemplaza
+      saveRate: async (rate) => {
+        // Las tasas afectan a los totales contables: solo quien aprueba gastos
+        if (!useAuthStore.getState().can('approve_expenses')) {
+          return { error: permissionError('approve_expenses') };
+        }
+        if (rate.from_currency === rate.to_currency) {
+          return { error: 'Elige dos monedas distintas' };
+        }
+        if (!(rate.rate > 0)) {
+          return { error: 'La tasa debe ser mayor que cero' };
+        }
+
+        const samePair = (r: ExchangeRate) =>
+          r.from_currency === rate.from_currency &&
+          r.to_currency === rate.to_currency &&
+          r.rate_date === rate.rate_date;
+
+        if (!isSupabaseConfigured || !supabase) {
+          const existing = get().rates.find(samePair);
+          const saved: ExchangeRate = existing
+            ? { ...existing, rate: rate.rate }
+            : { ...rate, id: generateId(), created_at: new Date().toISOString() };
+          set((state) => ({
+            rates: [saved, ...state.rates.filter(r => r.id !== saved.id)],
+          }));
+          return { error: null };
+        }
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          const { data, error } = await supabase
+            .from('exchange_rates')
+            .upsert([{ ...rate, created_by: user?.id }], { onConflict: 'from_currency,to_currency,rate_date' })
+            .select()
+            .single();
+
+          if (error) return { error: error.message };
+
+          set((state) => ({
+            rates: [data, ...state.rates.filter(r => r.id !== data.id && !samePair(r))],
+          }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      deleteRate: async (id) => {
+        if (!useAuthStore.getState().can('approve_expenses')) {
+          return { error: permissionError('approve_expenses') };
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          set((state) => ({ rates: state.rates.filter(r => r.id !== id) }));
+          return { error: null };
+        }
+
+        try {
+          const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+          if (error) return { error: error.message };
+
+          set((state) => ({ rates: state.rates.filter(r => r.id !== id) }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      setReportingCurrency: (currency) => set({ reportingCurrency: currency }),
+    }),
+    {
+      name: 'exchange-rates-storage',
+      partialize: (state) => ({ rates: state.rates, reportingCurrency: state.reportingCurrency }),
+    }
+  )
+);
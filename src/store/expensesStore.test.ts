@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAuthStore } from './authStore';
+import { useExpensesStore } from './expensesStore';
+
+// Siempre en modo demo, aunque haya credenciales en .env
+vi.mock('../lib/supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/supabase')>()),
+  supabase: null,
+  isSupabaseConfigured: false,
+}));
+
+describe('useExpensesStore (modo demo)', () => {
+  beforeEach(async () => {
+    useAuthStore.getState().loginDemo();
+    await useExpensesStore.getState().fetchExpenses();
+  });
+
+  it('adjunta el comprobante al crear un gasto propio', async () => {
+    const receipt = new File(['%PDF'], 'factura.pdf', { type: 'application/pdf' });
+
+    const result = await useExpensesStore.getState().createExpense(
+      { description: 'Hosting', amount: 120000, currency: 'COP' },
+      receipt,
+    );
+
+    expect(result).toEqual({ error: null });
+    const [created] = useExpensesStore.getState().expenses;
+    expect(created.created_by).toBe(useAuthStore.getState().user?.id);
+    expect(created.receipt_url).toMatch(/^blob:.*#factura\.pdf$/);
+  });
+
+  it('deja editar y borrar los gastos que uno mismo creó', async () => {
+    await useExpensesStore.getState().createExpense({ description: 'Dominio', amount: 50000, currency: 'COP' });
+    const [created] = useExpensesStore.getState().expenses;
+
+    expect(await useExpensesStore.getState().updateExpense(created.id, { amount: 60000 })).toEqual({ error: null });
+    expect(await useExpensesStore.getState().deleteExpense(created.id)).toEqual({ error: null });
+  });
+});
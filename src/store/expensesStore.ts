@@ -1,5 +1,7 @@
-import { create } from 'zustand';
-import { supabase, isSupabaseConfigured, Expense, ExpenseCategory } from '../lib/supabase';
+import { create, StoreApi } from 'zustand';
+import { supabase, isSupabaseConfigured, Expense, ExpenseCategory, logActivity, diffChanges, createNotification } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+import { permissionError } from '../lib/permissions';
 
 interface ExpensesState {
   expenses: Expense[];
@@ -8,11 +10,168 @@ interface ExpensesState {
   
   fetchExpenses: () => Promise<void>;
   fetchCategories: () => Promise<void>;
-  createExpense: (expense: Partial<Expense>) => Promise<{ error: string | null }>;
+  createExpense: (expense: Partial<Expense>, receipt?: File | null) => Promise<{ error: string | null; warning?: string }>;
+  importExpenses: (expenses: Partial<Expense>[]) => Promise<{ error: string | null; imported: number }>;
   updateExpense: (id: string, updates: Partial<Expense>) => Promise<{ error: string | null }>;
   deleteExpense: (id: string) => Promise<{ error: string | null }>;
+  approveExpense: (id: string) => Promise<{ error: string | null }>;
+  rejectExpense: (id: string, reason: string) => Promise<{ error: string | null }>;
+  markExpensePaid: (id: string) => Promise<{ error: string | null }>;
+  uploadReceipt: (id: string, file: File) => Promise<{ error: string | null }>;
+  removeReceipt: (id: string) => Promise<{ error: string | null }>;
+  getReceiptUrl: (path: string) => Promise<string | null>;
 }
 
+const EXPENSE_SELECT = `
+  *,
+  category:expense_categories(*),
+  creator:profiles!expenses_created_by_fkey(full_name, email),
+  approver:profiles!expenses_approved_by_fkey(full_name, email)
+`;
+
+type ExpenseStatus = Expense['status'];
+
+// Comprobantes en un bucket privado: receipt_url guarda la ruta dentro del
+// bucket (<usuario>/<gasto>-<fecha>.<ext>) y se sirve con URLs firmadas.
+const RECEIPTS_BUCKET = 'receipts';
+const RECEIPT_URL_TTL = 60 * 10;
+export const RECEIPT_MAX_SIZE = 10 * 1024 * 1024;
+export const RECEIPT_ACCEPT = 'image/*,application/pdf';
+
+export const validateReceipt = (file: File): string | null => {
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    return 'El comprobante debe ser una imagen o un PDF';
+  }
+  if (file.size > RECEIPT_MAX_SIZE) return 'El comprobante no debe superar 10MB';
+  return null;
+};
+
+// En modo demo la ruta es una URL blob: con el nombre original tras '#'
+export const isPdfReceipt = (path: string) => /\.pdf$/i.test(path.split('?')[0]);
+
+// Liberar la URL blob: de un comprobante demo al reemplazarlo o quitarlo
+const revokeDemoReceipt = (receiptUrl?: string | null) => {
+  if (receiptUrl?.startsWith('blob:')) URL.revokeObjectURL(receiptUrl.split('#')[0]);
+};
+
+// El gasto ya quedó registrado aunque falle el comprobante: se avisa en vez
+// de devolver error para que no se vuelva a enviar y se duplique
+const receiptWarning = (error: string) =>
+  `El gasto se registró, pero no se pudo subir el comprobante (${error}). Adjúntalo desde el detalle del gasto.`;
+
+// Flujo de aprobación: pendiente → aprobado → pagado, o rechazado
+// desde pendiente o aprobado (antes de pagarse).
+const allowedTransitions: Record<ExpenseStatus, ExpenseStatus[]> = {
+  pending: ['approved', 'rejected'],
+  approved: ['paid', 'rejected'],
+  rejected: [],
+  paid: [],
+};
+
+export const expenseStatusLabels: Record<ExpenseStatus, string> = {
+  pending: 'Pendiente',
+  approved: 'Aprobado',
+  rejected: 'Rechazado',
+  paid: 'Pagado',
+};
+
+// Sin permiso de aprobación solo se pueden tocar los gastos propios pendientes,
+// y el estado (aprobar / rechazar / pagar) nunca.
+const checkExpensePermission = (expense: Expense | undefined, updates?: Partial<Expense>): string | null => {
+  const { user, can } = useAuthStore.getState();
+  if (can('approve_expenses')) return null;
+  if (updates?.status && updates.status !== expense?.status) return permissionError('approve_expenses');
+  if (expense && (expense.created_by !== user?.id || expense.status !== 'pending')) {
+    return 'Solo puedes modificar tus propios gastos mientras estén pendientes';
+  }
+  return null;
+};
+
+// Aprobar, rechazar y pagar comparten validación, auditoría y aviso al autor
+const changeStatus = async (
+  set: StoreApi<ExpensesState>['setState'],
+  get: StoreApi<ExpensesState>['getState'],
+  id: string,
+  status: ExpenseStatus,
+  fields: Partial<Expense>,
+): Promise<{ error: string | null }> => {
+  const { user, can } = useAuthStore.getState();
+  if (!can('approve_expenses')) return { error: permissionError('approve_expenses') };
+
+  const expense = get().expenses.find(e => e.id === id);
+  if (!expense) return { error: 'Gasto no encontrado' };
+  if (!allowedTransitions[expense.status].includes(status)) {
+    return {
+      error: `Un gasto ${expenseStatusLabels[expense.status].toLowerCase()} no puede pasar a ${expenseStatusLabels[status].toLowerCase()}`,
+    };
+  }
+
+  const updates: Partial<Expense> = { ...fields, status };
+  let updated: Expense;
+
+  if (!isSupabaseConfigured || !supabase) {
+    updated = {
+      ...expense,
+      ...updates,
+      approver: updates.approved_by && user
+        ? { full_name: user.full_name, email: user.email }
+        : expense.approver,
+      updated_at: new Date().toISOString(),
+    };
+  } else {
+    try {
+      const { data, error } = await supabase
+        .from('expenses')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(EXPENSE_SELECT)
+        .single();
+
+      if (error) return { error: error.message };
+      updated = data;
+    } catch (err: any) {
+      return { error: err.message };
+    }
+
+    const verbs: Record<ExpenseStatus, string> = {
+      pending: '',
+      approved: 'Aprobó',
+      rejected: 'Rechazó',
+      paid: 'Marcó como pagado',
+    };
+    await logActivity({
+      entityType: 'expense',
+      entityId: id,
+      action: 'updated',
+      description: `${verbs[status]} el gasto "${expense.description}"`,
+      changes: diffChanges(expense, updates),
+    });
+  }
+
+  set((state) => ({
+    expenses: state.expenses.map(e => e.id === id ? updated : e),
+  }));
+
+  if (user && expense.created_by !== user.id) {
+    const messages: Record<ExpenseStatus, string> = {
+      pending: '',
+      approved: `${user.full_name} aprobó tu gasto "${expense.description}"`,
+      rejected: `${user.full_name} rechazó tu gasto "${expense.description}": ${fields.rejection_reason || ''}`,
+      paid: `Tu gasto "${expense.description}" fue marcado como pagado`,
+    };
+    await createNotification({
+      userId: expense.created_by,
+      type: 'expense_review',
+      title: `Gasto ${expenseStatusLabels[status].toLowerCase()}`,
+      message: messages[status],
+      expenseId: id,
+      fromUserId: user.id,
+    });
+  }
+
+  return { error: null };
+};
+
 export const useExpensesStore = create<ExpensesState>((set, get) => ({
   expenses: [],
   categories: [],
@@ -64,7 +223,8 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
             expense_date: new Date().toISOString().split('T')[0],
             payment_method: 'card',
             status: 'paid',
-            created_by: 'demo-user',
+            recurring_id: 'rec-1',
+            created_by: useAuthStore.getState().user?.id || 'demo-user',
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
             category: categories.find(c => c.id === 'cat-1'),
@@ -79,7 +239,8 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
             expense_date: new Date().toISOString().split('T')[0],
             payment_method: 'card',
             status: 'pending',
-            created_by: 'demo-user',
+            recurring_id: 'rec-2',
+            created_by: useAuthStore.getState().user?.id || 'demo-user',
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
             category: categories.find(c => c.id === 'cat-3'),
@@ -94,11 +255,7 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
     try {
       const { data, error } = await supabase
         .from('expenses')
-        .select(`
-          *,
-          category:expense_categories(*),
-          creator:profiles!expenses_created_by_fkey(full_name, email)
-        `)
+        .select(EXPENSE_SELECT)
         .order('expense_date', { ascending: false });
 
       if (error) throw error;
@@ -109,7 +266,12 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
     }
   },
 
-  createExpense: async (expense) => {
+  createExpense: async (expense, receipt) => {
+    if (receipt) {
+      const invalid = validateReceipt(receipt);
+      if (invalid) return { error: invalid };
+    }
+
     if (!isSupabaseConfigured || !supabase) {
       const categories = get().categories;
       const newExpense: Expense = {
@@ -124,13 +286,15 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
         payment_method: expense.payment_method,
         status: 'pending',
         notes: expense.notes,
-        created_by: 'demo-user',
+        created_by: useAuthStore.getState().user?.id || 'demo-user',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         category: categories.find(c => c.id === expense.category_id),
       };
       set((state) => ({ expenses: [newExpense, ...state.expenses] }));
-      return { error: null };
+      if (!receipt) return { error: null };
+      const upload = await get().uploadReceipt(newExpense.id, receipt);
+      return upload.error ? { error: null, warning: receiptWarning(upload.error) } : { error: null };
     }
 
     try {
@@ -139,23 +303,94 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
       const { data, error } = await supabase
         .from('expenses')
         .insert([{ ...expense, created_by: user?.id }])
-        .select(`
-          *,
-          category:expense_categories(*),
-          creator:profiles!expenses_created_by_fkey(full_name, email)
-        `)
+        .select(EXPENSE_SELECT)
         .single();
 
       if (error) return { error: error.message };
+
+      await logActivity({
+        entityType: 'expense',
+        entityId: data.id,
+        action: 'created',
+        description: `Registró el gasto "${data.description}"`,
+        changes: { amount: { old: null, new: data.amount }, status: { old: null, new: data.status } },
+      });
       
       set((state) => ({ expenses: [data, ...state.expenses] }));
-      return { error: null };
+      if (!receipt) return { error: null };
+      const upload = await get().uploadReceipt(data.id, receipt);
+      return upload.error ? { error: null, warning: receiptWarning(upload.error) } : { error: null };
     } catch (err: any) {
       return { error: err.message };
     }
   },
 
+  // Alta masiva desde la importación CSV o XLSX (ya validada; los duplicados solo si se confirmaron)
+  // y desde los gastos recurrentes en modo demo
+  importExpenses: async (expenses) => {
+    if (expenses.length === 0) return { error: null, imported: 0 };
+
+    if (!isSupabaseConfigured || !supabase) {
+      const categories = get().categories;
+      const now = new Date().toISOString();
+      const created: Expense[] = expenses.map((expense, i) => ({
+        id: `exp-${Date.now()}-${i}`,
+        description: expense.description || '',
+        amount: expense.amount || 0,
+        currency: expense.currency || 'COP',
+        category_id: expense.category_id,
+        vendor: expense.vendor,
+        invoice_number: expense.invoice_number,
+        expense_date: expense.expense_date || now.split('T')[0],
+        payment_method: expense.payment_method,
+        status: 'pending',
+        notes: expense.notes,
+        recurring_id: expense.recurring_id,
+        created_by: useAuthStore.getState().user?.id || 'demo-user',
+        created_at: now,
+        updated_at: now,
+        category: categories.find(c => c.id === expense.category_id),
+      }));
+      set((state) => ({ expenses: [...created, ...state.expenses] }));
+      return { error: null, imported: created.length };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .insert(expenses.map(expense => ({ ...expense, created_by: user?.id })))
+        .select(EXPENSE_SELECT);
+
+      if (error) return { error: error.message, imported: 0 };
+      const created: Expense[] = data || [];
+
+      await Promise.all(created.map(expense => logActivity({
+        entityType: 'expense',
+        entityId: expense.id,
+        action: 'created',
+        description: `Importó el gasto "${expense.description}"`,
+        changes: { amount: { old: null, new: expense.amount }, status: { old: null, new: expense.status } },
+      })));
+
+      set((state) => ({
+        expenses: [...created, ...state.expenses].sort((a, b) => b.expense_date.localeCompare(a.expense_date)),
+      }));
+      return { error: null, imported: created.length };
+    } catch (err: any) {
+      return { error: err.message, imported: 0 };
+    }
+  },
+
   updateExpense: async (id, updates) => {
+    const current = get().expenses.find(e => e.id === id);
+    if (updates.status && updates.status !== current?.status) {
+      return { error: 'Usa aprobar, rechazar o marcar como pagado para cambiar el estado' };
+    }
+    const permissionDenied = checkExpensePermission(get().expenses.find(e => e.id === id), updates);
+    if (permissionDenied) return { error: permissionDenied };
+
     if (!isSupabaseConfigured || !supabase) {
       const categories = get().categories;
       set((state) => ({
@@ -169,18 +404,24 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
     }
 
     try {
+      const previous = get().expenses.find(e => e.id === id);
       const { data, error } = await supabase
         .from('expenses')
         .update({ ...updates, updated_at: new Date().toISOString() })
         .eq('id', id)
-        .select(`
-          *,
-          category:expense_categories(*),
-          creator:profiles!expenses_created_by_fkey(full_name, email)
-        `)
+        .select(EXPENSE_SELECT)
         .single();
 
       if (error) return { error: error.message };
+
+      const changes = diffChanges(previous, updates);
+      await logActivity({
+        entityType: 'expense',
+        entityId: id,
+        action: 'updated',
+        description: `Actualizó el gasto "${data.description}"`,
+        changes,
+      });
       
       set((state) => ({
         expenses: state.expenses.map(e => e.id === id ? data : e),
@@ -192,7 +433,11 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
   },
 
   deleteExpense: async (id) => {
+    const permissionDenied = checkExpensePermission(get().expenses.find(e => e.id === id));
+    if (permissionDenied) return { error: permissionDenied };
+
     if (!isSupabaseConfigured || !supabase) {
+      revokeDemoReceipt(get().expenses.find(e => e.id === id)?.receipt_url);
       set((state) => ({
         expenses: state.expenses.filter(e => e.id !== id),
       }));
@@ -200,8 +445,21 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
     }
 
     try {
+      const deleted = get().expenses.find(e => e.id === id);
       const { error } = await supabase.from('expenses').delete().eq('id', id);
       if (error) return { error: error.message };
+
+      if (deleted?.receipt_url) {
+        await supabase.storage.from(RECEIPTS_BUCKET).remove([deleted.receipt_url]);
+      }
+
+      await logActivity({
+        entityType: 'expense',
+        entityId: id,
+        action: 'deleted',
+        description: `Eliminó el gasto "${deleted?.description || ''}"`,
+        changes: deleted ? { amount: { old: deleted.amount, new: null } } : undefined,
+      });
       
       set((state) => ({
         expenses: state.expenses.filter(e => e.id !== id),
@@ -211,4 +469,152 @@ export const useExpensesStore = create<ExpensesState>((set, get) => ({
       return { error: err.message };
     }
   },
+
+  approveExpense: async (id) => {
+    const userId = useAuthStore.getState().user?.id;
+    return changeStatus(set, get, id, 'approved', {
+      approved_by: userId,
+      approved_at: new Date().toISOString(),
+      rejected_at: null,
+      rejection_reason: null,
+    });
+  },
+
+  rejectExpense: async (id, reason) => {
+    const trimmed = reason.trim();
+    if (!trimmed) return { error: 'Indica el motivo del rechazo' };
+
+    const userId = useAuthStore.getState().user?.id;
+    return changeStatus(set, get, id, 'rejected', {
+      approved_by: userId,
+      rejected_at: new Date().toISOString(),
+      rejection_reason: trimmed,
+    });
+  },
+
+  markExpensePaid: async (id) => {
+    const userId = useAuthStore.getState().user?.id;
+    return changeStatus(set, get, id, 'paid', {
+      paid_by: userId,
+      paid_at: new Date().toISOString(),
+    });
+  },
+
+  uploadReceipt: async (id, file) => {
+    const invalid = validateReceipt(file);
+    if (invalid) return { error: invalid };
+
+    const expense = get().expenses.find(e => e.id === id);
+    if (!expense) return { error: 'Gasto no encontrado' };
+    const permissionDenied = checkExpensePermission(expense);
+    if (permissionDenied) return { error: permissionDenied };
+
+    if (!isSupabaseConfigured || !supabase) {
+      revokeDemoReceipt(expense.receipt_url);
+      const receiptUrl = `${URL.createObjectURL(file)}#${file.name}`;
+      set((state) => ({
+        expenses: state.expenses.map(e => e.id === id ? { ...e, receipt_url: receiptUrl } : e),
+      }));
+      return { error: null };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const fileExt = file.name.split('.').pop()?.toLowerCase() || 'bin';
+      const path = `${user?.id}/${id}-${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(RECEIPTS_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (uploadError) return { error: uploadError.message };
+
+      const { data, error } = await supabase
+        .from('expenses')
+        .update({ receipt_url: path, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(EXPENSE_SELECT)
+        .single();
+
+      if (error) {
+        await supabase.storage.from(RECEIPTS_BUCKET).remove([path]);
+        return { error: error.message };
+      }
+
+      // El comprobante anterior queda huérfano si no se borra
+      if (expense.receipt_url) {
+        await supabase.storage.from(RECEIPTS_BUCKET).remove([expense.receipt_url]);
+      }
+
+      await logActivity({
+        entityType: 'expense',
+        entityId: id,
+        action: 'updated',
+        description: expense.receipt_url
+          ? `Reemplazó el comprobante del gasto "${expense.description}"`
+          : `Adjuntó un comprobante al gasto "${expense.description}"`,
+        changes: { receipt_url: { old: expense.receipt_url ?? null, new: path } },
+      });
+
+      set((state) => ({
+        expenses: state.expenses.map(e => e.id === id ? data : e),
+      }));
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  removeReceipt: async (id) => {
+    const expense = get().expenses.find(e => e.id === id);
+    if (!expense?.receipt_url) return { error: null };
+    const permissionDenied = checkExpensePermission(expense);
+    if (permissionDenied) return { error: permissionDenied };
+
+    if (!isSupabaseConfigured || !supabase) {
+      revokeDemoReceipt(expense.receipt_url);
+      set((state) => ({
+        expenses: state.expenses.map(e => e.id === id ? { ...e, receipt_url: undefined } : e),
+      }));
+      return { error: null };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('expenses')
+        .update({ receipt_url: null, updated_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) return { error: error.message };
+
+      await supabase.storage.from(RECEIPTS_BUCKET).remove([expense.receipt_url]);
+
+      await logActivity({
+        entityType: 'expense',
+        entityId: id,
+        action: 'updated',
+        description: `Quitó el comprobante del gasto "${expense.description}"`,
+        changes: { receipt_url: { old: expense.receipt_url, new: null } },
+      });
+
+      set((state) => ({
+        expenses: state.expenses.map(e => e.id === id ? { ...e, receipt_url: undefined } : e),
+      }));
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  getReceiptUrl: async (path) => {
+    if (!isSupabaseConfigured || !supabase || /^(blob:|https?:)/.test(path)) return path;
+
+    const { data, error } = await supabase.storage
+      .from(RECEIPTS_BUCKET)
+      .createSignedUrl(path, RECEIPT_URL_TTL);
+
+    if (error) {
+      console.error('Error signing receipt URL:', error);
+      return null;
+    }
+    return data.signedUrl;
+  },
 }));
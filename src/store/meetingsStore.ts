@@ -1,25 +1,151 @@
 import { create } from 'zustand';
-import { supabase, isSupabaseConfigured, Meeting, MeetingParticipant, createNotification } from '../lib/supabase';
+import { addDays, differenceInCalendarDays, format, parseISO, setHours, setMinutes, subDays } from 'date-fns';
+import {
+  supabase,
+  isSupabaseConfigured,
+  Meeting,
+  MeetingAgendaItem,
+  MeetingFrequency,
+  MeetingParticipant,
+  MeetingSeries,
+  Note,
+  createNotification,
+  logActivity,
+  diffChanges,
+} from '../lib/supabase';
+import { trackChannelStatus } from './realtimeStore';
+import { useAuthStore } from './authStore';
+import { useNotesStore } from './notesStore';
+import {
+  SERIES_HORIZON_DAYS,
+  SeriesOccurrence,
+  countOccurrencesBefore,
+  describeRecurrence,
+  getOccurrenceStart,
+  getSeriesOccurrences,
+} from '../lib/recurrence';
+
+// Reunión que se cruza con el horario de un asistente. Si quien consulta no
+// tiene acceso a ella solo se conoce el horario ocupado.
+export interface MeetingConflict {
+  user_id: string;
+  meeting_id: string | null;
+  title: string | null;
+  scheduled_at: string;
+  duration_minutes: number;
+}
+
+// Regla elegida al crear una reunión periódica
+export interface MeetingRecurrence {
+  frequency: MeetingFrequency;
+  until_date?: string | null;
+  occurrence_count?: number | null;
+}
+
+// Alcance de un cambio sobre una ocurrencia de una serie
+export type OccurrenceScope = 'single' | 'future';
 
 interface MeetingsState {
   meetings: Meeting[];
+  series: MeetingSeries[];
   isLoading: boolean;
   
   fetchMeetings: () => Promise<void>;
-  createMeeting: (meeting: Partial<Meeting>, participantIds: string[]) => Promise<{ error: string | null; meeting?: Meeting }>;
+  createMeeting: (
+    meeting: Partial<Meeting>,
+    participantIds: string[],
+    options?: { ignoreConflicts?: boolean; recurrence?: MeetingRecurrence },
+  ) => Promise<{ error: string | null; meeting?: Meeting; conflicts?: MeetingConflict[] }>;
+  createMeetingSeries: (
+    meeting: Partial<Meeting>,
+    participantIds: string[],
+    recurrence: MeetingRecurrence,
+  ) => Promise<{ error: string | null; meeting?: Meeting }>;
+  extendMeetingSeries: () => Promise<void>;
+  updateMeetingOccurrences: (id: string, updates: Partial<Meeting>, scope: OccurrenceScope) => Promise<{ error: string | null }>;
+  findConflicts: (scheduledAt: string, durationMinutes: number, userIds: string[], excludeMeetingId?: string) => Promise<MeetingConflict[]>;
+  importMeetings: (items: { meeting: Partial<Meeting>; participantIds: string[] }[]) => Promise<{ error: string | null; imported: number }>;
   updateMeeting: (id: string, updates: Partial<Meeting>) => Promise<{ error: string | null }>;
-  deleteMeeting: (id: string) => Promise<{ error: string | null }>;
+  deleteMeeting: (id: string, scope?: OccurrenceScope) => Promise<{ error: string | null }>;
   updateMeetingStatus: (id: string, status: Meeting['status']) => Promise<{ error: string | null }>;
   inviteParticipant: (meetingId: string, userId: string) => Promise<{ error: string | null }>;
   removeParticipant: (meetingId: string, userId: string) => Promise<{ error: string | null }>;
   updateParticipantStatus: (meetingId: string, status: MeetingParticipant['status']) => Promise<{ error: string | null }>;
+  sendMeetingReminders: () => Promise<void>;
+  addAgendaItem: (meetingId: string, item: Pick<MeetingAgendaItem, 'title' | 'duration_minutes'>) => Promise<{ error: string | null }>;
+  updateAgendaItem: (meetingId: string, id: string, updates: Partial<MeetingAgendaItem>) => Promise<{ error: string | null }>;
+  deleteAgendaItem: (meetingId: string, id: string) => Promise<{ error: string | null }>;
+  moveAgendaItem: (meetingId: string, id: string, direction: -1 | 1) => Promise<{ error: string | null }>;
+  saveMinutes: (
+    meetingId: string,
+    content: string,
+    expectedUpdatedAt: string | null,
+  ) => Promise<{ error: string | null; conflict?: boolean; updatedAt?: string }>;
+  createActionItem: (meeting: Meeting, item: Pick<Note, 'title' | 'assigned_to' | 'due_date'>) => Promise<{ error: string | null }>;
+  subscribeToMeetings: () => () => void;
 }
 
 const generateId = () => `meeting-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 const generateRoomName = () => `k4s-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
 
-export const useMeetingsStore = create<MeetingsState>((set) => ({
+// Configuración de JaaS (Jitsi as a Service)
+const JAAS_APP_ID = 'vpaas-magic-cookie-1ce7135e1c534d72904f14bcef702bc4';
+
+export const getMeetingRoomUrl = (meeting: Pick<Meeting, 'room_name'>) =>
+  `https://8x8.vc/${JAAS_APP_ID}/${meeting.room_name}`;
+
+const meetingSelect = `
+  *,
+  creator:profiles!created_by(id, full_name, email, avatar_url),
+  participants:meeting_participants(
+    *,
+    user:profiles!user_id(id, full_name, email, avatar_url)
+  ),
+  agenda:meeting_agenda_items(*)
+`;
+
+// Orden del día en el orden elegido por los asistentes
+export const getSortedAgenda = (meeting: Meeting) =>
+  [...(meeting.agenda || [])].sort((a, b) => a.position - b.position);
+
+const sortByDate = (meetings: Meeting[]) =>
+  [...meetings].sort((a, b) => new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime());
+
+const seriesHorizon = () => addDays(new Date(), SERIES_HORIZON_DAYS);
+
+// Datos de la reunión de una ocurrencia: todas comparten la sala de la serie
+const occurrenceFields = (series: MeetingSeries, occurrence: SeriesOccurrence) => ({
+  title: series.title,
+  description: series.description ?? undefined,
+  room_name: series.room_name,
+  scheduled_at: occurrence.start.toISOString(),
+  duration_minutes: series.duration_minutes,
+  reminder_minutes: series.reminder_minutes ?? null,
+  created_by: series.created_by,
+  status: 'scheduled' as const,
+  series_id: series.id,
+  occurrence_date: occurrence.date,
+});
+
+const demoOccurrences = (series: MeetingSeries, occurrences: SeriesOccurrence[]): Meeting[] => {
+  const now = new Date().toISOString();
+  return occurrences.map((occurrence) => ({
+    ...occurrenceFields(series, occurrence),
+    id: generateId(),
+    created_at: now,
+    updated_at: now,
+  }));
+};
+
+const withAgenda = (
+  meetings: Meeting[],
+  meetingId: string,
+  update: (agenda: MeetingAgendaItem[]) => MeetingAgendaItem[],
+) => meetings.map((m) => (m.id === meetingId ? { ...m, agenda: update(m.agenda || []) } : m));
+
+export const useMeetingsStore = create<MeetingsState>((set, get) => ({
   meetings: [],
+  series: [],
   isLoading: false,
 
   fetchMeetings: async () => {
@@ -33,25 +159,38 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
     try {
       const { data, error } = await supabase
         .from('meetings')
-        .select(`
-          *,
-          creator:profiles!created_by(id, full_name, email, avatar_url),
-          participants:meeting_participants(
-            *,
-            user:profiles!user_id(id, full_name, email, avatar_url)
-          )
-        `)
+        .select(meetingSelect)
         .order('scheduled_at', { ascending: true });
 
       if (error) throw error;
-      set({ meetings: data || [], isLoading: false });
+
+      const { data: series, error: seriesError } = await supabase
+        .from('meeting_series')
+        .select('*');
+      if (seriesError) console.error('Error fetching meeting series:', seriesError);
+
+      set({ meetings: data || [], series: series || [], isLoading: false });
     } catch (error) {
       console.error('Error fetching meetings:', error);
       set({ isLoading: false });
     }
   },
 
-  createMeeting: async (meeting, participantIds) => {
+  createMeeting: async (meeting, participantIds, options) => {
+    // Avisar antes de crear si algún asistente (o quien la crea) ya está
+    // ocupado. En las periódicas solo se revisa la primera ocurrencia.
+    if (!options?.ignoreConflicts && meeting.scheduled_at) {
+      const attendees = [meeting.created_by, ...participantIds].filter(Boolean) as string[];
+      const conflicts = await get().findConflicts(meeting.scheduled_at, meeting.duration_minutes || 60, attendees);
+      if (conflicts.length > 0) {
+        return { error: 'Hay asistentes con otra reunión a esa hora', conflicts };
+      }
+    }
+
+    if (options?.recurrence) {
+      return get().createMeetingSeries(meeting, participantIds, options.recurrence);
+    }
+
     if (!isSupabaseConfigured || !supabase) {
       const newMeeting: Meeting = {
         id: generateId(),
@@ -60,6 +199,7 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
         room_name: generateRoomName(),
         scheduled_at: meeting.scheduled_at || new Date().toISOString(),
         duration_minutes: meeting.duration_minutes || 60,
+        reminder_minutes: meeting.reminder_minutes,
         created_by: meeting.created_by || 'demo-user',
         status: 'scheduled',
         created_at: new Date().toISOString(),
@@ -82,6 +222,14 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
 
       if (error) return { error: error.message };
 
+      await logActivity({
+        entityType: 'meeting',
+        entityId: data.id,
+        action: 'created',
+        description: `Programó la reunión "${data.title}"`,
+        changes: { scheduled_at: { old: null, new: data.scheduled_at } },
+      });
+
       // Agregar participantes
       if (participantIds.length > 0) {
         const participants = participantIds.map(userId => ({
@@ -112,6 +260,231 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
     }
   },
 
+  // La serie guarda la regla y una sala fija; sus ocurrencias se crean como
+  // reuniones normales hasta SERIES_HORIZON_DAYS
+  createMeetingSeries: async (meeting, participantIds, recurrence) => {
+    const startAt = meeting.scheduled_at || new Date().toISOString();
+    if (recurrence.until_date && recurrence.until_date < format(parseISO(startAt), 'yyyy-MM-dd')) {
+      return { error: 'La fecha de fin debe ser posterior al inicio' };
+    }
+
+    const seriesInput = {
+      title: meeting.title || 'Nueva reunión',
+      description: meeting.description || null,
+      room_name: generateRoomName(),
+      start_at: startAt,
+      duration_minutes: meeting.duration_minutes || 60,
+      reminder_minutes: meeting.reminder_minutes ?? null,
+      frequency: recurrence.frequency,
+      until_date: recurrence.until_date || null,
+      occurrence_count: recurrence.occurrence_count || null,
+      exceptions: [] as string[],
+      participant_ids: participantIds,
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+
+    if (!isSupabaseConfigured || !supabase) {
+      const now = new Date().toISOString();
+      const series: MeetingSeries = {
+        ...seriesInput,
+        id: generateId(),
+        created_by: meeting.created_by || 'demo-user',
+        created_at: now,
+        updated_at: now,
+      };
+      const created = demoOccurrences(series, getSeriesOccurrences(series, seriesHorizon()));
+      set((state) => ({
+        series: [...state.series, series],
+        meetings: sortByDate([...state.meetings, ...created]),
+      }));
+      return { error: null, meeting: created[0] };
+    }
+
+    try {
+      const currentUser = (await supabase.auth.getUser()).data.user;
+      const { data, error } = await supabase
+        .from('meeting_series')
+        .insert([{ ...seriesInput, created_by: currentUser?.id }])
+        .select()
+        .single();
+
+      if (error) return { error: error.message };
+      const series: MeetingSeries = data;
+
+      // Las ocurrencias se generan en el servidor, igual que en pg_cron
+      const { error: generateError } = await supabase.rpc('generate_series_meetings', { p_series_id: series.id });
+      if (generateError) return { error: generateError.message };
+
+      const { data: first } = await supabase
+        .from('meetings')
+        .select('*')
+        .eq('series_id', series.id)
+        .order('scheduled_at')
+        .limit(1)
+        .maybeSingle();
+
+      if (first) {
+        await logActivity({
+          entityType: 'meeting',
+          entityId: first.id,
+          action: 'created',
+          description: `Programó la reunión periódica "${series.title}" (${describeRecurrence(series).toLowerCase()})`,
+          changes: { scheduled_at: { old: null, new: first.scheduled_at } },
+        });
+
+        // Una sola invitación por serie, enlazada a la primera ocurrencia
+        for (const participantId of participantIds) {
+          await createNotification({
+            userId: participantId,
+            type: 'meeting_invite',
+            title: 'Invitación a reunión',
+            message: `Te han invitado a la reunión periódica "${series.title}" (${describeRecurrence(series).toLowerCase()})`,
+            meetingId: first.id,
+            fromUserId: currentUser?.id,
+          });
+        }
+      }
+
+      await get().fetchMeetings();
+      return { error: null, meeting: first };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  // Agrega las ocurrencias que falten hasta el horizonte (también las pasadas
+  // que nunca se crearon). En Supabase lo hace generate_series_meetings, que
+  // además corre con pg_cron; desde aquí la puede disparar cualquier asistente.
+  extendMeetingSeries: async () => {
+    if (!isSupabaseConfigured || !supabase) {
+      const { series, meetings } = get();
+      const created = series.flatMap((s) => {
+        const existing = new Set(meetings.filter(m => m.series_id === s.id).map(m => m.occurrence_date));
+        return demoOccurrences(s, getSeriesOccurrences(s, seriesHorizon()).filter(o => !existing.has(o.date)));
+      });
+      if (created.length > 0) set((state) => ({ meetings: sortByDate([...state.meetings, ...created]) }));
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('generate_series_meetings');
+    if (error) {
+      console.error('Error extending meeting series:', error);
+      return;
+    }
+    if (data) await get().fetchMeetings();
+  },
+
+  // En Supabase se consulta con una función porque RLS no deja ver las
+  // reuniones de los demás; solo devuelve título y horario
+  findConflicts: async (scheduledAt, durationMinutes, userIds, excludeMeetingId) => {
+    if (userIds.length === 0) return [];
+    const start = new Date(scheduledAt).getTime();
+    const end = start + durationMinutes * 60000;
+
+    if (!isSupabaseConfigured || !supabase) {
+      return get().meetings.flatMap((m) => {
+        const mStart = new Date(m.scheduled_at).getTime();
+        const mEnd = mStart + m.duration_minutes * 60000;
+        if (m.id === excludeMeetingId || m.status === 'cancelled' || m.status === 'completed') return [];
+        if (mStart >= end || mEnd <= start) return [];
+        const attendees = [m.created_by, ...(m.participants || []).filter(p => p.status !== 'declined').map(p => p.user_id)];
+        return userIds.filter(id => attendees.includes(id)).map(userId => ({
+          user_id: userId,
+          meeting_id: m.id,
+          title: m.title,
+          scheduled_at: m.scheduled_at,
+          duration_minutes: m.duration_minutes,
+        }));
+      });
+    }
+
+    const { data, error } = await supabase.rpc('get_meeting_conflicts', {
+      p_start: new Date(start).toISOString(),
+      p_end: new Date(end).toISOString(),
+      p_user_ids: userIds,
+      p_exclude_id: excludeMeetingId || null,
+    });
+    if (error) {
+      console.error('Error checking meeting conflicts:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  // Reuniones leídas de un archivo .ics (un solo insert para todo el archivo)
+  importMeetings: async (items) => {
+    if (items.length === 0) return { error: null, imported: 0 };
+
+    if (!isSupabaseConfigured || !supabase) {
+      const now = new Date().toISOString();
+      const created: Meeting[] = items.map(({ meeting }) => ({
+        id: generateId(),
+        title: meeting.title || 'Nueva reunión',
+        description: meeting.description,
+        room_name: generateRoomName(),
+        scheduled_at: meeting.scheduled_at || now,
+        duration_minutes: meeting.duration_minutes || 60,
+        created_by: meeting.created_by || 'demo-user',
+        status: meeting.status || 'scheduled',
+        ical_uid: meeting.ical_uid,
+        created_at: now,
+        updated_at: now,
+      }));
+      set((state) => ({
+        meetings: [...state.meetings, ...created].sort(
+          (a, b) => new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime()
+        ),
+      }));
+      return { error: null, imported: created.length };
+    }
+
+    try {
+      const currentUser = (await supabase.auth.getUser()).data.user;
+      const { data, error } = await supabase
+        .from('meetings')
+        .insert(items.map(({ meeting }) => ({
+          ...meeting,
+          created_by: currentUser?.id,
+          room_name: generateRoomName(),
+        })))
+        .select();
+
+      if (error) return { error: error.message, imported: 0 };
+      const created: Meeting[] = data || [];
+
+      // Los asistentes del archivo que son miembros del equipo quedan invitados
+      const participants = created.flatMap((meeting, i) =>
+        items[i].participantIds.map(userId => ({ meeting_id: meeting.id, user_id: userId, status: 'invited' }))
+      );
+      if (participants.length > 0) {
+        await supabase.from('meeting_participants').insert(participants);
+      }
+
+      await Promise.all([
+        ...created.map(meeting => logActivity({
+          entityType: 'meeting',
+          entityId: meeting.id,
+          action: 'created',
+          description: `Importó la reunión "${meeting.title}"`,
+          changes: { scheduled_at: { old: null, new: meeting.scheduled_at } },
+        })),
+        ...participants.map(p => createNotification({
+          userId: p.user_id,
+          type: 'meeting_invite',
+          title: 'Invitación a reunión',
+          message: `Te han invitado a la reunión "${created.find(m => m.id === p.meeting_id)?.title || ''}"`,
+          meetingId: p.meeting_id,
+          fromUserId: currentUser?.id,
+        })),
+      ]);
+
+      await get().fetchMeetings();
+      return { error: null, imported: created.length };
+    } catch (err: any) {
+      return { error: err.message, imported: 0 };
+    }
+  },
+
   updateMeeting: async (id, updates) => {
     if (!isSupabaseConfigured || !supabase) {
       set((state) => ({
@@ -123,6 +496,7 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
     }
 
     try {
+      const previous = get().meetings.find((m) => m.id === id);
       const { error } = await supabase
         .from('meetings')
         .update({ ...updates, updated_at: new Date().toISOString() })
@@ -130,6 +504,14 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
 
       if (error) return { error: error.message };
 
+      await logActivity({
+        entityType: 'meeting',
+        entityId: id,
+        action: 'updated',
+        description: `Actualizó la reunión "${updates.title || previous?.title || ''}"`,
+        changes: diffChanges(previous, updates),
+      });
+
       set((state) => ({
         meetings: state.meetings.map((m) =>
           m.id === id ? { ...m, ...updates, updated_at: new Date().toISOString() } : m
@@ -141,7 +523,172 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
     }
   },
 
-  deleteMeeting: async (id) => {
+  // "Esta y las siguientes" parte la serie: la original termina el día
+  // anterior y una nueva (con la misma sala) sigue desde esta ocurrencia.
+  // En Supabase todo ocurre en una transacción (split_meeting_series).
+  updateMeetingOccurrences: async (id, updates, scope) => {
+    const meeting = get().meetings.find((m) => m.id === id);
+    const series = meeting?.series_id ? get().series.find((s) => s.id === meeting.series_id) : undefined;
+    if (!meeting?.occurrence_date || !series || scope === 'single') {
+      return get().updateMeeting(id, updates);
+    }
+    if (series.created_by !== useAuthStore.getState().user?.id) {
+      return { error: 'Solo quien creó la serie puede cambiar las siguientes reuniones' };
+    }
+
+    const fromDate = meeting.occurrence_date;
+    const newStart = updates.scheduled_at ? parseISO(updates.scheduled_at) : null;
+    const dayShift = newStart ? differenceInCalendarDays(newStart, parseISO(meeting.scheduled_at)) : 0;
+    if (dayShift !== 0 && series.frequency === 'weekdays') {
+      return { error: 'En las reuniones de días hábiles solo se puede cambiar la hora de las siguientes' };
+    }
+
+    // Nuevo inicio de una ocurrencia: su día (desplazado) a la hora elegida
+    const moveStart = (start: Date) => {
+      if (!newStart) return start;
+      const day = addDays(start, dayShift);
+      return setMinutes(setHours(day, newStart.getHours()), newStart.getMinutes());
+    };
+    const shiftDate = (date: string) => format(addDays(parseISO(date), dayShift), 'yyyy-MM-dd');
+
+    const fields = {
+      title: updates.title ?? series.title,
+      description: updates.description ?? series.description ?? null,
+      duration_minutes: updates.duration_minutes ?? series.duration_minutes,
+      reminder_minutes: updates.reminder_minutes !== undefined ? updates.reminder_minutes : series.reminder_minutes ?? null,
+    };
+    const before = countOccurrencesBefore(series, fromDate);
+    const slot = getOccurrenceStart(series, fromDate) || parseISO(meeting.scheduled_at);
+    const now = new Date().toISOString();
+
+    const nextSeriesInput = {
+      ...fields,
+      room_name: series.room_name,
+      start_at: moveStart(slot).toISOString(),
+      frequency: series.frequency,
+      until_date: series.until_date ?? null,
+      occurrence_count: series.occurrence_count ? series.occurrence_count - before : null,
+      exceptions: series.exceptions.filter(d => d >= fromDate).map(shiftDate),
+      participant_ids: series.participant_ids,
+      time_zone: series.time_zone,
+    };
+    // Si se cambia desde la primera ocurrencia la serie original desaparece
+    const previousEnd = before > 0 ? { until_date: format(subDays(parseISO(fromDate), 1), 'yyyy-MM-dd'), occurrence_count: null } : null;
+    const targets = get().meetings.filter((m) => m.series_id === series.id && (m.occurrence_date || '') >= fromDate);
+
+    const targetUpdates = (seriesId: string) => targets.map((target) => ({
+      id: target.id,
+      changes: {
+        ...fields,
+        description: fields.description ?? undefined,
+        scheduled_at: moveStart(parseISO(target.scheduled_at)).toISOString(),
+        series_id: seriesId,
+        occurrence_date: shiftDate(target.occurrence_date!),
+      },
+    }));
+
+    const applyLocal = (nextSeries: MeetingSeries) => {
+      const changesById = new Map(targetUpdates(nextSeries.id).map((t) => [t.id, t.changes]));
+      set((state) => ({
+        series: [
+          ...state.series
+            .filter((s) => s.id !== series.id || previousEnd)
+            .map((s) => (s.id === series.id ? { ...s, ...previousEnd, updated_at: now } : s)),
+          nextSeries,
+        ],
+        meetings: sortByDate(state.meetings.map((m) =>
+          changesById.has(m.id) ? { ...m, ...changesById.get(m.id), updated_at: now } : m
+        )),
+      }));
+    };
+
+    if (!isSupabaseConfigured || !supabase) {
+      applyLocal({ ...nextSeriesInput, id: generateId(), created_by: series.created_by, created_at: now, updated_at: now });
+      return { error: null };
+    }
+
+    try {
+      const { error } = await supabase.rpc('split_meeting_series', {
+        p_meeting_id: id,
+        p_title: fields.title,
+        p_description: fields.description,
+        p_duration_minutes: fields.duration_minutes,
+        p_reminder_minutes: fields.reminder_minutes,
+        p_scheduled_at: updates.scheduled_at ?? null,
+      });
+      if (error) return { error: error.message };
+
+      await logActivity({
+        entityType: 'meeting',
+        entityId: id,
+        action: 'updated',
+        description: `Actualizó la reunión periódica "${fields.title}" desde el ${format(parseISO(fromDate), 'dd/MM/yyyy')}`,
+        changes: diffChanges(meeting, { ...fields, scheduled_at: updates.scheduled_at }),
+      });
+
+      // El servidor movió también las ocurrencias que aquí no estaban cargadas
+      await get().fetchMeetings();
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  deleteMeeting: async (id, scope) => {
+    // Igual que la política mtg_delete: solo quien la creó
+    const meeting = get().meetings.find((m) => m.id === id);
+    if (meeting && meeting.created_by !== useAuthStore.getState().user?.id) {
+      return { error: 'Solo quien creó la reunión puede eliminarla' };
+    }
+
+    const series = meeting?.series_id ? get().series.find((s) => s.id === meeting.series_id) : undefined;
+    if (meeting?.occurrence_date && series && scope) {
+      const fromDate = meeting.occurrence_date;
+      const removedIds = new Set((scope === 'single'
+        ? [meeting]
+        : get().meetings.filter((m) => m.series_id === series.id && (m.occurrence_date || '') >= fromDate)
+      ).map((m) => m.id));
+      // Un día omitido queda como excepción para no volver a generarlo; sin
+      // las siguientes la serie termina el día anterior (o desaparece)
+      const seriesChanges: Partial<MeetingSeries> | null = scope === 'single'
+        ? { exceptions: [...series.exceptions, fromDate] }
+        : countOccurrencesBefore(series, fromDate) > 0
+          ? { until_date: format(subDays(parseISO(fromDate), 1), 'yyyy-MM-dd'), occurrence_count: null }
+          : null;
+
+      const applyLocal = () => set((state) => ({
+        meetings: state.meetings.filter((m) => !removedIds.has(m.id)),
+        series: seriesChanges
+          ? state.series.map((s) => (s.id === series.id ? { ...s, ...seriesChanges } : s))
+          : state.series.filter((s) => s.id !== series.id),
+      }));
+
+      if (!isSupabaseConfigured || !supabase) {
+        applyLocal();
+        return { error: null };
+      }
+
+      try {
+        // La serie y sus reuniones cambian en una sola transacción
+        const { error } = await supabase.rpc('delete_meeting_occurrences', { p_meeting_id: id, p_scope: scope });
+        if (error) return { error: error.message };
+
+        await logActivity({
+          entityType: 'meeting',
+          entityId: id,
+          action: 'deleted',
+          description: scope === 'single'
+            ? `Omitió la reunión "${meeting.title}" del ${format(parseISO(fromDate), 'dd/MM/yyyy')}`
+            : `Eliminó la reunión periódica "${meeting.title}" desde el ${format(parseISO(fromDate), 'dd/MM/yyyy')}`,
+        });
+
+        applyLocal();
+        return { error: null };
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    }
+
     if (!isSupabaseConfigured || !supabase) {
       set((state) => ({
         meetings: state.meetings.filter((m) => m.id !== id),
@@ -150,9 +697,17 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
     }
 
     try {
+      const deleted = get().meetings.find((m) => m.id === id);
       const { error } = await supabase.from('meetings').delete().eq('id', id);
       if (error) return { error: error.message };
 
+      await logActivity({
+        entityType: 'meeting',
+        entityId: id,
+        action: 'deleted',
+        description: `Eliminó la reunión "${deleted?.title || ''}"`,
+      });
+
       set((state) => ({
         meetings: state.meetings.filter((m) => m.id !== id),
       }));
@@ -173,6 +728,7 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
     }
 
     try {
+      const previous = get().meetings.find((m) => m.id === id);
       const { error } = await supabase
         .from('meetings')
         .update({ status, updated_at: new Date().toISOString() })
@@ -180,6 +736,14 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
 
       if (error) return { error: error.message };
 
+      await logActivity({
+        entityType: 'meeting',
+        entityId: id,
+        action: 'updated',
+        description: `Cambió el estado de la reunión "${previous?.title || ''}"`,
+        changes: diffChanges(previous, { status }),
+      });
+
       set((state) => ({
         meetings: state.meetings.map((m) =>
           m.id === id ? { ...m, status } : m
@@ -248,7 +812,16 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
   },
 
   updateParticipantStatus: async (meetingId, status) => {
+    const applyStatus = (userId: string | undefined) => set((state) => ({
+      meetings: state.meetings.map((m) =>
+        m.id === meetingId
+          ? { ...m, participants: m.participants?.map(p => (p.user_id === userId ? { ...p, status } : p)) }
+          : m
+      ),
+    }));
+
     if (!isSupabaseConfigured || !supabase) {
+      applyStatus(useAuthStore.getState().user?.id);
       return { error: null };
     }
 
@@ -267,9 +840,271 @@ export const useMeetingsStore = create<MeetingsState>((set) => ({
         .eq('user_id', userId);
 
       if (error) return { error: error.message };
+      applyStatus(userId);
       return { error: null };
     } catch (err: any) {
       return { error: err.message };
     }
   },
+
+  // Crea los avisos pendientes (una vez por reunión y asistente). También lo
+  // hace pg_cron si está disponible; la función es idempotente.
+  sendMeetingReminders: async () => {
+    if (!isSupabaseConfigured || !supabase) return;
+
+    const { error } = await supabase.rpc('send_meeting_reminders');
+    if (error) console.error('Error sending meeting reminders:', error);
+  },
+
+  addAgendaItem: async (meetingId, item) => {
+    const meeting = get().meetings.find((m) => m.id === meetingId);
+    const position = Math.max(0, ...(meeting?.agenda || []).map((a) => a.position + 1));
+
+    if (!isSupabaseConfigured || !supabase) {
+      const newItem: MeetingAgendaItem = {
+        id: generateId(),
+        meeting_id: meetingId,
+        title: item.title,
+        duration_minutes: item.duration_minutes ?? null,
+        position,
+        is_done: false,
+        created_by: useAuthStore.getState().user?.id || 'demo-user',
+        created_at: new Date().toISOString(),
+      };
+      set((state) => ({ meetings: withAgenda(state.meetings, meetingId, (agenda) => [...agenda, newItem]) }));
+      return { error: null };
+    }
+
+    try {
+      const currentUser = (await supabase.auth.getUser()).data.user;
+      const { data, error } = await supabase
+        .from('meeting_agenda_items')
+        .insert([{
+          meeting_id: meetingId,
+          title: item.title,
+          duration_minutes: item.duration_minutes ?? null,
+          position,
+          created_by: currentUser?.id,
+        }])
+        .select()
+        .single();
+
+      if (error) return { error: error.message };
+      set((state) => ({
+        meetings: withAgenda(state.meetings, meetingId, (agenda) =>
+          agenda.some((a) => a.id === data.id) ? agenda : [...agenda, data]
+        ),
+      }));
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  updateAgendaItem: async (meetingId, id, updates) => {
+    const applyUpdates = () => set((state) => ({
+      meetings: withAgenda(state.meetings, meetingId, (agenda) =>
+        agenda.map((a) => (a.id === id ? { ...a, ...updates } : a))
+      ),
+    }));
+
+    if (!isSupabaseConfigured || !supabase) {
+      applyUpdates();
+      return { error: null };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('meeting_agenda_items')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) return { error: error.message };
+      applyUpdates();
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  deleteAgendaItem: async (meetingId, id) => {
+    const removeItem = () => set((state) => ({
+      meetings: withAgenda(state.meetings, meetingId, (agenda) => agenda.filter((a) => a.id !== id)),
+    }));
+
+    if (!isSupabaseConfigured || !supabase) {
+      removeItem();
+      return { error: null };
+    }
+
+    try {
+      const { error } = await supabase.from('meeting_agenda_items').delete().eq('id', id);
+      if (error) return { error: error.message };
+      removeItem();
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  // Intercambia la posición con el punto anterior o el siguiente
+  moveAgendaItem: async (meetingId, id, direction) => {
+    const meeting = get().meetings.find((m) => m.id === meetingId);
+    if (!meeting) return { error: null };
+
+    const agenda = getSortedAgenda(meeting);
+    const index = agenda.findIndex((a) => a.id === id);
+    const other = agenda[index + direction];
+    if (index === -1 || !other) return { error: null };
+
+    const current = agenda[index];
+    const first = await get().updateAgendaItem(meetingId, current.id, { position: other.position });
+    if (first.error) return first;
+    return get().updateAgendaItem(meetingId, other.id, { position: current.position });
+  },
+
+  // Con una función porque mtg_update solo deja editar a quien creó la reunión
+  saveMinutes: async (meetingId, content, expectedUpdatedAt) => {
+    const userId = useAuthStore.getState().user?.id;
+    const applyMinutes = (minutes: Pick<Meeting, 'minutes' | 'minutes_updated_at' | 'minutes_updated_by'>) =>
+      set((state) => ({
+        meetings: state.meetings.map((m) => (m.id === meetingId ? { ...m, ...minutes } : m)),
+      }));
+
+    if (!isSupabaseConfigured || !supabase) {
+      const updatedAt = new Date().toISOString();
+      applyMinutes({ minutes: content, minutes_updated_at: updatedAt, minutes_updated_by: userId });
+      return { error: null, updatedAt };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('save_meeting_minutes', {
+        p_meeting_id: meetingId,
+        p_content: content,
+        p_expected_updated_at: expectedUpdatedAt,
+      });
+
+      if (error) return { error: error.message };
+
+      if (!data) {
+        // Otro asistente guardó antes: traer su versión por si no llegó por realtime
+        const { data: latest } = await supabase
+          .from('meetings')
+          .select('minutes, minutes_updated_at, minutes_updated_by')
+          .eq('id', meetingId)
+          .maybeSingle();
+        if (latest) applyMinutes(latest);
+        return { error: null, conflict: true };
+      }
+
+      applyMinutes({ minutes: content, minutes_updated_at: data, minutes_updated_by: userId });
+      return { error: null, updatedAt: data };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
+  // Las acciones del acta son tareas normales enlazadas a la reunión
+  createActionItem: async (meeting, item) => {
+    return useNotesStore.getState().createNote({
+      title: item.title,
+      content: `Acción acordada en la reunión "${meeting.title}".`,
+      type: 'task',
+      status: 'pending',
+      priority: 'medium',
+      assigned_to: item.assigned_to || null,
+      due_date: item.due_date || null,
+      meeting_id: meeting.id,
+      created_by: useAuthStore.getState().user?.id,
+    });
+  },
+
+  subscribeToMeetings: () => {
+    if (!isSupabaseConfigured || !supabase) {
+      return () => {};
+    }
+
+    const supabaseClient = supabase; // TypeScript narrowing
+    const tracker = trackChannelStatus('meetings', () => get().fetchMeetings());
+
+    // Recargar una reunión completa (con creador y participantes)
+    const refreshMeeting = async (meetingId: string) => {
+      const { data } = await supabaseClient
+        .from('meetings')
+        .select(meetingSelect)
+        .eq('id', meetingId)
+        .maybeSingle();
+
+      set((state) => {
+        if (!data) {
+          // Ya no es visible para este usuario (RLS) o fue eliminada
+          return { meetings: state.meetings.filter((m) => m.id !== meetingId) };
+        }
+        const exists = state.meetings.some((m) => m.id === meetingId);
+        const meetings = exists
+          ? state.meetings.map((m) => (m.id === meetingId ? data : m))
+          : [...state.meetings, data];
+        return {
+          meetings: meetings.sort(
+            (a, b) => new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime()
+          ),
+        };
+      });
+    };
+
+    const channel = supabaseClient
+      .channel('meetings-changes')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'meetings' },
+        (payload) => refreshMeeting(payload.new.id)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'meetings' },
+        (payload) => {
+          set((state) => ({
+            meetings: state.meetings.map((m) =>
+              m.id === payload.new.id ? { ...m, ...(payload.new as Meeting) } : m
+            ),
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'meetings' },
+        (payload) => {
+          set((state) => ({
+            meetings: state.meetings.filter((m) => m.id !== payload.old.id),
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'meeting_participants' },
+        (payload) => {
+          // Los DELETE solo traen el id: la reunión se busca entre las cargadas
+          const deletedId = (payload.old as Partial<MeetingParticipant>)?.id;
+          const meetingId = (payload.new as MeetingParticipant)?.meeting_id
+            || get().meetings.find((m) => m.participants?.some((p) => p.id === deletedId))?.id;
+          if (meetingId) refreshMeeting(meetingId);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'meeting_agenda_items' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<MeetingAgendaItem>)?.id;
+          const meetingId = (payload.new as MeetingAgendaItem)?.meeting_id
+            || get().meetings.find((m) => m.agenda?.some((item) => item.id === deletedId))?.id;
+          if (meetingId) refreshMeeting(meetingId);
+        }
+      )
+      .subscribe(tracker.onStatus);
+
+    return () => {
+      tracker.stop();
+      supabaseClient.removeChannel(channel);
+    };
+  },
 }));
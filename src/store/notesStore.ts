@@ -1,6 +1,19 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { supabase, isSupabaseConfigured, Note, createNotification } from '../lib/supabase';
+import { supabase, isSupabaseConfigured, Note, createNotification, logActivity, diffChanges } from '../lib/supabase';
+import { trackChannelStatus } from './realtimeStore';
+import {
+  useOutboxStore,
+  OutboxConflict,
+  generateOfflineId,
+  isOffline,
+  isNetworkError,
+  applyPendingEntries,
+  replayEntry,
+  forceApply,
+  fetchRemoteRecord,
+  rejectedChangeMessage,
+} from './outboxStore';
 
 interface NotesState {
   notes: Note[];
@@ -20,11 +33,41 @@ interface NotesState {
   deleteNote: (id: string) => Promise<{ error: string | null }>;
   setSelectedNote: (note: Note | null) => void;
   setFilter: (filter: Partial<NotesState['filter']>) => void;
+  subscribeToNotes: () => () => void;
+  flushOutbox: () => Promise<void>;
+  resolveConflict: (conflict: OutboxConflict, keep: 'local' | 'remote') => Promise<{ error: string | null }>;
 }
 
 // Generar ID único para modo demo
 const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+// Dejar la nota `id` como `note`: se reemplaza, se vuelve a agregar o, si es null, se quita
+const upsertNote = (notes: Note[], id: string, note: Note | null) =>
+  note
+    ? notes.some((n) => n.id === id)
+      ? notes.map((n) => (n.id === id ? note : n))
+      : [note, ...notes]
+    : notes.filter((n) => n.id !== id);
+
+// Guardar en la cola una nota creada sin conexión
+const queueOfflineCreate = (cleanedNote: Partial<Note>): Note => {
+  const offlineNote = {
+    tags: [],
+    ...cleanedNote,
+    id: generateOfflineId(),
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  } as Note;
+  useOutboxStore.getState().enqueue({
+    table: 'notes',
+    op: 'create',
+    recordId: offlineNote.id,
+    payload: cleanedNote,
+    snapshot: offlineNote,
+  });
+  return offlineNote;
+};
+
 export const useNotesStore = create<NotesState>()(
   persist(
     (set, get) => ({
@@ -61,7 +104,8 @@ export const useNotesStore = create<NotesState>()(
 
           const { data, error } = await query;
           if (error) throw error;
-          set({ notes: data || [], isLoading: false });
+          // No perder los cambios hechos sin conexión que aún no se sincronizan
+          set({ notes: applyPendingEntries(data || [], 'notes'), isLoading: false });
         } catch (error) {
           console.error('Error fetching notes:', error);
           set({ isLoading: false });
@@ -79,6 +123,9 @@ export const useNotesStore = create<NotesState>()(
             status: note.status || 'pending',
             priority: note.priority || 'medium',
             project: note.project,
+            assigned_to: note.assigned_to,
+            due_date: note.due_date,
+            meeting_id: note.meeting_id,
             created_by: note.created_by || 'demo-user',
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
@@ -88,22 +135,42 @@ export const useNotesStore = create<NotesState>()(
           return { error: null };
         }
 
-        try {
-          // Limpiar campos vacíos - convertir "" a null para campos UUID
-          const cleanedNote = {
-            ...note,
-            assigned_to: note.assigned_to || null,
-            parent_id: note.parent_id || null,
-            project: note.project || null,
-          };
+        // Limpiar campos vacíos - convertir "" a null para campos UUID
+        const cleanedNote = {
+          ...note,
+          assigned_to: note.assigned_to || null,
+          parent_id: note.parent_id || null,
+          project: note.project || null,
+        };
 
+        // Sin conexión - encolar y mostrar la nota de inmediato
+        if (isOffline()) {
+          const offlineNote = queueOfflineCreate(cleanedNote);
+          set((state) => ({ notes: [offlineNote, ...state.notes] }));
+          return { error: null };
+        }
+
+        try {
           const { data, error } = await supabase
             .from('notes')
             .insert([cleanedNote])
             .select()
             .single();
 
-          if (error) return { error: error.message };
+          if (error) {
+            if (!isNetworkError(error)) return { error: error.message };
+            const offlineNote = queueOfflineCreate(cleanedNote);
+            set((state) => ({ notes: [offlineNote, ...state.notes] }));
+            return { error: null };
+          }
+
+          await logActivity({
+            entityType: 'note',
+            entityId: data.id,
+            noteId: data.id,
+            action: 'created',
+            description: `Creó "${data.title}"`,
+          });
 
           // Notificar al usuario asignado (si es diferente al creador)
           if (cleanedNote.assigned_to && cleanedNote.assigned_to !== cleanedNote.created_by) {
@@ -126,11 +193,14 @@ export const useNotesStore = create<NotesState>()(
       },
 
       updateNote: async (id, updates) => {
-        // Modo demo
+        // Modo demo (completed_at lo pondría el trigger en Supabase)
         if (!isSupabaseConfigured || !supabase) {
+          const completion = 'status' in updates
+            ? { completed_at: updates.status === 'completed' ? new Date().toISOString() : null }
+            : {};
           set((state) => ({
             notes: state.notes.map((n) => 
-              n.id === id ? { ...n, ...updates, updated_at: new Date().toISOString() } : n
+              n.id === id ? { ...n, ...updates, ...completion, updated_at: new Date().toISOString() } : n
             ),
             selectedNote: state.selectedNote?.id === id 
               ? { ...state.selectedNote, ...updates } 
@@ -139,28 +209,50 @@ export const useNotesStore = create<NotesState>()(
           return { error: null };
         }
 
-        try {
-          // Limpiar campos vacíos - convertir "" a null para campos UUID
-          const cleanedUpdates = {
-            ...updates,
-            updated_at: new Date().toISOString(),
-          };
-          
-          // Solo limpiar si el campo está presente en updates
-          if ('assigned_to' in updates) {
-            cleanedUpdates.assigned_to = updates.assigned_to || null;
-          }
-          if ('parent_id' in updates) {
-            cleanedUpdates.parent_id = updates.parent_id || null;
-          }
-          if ('project' in updates) {
-            cleanedUpdates.project = updates.project || null;
-          }
+        // Limpiar campos vacíos - convertir "" a null para campos UUID
+        const cleanedUpdates = {
+          ...updates,
+          updated_at: new Date().toISOString(),
+        };
+        
+        // Solo limpiar si el campo está presente en updates
+        if ('assigned_to' in updates) {
+          cleanedUpdates.assigned_to = updates.assigned_to || null;
+        }
+        if ('parent_id' in updates) {
+          cleanedUpdates.parent_id = updates.parent_id || null;
+        }
+        if ('project' in updates) {
+          cleanedUpdates.project = updates.project || null;
+        }
+
+        // Sin conexión - aplicar localmente y encolar con el updated_at que conocíamos
+        const queueOfflineUpdate = () => {
+          const current = get().notes.find((n) => n.id === id);
+          useOutboxStore.getState().enqueue({
+            table: 'notes',
+            op: 'update',
+            recordId: id,
+            payload: cleanedUpdates,
+            snapshot: { ...current, ...cleanedUpdates },
+            baseUpdatedAt: current?.updated_at,
+          });
+          set((state) => ({
+            notes: state.notes.map((n) => (n.id === id ? { ...n, ...cleanedUpdates } : n)),
+            selectedNote: state.selectedNote?.id === id
+              ? { ...state.selectedNote, ...cleanedUpdates }
+              : state.selectedNote,
+          }));
+          return { error: null };
+        };
+
+        if (isOffline()) return queueOfflineUpdate();
 
-          // Obtener la nota actual para verificar cambios en asignación
+        try {
+          // Obtener la nota actual para verificar cambios en asignación y registrar el historial
           const { data: currentNote } = await supabase
             .from('notes')
-            .select('assigned_to, title')
+            .select('*')
             .eq('id', id)
             .single();
 
@@ -171,7 +263,21 @@ export const useNotesStore = create<NotesState>()(
             .select()
             .single();
 
-          if (error) return { error: error.message };
+          if (error) {
+            return isNetworkError(error) ? queueOfflineUpdate() : { error: error.message };
+          }
+
+          const changes = diffChanges(currentNote, cleanedUpdates);
+          await logActivity({
+            entityType: 'note',
+            entityId: id,
+            noteId: id,
+            action: 'updated',
+            description: 'status' in changes
+              ? `Cambió el estado de "${data.title}"`
+              : `Actualizó "${data.title}"`,
+            changes,
+          });
 
           // Notificar si se cambió la asignación a un nuevo usuario
           if (cleanedUpdates.assigned_to && 
@@ -207,9 +313,41 @@ export const useNotesStore = create<NotesState>()(
           return { error: null };
         }
 
+        const deleted = get().notes.find((n) => n.id === id);
+
+        // Sin conexión - quitarla localmente y encolar
+        const queueOfflineDelete = () => {
+          useOutboxStore.getState().enqueue({
+            table: 'notes',
+            op: 'delete',
+            recordId: id,
+            payload: {},
+            baseUpdatedAt: deleted?.updated_at,
+          });
+          set((state) => ({
+            notes: state.notes.filter((n) => n.id !== id),
+            selectedNote: state.selectedNote?.id === id ? null : state.selectedNote,
+          }));
+          return { error: null };
+        };
+
+        if (isOffline()) return queueOfflineDelete();
+
         try {
           const { error } = await supabase.from('notes').delete().eq('id', id);
-          if (error) return { error: error.message };
+          if (error) {
+            return isNetworkError(error) ? queueOfflineDelete() : { error: error.message };
+          }
+
+          // La nota ya no existe: el registro queda enlazado solo por entity_id
+          await logActivity({
+            entityType: 'note',
+            entityId: id,
+            action: 'deleted',
+            description: `Eliminó "${deleted?.title || 'una nota'}"`,
+            changes: deleted ? { title: { old: deleted.title, new: null }, status: { old: deleted.status, new: null } } : undefined,
+          });
+
           set((state) => ({
             notes: state.notes.filter((n) => n.id !== id),
             selectedNote: state.selectedNote?.id === id ? null : state.selectedNote,
@@ -226,6 +364,162 @@ export const useNotesStore = create<NotesState>()(
         set((state) => ({ filter: { ...state.filter, ...filter } }));
         get().fetchNotes();
       },
+
+      subscribeToNotes: () => {
+        if (!isSupabaseConfigured || !supabase) {
+          return () => {};
+        }
+
+        const supabaseClient = supabase; // TypeScript narrowing
+        const tracker = trackChannelStatus('notes', () => get().fetchNotes());
+
+        // Respetar los filtros activos al recibir notas nuevas o modificadas
+        const matchesFilter = (note: Note) => {
+          const { filter } = get();
+          if (filter.type && note.type !== filter.type) return false;
+          if (filter.status && note.status !== filter.status) return false;
+          if (filter.priority && note.priority !== filter.priority) return false;
+          if (filter.search && !note.title.toLowerCase().includes(filter.search.toLowerCase())) return false;
+          return true;
+        };
+
+        const channel = supabaseClient
+          .channel('notes-changes')
+          .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'notes' },
+            (payload) => {
+              const newNote = payload.new as Note;
+              if (!matchesFilter(newNote)) return;
+              set((state) => {
+                // Evitar duplicados (la nota propia ya se agregó en createNote)
+                if (state.notes.some((n) => n.id === newNote.id)) return state;
+                return { notes: [newNote, ...state.notes] };
+              });
+            }
+          )
+          .on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'notes' },
+            (payload) => {
+              const updated = payload.new as Note;
+              set((state) => {
+                const exists = state.notes.some((n) => n.id === updated.id);
+                if (!matchesFilter(updated)) {
+                  return exists
+                    ? { notes: state.notes.filter((n) => n.id !== updated.id) }
+                    : state;
+                }
+                return {
+                  notes: exists
+                    ? state.notes.map((n) => (n.id === updated.id ? { ...n, ...updated } : n))
+                    : [updated, ...state.notes],
+                  selectedNote: state.selectedNote?.id === updated.id
+                    ? { ...state.selectedNote, ...updated }
+                    : state.selectedNote,
+                };
+              });
+            }
+          )
+          .on(
+            'postgres_changes',
+            { event: 'DELETE', schema: 'public', table: 'notes' },
+            (payload) => {
+              set((state) => ({
+                notes: state.notes.filter((n) => n.id !== payload.old.id),
+                selectedNote: state.selectedNote?.id === payload.old.id ? null : state.selectedNote,
+              }));
+            }
+          )
+          .subscribe(tracker.onStatus);
+
+        return () => {
+          tracker.stop();
+          supabaseClient.removeChannel(channel);
+        };
+      },
+
+      flushOutbox: async () => {
+        if (!isSupabaseConfigured || !supabase || isOffline()) return;
+
+        const outbox = useOutboxStore.getState();
+        if (outbox.isSyncing) return;
+        outbox.setSyncing(true);
+
+        try {
+          // Procesar en orden; si la red vuelve a caer se deja el resto para después
+          for (;;) {
+            const entry = useOutboxStore.getState().entries.find((e) => e.table === 'notes');
+            if (!entry) break;
+
+            const result = await replayEntry(entry);
+            if (result.status === 'offline') break;
+            useOutboxStore.getState().dequeue(entry.id);
+
+            if (result.status === 'conflict') {
+              useOutboxStore.getState().addConflict({
+                entry,
+                local: entry.op === 'delete' ? null : entry.snapshot || null,
+                remote: result.remote,
+              });
+              continue;
+            }
+
+            if (result.status === 'error') {
+              // El servidor lo rechazó (permisos, validación): reintentar no sirve.
+              // Se deshace el cambio local; una nota creada sin conexión desaparece.
+              console.error('Error syncing offline note change:', result.message);
+              const remote = entry.op === 'create' ? null : await fetchRemoteRecord('notes', entry.recordId);
+              if (remote !== undefined) {
+                set((state) => ({ notes: upsertNote(state.notes, entry.recordId, remote as Note | null) }));
+              }
+              useOutboxStore.getState().setLastError(rejectedChangeMessage(entry, result.message));
+              continue;
+            }
+
+            const record = result.record as Note | null;
+            if (entry.op === 'create' && record) {
+              // Reemplazar el ID temporal en el estado y en la cola
+              useOutboxStore.getState().remapRecordId(entry.recordId, record.id, record.updated_at);
+              set((state) => ({
+                notes: state.notes.map((n) => (n.id === entry.recordId ? record : n)),
+              }));
+            } else if (entry.op === 'update' && record) {
+              set((state) => ({
+                notes: state.notes.map((n) => (n.id === record.id ? record : n)),
+              }));
+            }
+
+            await logActivity({
+              entityType: 'note',
+              entityId: record?.id || entry.recordId,
+              noteId: record?.id,
+              action: entry.op === 'create' ? 'created' : entry.op === 'update' ? 'updated' : 'deleted',
+              description: `${entry.op === 'create' ? 'Creó' : entry.op === 'update' ? 'Actualizó' : 'Eliminó'} "${record?.title || entry.snapshot?.title || 'una nota'}" (sin conexión)`,
+            });
+          }
+        } finally {
+          useOutboxStore.getState().setSyncing(false);
+        }
+      },
+
+      resolveConflict: async (conflict, keep) => {
+        if (keep === 'remote') {
+          const remote = conflict.remote as Note | null;
+          set((state) => ({ notes: upsertNote(state.notes, conflict.entry.recordId, remote) }));
+          useOutboxStore.getState().removeConflict(conflict.id);
+          return { error: null };
+        }
+
+        const result = await forceApply(conflict.entry, conflict.remote);
+        if (result.status === 'offline') return { error: 'Sin conexión' };
+        if (result.status === 'error') return { error: result.message };
+
+        const record = result.status === 'applied' ? (result.record as Note | null) : null;
+        set((state) => ({ notes: upsertNote(state.notes, conflict.entry.recordId, record) }));
+        useOutboxStore.getState().removeConflict(conflict.id);
+        return { error: null };
+      },
     }),
     {
       name: 'notes-storage',
@@ -0,0 +1,256 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase } from '../lib/supabase';
+
+export type OutboxTable = 'notes' | 'personal_notes';
+
+export interface OutboxEntry {
+  id: string;
+  table: OutboxTable;
+  op: 'create' | 'update' | 'delete';
+  recordId: string;
+  // Lo que se envía a Supabase (insert / update)
+  payload: Record<string, any>;
+  // Registro local después del cambio, para volver a aplicarlo sobre un fetch
+  snapshot?: Record<string, any>;
+  // updated_at del registro antes de editarlo sin conexión
+  baseUpdatedAt?: string;
+  queuedAt: string;
+}
+
+export interface OutboxConflict {
+  id: string;
+  entry: OutboxEntry;
+  // null = eliminado localmente / en el servidor
+  local: Record<string, any> | null;
+  remote: Record<string, any> | null;
+}
+
+export type ReplayResult =
+  | { status: 'applied'; record: Record<string, any> | null }
+  | { status: 'conflict'; remote: Record<string, any> | null }
+  | { status: 'offline' }
+  | { status: 'error'; message: string };
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  conflicts: OutboxConflict[];
+  isSyncing: boolean;
+  lastError: string | null;
+
+  enqueue: (entry: Omit<OutboxEntry, 'id' | 'queuedAt'>) => void;
+  dequeue: (id: string) => void;
+  remapRecordId: (tempId: string, realId: string, updatedAt: string) => void;
+  addConflict: (conflict: Omit<OutboxConflict, 'id'>) => void;
+  removeConflict: (id: string) => void;
+  setSyncing: (isSyncing: boolean) => void;
+  setLastError: (error: string | null) => void;
+}
+
+const generateId = () => `outbox-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// ID temporal para registros creados sin conexión
+export const generateOfflineId = () => `offline-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Campos que vienen de joins y no existen como columnas
+const JOIN_FIELDS = ['assigned_user', 'owner', 'shares'];
+const toRow = (record: Record<string, any>) =>
+  Object.fromEntries(Object.entries(record).filter(([key]) => !JOIN_FIELDS.includes(key)));
+
+export const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// supabase-js devuelve los fallos de red como error con el mensaje del fetch
+export const isNetworkError = (error: any) =>
+  error instanceof TypeError ||
+  /failed to fetch|networkerror|load failed|network request failed/i.test(error?.message || '');
+
+const hasChangedSince = (remoteUpdatedAt?: string, baseUpdatedAt?: string) => {
+  if (!remoteUpdatedAt || !baseUpdatedAt) return false;
+  return new Date(remoteUpdatedAt).getTime() !== new Date(baseUpdatedAt).getTime();
+};
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set) => ({
+      entries: [],
+      conflicts: [],
+      isSyncing: false,
+      lastError: null,
+
+      enqueue: (entry) => {
+        set((state) => {
+          const pending = state.entries.filter(
+            (e) => e.table === entry.table && e.recordId === entry.recordId
+          );
+          const pendingCreate = pending.find((e) => e.op === 'create');
+          const pendingUpdate = pending.find((e) => e.op === 'update');
+
+          if (entry.op === 'delete' && pendingCreate) {
+            // Nunca llegó al servidor: basta con olvidarlo
+            return { entries: state.entries.filter((e) => !pending.includes(e)) };
+          }
+
+          if (entry.op === 'delete') {
+            // Las ediciones previas ya no importan, pero sí el updated_at original
+            const others = state.entries.filter((e) => !pending.includes(e));
+            return {
+              entries: [...others, {
+                ...entry,
+                baseUpdatedAt: pendingUpdate?.baseUpdatedAt || entry.baseUpdatedAt,
+                id: generateId(),
+                queuedAt: new Date().toISOString(),
+              }],
+            };
+          }
+
+          // Unir ediciones sucesivas en la misma entrada para conservar el orden
+          const target = entry.op === 'update' ? pendingCreate || pendingUpdate : undefined;
+          if (target) {
+            return {
+              entries: state.entries.map((e) =>
+                e.id === target.id
+                  ? { ...e, payload: { ...e.payload, ...entry.payload }, snapshot: entry.snapshot }
+                  : e
+              ),
+            };
+          }
+
+          return {
+            entries: [...state.entries, { ...entry, id: generateId(), queuedAt: new Date().toISOString() }],
+          };
+        });
+      },
+
+      dequeue: (id) => {
+        set((state) => ({ entries: state.entries.filter((e) => e.id !== id) }));
+      },
+
+      remapRecordId: (tempId, realId, updatedAt) => {
+        set((state) => ({
+          entries: state.entries.map((e) =>
+            e.recordId === tempId
+              ? {
+                  ...e,
+                  recordId: realId,
+                  baseUpdatedAt: updatedAt,
+                  snapshot: e.snapshot ? { ...e.snapshot, id: realId } : e.snapshot,
+                }
+              : e
+          ),
+        }));
+      },
+
+      addConflict: (conflict) => {
+        set((state) => ({ conflicts: [...state.conflicts, { ...conflict, id: generateId() }] }));
+      },
+
+      removeConflict: (id) => {
+        set((state) => ({ conflicts: state.conflicts.filter((c) => c.id !== id) }));
+      },
+
+      setSyncing: (isSyncing) => set({ isSyncing }),
+
+      setLastError: (lastError) => set({ lastError }),
+    }),
+    {
+      name: 'outbox-storage',
+      partialize: (state) => ({ entries: state.entries, conflicts: state.conflicts, lastError: state.lastError }),
+    }
+  )
+);
+
+// Vuelve a aplicar los cambios pendientes sobre una lista recién traída del servidor
+export function applyPendingEntries<T extends { id: string }>(records: T[], table: OutboxTable): T[] {
+  return useOutboxStore.getState().entries
+    .filter((e) => e.table === table)
+    .reduce((list, entry) => {
+      if (entry.op === 'delete') return list.filter((r) => r.id !== entry.recordId);
+      if (!entry.snapshot) return list;
+      const exists = list.some((r) => r.id === entry.recordId);
+      if (entry.op === 'create' && !exists) return [entry.snapshot as T, ...list];
+      return list.map((r) => (r.id === entry.recordId ? { ...r, ...entry.snapshot } : r));
+    }, records);
+}
+
+// Versión del servidor de un registro para deshacer un cambio rechazado.
+// undefined si no se pudo consultar (se deja el estado local como está).
+export async function fetchRemoteRecord(table: OutboxTable, id: string): Promise<Record<string, any> | null | undefined> {
+  if (!supabase) return undefined;
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+  return error ? undefined : data;
+}
+
+// Mensaje para el usuario cuando el servidor rechaza un cambio hecho sin conexión
+export const rejectedChangeMessage = (entry: OutboxEntry, message: string) => {
+  const title = entry.snapshot?.title || entry.payload.title;
+  return `No se pudo sincronizar ${title ? `"${title}"` : 'un cambio'} y se deshizo: ${message}`;
+};
+
+// Envía una entrada al servidor. Antes de editar o eliminar compara updated_at
+// con el que se vio al trabajar sin conexión para detectar cambios de otros.
+export async function replayEntry(entry: OutboxEntry): Promise<ReplayResult> {
+  if (!supabase) return { status: 'offline' };
+
+  try {
+    if (entry.op === 'create') {
+      const { data, error } = await supabase
+        .from(entry.table)
+        .insert([entry.payload])
+        .select()
+        .single();
+
+      if (error) return isNetworkError(error) ? { status: 'offline' } : { status: 'error', message: error.message };
+      return { status: 'applied', record: data };
+    }
+
+    const { data: remote, error: fetchError } = await supabase
+      .from(entry.table)
+      .select('*')
+      .eq('id', entry.recordId)
+      .maybeSingle();
+
+    if (fetchError) {
+      return isNetworkError(fetchError) ? { status: 'offline' } : { status: 'error', message: fetchError.message };
+    }
+
+    if (entry.op === 'delete' && !remote) {
+      return { status: 'applied', record: null };
+    }
+    if (!remote || hasChangedSince(remote.updated_at, entry.baseUpdatedAt)) {
+      return { status: 'conflict', remote };
+    }
+
+    return await forceApply(entry, remote);
+  } catch (err: any) {
+    return isNetworkError(err) ? { status: 'offline' } : { status: 'error', message: err.message };
+  }
+}
+
+// Aplica la versión local sin comprobar conflictos ("mantener mi versión")
+export async function forceApply(entry: OutboxEntry, remote: Record<string, any> | null): Promise<ReplayResult> {
+  if (!supabase) return { status: 'offline' };
+
+  try {
+    if (entry.op === 'delete') {
+      const { error } = await supabase.from(entry.table).delete().eq('id', entry.recordId);
+      if (error) return isNetworkError(error) ? { status: 'offline' } : { status: 'error', message: error.message };
+      return { status: 'applied', record: null };
+    }
+
+    // Si otro usuario la eliminó, se vuelve a crear con la versión local
+    const query = remote
+      ? supabase
+          .from(entry.table)
+          .update({ ...entry.payload, updated_at: new Date().toISOString() })
+          .eq('id', entry.recordId)
+      : supabase
+          .from(entry.table)
+          .insert([toRow(entry.snapshot || entry.payload)]);
+
+    const { data, error } = await query.select().single();
+    if (error) return isNetworkError(error) ? { status: 'offline' } : { status: 'error', message: error.message };
+    return { status: 'applied', record: data };
+  } catch (err: any) {
+    return isNetworkError(err) ? { status: 'offline' } : { status: 'error', message: err.message };
+  }
+}
@@ -1,6 +1,18 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { supabase, isSupabaseConfigured, PersonalNote, PersonalNoteShare, createNotification } from '../lib/supabase';
+import {
+  useOutboxStore,
+  OutboxConflict,
+  generateOfflineId,
+  isOffline,
+  isNetworkError,
+  applyPendingEntries,
+  replayEntry,
+  forceApply,
+  fetchRemoteRecord,
+  rejectedChangeMessage,
+} from './outboxStore';
 
 interface PersonalNotesState {
   notes: PersonalNote[];
@@ -14,13 +26,29 @@ interface PersonalNotesState {
   shareNote: (noteId: string, userId: string, canEdit: boolean) => Promise<{ error: string | null }>;
   unshareNote: (noteId: string, userId: string) => Promise<{ error: string | null }>;
   getShares: (noteId: string) => Promise<PersonalNoteShare[]>;
+  flushOutbox: () => Promise<void>;
+  resolveConflict: (conflict: OutboxConflict, keep: 'local' | 'remote') => Promise<{ error: string | null }>;
 }
 
 const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+// Reemplazar (o quitar, si es null) un notepad en ambas listas
+const replaceNote = (list: PersonalNote[], id: string, note: PersonalNote | null) =>
+  note ? list.map((n) => (n.id === id ? { ...n, ...note } : n)) : list.filter((n) => n.id !== id);
+
+// Dejar el notepad `id` como `note` en la lista donde esté. Uno eliminado
+// localmente (siempre propio) vuelve a la lista propia.
+const restoreNote = (state: PersonalNotesState, id: string, note: PersonalNote | null) => {
+  const restore = (list: PersonalNote[]) =>
+    note && !list.some((n) => n.id === id) ? [note, ...list] : replaceNote(list, id, note);
+  return state.sharedWithMe.some((n) => n.id === id)
+    ? { sharedWithMe: restore(state.sharedWithMe) }
+    : { notes: restore(state.notes) };
+};
+
 export const usePersonalNotesStore = create<PersonalNotesState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       notes: [],
       sharedWithMe: [],
       isLoading: false,
@@ -46,9 +74,10 @@ export const usePersonalNotesStore = create<PersonalNotesState>()(
           const myNotes = ownNotes?.filter(n => n.owner_id === userId) || [];
           const sharedNotes = ownNotes?.filter(n => n.owner_id !== userId) || [];
 
+          // No perder los cambios hechos sin conexión que aún no se sincronizan
           set({ 
-            notes: myNotes, 
-            sharedWithMe: sharedNotes,
+            notes: applyPendingEntries(myNotes, 'personal_notes'),
+            sharedWithMe: applyPendingEntries(sharedNotes, 'personal_notes').filter(n => n.owner_id !== userId),
             isLoading: false 
           });
         } catch (error) {
@@ -72,15 +101,43 @@ export const usePersonalNotesStore = create<PersonalNotesState>()(
           return { error: null, note: newNote };
         }
 
+        // getSession lee la sesión local, así que funciona sin conexión
+        const userId = (await supabase.auth.getSession()).data.session?.user.id;
+        const payload = { title, content, owner_id: userId };
+
+        // Sin conexión - encolar y mostrar el notepad de inmediato
+        const queueOfflineCreate = () => {
+          const offlineNote: PersonalNote = {
+            ...payload,
+            id: generateOfflineId(),
+            owner_id: userId || '',
+            is_shared: false,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          };
+          useOutboxStore.getState().enqueue({
+            table: 'personal_notes',
+            op: 'create',
+            recordId: offlineNote.id,
+            payload,
+            snapshot: offlineNote,
+          });
+          set((state) => ({ notes: [offlineNote, ...state.notes] }));
+          return { error: null, note: offlineNote };
+        };
+
+        if (isOffline()) return queueOfflineCreate();
+
         try {
-          const userId = (await supabase.auth.getUser()).data.user?.id;
           const { data, error } = await supabase
             .from('personal_notes')
-            .insert([{ title, content, owner_id: userId }])
+            .insert([payload])
             .select()
             .single();
 
-          if (error) return { error: error.message };
+          if (error) {
+            return isNetworkError(error) ? queueOfflineCreate() : { error: error.message };
+          }
           set((state) => ({ notes: [data, ...state.notes] }));
           return { error: null, note: data };
         } catch (err: any) {
@@ -101,13 +158,36 @@ export const usePersonalNotesStore = create<PersonalNotesState>()(
           return { error: null };
         }
 
+        // Sin conexión - aplicar localmente y encolar con el updated_at que conocíamos
+        const queueOfflineUpdate = () => {
+          const current = [...get().notes, ...get().sharedWithMe].find((n) => n.id === id);
+          const payload = { ...updates, updated_at: new Date().toISOString() };
+          useOutboxStore.getState().enqueue({
+            table: 'personal_notes',
+            op: 'update',
+            recordId: id,
+            payload,
+            snapshot: { ...current, ...payload },
+            baseUpdatedAt: current?.updated_at,
+          });
+          set((state) => ({
+            notes: state.notes.map((n) => (n.id === id ? { ...n, ...payload } : n)),
+            sharedWithMe: state.sharedWithMe.map((n) => (n.id === id ? { ...n, ...payload } : n)),
+          }));
+          return { error: null };
+        };
+
+        if (isOffline()) return queueOfflineUpdate();
+
         try {
           const { error } = await supabase
             .from('personal_notes')
             .update({ ...updates, updated_at: new Date().toISOString() })
             .eq('id', id);
 
-          if (error) return { error: error.message };
+          if (error) {
+            return isNetworkError(error) ? queueOfflineUpdate() : { error: error.message };
+          }
           
           set((state) => ({
             notes: state.notes.map((n) => 
@@ -131,13 +211,33 @@ export const usePersonalNotesStore = create<PersonalNotesState>()(
           return { error: null };
         }
 
+        // Sin conexión - quitarlo localmente y encolar
+        const queueOfflineDelete = () => {
+          const current = get().notes.find((n) => n.id === id);
+          useOutboxStore.getState().enqueue({
+            table: 'personal_notes',
+            op: 'delete',
+            recordId: id,
+            payload: {},
+            baseUpdatedAt: current?.updated_at,
+          });
+          set((state) => ({
+            notes: state.notes.filter((n) => n.id !== id),
+          }));
+          return { error: null };
+        };
+
+        if (isOffline()) return queueOfflineDelete();
+
         try {
           const { error } = await supabase
             .from('personal_notes')
             .delete()
             .eq('id', id);
 
-          if (error) return { error: error.message };
+          if (error) {
+            return isNetworkError(error) ? queueOfflineDelete() : { error: error.message };
+          }
           set((state) => ({
             notes: state.notes.filter((n) => n.id !== id),
           }));
@@ -259,6 +359,78 @@ export const usePersonalNotesStore = create<PersonalNotesState>()(
           return [];
         }
       },
+
+      flushOutbox: async () => {
+        if (!isSupabaseConfigured || !supabase || isOffline()) return;
+
+        const outbox = useOutboxStore.getState();
+        if (outbox.isSyncing) return;
+        outbox.setSyncing(true);
+
+        try {
+          // Procesar en orden; si la red vuelve a caer se deja el resto para después
+          for (;;) {
+            const entry = useOutboxStore.getState().entries.find((e) => e.table === 'personal_notes');
+            if (!entry) break;
+
+            const result = await replayEntry(entry);
+            if (result.status === 'offline') break;
+            useOutboxStore.getState().dequeue(entry.id);
+
+            if (result.status === 'conflict') {
+              useOutboxStore.getState().addConflict({
+                entry,
+                local: entry.op === 'delete' ? null : entry.snapshot || null,
+                remote: result.remote,
+              });
+              continue;
+            }
+
+            if (result.status === 'error') {
+              // El servidor lo rechazó (permisos, validación): reintentar no sirve.
+              // Se deshace el cambio local; un notepad creado sin conexión desaparece.
+              console.error('Error syncing offline notepad change:', result.message);
+              const remote = entry.op === 'create' ? null : await fetchRemoteRecord('personal_notes', entry.recordId);
+              if (remote !== undefined) {
+                set((state) => restoreNote(state, entry.recordId, remote as PersonalNote | null));
+              }
+              useOutboxStore.getState().setLastError(rejectedChangeMessage(entry, result.message));
+              continue;
+            }
+
+            const record = result.record as PersonalNote | null;
+            if (entry.op === 'create' && record) {
+              // Reemplazar el ID temporal en el estado y en la cola
+              useOutboxStore.getState().remapRecordId(entry.recordId, record.id, record.updated_at);
+              set((state) => ({ notes: replaceNote(state.notes, entry.recordId, record) }));
+            } else if (entry.op === 'update' && record) {
+              set((state) => ({
+                notes: replaceNote(state.notes, record.id, record),
+                sharedWithMe: replaceNote(state.sharedWithMe, record.id, record),
+              }));
+            }
+          }
+        } finally {
+          useOutboxStore.getState().setSyncing(false);
+        }
+      },
+
+      resolveConflict: async (conflict, keep) => {
+        let record: PersonalNote | null;
+
+        if (keep === 'remote') {
+          record = conflict.remote as PersonalNote | null;
+        } else {
+          const result = await forceApply(conflict.entry, conflict.remote);
+          if (result.status === 'offline') return { error: 'Sin conexión' };
+          if (result.status === 'error') return { error: result.message };
+          record = result.status === 'applied' ? (result.record as PersonalNote | null) : null;
+        }
+
+        set((state) => restoreNote(state, conflict.entry.recordId, record));
+        useOutboxStore.getState().removeConflict(conflict.id);
+        return { error: null };
+      },
     }),
     {
       name: 'personal-notes-storage',
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected';
+
+interface RealtimeState {
+  channels: Record<string, RealtimeStatus>;
+  isOnline: boolean;
+
+  setChannelStatus: (name: string, status: RealtimeStatus) => void;
+  removeChannelStatus: (name: string) => void;
+  setOnline: (isOnline: boolean) => void;
+}
+
+export const useRealtimeStore = create<RealtimeState>((set) => ({
+  channels: {},
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+
+  setChannelStatus: (name, status) => {
+    set((state) => ({ channels: { ...state.channels, [name]: status } }));
+  },
+
+  removeChannelStatus: (name) => {
+    set((state) => {
+      const channels = { ...state.channels };
+      delete channels[name];
+      return { channels };
+    });
+  },
+
+  setOnline: (isOnline) => set({ isOnline }),
+}));
+
+// Estado global de la conexión: basta con un canal caído para avisar
+export const selectConnectionStatus = (state: RealtimeState): RealtimeStatus => {
+  const statuses = Object.values(state.channels);
+  if (!state.isOnline || statuses.includes('disconnected')) return 'disconnected';
+  if (statuses.includes('connecting')) return 'connecting';
+  return 'connected';
+};
+
+// Seguimiento de un canal: onStatus se pasa a channel.subscribe() y, si el canal
+// se recupera tras una caída, llama a onReconnect para recargar lo que se perdió.
+// stop() se llama al cerrar el canal para que su cierre no cuente como caída.
+export function trackChannelStatus(name: string, onReconnect?: () => void) {
+  const { setChannelStatus, removeChannelStatus } = useRealtimeStore.getState();
+  let wasDisconnected = false;
+  let stopped = false;
+  setChannelStatus(name, 'connecting');
+
+  return {
+    onStatus: (status: string) => {
+      if (stopped) return;
+      if (status === 'SUBSCRIBED') {
+        setChannelStatus(name, 'connected');
+        if (wasDisconnected) {
+          wasDisconnected = false;
+          onReconnect?.();
+        }
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        wasDisconnected = true;
+        setChannelStatus(name, 'disconnected');
+      }
+    },
+    stop: () => {
+      stopped = true;
+      removeChannelStatus(name);
+    },
+  };
+}
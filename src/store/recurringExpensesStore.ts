@@ -0,0 +1,306 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { addMonths, differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import { supabase, isSupabaseConfigured, Expense, RecurringExpense, logActivity } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+import { useExpensesStore } from './expensesStore';
+
+type RecurringInput = Omit<RecurringExpense, 'id' | 'next_due_date' | 'created_by' | 'created_at' | 'updated_at'>;
+
+interface RecurringExpensesState {
+  templates: RecurringExpense[];
+  isLoading: boolean;
+
+  fetchTemplates: () => Promise<void>;
+  createTemplate: (template: RecurringInput) => Promise<{ error: string | null }>;
+  updateTemplate: (id: string, updates: Partial<RecurringInput>) => Promise<{ error: string | null }>;
+  deleteTemplate: (id: string) => Promise<{ error: string | null }>;
+  generateDueExpenses: () => Promise<{ error: string | null; generated: number }>;
+}
+
+export const frequencyLabels: Record<RecurringExpense['frequency'], string> = {
+  monthly: 'Mensual',
+  quarterly: 'Trimestral',
+  yearly: 'Anual',
+};
+
+const frequencyMonths: Record<RecurringExpense['frequency'], number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// Vencimiento siguiente a `after`. Se calcula desde start_date para que un
+// cargo del día 31 no se desplace al 28 tras pasar por febrero.
+// Debe coincidir con generate_recurring_expenses() en supabase/recurring_expenses.sql
+export function getNextDueDate(template: Pick<RecurringExpense, 'start_date' | 'frequency'>, after?: string): string {
+  const start = parseISO(template.start_date);
+  if (!after) return template.start_date;
+  const step = frequencyMonths[template.frequency];
+  const periods = Math.floor(differenceInCalendarMonths(parseISO(after), start) / step) + 1;
+  return format(addMonths(start, periods * step), 'yyyy-MM-dd');
+}
+
+// ¿Sigue generando gastos en esa fecha?
+export const isTemplateDue = (template: RecurringExpense, date: string) =>
+  template.active && (!template.end_date || template.next_due_date <= template.end_date) && template.next_due_date <= date;
+
+// Generar ID único para modo demo
+const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Solo el autor de la plantilla o quien aprueba gastos puede modificarla
+const checkTemplatePermission = (template: RecurringExpense | undefined): string | null => {
+  const { user, can } = useAuthStore.getState();
+  if (!template) return 'Plantilla no encontrada';
+  if (can('approve_expenses') || template.created_by === user?.id) return null;
+  return 'Solo puedes modificar tus propios gastos recurrentes';
+};
+
+const demoTemplates = (): RecurringExpense[] => {
+  const now = new Date().toISOString();
+  const start = today();
+  return [
+    {
+      id: 'rec-1',
+      description: 'Licencia Figma Anual',
+      amount: 580000,
+      currency: 'COP',
+      category_id: 'cat-1',
+      vendor: 'Figma Inc.',
+      payment_method: 'card',
+      frequency: 'yearly',
+      start_date: start,
+      next_due_date: getNextDueDate({ start_date: start, frequency: 'yearly' }, start),
+      active: true,
+      created_by: useAuthStore.getState().user?.id || 'demo-user',
+      created_at: now,
+      updated_at: now,
+    },
+    {
+      id: 'rec-2',
+      description: 'AWS',
+      amount: 350000,
+      currency: 'COP',
+      category_id: 'cat-3',
+      vendor: 'Amazon Web Services',
+      payment_method: 'card',
+      frequency: 'monthly',
+      start_date: start,
+      next_due_date: getNextDueDate({ start_date: start, frequency: 'monthly' }, start),
+      active: true,
+      created_by: useAuthStore.getState().user?.id || 'demo-user',
+      created_at: now,
+      updated_at: now,
+    },
+  ];
+};
+
+export const useRecurringExpensesStore = create<RecurringExpensesState>()(
+  persist(
+    (set, get) => ({
+      templates: demoTemplates(),
+      isLoading: false,
+
+      fetchTemplates: async () => {
+        if (!isSupabaseConfigured || !supabase) {
+          // En modo demo se usan las guardadas localmente
+          set({ isLoading: false });
+          return;
+        }
+
+        set({ isLoading: true });
+        try {
+          const { data, error } = await supabase
+            .from('recurring_expenses')
+            .select('*')
+            .order('next_due_date', { ascending: true });
+
+          if (error) throw error;
+          set({ templates: data || [], isLoading: false });
+        } catch (error) {
+          console.error('Error fetching recurring expenses:', error);
+          set({ isLoading: false });
+        }
+      },
+
+      createTemplate: async (template) => {
+        if (template.end_date && template.end_date < template.start_date) {
+          return { error: 'La fecha de fin debe ser posterior al inicio' };
+        }
+
+        // Si empieza en el pasado, el primer vencimiento pendiente se genera al instante
+        const next_due_date = template.start_date;
+
+        if (!isSupabaseConfigured || !supabase) {
+          const now = new Date().toISOString();
+          const created: RecurringExpense = {
+            ...template,
+            id: generateId(),
+            next_due_date,
+            created_by: useAuthStore.getState().user?.id || 'demo-user',
+            created_at: now,
+            updated_at: now,
+          };
+          set((state) => ({ templates: [...state.templates, created] }));
+          await get().generateDueExpenses();
+          return { error: null };
+        }
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          const { data, error } = await supabase
+            .from('recurring_expenses')
+            .insert([{ ...template, next_due_date, created_by: user?.id }])
+            .select()
+            .single();
+
+          if (error) return { error: error.message };
+          const created: RecurringExpense = data;
+
+          await logActivity({
+            entityType: 'expense',
+            entityId: created.id,
+            action: 'created',
+            description: `Creó el gasto recurrente "${created.description}" (${frequencyLabels[created.frequency].toLowerCase()})`,
+            changes: { amount: { old: null, new: created.amount } },
+          });
+
+          set((state) => ({ templates: [...state.templates, created] }));
+          await get().generateDueExpenses();
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      updateTemplate: async (id, updates) => {
+        const current = get().templates.find(t => t.id === id);
+        const permissionDenied = checkTemplatePermission(current);
+        if (permissionDenied) return { error: permissionDenied };
+
+        const merged = { ...current!, ...updates };
+        if (merged.end_date && merged.end_date < merged.start_date) {
+          return { error: 'La fecha de fin debe ser posterior al inicio' };
+        }
+
+        // Cambiar inicio o frecuencia recalcula el próximo vencimiento a partir
+        // del último gasto generado, para no duplicar los ya creados
+        const changes: Partial<RecurringExpense> = { ...updates };
+        if (updates.start_date !== undefined || updates.frequency !== undefined) {
+          const lastGenerated = useExpensesStore.getState().expenses
+            .filter(e => e.recurring_id === id)
+            .map(e => e.expense_date)
+            .sort()
+            .pop();
+          changes.next_due_date = lastGenerated && lastGenerated >= merged.start_date
+            ? getNextDueDate(merged, lastGenerated)
+            : merged.start_date;
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          set((state) => ({
+            templates: state.templates.map(t =>
+              t.id === id ? { ...t, ...changes, updated_at: new Date().toISOString() } : t
+            ),
+          }));
+          return { error: null };
+        }
+
+        try {
+          const { data, error } = await supabase
+            .from('recurring_expenses')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single();
+
+          if (error) return { error: error.message };
+
+          set((state) => ({
+            templates: state.templates.map(t => t.id === id ? data : t),
+          }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      // Los gastos ya generados se conservan (quedan sin plantilla)
+      deleteTemplate: async (id) => {
+        const template = get().templates.find(t => t.id === id);
+        const permissionDenied = checkTemplatePermission(template);
+        if (permissionDenied) return { error: permissionDenied };
+
+        if (!isSupabaseConfigured || !supabase) {
+          set((state) => ({ templates: state.templates.filter(t => t.id !== id) }));
+          return { error: null };
+        }
+
+        try {
+          const { error } = await supabase.from('recurring_expenses').delete().eq('id', id);
+          if (error) return { error: error.message };
+
+          await logActivity({
+            entityType: 'expense',
+            entityId: id,
+            action: 'deleted',
+            description: `Eliminó el gasto recurrente "${template!.description}"`,
+          });
+
+          set((state) => ({ templates: state.templates.filter(t => t.id !== id) }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      // Crea un gasto pendiente por cada vencimiento alcanzado (hasta hoy)
+      generateDueExpenses: async () => {
+        if (isSupabaseConfigured && supabase) {
+          // La función SQL genera para todo el equipo y es idempotente
+          const { data, error } = await supabase.rpc('generate_recurring_expenses');
+          if (error) return { error: error.message, generated: 0 };
+
+          const generated = Number(data) || 0;
+          if (generated > 0) {
+            await Promise.all([get().fetchTemplates(), useExpensesStore.getState().fetchExpenses()]);
+          }
+          return { error: null, generated };
+        }
+
+        const date = today();
+        const instances: Partial<Expense>[] = [];
+        const templates = get().templates.map(template => {
+          let next = { ...template };
+          while (isTemplateDue(next, date)) {
+            instances.push({
+              description: next.description,
+              amount: next.amount,
+              currency: next.currency,
+              category_id: next.category_id || undefined,
+              vendor: next.vendor || undefined,
+              payment_method: next.payment_method,
+              notes: next.notes || undefined,
+              expense_date: next.next_due_date,
+              recurring_id: next.id,
+            });
+            next = { ...next, next_due_date: getNextDueDate(next, next.next_due_date) };
+          }
+          return next;
+        });
+
+        if (instances.length === 0) return { error: null, generated: 0 };
+
+        set({ templates });
+        const result = await useExpensesStore.getState().importExpenses(instances);
+        return { error: result.error, generated: result.imported };
+      },
+    }),
+    {
+      name: 'recurring-expenses-storage',
+      partialize: (state) => ({ templates: state.templates }),
+    }
+  )
+);
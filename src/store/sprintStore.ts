@@ -1,5 +1,9 @@
 import { create } from 'zustand';
-import { supabase, isSupabaseConfigured, Sprint } from '../lib/supabase';
+import { supabase, isSupabaseConfigured, Sprint, Note, logActivity, diffChanges } from '../lib/supabase';
+import { trackChannelStatus } from './realtimeStore';
+import { useNotesStore } from './notesStore';
+import { useAuthStore } from './authStore';
+import { permissionError } from '../lib/permissions';
 
 interface SprintState {
   sprints: Sprint[];
@@ -10,10 +14,43 @@ interface SprintState {
   createSprint: (sprint: Partial<Sprint>) => Promise<{ error: string | null }>;
   updateSprint: (id: string, updates: Partial<Sprint>) => Promise<{ error: string | null }>;
   deleteSprint: (id: string) => Promise<{ error: string | null }>;
+  closeSprint: (id: string, targetSprintId: string | null) => Promise<{ error: string | null }>;
   setCurrentSprint: (sprint: Sprint | null) => void;
+  subscribeToSprints: () => () => void;
 }
 
-export const useSprintStore = create<SprintState>((set) => ({
+// Tareas del sprint que cuentan para las métricas (sin subtareas ni canceladas)
+export const getSprintNotes = (sprintId: string, notes: Note[]) =>
+  notes.filter(n => n.sprint_id === sprintId && !n.parent_id && n.status !== 'cancelled');
+
+const sumHours = (notes: Note[]) => notes.reduce((sum, n) => sum + (n.estimated_hours || 0), 0);
+
+// Completado y arrastrado de un sprint. Si ya se cerró se usa el resumen
+// guardado, porque sus tareas pendientes ya están en otro sprint.
+export function getSprintSummary(sprint: Sprint, notes: Note[]) {
+  const sprintNotes = getSprintNotes(sprint.id, notes);
+  const completed = sprintNotes.filter(n => n.status === 'completed');
+  const unfinished = sprintNotes.filter(n => n.status !== 'completed');
+
+  const closed = !!sprint.closed_at;
+  const completedTasks = closed ? sprint.completed_tasks ?? completed.length : completed.length;
+  const completedHours = closed ? sprint.completed_hours ?? sumHours(completed) : sumHours(completed);
+  const carriedOverTasks = closed ? sprint.carried_over_tasks ?? 0 : unfinished.length;
+  const carriedOverHours = closed ? sprint.carried_over_hours ?? 0 : sumHours(unfinished);
+  const totalTasks = completedTasks + carriedOverTasks;
+
+  return {
+    completedTasks,
+    completedHours,
+    carriedOverTasks,
+    carriedOverHours,
+    totalTasks,
+    totalHours: completedHours + carriedOverHours,
+    carryOverRate: totalTasks > 0 ? carriedOverTasks / totalTasks : 0,
+  };
+}
+
+export const useSprintStore = create<SprintState>((set, get) => ({
   sprints: [],
   currentSprint: null,
   isLoading: false,
@@ -66,6 +103,10 @@ export const useSprintStore = create<SprintState>((set) => ({
   },
 
   createSprint: async (sprint) => {
+    if (!useAuthStore.getState().can('manage_sprints')) {
+      return { error: permissionError('manage_sprints') };
+    }
+
     if (!isSupabaseConfigured || !supabase) {
       return { error: null };
     }
@@ -78,6 +119,13 @@ export const useSprintStore = create<SprintState>((set) => ({
         .single();
 
       if (error) return { error: error.message };
+
+      await logActivity({
+        entityType: 'sprint',
+        entityId: data.id,
+        action: 'created',
+        description: `Creó el sprint "${data.name}"`,
+      });
       
       set((state) => ({ 
         sprints: [data, ...state.sprints],
@@ -90,11 +138,16 @@ export const useSprintStore = create<SprintState>((set) => ({
   },
 
   updateSprint: async (id, updates) => {
+    if (!useAuthStore.getState().can('manage_sprints')) {
+      return { error: permissionError('manage_sprints') };
+    }
+
     if (!isSupabaseConfigured || !supabase) {
       return { error: null };
     }
 
     try {
+      const previous = get().sprints.find(s => s.id === id);
       const { data, error } = await supabase
         .from('sprints')
         .update({ ...updates, updated_at: new Date().toISOString() })
@@ -103,6 +156,14 @@ export const useSprintStore = create<SprintState>((set) => ({
         .single();
 
       if (error) return { error: error.message };
+
+      await logActivity({
+        entityType: 'sprint',
+        entityId: id,
+        action: 'updated',
+        description: `Actualizó el sprint "${data.name}"`,
+        changes: diffChanges(previous, updates),
+      });
       
       set((state) => ({
         sprints: state.sprints.map(s => s.id === id ? data : s),
@@ -116,13 +177,25 @@ export const useSprintStore = create<SprintState>((set) => ({
   },
 
   deleteSprint: async (id) => {
+    if (!useAuthStore.getState().can('manage_sprints')) {
+      return { error: permissionError('manage_sprints') };
+    }
+
     if (!isSupabaseConfigured || !supabase) {
       return { error: null };
     }
 
     try {
+      const deleted = get().sprints.find(s => s.id === id);
       const { error } = await supabase.from('sprints').delete().eq('id', id);
       if (error) return { error: error.message };
+
+      await logActivity({
+        entityType: 'sprint',
+        entityId: id,
+        action: 'deleted',
+        description: `Eliminó el sprint "${deleted?.name || ''}"`,
+      });
       
       set((state) => ({
         sprints: state.sprints.filter(s => s.id !== id),
@@ -134,5 +207,126 @@ export const useSprintStore = create<SprintState>((set) => ({
     }
   },
 
+  closeSprint: async (id, targetSprintId) => {
+    if (!useAuthStore.getState().can('manage_sprints')) {
+      return { error: permissionError('manage_sprints') };
+    }
+
+    const sprint = get().sprints.find(s => s.id === id);
+    if (!sprint) return { error: 'Sprint no encontrado' };
+    if (sprint.status === 'completed') return { error: 'El sprint ya está cerrado' };
+
+    if (!isSupabaseConfigured || !supabase) {
+      const notesStore = useNotesStore.getState();
+      const sprintNotes = getSprintNotes(id, notesStore.notes);
+      const completed = sprintNotes.filter(n => n.status === 'completed');
+      const unfinished = sprintNotes.filter(n => n.status !== 'completed');
+
+      // Mover lo pendiente (con sus subtareas) al siguiente sprint o al backlog
+      const toMove = notesStore.notes.filter(n =>
+        unfinished.some(u => u.id === n.id || u.id === n.parent_id) && n.status !== 'completed'
+      );
+      for (const note of toMove) {
+        const result = await notesStore.updateNote(note.id, { sprint_id: targetSprintId });
+        if (result.error) return result;
+      }
+
+      const summary: Partial<Sprint> = {
+        status: 'completed',
+        closed_at: new Date().toISOString(),
+        completed_tasks: completed.length,
+        completed_hours: sumHours(completed),
+        carried_over_tasks: unfinished.length,
+        carried_over_hours: sumHours(unfinished),
+      };
+      set((state) => ({
+        sprints: state.sprints.map(s => s.id === id ? { ...s, ...summary } : s),
+        currentSprint: state.currentSprint?.id === id ? null : state.currentSprint,
+      }));
+      return { error: null };
+    }
+
+    try {
+      // El resumen y el movimiento de tareas se hacen en el servidor, en una
+      // transacción: las notas ajenas no se pueden editar desde el cliente y
+      // el store de notas puede estar filtrado
+      const { data, error } = await supabase.rpc('close_sprint', {
+        p_sprint_id: id,
+        p_target_sprint_id: targetSprintId,
+      });
+
+      if (error) return { error: error.message };
+
+      const closed = data as Sprint;
+      const carriedOver = closed.carried_over_tasks || 0;
+      const target = get().sprints.find(s => s.id === targetSprintId);
+      await logActivity({
+        entityType: 'sprint',
+        entityId: id,
+        action: 'updated',
+        description: carriedOver > 0
+          ? `Cerró el sprint "${sprint.name}" y movió ${carriedOver} tareas a ${target ? `"${target.name}"` : 'el backlog'}`
+          : `Cerró el sprint "${sprint.name}"`,
+        changes: { status: { old: sprint.status, new: 'completed' } },
+      });
+
+      set((state) => ({
+        sprints: state.sprints.map(s => s.id === id ? closed : s),
+        currentSprint: state.currentSprint?.id === id ? null : state.currentSprint,
+      }));
+      // Traer las tareas con su nuevo sprint
+      await useNotesStore.getState().fetchNotes();
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
+
   setCurrentSprint: (sprint) => set({ currentSprint: sprint }),
+
+  subscribeToSprints: () => {
+    if (!isSupabaseConfigured || !supabase) {
+      return () => {};
+    }
+
+    const supabaseClient = supabase; // TypeScript narrowing
+    const tracker = trackChannelStatus('sprints', () => get().fetchSprints());
+
+    const channel = supabaseClient
+      .channel('sprints-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sprints' },
+        (payload) => {
+          set((state) => {
+            let sprints = state.sprints;
+            if (payload.eventType === 'INSERT') {
+              const created = payload.new as Sprint;
+              if (sprints.some(s => s.id === created.id)) return state;
+              sprints = [created, ...sprints];
+            } else if (payload.eventType === 'UPDATE') {
+              const updated = payload.new as Sprint;
+              sprints = sprints.map(s => s.id === updated.id ? updated : s);
+            } else {
+              sprints = sprints.filter(s => s.id !== payload.old.id);
+            }
+
+            // Mantener el sprint actual si sigue existiendo, o tomar el activo
+            const current = state.currentSprint
+              ? sprints.find(s => s.id === state.currentSprint?.id) || null
+              : null;
+            return {
+              sprints,
+              currentSprint: current || sprints.find(s => s.status === 'active') || null,
+            };
+          });
+        }
+      )
+      .subscribe(tracker.onStatus);
+
+    return () => {
+      tracker.stop();
+      supabaseClient.removeChannel(channel);
+    };
+  },
 }));
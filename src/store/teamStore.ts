@@ -1,13 +1,16 @@
 import { create } from 'zustand';
 import { supabase, isSupabaseConfigured, User } from '../lib/supabase';
+import { useAuthStore } from './authStore';
+import { permissionError } from '../lib/permissions';
 
 interface TeamState {
   members: User[];
   isLoading: boolean;
   fetchMembers: () => Promise<void>;
+  updateMemberRole: (memberId: string, role: User['role']) => Promise<{ error: string | null }>;
 }
 
-export const useTeamStore = create<TeamState>((set) => ({
+export const useTeamStore = create<TeamState>((set, get) => ({
   members: [],
   isLoading: false,
 
@@ -39,4 +42,45 @@ export const useTeamStore = create<TeamState>((set) => ({
       set({ isLoading: false });
     }
   },
+
+  updateMemberRole: async (memberId, role) => {
+    if (!useAuthStore.getState().can('manage_members')) {
+      return { error: permissionError('manage_members') };
+    }
+
+    // Siempre debe quedar al menos un administrador
+    const admins = get().members.filter(m => m.role === 'admin');
+    if (role !== 'admin' && admins.length === 1 && admins[0].id === memberId) {
+      return { error: 'El equipo debe tener al menos un administrador' };
+    }
+
+    if (!isSupabaseConfigured || !supabase) {
+      set((state) => ({
+        members: state.members.map(m => m.id === memberId ? { ...m, role } : m),
+      }));
+      return { error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .update({ role })
+        .eq('id', memberId)
+        .select()
+        .single();
+
+      if (error) return { error: error.message };
+
+      set((state) => ({
+        members: state.members.map(m => m.id === memberId ? data : m),
+      }));
+
+      // Si cambió el propio rol, actualizar la sesión
+      const { user, setUser } = useAuthStore.getState();
+      if (user?.id === memberId) setUser(data);
+      return { error: null };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  },
 }));
@@ -0,0 +1,291 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase, isSupabaseConfigured, TimeEntry } from '../lib/supabase';
+
+interface TimeEntriesState {
+  entries: TimeEntry[];
+  activeEntry: TimeEntry | null;
+  isLoading: boolean;
+
+  fetchEntries: (noteId: string) => Promise<void>;
+  fetchActiveEntry: () => Promise<void>;
+  startTimer: (noteId: string, description?: string) => Promise<{ error: string | null }>;
+  stopTimer: () => Promise<{ error: string | null }>;
+  addManualEntry: (entry: { note_id: string; start_time: string; end_time: string; description?: string | null }) => Promise<{ error: string | null }>;
+  updateEntry: (id: string, updates: Partial<TimeEntry>) => Promise<{ error: string | null }>;
+  deleteEntry: (id: string) => Promise<{ error: string | null }>;
+}
+
+// Generar ID único para modo demo
+const generateId = () => `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Misma fórmula que el trigger calculate_time_entry_duration: los minutos se
+// guardan en una columna INTEGER, que redondea al más cercano
+export const getEntryMinutes = (entry: Pick<TimeEntry, 'start_time' | 'end_time' | 'duration_minutes'>) => {
+  if (entry.duration_minutes != null) return entry.duration_minutes;
+  const end = entry.end_time ? new Date(entry.end_time).getTime() : Date.now();
+  return Math.max(0, Math.round((end - new Date(entry.start_time).getTime()) / 60000));
+};
+
+// Formato compacto para totales: "2h 15m"
+export const formatMinutes = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+};
+
+const withDuration = (entry: TimeEntry): TimeEntry => ({
+  ...entry,
+  duration_minutes: entry.end_time ? getEntryMinutes({ ...entry, duration_minutes: undefined }) : undefined,
+});
+
+const entrySelect = `
+  *,
+  note:notes(id, title, estimated_hours)
+`;
+
+export const useTimeEntriesStore = create<TimeEntriesState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      activeEntry: null,
+      isLoading: false,
+
+      fetchEntries: async (noteId) => {
+        // En modo demo, las entradas ya están en el estado local
+        if (!isSupabaseConfigured || !supabase) {
+          set({ isLoading: false });
+          return;
+        }
+
+        set({ isLoading: true });
+        try {
+          const { data, error } = await supabase
+            .from('time_entries')
+            .select(entrySelect)
+            .eq('note_id', noteId)
+            .order('start_time', { ascending: false });
+
+          if (error) throw error;
+
+          // Conservar las entradas de otras notas que ya estaban cargadas
+          set((state) => ({
+            entries: [...(data || []), ...state.entries.filter(e => e.note_id !== noteId)],
+            isLoading: false,
+          }));
+        } catch (error) {
+          console.error('Error fetching time entries:', error);
+          set({ isLoading: false });
+        }
+      },
+
+      fetchActiveEntry: async () => {
+        if (!isSupabaseConfigured || !supabase) {
+          return;
+        }
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) return;
+
+          const { data, error } = await supabase
+            .from('time_entries')
+            .select(entrySelect)
+            .eq('user_id', user.id)
+            .is('end_time', null)
+            .order('start_time', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          if (error) throw error;
+          set({ activeEntry: data });
+        } catch (error) {
+          console.error('Error fetching active time entry:', error);
+        }
+      },
+
+      startTimer: async (noteId, description) => {
+        // Solo puede haber un temporizador corriendo por usuario
+        if (get().activeEntry) {
+          const { error } = await get().stopTimer();
+          if (error) return { error };
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          const newEntry: TimeEntry = {
+            id: generateId(),
+            note_id: noteId,
+            user_id: 'demo-user',
+            start_time: new Date().toISOString(),
+            description,
+            created_at: new Date().toISOString(),
+          };
+          set((state) => ({ activeEntry: newEntry, entries: [newEntry, ...state.entries] }));
+          return { error: null };
+        }
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) return { error: 'No autenticado' };
+
+          const { data, error } = await supabase
+            .from('time_entries')
+            .insert([{
+              note_id: noteId,
+              user_id: user.id,
+              start_time: new Date().toISOString(),
+              description: description || null,
+            }])
+            .select(entrySelect)
+            .single();
+
+          if (error) return { error: error.message };
+          set((state) => ({ activeEntry: data, entries: [data, ...state.entries] }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      stopTimer: async () => {
+        const { activeEntry } = get();
+        if (!activeEntry) return { error: null };
+
+        const endTime = new Date().toISOString();
+
+        if (!isSupabaseConfigured || !supabase) {
+          const stopped = withDuration({ ...activeEntry, end_time: endTime });
+          set((state) => ({
+            activeEntry: null,
+            entries: state.entries.map(e => e.id === stopped.id ? stopped : e),
+          }));
+          return { error: null };
+        }
+
+        try {
+          // duration_minutes lo calcula el trigger en la base de datos
+          const { data, error } = await supabase
+            .from('time_entries')
+            .update({ end_time: endTime })
+            .eq('id', activeEntry.id)
+            .select(entrySelect)
+            .single();
+
+          if (error) return { error: error.message };
+          set((state) => ({
+            activeEntry: null,
+            entries: state.entries.some(e => e.id === data.id)
+              ? state.entries.map(e => e.id === data.id ? data : e)
+              : [data, ...state.entries],
+          }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      addManualEntry: async (entry) => {
+        if (new Date(entry.end_time) <= new Date(entry.start_time)) {
+          return { error: 'La hora de fin debe ser posterior a la de inicio' };
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          const newEntry = withDuration({
+            id: generateId(),
+            note_id: entry.note_id,
+            user_id: 'demo-user',
+            start_time: entry.start_time,
+            end_time: entry.end_time,
+            description: entry.description,
+            created_at: new Date().toISOString(),
+          });
+          set((state) => ({ entries: [newEntry, ...state.entries] }));
+          return { error: null };
+        }
+
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) return { error: 'No autenticado' };
+
+          const { data, error } = await supabase
+            .from('time_entries')
+            .insert([{ ...entry, description: entry.description || null, user_id: user.id }])
+            .select(entrySelect)
+            .single();
+
+          if (error) return { error: error.message };
+          set((state) => ({ entries: [data, ...state.entries] }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      updateEntry: async (id, updates) => {
+        const current = get().entries.find(e => e.id === id);
+        const start = updates.start_time || current?.start_time;
+        const end = updates.end_time || current?.end_time;
+        if (start && end && new Date(end) <= new Date(start)) {
+          return { error: 'La hora de fin debe ser posterior a la de inicio' };
+        }
+
+        if (!isSupabaseConfigured || !supabase) {
+          set((state) => ({
+            entries: state.entries.map(e => e.id === id ? withDuration({ ...e, ...updates }) : e),
+            activeEntry: state.activeEntry?.id === id
+              ? { ...state.activeEntry, ...updates }
+              : state.activeEntry,
+          }));
+          return { error: null };
+        }
+
+        try {
+          const { data, error } = await supabase
+            .from('time_entries')
+            .update(updates)
+            .eq('id', id)
+            .select(entrySelect)
+            .single();
+
+          if (error) return { error: error.message };
+          set((state) => ({
+            entries: state.entries.map(e => e.id === id ? data : e),
+            activeEntry: state.activeEntry?.id === id
+              ? (data.end_time ? null : data)
+              : state.activeEntry,
+          }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+
+      deleteEntry: async (id) => {
+        if (!isSupabaseConfigured || !supabase) {
+          set((state) => ({
+            entries: state.entries.filter(e => e.id !== id),
+            activeEntry: state.activeEntry?.id === id ? null : state.activeEntry,
+          }));
+          return { error: null };
+        }
+
+        try {
+          const { error } = await supabase.from('time_entries').delete().eq('id', id);
+          if (error) return { error: error.message };
+          set((state) => ({
+            entries: state.entries.filter(e => e.id !== id),
+            activeEntry: state.activeEntry?.id === id ? null : state.activeEntry,
+          }));
+          return { error: null };
+        } catch (err: any) {
+          return { error: err.message };
+        }
+      },
+    }),
+    {
+      name: 'time-entries-storage',
+      partialize: (state) => ({ entries: state.entries, activeEntry: state.activeEntry }),
+    }
+  )
+);
@@ -0,0 +1,36 @@
+-- ============================================
+-- HISTORIAL DE ACTIVIDAD (AUDITORÍA)
+-- Extiende public.activities de schema.sql
+-- EJECUTAR EN SUPABASE SQL EDITOR
+-- ============================================
+
+-- 1. Entidad afectada y cambios estructurados (valor anterior → nuevo)
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS entity_type TEXT DEFAULT 'note'
+  CHECK (entity_type IN ('note', 'sprint', 'expense', 'meeting'));
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS entity_id UUID;
+ALTER TABLE public.activities ADD COLUMN IF NOT EXISTS changes JSONB;
+
+-- Filas antiguas: la entidad es la nota
+UPDATE public.activities SET entity_id = note_id WHERE entity_id IS NULL AND note_id IS NOT NULL;
+
+-- 2. Conservar el historial aunque se elimine la nota
+ALTER TABLE public.activities DROP CONSTRAINT IF EXISTS activities_note_id_fkey;
+ALTER TABLE public.activities ADD CONSTRAINT activities_note_id_fkey
+  FOREIGN KEY (note_id) REFERENCES public.notes(id) ON DELETE SET NULL;
+
+-- 3. Índices para el timeline y sus filtros
+CREATE INDEX IF NOT EXISTS idx_activities_entity ON public.activities(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_activities_created_at ON public.activities(created_at DESC);
+
+-- 4. Cada usuario solo puede registrar actividad a su nombre.
+-- Sin políticas de UPDATE/DELETE: el historial es inmutable.
+DROP POLICY IF EXISTS "Authenticated users can create activities" ON public.activities;
+
+CREATE POLICY "Authenticated users can create activities"
+  ON public.activities FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================
+-- DONE!
+-- ============================================
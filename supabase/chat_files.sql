@@ -0,0 +1,84 @@
+-- ============================================
+-- ARCHIVOS E IMÁGENES EN EL CHAT (SUPABASE STORAGE)
+-- Bucket privado: solo los miembros del canal pueden leer sus archivos
+-- Ejecutar después de chat_system.sql
+-- ============================================
+
+-- 1. Metadatos del adjunto en el mensaje (content guarda el nombre)
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS file_path TEXT,
+  ADD COLUMN IF NOT EXISTS file_name TEXT,
+  ADD COLUMN IF NOT EXISTS file_size BIGINT,
+  ADD COLUMN IF NOT EXISTS file_type TEXT;
+
+ALTER TABLE public.chat_messages DROP CONSTRAINT IF EXISTS chat_messages_file_required;
+ALTER TABLE public.chat_messages
+  ADD CONSTRAINT chat_messages_file_required
+  CHECK (message_type NOT IN ('image', 'file') OR file_path IS NOT NULL);
+
+-- 2. ¿Puede el usuario ver el canal? (mismo criterio que la lectura de mensajes)
+CREATE OR REPLACE FUNCTION public.can_access_chat_channel(p_channel_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_channels WHERE id = p_channel_id AND type = 'public'
+  ) OR EXISTS (
+    SELECT 1 FROM public.chat_channel_members WHERE channel_id = p_channel_id AND user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. Bucket privado (máximo 25MB, igual que en la app)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-files', 'chat-files', false, 26214400)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit;
+
+-- 4. Políticas sobre storage.objects
+-- Las rutas son <canal>/<usuario>/<fecha>-<nombre>
+DROP POLICY IF EXISTS "chat_files_select_members" ON storage.objects;
+DROP POLICY IF EXISTS "chat_files_insert_members" ON storage.objects;
+DROP POLICY IF EXISTS "chat_files_delete_own" ON storage.objects;
+DROP POLICY IF EXISTS "chat_files_delete_orphaned" ON storage.objects;
+
+CREATE POLICY "chat_files_select_members"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'chat-files'
+    AND public.can_access_chat_channel(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+CREATE POLICY "chat_files_insert_members"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'chat-files'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+    AND public.can_access_chat_channel(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+CREATE POLICY "chat_files_delete_own"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'chat-files'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- Al borrar un mensaje se borran en cascada las respuestas de su hilo, que
+-- pueden tener archivos de otros usuarios. Los miembros del canal pueden
+-- borrar los archivos que ya no referencia ningún mensaje.
+CREATE POLICY "chat_files_delete_orphaned"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'chat-files'
+    AND public.can_access_chat_channel(((storage.foldername(name))[1])::uuid, auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.chat_messages m WHERE m.file_path = storage.objects.name
+    )
+  );
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,172 @@
+-- ============================================
+-- CANALES PRIVADOS Y MENSAJES DIRECTOS
+-- Ejecutar después de chat_system.sql y role_permissions.sql
+-- ============================================
+
+-- Un solo canal directo por pareja: el nombre es dm:<uuid menor>:<uuid mayor>
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_channels_direct_name
+  ON public.chat_channels(name) WHERE type = 'direct';
+
+-- ============================================
+-- FUNCIONES AUXILIARES (SECURITY DEFINER para evitar recursión en RLS)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.is_chat_member(p_channel_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_channel_members WHERE channel_id = p_channel_id AND user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Canales públicos para todos; privados y directos solo para sus miembros
+CREATE OR REPLACE FUNCTION public.can_access_chat_channel(p_channel_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_channels WHERE id = p_channel_id AND type = 'public'
+  ) OR public.is_chat_member(p_channel_id, p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.chat_channel_creator(p_channel_id UUID)
+RETURNS UUID AS $$
+  SELECT created_by FROM public.chat_channels WHERE id = p_channel_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ¿El usuario es uno de los dos del nombre dm:<a>:<b>?
+CREATE OR REPLACE FUNCTION public.is_direct_channel_pair(p_name TEXT, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_name LIKE 'dm:%' AND p_user_id::text = ANY(string_to_array(substr(p_name, 4), ':'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- En un canal directo solo pueden estar los dos de su nombre
+CREATE OR REPLACE FUNCTION public.can_join_chat_channel(p_channel_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.chat_channels
+    WHERE id = p_channel_id AND type = 'direct' AND NOT public.is_direct_channel_pair(name, p_user_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- CANALES
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can view public channels" ON public.chat_channels;
+DROP POLICY IF EXISTS "Users can view channels they are members of" ON public.chat_channels;
+DROP POLICY IF EXISTS "chn_select_members" ON public.chat_channels;
+DROP POLICY IF EXISTS "chn_insert_direct" ON public.chat_channels;
+
+-- El creador la ve antes de añadirse como miembro (insert ... select)
+CREATE POLICY "chn_select_members"
+  ON public.chat_channels FOR SELECT
+  TO authenticated
+  USING (type = 'public' OR created_by = auth.uid() OR is_chat_member(id, auth.uid()));
+
+-- Cualquiera puede iniciar un mensaje directo en el que participe; el resto
+-- sigue siendo de administradores (chn_insert_admin en role_permissions.sql).
+-- La app los crea con open_direct_channel.
+CREATE POLICY "chn_insert_direct"
+  ON public.chat_channels FOR INSERT
+  TO authenticated
+  WITH CHECK (type = 'direct' AND created_by = auth.uid() AND is_direct_channel_pair(name, auth.uid()));
+
+-- ============================================
+-- MIEMBROS
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can view channel memberships" ON public.chat_channel_members;
+DROP POLICY IF EXISTS "Users can join channels" ON public.chat_channel_members;
+DROP POLICY IF EXISTS "Users can leave channels" ON public.chat_channel_members;
+DROP POLICY IF EXISTS "chm_select_visible" ON public.chat_channel_members;
+DROP POLICY IF EXISTS "chm_insert_creator_or_admin" ON public.chat_channel_members;
+DROP POLICY IF EXISTS "chm_delete_self_or_admin" ON public.chat_channel_members;
+
+CREATE POLICY "chm_select_visible"
+  ON public.chat_channel_members FOR SELECT
+  TO authenticated
+  USING (can_access_chat_channel(channel_id, auth.uid()) OR chat_channel_creator(channel_id) = auth.uid());
+
+-- Los miembros los añade quien creó el canal o un administrador; a un
+-- mensaje directo no se puede añadir a nadie más que a sus dos usuarios
+CREATE POLICY "chm_insert_creator_or_admin"
+  ON public.chat_channel_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (chat_channel_creator(channel_id) = auth.uid() OR is_admin(auth.uid()))
+    AND can_join_chat_channel(channel_id, user_id)
+  );
+
+CREATE POLICY "chm_delete_self_or_admin"
+  ON public.chat_channel_members FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+-- ============================================
+-- MENSAJES (también aplica a realtime)
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can view messages in their channels" ON public.chat_messages;
+DROP POLICY IF EXISTS "Users can send messages" ON public.chat_messages;
+DROP POLICY IF EXISTS "msg_select_members" ON public.chat_messages;
+DROP POLICY IF EXISTS "msg_insert_members" ON public.chat_messages;
+
+CREATE POLICY "msg_select_members"
+  ON public.chat_messages FOR SELECT
+  TO authenticated
+  USING (can_access_chat_channel(channel_id, auth.uid()));
+
+CREATE POLICY "msg_insert_members"
+  ON public.chat_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND can_access_chat_channel(channel_id, auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_channel_members;
+
+-- ============================================
+-- ABRIR UN MENSAJE DIRECTO
+-- ============================================
+
+-- Crea (o reutiliza) el canal directo y asegura las dos membresías en una
+-- sola transacción: si el otro usuario lo abre a la vez, ON CONFLICT usa el
+-- suyo, y un canal que quedó sin miembros se completa.
+CREATE OR REPLACE FUNCTION public.open_direct_channel(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_me UUID := auth.uid();
+  v_name TEXT;
+  v_channel_id UUID;
+BEGIN
+  IF v_me IS NULL THEN
+    RAISE EXCEPTION 'No autenticado';
+  END IF;
+  IF p_user_id = v_me THEN
+    RAISE EXCEPTION 'No puedes enviarte mensajes directos a ti mismo';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Usuario no encontrado';
+  END IF;
+
+  -- Mismo nombre que directChannelName en chatStore.ts (orden de los UUID)
+  v_name := 'dm:' || LEAST(v_me, p_user_id)::text || ':' || GREATEST(v_me, p_user_id)::text;
+
+  INSERT INTO public.chat_channels (name, type, created_by)
+  VALUES (v_name, 'direct', v_me)
+  ON CONFLICT (name) WHERE type = 'direct' DO NOTHING
+  RETURNING id INTO v_channel_id;
+
+  IF v_channel_id IS NULL THEN
+    SELECT id INTO v_channel_id FROM public.chat_channels WHERE type = 'direct' AND name = v_name;
+  END IF;
+
+  INSERT INTO public.chat_channel_members (channel_id, user_id)
+  VALUES (v_channel_id, v_me), (v_channel_id, p_user_id)
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+
+  RETURN v_channel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.open_direct_channel(UUID) TO authenticated;
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,21 @@
+-- ============================================
+-- HISTORIAL DEL CHAT: PAGINACIÓN Y BÚSQUEDA
+-- Ejecutar después de chat_threads.sql
+-- ============================================
+
+-- 1. Paginación por cursor (created_at, id) sobre los mensajes raíz
+CREATE INDEX IF NOT EXISTS idx_chat_messages_channel_page
+  ON public.chat_messages(channel_id, created_at DESC, id DESC)
+  WHERE reply_to IS NULL;
+
+-- 2. Búsqueda de texto completo (configuración en español)
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('spanish', COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_search
+  ON public.chat_messages USING GIN(search_vector);
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,62 @@
+-- ============================================
+-- HILOS DE CHAT (RESPUESTAS A MENSAJES)
+-- Ejecutar después de chat_system.sql
+-- ============================================
+
+-- Al borrar el mensaje raíz se borra su hilo; con SET NULL las respuestas
+-- aparecerían sueltas en el canal
+ALTER TABLE public.chat_messages DROP CONSTRAINT IF EXISTS chat_messages_reply_to_fkey;
+ALTER TABLE public.chat_messages
+  ADD CONSTRAINT chat_messages_reply_to_fkey
+  FOREIGN KEY (reply_to) REFERENCES public.chat_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_reply_to
+  ON public.chat_messages(reply_to, created_at) WHERE reply_to IS NOT NULL;
+
+-- En las tablas con RLS Realtime solo manda el id en el payload.old de los
+-- DELETE (aunque haya REPLICA IDENTITY FULL) y no los filtra por channel_id:
+-- la app escucha todos, busca el mensaje por id y, si era una respuesta de
+-- un hilo que no tiene cargado, vuelve a contar las respuestas.
+
+-- ============================================
+-- VALIDACIÓN: un solo nivel y mismo canal que el mensaje raíz
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.validate_chat_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.reply_to IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT channel_id, reply_to INTO parent
+  FROM public.chat_messages
+  WHERE id = NEW.reply_to;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'El mensaje al que respondes no existe';
+  END IF;
+
+  IF parent.channel_id <> NEW.channel_id THEN
+    RAISE EXCEPTION 'La respuesta debe estar en el mismo canal que el mensaje original';
+  END IF;
+
+  IF parent.reply_to IS NOT NULL THEN
+    RAISE EXCEPTION 'No se puede responder a una respuesta; responde en el hilo original';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_validate_chat_reply ON public.chat_messages;
+CREATE TRIGGER trigger_validate_chat_reply
+  BEFORE INSERT OR UPDATE OF reply_to, channel_id ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_chat_reply();
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,84 @@
+-- ============================================
+-- MENSAJES SIN LEER, CONFIRMACIONES DE LECTURA Y MENCIONES
+-- Ejecutar después de chat_private_channels.sql
+-- ============================================
+
+-- 1. Última lectura de cada usuario en cada canal (también en los públicos,
+-- que no tienen filas en chat_channel_members)
+CREATE TABLE IF NOT EXISTS public.chat_channel_reads (
+  channel_id UUID REFERENCES public.chat_channels(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  last_read_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (channel_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_channel_reads_user ON public.chat_channel_reads(user_id);
+
+ALTER TABLE public.chat_channel_reads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reads_select_channel_members" ON public.chat_channel_reads;
+DROP POLICY IF EXISTS "reads_insert_own" ON public.chat_channel_reads;
+DROP POLICY IF EXISTS "reads_update_own" ON public.chat_channel_reads;
+
+-- Quien ve el canal ve hasta dónde leyó cada miembro ("Visto por")
+CREATE POLICY "reads_select_channel_members"
+  ON public.chat_channel_reads FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR can_access_chat_channel(channel_id, auth.uid()));
+
+CREATE POLICY "reads_insert_own"
+  ON public.chat_channel_reads FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND can_access_chat_channel(channel_id, auth.uid()));
+
+CREATE POLICY "reads_update_own"
+  ON public.chat_channel_reads FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_channel_reads;
+
+-- 2. Contadores por canal para el usuario actual. Solo cuentan los mensajes
+-- raíz ajenos; sin marca de lectura se toma la fecha de alta del usuario.
+-- Una mención es @usuario como palabra completa, igual que mentionsUser en
+-- chatStore.ts (@ana no cuenta en @anabel ni en correo@ana).
+-- SECURITY INVOKER: RLS de chat_messages limita a los canales visibles.
+CREATE OR REPLACE FUNCTION public.get_chat_unread_counts()
+RETURNS TABLE (channel_id UUID, last_read_at TIMESTAMPTZ, unread_count INTEGER, mention_count INTEGER) AS $$
+  WITH me AS (
+    SELECT
+      id,
+      created_at,
+      -- Escapar los caracteres del correo que son especiales en una regex (. +)
+      '@' || regexp_replace(lower(split_part(email, '@', 1)), '([^[:alnum:]_])', '\\\1', 'g') AS handle
+    FROM public.profiles
+    WHERE id = auth.uid()
+  )
+  SELECT
+    c.id,
+    r.last_read_at,
+    COUNT(m.id)::INTEGER,
+    COUNT(m.id) FILTER (WHERE m.content ~* ('(^|\s)' || me.handle || '\M'))::INTEGER
+  FROM public.chat_channels c
+  CROSS JOIN me
+  LEFT JOIN public.chat_channel_reads r
+    ON r.channel_id = c.id AND r.user_id = me.id
+  LEFT JOIN public.chat_messages m
+    ON m.channel_id = c.id
+    AND m.reply_to IS NULL
+    AND m.user_id <> me.id
+    AND m.created_at > COALESCE(r.last_read_at, me.created_at)
+  GROUP BY c.id, r.last_read_at;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_chat_unread_counts() TO authenticated;
+
+-- 3. Las menciones del chat enlazan al canal
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS channel_id UUID
+  REFERENCES public.chat_channels(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_channel_id ON public.notifications(channel_id);
+
+-- ============================================
+-- DONE!
+-- ============================================
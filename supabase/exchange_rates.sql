@@ -0,0 +1,63 @@
+-- ============================================
+-- TASAS DE CAMBIO PARA TOTALES MULTIMONEDA
+-- Ejecutar después de role_permissions.sql (usa is_admin)
+-- ============================================
+
+-- 1 from_currency = rate to_currency en rate_date.
+-- Cada gasto se convierte con la tasa más reciente en o antes de su fecha.
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate DECIMAL(18,6) NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (from_currency <> to_currency),
+  UNIQUE (from_currency, to_currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date
+  ON public.exchange_rates(from_currency, to_currency, rate_date DESC);
+
+-- ============================================
+-- RLS: todos leen, solo administradores editan
+-- ============================================
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rates_select_authenticated" ON public.exchange_rates;
+DROP POLICY IF EXISTS "rates_insert_admin" ON public.exchange_rates;
+DROP POLICY IF EXISTS "rates_update_admin" ON public.exchange_rates;
+DROP POLICY IF EXISTS "rates_delete_admin" ON public.exchange_rates;
+
+CREATE POLICY "rates_select_authenticated"
+  ON public.exchange_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "rates_insert_admin"
+  ON public.exchange_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "rates_update_admin"
+  ON public.exchange_rates FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "rates_delete_admin"
+  ON public.exchange_rates FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Tasas iniciales aproximadas (editar desde la app)
+INSERT INTO public.exchange_rates (from_currency, to_currency, rate, rate_date) VALUES
+  ('USD', 'COP', 4000, '2024-01-01'),
+  ('EUR', 'COP', 4350, '2024-01-01'),
+  ('MXN', 'COP', 230, '2024-01-01')
+ON CONFLICT (from_currency, to_currency, rate_date) DO NOTHING;
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,58 @@
+-- ============================================
+-- FLUJO DE APROBACIÓN DE GASTOS
+-- Aprobar / rechazar (con motivo) / marcar pagado, con fechas y aviso al autor
+-- Ejecutar después de role_permissions.sql
+-- Debe coincidir con allowedTransitions de src/store/expensesStore.ts
+-- ============================================
+
+-- 1. Columnas de revisión (approved_by ya existe y guarda quién revisó)
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ;
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS paid_by UUID
+  CONSTRAINT expenses_paid_by_fkey REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_status ON public.expenses(status);
+
+-- 2. Transiciones válidas: pending → approved → paid, y rechazo antes de pagar
+CREATE OR REPLACE FUNCTION validate_expense_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected')) OR
+    (OLD.status = 'approved' AND NEW.status IN ('paid', 'rejected'))
+  ) THEN
+    RAISE EXCEPTION 'Transición de gasto no permitida: % → %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'rejected' AND COALESCE(TRIM(NEW.rejection_reason), '') = '' THEN
+    RAISE EXCEPTION 'El rechazo de un gasto requiere un motivo';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_expense_transition ON public.expenses;
+CREATE TRIGGER check_expense_transition
+  BEFORE UPDATE OF status ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION validate_expense_transition();
+
+-- 3. Notificaciones de revisión de gastos
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS expense_id UUID
+  REFERENCES public.expenses(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_expense_id ON public.notifications(expense_id);
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('comment', 'assignment', 'status_change', 'mention', 'share', 'meeting_invite', 'expense_review'));
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,54 @@
+-- ============================================
+-- PRESUPUESTOS MENSUALES POR CATEGORÍA DE GASTO
+-- Ejecutar después de expenses.sql y role_permissions.sql
+-- ============================================
+
+-- Un monto mensual por categoría; la app avisa al 80% y al 100%
+CREATE TABLE IF NOT EXISTS public.expense_budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID NOT NULL UNIQUE REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  -- NUMERIC: en COP un presupuesto puede pasar del tope de INTEGER (~2.100 millones)
+  amount NUMERIC(14,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'COP',
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Si la tabla ya se había creado con amount INTEGER
+ALTER TABLE public.expense_budgets ALTER COLUMN amount TYPE NUMERIC(14,2);
+
+-- ============================================
+-- RLS: todos leen, solo administradores editan
+-- ============================================
+
+ALTER TABLE public.expense_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "budgets_select_authenticated" ON public.expense_budgets;
+DROP POLICY IF EXISTS "budgets_insert_admin" ON public.expense_budgets;
+DROP POLICY IF EXISTS "budgets_update_admin" ON public.expense_budgets;
+DROP POLICY IF EXISTS "budgets_delete_admin" ON public.expense_budgets;
+
+CREATE POLICY "budgets_select_authenticated"
+  ON public.expense_budgets FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "budgets_insert_admin"
+  ON public.expense_budgets FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "budgets_update_admin"
+  ON public.expense_budgets FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "budgets_delete_admin"
+  ON public.expense_budgets FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,56 @@
+-- ============================================
+-- COMPROBANTES DE GASTOS (SUPABASE STORAGE)
+-- Bucket privado: los archivos se sirven con URLs firmadas
+-- Ejecutar después de role_permissions.sql
+-- ============================================
+
+-- 1. Bucket privado para imágenes y PDF (máximo 10MB, igual que en la app)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'receipts',
+  'receipts',
+  false,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- 2. Políticas sobre storage.objects
+-- Las rutas son <usuario>/<gasto>-<fecha>.<ext>: la primera carpeta es el autor
+DROP POLICY IF EXISTS "receipts_select_authenticated" ON storage.objects;
+DROP POLICY IF EXISTS "receipts_insert_own_folder" ON storage.objects;
+DROP POLICY IF EXISTS "receipts_delete_own_or_admin" ON storage.objects;
+
+-- Todo el equipo ve los gastos, así que también sus comprobantes
+CREATE POLICY "receipts_select_authenticated"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'receipts');
+
+CREATE POLICY "receipts_insert_own_folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'receipts'
+    AND ((storage.foldername(name))[1] = auth.uid()::text OR is_admin(auth.uid()))
+  );
+
+CREATE POLICY "receipts_delete_own_or_admin"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'receipts'
+    AND ((storage.foldername(name))[1] = auth.uid()::text OR is_admin(auth.uid()))
+  );
+
+-- 3. Índice para el filtro "sin comprobante" antes del cierre de mes
+CREATE INDEX IF NOT EXISTS idx_expenses_missing_receipt
+  ON public.expenses(expense_date)
+  WHERE receipt_url IS NULL;
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,99 @@
+-- ============================================
+-- ORDEN DEL DÍA, ACTA Y ACCIONES DE LAS REUNIONES
+-- Ejecutar después de fix_rls_policies.sql y realtime_sync.sql
+-- ============================================
+
+-- 1. Orden del día: lo editan todos los asistentes
+CREATE TABLE IF NOT EXISTS public.meeting_agenda_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  meeting_id UUID REFERENCES public.meetings(id) ON DELETE CASCADE NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes > 0),
+  position INTEGER DEFAULT 0 NOT NULL,
+  is_done BOOLEAN DEFAULT false NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_agenda_meeting ON public.meeting_agenda_items(meeting_id, position);
+
+ALTER TABLE public.meeting_agenda_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "agenda_select" ON public.meeting_agenda_items;
+DROP POLICY IF EXISTS "agenda_insert" ON public.meeting_agenda_items;
+DROP POLICY IF EXISTS "agenda_update" ON public.meeting_agenda_items;
+DROP POLICY IF EXISTS "agenda_delete" ON public.meeting_agenda_items;
+
+CREATE POLICY "agenda_select"
+  ON public.meeting_agenda_items FOR SELECT
+  TO authenticated
+  USING (user_has_access_to_meeting(meeting_id, auth.uid()));
+
+CREATE POLICY "agenda_insert"
+  ON public.meeting_agenda_items FOR INSERT
+  TO authenticated
+  WITH CHECK (user_has_access_to_meeting(meeting_id, auth.uid()) AND created_by = auth.uid());
+
+CREATE POLICY "agenda_update"
+  ON public.meeting_agenda_items FOR UPDATE
+  TO authenticated
+  USING (user_has_access_to_meeting(meeting_id, auth.uid()));
+
+CREATE POLICY "agenda_delete"
+  ON public.meeting_agenda_items FOR DELETE
+  TO authenticated
+  USING (user_has_access_to_meeting(meeting_id, auth.uid()));
+
+-- Los DELETE solo traen el id (RLS): la app busca el punto entre los cargados
+-- para saber qué reunión recargar
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meeting_agenda_items;
+
+-- 2. Acta compartida (markdown)
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS minutes TEXT;
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS minutes_updated_at TIMESTAMPTZ;
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS minutes_updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- mtg_update solo deja editar la reunión a quien la creó; el acta se
+-- guarda con esta función, que solo toca sus tres columnas.
+-- p_expected_updated_at es el minutes_updated_at de la versión sobre la que
+-- se editó: si otro asistente guardó después, no se pisa y devuelve NULL.
+DROP FUNCTION IF EXISTS public.save_meeting_minutes(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.save_meeting_minutes(
+  p_meeting_id UUID,
+  p_content TEXT,
+  p_expected_updated_at TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  IF NOT user_has_access_to_meeting(p_meeting_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Solo los asistentes pueden editar el acta';
+  END IF;
+
+  UPDATE public.meetings
+  SET minutes = p_content,
+      minutes_updated_at = v_now,
+      minutes_updated_by = auth.uid()
+  WHERE id = p_meeting_id
+    AND minutes_updated_at IS NOT DISTINCT FROM p_expected_updated_at;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_now;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_meeting_minutes(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- 3. Acciones: tareas enlazadas a la reunión donde se acordaron
+ALTER TABLE public.notes ADD COLUMN IF NOT EXISTS meeting_id UUID REFERENCES public.meetings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notes_meeting ON public.notes(meeting_id);
+
+-- ============================================
+-- DONE!
+-- ============================================
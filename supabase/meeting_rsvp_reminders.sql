@@ -0,0 +1,124 @@
+-- ============================================
+-- RESPUESTAS A REUNIONES, RECORDATORIOS Y CRUCES DE HORARIO
+-- Ejecutar después de meetings_ical.sql y expense_approvals.sql
+-- ============================================
+
+-- 1. Respuesta "tal vez" (la actualiza el propio invitado: mp_update_self)
+ALTER TABLE public.meeting_participants DROP CONSTRAINT IF EXISTS meeting_participants_status_check;
+ALTER TABLE public.meeting_participants ADD CONSTRAINT meeting_participants_status_check
+  CHECK (status IN ('invited', 'accepted', 'tentative', 'declined', 'joined'));
+
+-- 2. Minutos de antelación del recordatorio (NULL: sin recordatorio)
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS reminder_minutes INTEGER DEFAULT 15;
+
+ALTER TABLE public.meetings DROP CONSTRAINT IF EXISTS meetings_reminder_minutes_check;
+ALTER TABLE public.meetings ADD CONSTRAINT meetings_reminder_minutes_check
+  CHECK (reminder_minutes IS NULL OR reminder_minutes > 0);
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('comment', 'assignment', 'status_change', 'mention', 'share', 'meeting_invite', 'meeting_reminder', 'expense_review'));
+
+-- 3. Avisos ya enviados: uno por reunión, asistente y horario (si la
+-- reunión se reprograma se vuelve a avisar). Solo la usa la función.
+CREATE TABLE IF NOT EXISTS public.meeting_reminders (
+  meeting_id UUID REFERENCES public.meetings(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  sent_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (meeting_id, user_id, scheduled_at)
+);
+
+ALTER TABLE public.meeting_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Asistentes de una reunión: quien la creó y los invitados que no la rechazaron
+CREATE OR REPLACE FUNCTION public.meeting_attendees(p_meeting_id UUID)
+RETURNS TABLE (user_id UUID) AS $$
+  SELECT created_by FROM public.meetings WHERE id = p_meeting_id
+  UNION
+  SELECT p.user_id FROM public.meeting_participants p
+  WHERE p.meeting_id = p_meeting_id AND p.status <> 'declined';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Crea las notificaciones de las reuniones que entran en su ventana de
+-- aviso. Es idempotente: la llaman pg_cron y la app cada minuto.
+CREATE OR REPLACE FUNCTION public.send_meeting_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT m.id AS meeting_id, m.title, m.scheduled_at, a.user_id
+    FROM public.meetings m
+    CROSS JOIN LATERAL public.meeting_attendees(m.id) a
+    WHERE m.status = 'scheduled'
+      AND m.reminder_minutes IS NOT NULL
+      AND m.scheduled_at > NOW()
+      AND m.scheduled_at - make_interval(mins => m.reminder_minutes) <= NOW()
+  ),
+  claimed AS (
+    INSERT INTO public.meeting_reminders (meeting_id, user_id, scheduled_at)
+    SELECT meeting_id, user_id, scheduled_at FROM due
+    ON CONFLICT DO NOTHING
+    RETURNING meeting_id, user_id
+  )
+  INSERT INTO public.notifications (user_id, type, title, message, meeting_id, read)
+  SELECT
+    c.user_id,
+    'meeting_reminder',
+    'Reunión próxima',
+    'La reunión "' || d.title || '" empieza en '
+      || GREATEST(1, CEIL(EXTRACT(EPOCH FROM (d.scheduled_at - NOW())) / 60))::INTEGER || ' min',
+    c.meeting_id,
+    false
+  FROM claimed c
+  JOIN due d ON d.meeting_id = c.meeting_id AND d.user_id = c.user_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.send_meeting_reminders() TO authenticated;
+
+-- Programar cada minuto si la extensión pg_cron está habilitada
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'send-meeting-reminders';
+    PERFORM cron.schedule('send-meeting-reminders', '* * * * *', 'SELECT public.send_meeting_reminders()');
+  END IF;
+END $$;
+
+-- 4. Cruces de horario de varios usuarios. SECURITY DEFINER porque RLS
+-- solo deja ver las reuniones propias: de las que quien consulta no ve solo
+-- se devuelve el horario ocupado (sin id ni título).
+CREATE OR REPLACE FUNCTION public.get_meeting_conflicts(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_user_ids UUID[],
+  p_exclude_id UUID DEFAULT NULL
+)
+RETURNS TABLE (user_id UUID, meeting_id UUID, title TEXT, scheduled_at TIMESTAMPTZ, duration_minutes INTEGER) AS $$
+  SELECT
+    a.user_id,
+    CASE WHEN v.visible THEN m.id END,
+    CASE WHEN v.visible THEN m.title::TEXT END,
+    m.scheduled_at,
+    m.duration_minutes
+  FROM public.meetings m
+  CROSS JOIN LATERAL public.meeting_attendees(m.id) a
+  CROSS JOIN LATERAL (SELECT public.user_has_access_to_meeting(m.id, auth.uid()) AS visible) v
+  WHERE a.user_id = ANY(p_user_ids)
+    AND m.status IN ('scheduled', 'in_progress')
+    AND (p_exclude_id IS NULL OR m.id <> p_exclude_id)
+    AND m.scheduled_at < p_end
+    AND m.scheduled_at + make_interval(mins => m.duration_minutes) > p_start
+  ORDER BY m.scheduled_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_meeting_conflicts(TIMESTAMPTZ, TIMESTAMPTZ, UUID[], UUID) TO authenticated;
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,330 @@
+-- ============================================
+-- REUNIONES PERIÓDICAS (DAILY, PLANNING SEMANAL...)
+-- Ejecutar después de fix_rls_policies.sql y meeting_rsvp_reminders.sql
+-- ============================================
+
+-- Serie: regla de repetición y datos comunes. Cada ocurrencia es una fila
+-- normal de meetings (con la misma sala) que crea generate_series_meetings
+-- hasta un horizonte de 60 días; las fechas se calculan en la zona horaria
+-- de quien la creó (time_zone) para respetar su hora local.
+CREATE TABLE IF NOT EXISTS public.meeting_series (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  room_name VARCHAR(255) NOT NULL,
+  start_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER DEFAULT 60 NOT NULL,
+  reminder_minutes INTEGER CHECK (reminder_minutes IS NULL OR reminder_minutes > 0),
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekdays', 'weekly', 'biweekly', 'monthly')),
+  until_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count IS NULL OR occurrence_count > 0),
+  -- Días omitidos: no se vuelven a generar
+  exceptions DATE[] DEFAULT '{}' NOT NULL,
+  -- Invitados de las ocurrencias que se vayan creando
+  participant_ids UUID[] DEFAULT '{}' NOT NULL,
+  -- Zona IANA del navegador de quien la creó (p. ej. America/Bogota)
+  time_zone TEXT DEFAULT 'UTC' NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (until_date IS NULL OR occurrence_count IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_series_created_by ON public.meeting_series(created_by);
+
+-- Ocurrencia -> serie y día original en ella (se conserva aunque se mueva)
+ALTER TABLE public.meetings
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.meeting_series(id) ON DELETE SET NULL;
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+-- Las ocurrencias de una serie comparten sala
+ALTER TABLE public.meetings DROP CONSTRAINT IF EXISTS meetings_room_name_key;
+
+-- Una reunión por serie y día: generar es idempotente (upsert). Sin WHERE
+-- para que sirva a ON CONFLICT; los NULL de las reuniones sueltas no chocan.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meetings_series_occurrence
+  ON public.meetings(series_id, occurrence_date);
+
+-- ============================================
+-- RLS: la ven quien la creó y sus invitados; solo quien la creó la edita
+-- ============================================
+
+ALTER TABLE public.meeting_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "series_select" ON public.meeting_series;
+DROP POLICY IF EXISTS "series_insert" ON public.meeting_series;
+DROP POLICY IF EXISTS "series_update" ON public.meeting_series;
+DROP POLICY IF EXISTS "series_delete" ON public.meeting_series;
+
+CREATE POLICY "series_select"
+  ON public.meeting_series FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid() OR auth.uid() = ANY(participant_ids));
+
+CREATE POLICY "series_insert"
+  ON public.meeting_series FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "series_update"
+  ON public.meeting_series FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE POLICY "series_delete"
+  ON public.meeting_series FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid());
+
+-- ============================================
+-- GENERACIÓN DE OCURRENCIAS
+-- ============================================
+
+-- Ocurrencias de la regla (omitidas incluidas) que empiezan hasta p_limit.
+-- Igual que ruleOccurrences en src/lib/recurrence.ts: a la misma hora local
+-- que la primera, y los meses contados desde el inicio para que el día 31
+-- no se desplace tras febrero.
+CREATE OR REPLACE FUNCTION public.series_occurrences(p_series public.meeting_series, p_limit TIMESTAMPTZ)
+RETURNS TABLE (occurrence_date DATE, starts_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_first TIMESTAMP := p_series.start_at AT TIME ZONE p_series.time_zone;
+  v_local TIMESTAMP;
+  v_step INTEGER := 0;
+  v_generated INTEGER := 0;
+BEGIN
+  LOOP
+    v_local := v_first + v_step * CASE p_series.frequency
+      WHEN 'weekdays' THEN INTERVAL '1 day'
+      WHEN 'weekly' THEN INTERVAL '1 week'
+      WHEN 'biweekly' THEN INTERVAL '2 weeks'
+      ELSE INTERVAL '1 month'
+    END;
+    v_step := v_step + 1;
+    CONTINUE WHEN p_series.frequency = 'weekdays' AND EXTRACT(ISODOW FROM v_local) > 5;
+
+    starts_at := v_local AT TIME ZONE p_series.time_zone;
+    -- Como COUNT en RFC 5545, las fechas omitidas también cuentan; 500 es
+    -- el tope de seguridad para reglas sin fin
+    EXIT WHEN starts_at > p_limit
+      OR v_local::DATE > p_series.until_date
+      OR v_generated >= p_series.occurrence_count
+      OR v_generated >= 500;
+
+    v_generated := v_generated + 1;
+    occurrence_date := v_local::DATE;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Crea las reuniones que falten (también las pasadas que nunca se crearon)
+-- hasta 60 días adelante (SERIES_HORIZON_DAYS), con sus invitados. Sin
+-- p_series_id recorre todas las series; desde la app solo las que el
+-- usuario ve (creador o invitado), y desde pg_cron todas.
+-- SECURITY DEFINER: las reuniones quedan a nombre de quien creó la serie
+-- aunque la generación la dispare un invitado.
+CREATE OR REPLACE FUNCTION public.generate_series_meetings(p_series_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_series public.meeting_series%ROWTYPE;
+  v_created INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOR v_series IN
+    SELECT * FROM public.meeting_series
+    WHERE (p_series_id IS NULL OR id = p_series_id)
+      AND (auth.uid() IS NULL OR created_by = auth.uid() OR auth.uid() = ANY(participant_ids))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    WITH created AS (
+      INSERT INTO public.meetings (
+        title, description, room_name, scheduled_at, duration_minutes, reminder_minutes,
+        created_by, status, series_id, occurrence_date
+      )
+      SELECT
+        v_series.title, v_series.description, v_series.room_name, o.starts_at,
+        v_series.duration_minutes, v_series.reminder_minutes,
+        v_series.created_by, 'scheduled', v_series.id, o.occurrence_date
+      FROM public.series_occurrences(v_series, NOW() + INTERVAL '60 days') o
+      WHERE o.occurrence_date <> ALL(v_series.exceptions)
+      ON CONFLICT (series_id, occurrence_date) DO NOTHING
+      RETURNING id
+    ), invited AS (
+      INSERT INTO public.meeting_participants (meeting_id, user_id, status)
+      SELECT created.id, participant.user_id, 'invited'
+      FROM created CROSS JOIN unnest(v_series.participant_ids) AS participant(user_id)
+      ON CONFLICT (meeting_id, user_id) DO NOTHING
+    )
+    SELECT COUNT(*) INTO v_created FROM created;
+
+    v_total := v_total + v_created;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.generate_series_meetings(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_series_meetings(UUID) TO authenticated;
+
+-- Programar cada día si la extensión pg_cron está habilitada, para que las
+-- series avancen aunque nadie abra Reuniones. La página la sigue llamando
+-- como respaldo (es idempotente).
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'generate-series-meetings';
+    PERFORM cron.schedule('generate-series-meetings', '0 3 * * *', 'SELECT public.generate_series_meetings()');
+  END IF;
+END $$;
+
+-- ============================================
+-- "ESTA Y LAS SIGUIENTES" (EN UNA TRANSACCIÓN)
+-- ============================================
+
+-- Parte la serie en la ocurrencia p_meeting_id: la original termina el día
+-- anterior (o desaparece si era la primera) y una nueva con la misma sala
+-- sigue desde ahí con los datos nuevos. Si p_scheduled_at cambia el día,
+-- las siguientes se desplazan igual. Devuelve la serie nueva.
+CREATE OR REPLACE FUNCTION public.split_meeting_series(
+  p_meeting_id UUID,
+  p_title VARCHAR,
+  p_description TEXT,
+  p_duration_minutes INTEGER,
+  p_reminder_minutes INTEGER,
+  p_scheduled_at TIMESTAMPTZ
+)
+RETURNS UUID AS $$
+DECLARE
+  v_meeting public.meetings%ROWTYPE;
+  v_series public.meeting_series%ROWTYPE;
+  v_from DATE;
+  v_new_local TIMESTAMP;
+  v_shift INTEGER := 0;
+  v_before INTEGER;
+  v_slot TIMESTAMPTZ;
+  v_next_id UUID;
+BEGIN
+  SELECT * INTO v_meeting FROM public.meetings WHERE id = p_meeting_id;
+  SELECT * INTO v_series FROM public.meeting_series WHERE id = v_meeting.series_id FOR UPDATE;
+  IF v_series.id IS NULL OR v_meeting.occurrence_date IS NULL THEN
+    RAISE EXCEPTION 'La reunión no pertenece a una serie';
+  END IF;
+  IF v_series.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Solo quien creó la serie puede cambiar las siguientes reuniones';
+  END IF;
+
+  v_from := v_meeting.occurrence_date;
+  IF p_scheduled_at IS NOT NULL THEN
+    v_new_local := p_scheduled_at AT TIME ZONE v_series.time_zone;
+    v_shift := v_new_local::DATE - (v_meeting.scheduled_at AT TIME ZONE v_series.time_zone)::DATE;
+  END IF;
+  IF v_shift <> 0 AND v_series.frequency = 'weekdays' THEN
+    RAISE EXCEPTION 'En las reuniones de días hábiles solo se puede cambiar la hora de las siguientes';
+  END IF;
+
+  -- Ocurrencias anteriores (la nueva hereda lo que quedaba de
+  -- occurrence_count) y hora que la regla le da a esta aunque se haya movido
+  SELECT COUNT(*) FILTER (WHERE o.occurrence_date < v_from),
+         MAX(o.starts_at) FILTER (WHERE o.occurrence_date = v_from)
+  INTO v_before, v_slot
+  FROM public.series_occurrences(v_series, (v_from + 1)::TIMESTAMP AT TIME ZONE v_series.time_zone) o;
+
+  INSERT INTO public.meeting_series (
+    title, description, room_name, start_at, duration_minutes, reminder_minutes, frequency,
+    until_date, occurrence_count, exceptions, participant_ids, time_zone, created_by
+  ) VALUES (
+    p_title, p_description, v_series.room_name,
+    CASE WHEN v_new_local IS NULL THEN COALESCE(v_slot, v_meeting.scheduled_at)
+      ELSE ((COALESCE(v_slot, v_meeting.scheduled_at) AT TIME ZONE v_series.time_zone)::DATE + v_shift
+        + v_new_local::TIME) AT TIME ZONE v_series.time_zone
+    END,
+    p_duration_minutes, p_reminder_minutes, v_series.frequency,
+    v_series.until_date, v_series.occurrence_count - v_before,
+    ARRAY(SELECT d + v_shift FROM unnest(v_series.exceptions) AS d WHERE d >= v_from),
+    v_series.participant_ids, v_series.time_zone, v_series.created_by
+  )
+  RETURNING id INTO v_next_id;
+
+  -- Las ocurrencias ya creadas pasan a la serie nueva: su día desplazado a
+  -- la hora elegida
+  UPDATE public.meetings
+  SET title = p_title,
+      description = p_description,
+      duration_minutes = p_duration_minutes,
+      reminder_minutes = p_reminder_minutes,
+      scheduled_at = CASE WHEN v_new_local IS NULL THEN scheduled_at
+        ELSE ((scheduled_at AT TIME ZONE v_series.time_zone)::DATE + v_shift
+          + v_new_local::TIME) AT TIME ZONE v_series.time_zone
+      END,
+      series_id = v_next_id,
+      occurrence_date = occurrence_date + v_shift,
+      updated_at = NOW()
+  WHERE series_id = v_series.id AND occurrence_date >= v_from;
+
+  IF v_before > 0 THEN
+    UPDATE public.meeting_series
+    SET until_date = v_from - 1, occurrence_count = NULL, updated_at = NOW()
+    WHERE id = v_series.id;
+  ELSE
+    DELETE FROM public.meeting_series WHERE id = v_series.id;
+  END IF;
+
+  PERFORM public.generate_series_meetings(v_next_id);
+  RETURN v_next_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.split_meeting_series(UUID, VARCHAR, TEXT, INTEGER, INTEGER, TIMESTAMPTZ) TO authenticated;
+
+-- Omite una ocurrencia ('single': queda como excepción para no volver a
+-- generarla) o esta y las siguientes ('future': la serie termina el día
+-- anterior, o desaparece si era la primera)
+CREATE OR REPLACE FUNCTION public.delete_meeting_occurrences(p_meeting_id UUID, p_scope TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_meeting public.meetings%ROWTYPE;
+  v_series public.meeting_series%ROWTYPE;
+  v_from DATE;
+  v_before INTEGER;
+BEGIN
+  SELECT * INTO v_meeting FROM public.meetings WHERE id = p_meeting_id;
+  SELECT * INTO v_series FROM public.meeting_series WHERE id = v_meeting.series_id FOR UPDATE;
+  IF v_series.id IS NULL OR v_meeting.occurrence_date IS NULL THEN
+    RAISE EXCEPTION 'La reunión no pertenece a una serie';
+  END IF;
+  IF v_series.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Solo quien creó la reunión puede eliminarla';
+  END IF;
+
+  v_from := v_meeting.occurrence_date;
+
+  IF p_scope = 'single' THEN
+    UPDATE public.meeting_series
+    SET exceptions = array_append(exceptions, v_from), updated_at = NOW()
+    WHERE id = v_series.id AND NOT (v_from = ANY(exceptions));
+    DELETE FROM public.meetings WHERE id = p_meeting_id;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_before
+  FROM public.series_occurrences(v_series, v_from::TIMESTAMP AT TIME ZONE v_series.time_zone) o
+  WHERE o.occurrence_date < v_from;
+
+  DELETE FROM public.meetings WHERE series_id = v_series.id AND occurrence_date >= v_from;
+
+  IF v_before > 0 THEN
+    UPDATE public.meeting_series
+    SET until_date = v_from - 1, occurrence_count = NULL, updated_at = NOW()
+    WHERE id = v_series.id;
+  ELSE
+    DELETE FROM public.meeting_series WHERE id = v_series.id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_meeting_occurrences(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- DONE!
+-- ============================================
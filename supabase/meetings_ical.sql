@@ -0,0 +1,16 @@
+-- ============================================
+-- IMPORTACIÓN DE REUNIONES DESDE ARCHIVOS ICALENDAR (.ics)
+-- Ejecutar después de meetings.sql
+-- ============================================
+
+-- UID del evento original: evita importar dos veces el mismo evento y se
+-- conserva al exportar para que el calendario externo lo reconozca
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS ical_uid TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meetings_creator_ical_uid
+  ON public.meetings(created_by, ical_uid)
+  WHERE ical_uid IS NOT NULL;
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,92 @@
+-- ============================================
+-- DEPENDENCIAS ENTRE NOTAS
+-- Ejecutar después de notifications_and_subtasks.sql
+-- ============================================
+
+-- Relaciones muchos a muchos entre notas:
+--   blocks     → source bloquea a target ("target está bloqueada por source")
+--   relates_to → relacionadas (sin dirección)
+--   duplicates → source duplica a target
+CREATE TABLE IF NOT EXISTS note_dependencies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('blocks', 'relates_to', 'duplicates')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT note_dependencies_not_self CHECK (source_id <> target_id),
+  CONSTRAINT note_dependencies_unique UNIQUE (source_id, target_id, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_dependencies_source ON note_dependencies(source_id);
+CREATE INDEX IF NOT EXISTS idx_note_dependencies_target ON note_dependencies(target_id);
+
+-- ============================================
+-- EVITAR CICLOS EN "BLOQUEA A"
+-- ============================================
+
+-- La app ya lo valida, pero dos usuarios podrían crear A→B y B→A a la vez:
+-- el lock serializa las inserciones de "bloquea a" hasta el fin de cada
+-- transacción, así la segunda ve la fila de la primera al buscar el ciclo
+CREATE OR REPLACE FUNCTION prevent_dependency_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type <> 'blocks' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('note_dependencies_blocks'));
+
+  -- ¿target ya bloquea (directa o indirectamente) a source?
+  IF EXISTS (
+    WITH RECURSIVE chain(note_id) AS (
+      SELECT NEW.target_id
+      UNION
+      SELECT d.target_id
+      FROM note_dependencies d
+      JOIN chain c ON d.source_id = c.note_id
+      WHERE d.type = 'blocks'
+    )
+    SELECT 1 FROM chain WHERE note_id = NEW.source_id
+  ) THEN
+    RAISE EXCEPTION 'No se puede agregar: crearía una dependencia circular';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_dependency_cycle ON note_dependencies;
+CREATE TRIGGER check_dependency_cycle
+  BEFORE INSERT OR UPDATE ON note_dependencies
+  FOR EACH ROW EXECUTE FUNCTION prevent_dependency_cycle();
+
+-- ============================================
+-- RLS
+-- ============================================
+
+ALTER TABLE note_dependencies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Dependencies are viewable by authenticated users" ON note_dependencies;
+DROP POLICY IF EXISTS "Authenticated users can create dependencies" ON note_dependencies;
+DROP POLICY IF EXISTS "Authenticated users can delete dependencies" ON note_dependencies;
+
+CREATE POLICY "Dependencies are viewable by authenticated users"
+  ON note_dependencies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create dependencies"
+  ON note_dependencies FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+-- Como las notas, cualquier miembro del equipo puede editar sus relaciones
+CREATE POLICY "Authenticated users can delete dependencies"
+  ON note_dependencies FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- ============================================
+-- DONE!
+-- ============================================
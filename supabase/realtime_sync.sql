@@ -0,0 +1,19 @@
+-- ============================================
+-- REALTIME: SINCRONIZACIÓN DE NOTAS, SPRINTS, COMENTARIOS Y REUNIONES
+-- notes y comments ya están publicados (schema.sql, comments.sql)
+-- EJECUTAR EN SUPABASE SQL EDITOR
+-- ============================================
+
+-- 1. Publicar las tablas que faltan
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sprints;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meetings;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meeting_participants;
+
+-- 2. En las tablas con RLS el payload.old de los DELETE solo trae el id
+-- (aunque haya REPLICA IDENTITY FULL) y Realtime no les aplica filtros: los
+-- clientes escuchan sin filtro y buscan la fila por id entre las cargadas
+-- (p. ej. a qué reunión pertenecía un participante eliminado).
+
+-- ============================================
+-- DONE!
+-- ============================================
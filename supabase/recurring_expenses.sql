@@ -0,0 +1,139 @@
+-- ============================================
+-- GASTOS RECURRENTES (PLANTILLAS)
+-- Ejecutar después de expenses.sql y role_permissions.sql
+-- ============================================
+
+-- Plantilla: en cada vencimiento se genera un gasto 'pending'
+CREATE TABLE IF NOT EXISTS public.recurring_expenses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  description TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'COP',
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE SET NULL,
+  vendor TEXT,
+  payment_method TEXT CHECK (payment_method IN ('cash', 'card', 'transfer', 'check', 'other')),
+  notes TEXT,
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+  next_due_date DATE NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_next_due
+  ON public.recurring_expenses(next_due_date) WHERE active;
+
+-- Gasto generado -> plantilla de origen (se conserva si se borra la plantilla)
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS recurring_id UUID REFERENCES public.recurring_expenses(id) ON DELETE SET NULL;
+
+-- Un solo gasto por plantilla y vencimiento: la generación es idempotente
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_recurring_date
+  ON public.expenses(recurring_id, expense_date) WHERE recurring_id IS NOT NULL;
+
+-- ============================================
+-- RLS: todos leen, el autor o un administrador editan
+-- ============================================
+
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "recurring_select_authenticated" ON public.recurring_expenses;
+DROP POLICY IF EXISTS "recurring_insert_own" ON public.recurring_expenses;
+DROP POLICY IF EXISTS "recurring_update_owner_or_admin" ON public.recurring_expenses;
+DROP POLICY IF EXISTS "recurring_delete_owner_or_admin" ON public.recurring_expenses;
+
+CREATE POLICY "recurring_select_authenticated"
+  ON public.recurring_expenses FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "recurring_insert_own"
+  ON public.recurring_expenses FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "recurring_update_owner_or_admin"
+  ON public.recurring_expenses FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() OR is_admin(auth.uid()));
+
+CREATE POLICY "recurring_delete_owner_or_admin"
+  ON public.recurring_expenses FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid() OR is_admin(auth.uid()));
+
+-- ============================================
+-- GENERACIÓN DE GASTOS VENCIDOS
+-- ============================================
+
+-- Crea un gasto pendiente por cada vencimiento alcanzado hasta hoy y avanza
+-- next_due_date. El vencimiento se calcula siempre desde start_date (igual
+-- que getNextDueDate en recurringExpensesStore.ts) para que un cargo del día
+-- 31 no se desplace tras pasar por febrero.
+-- SECURITY DEFINER: el gasto queda a nombre del autor de la plantilla aunque
+-- la generación la dispare otro usuario.
+CREATE OR REPLACE FUNCTION public.generate_recurring_expenses()
+RETURNS INTEGER AS $$
+DECLARE
+  tpl public.recurring_expenses%ROWTYPE;
+  step INTEGER;
+  periods INTEGER;
+  due DATE;
+  inserted INTEGER;
+  total INTEGER := 0;
+BEGIN
+  FOR tpl IN
+    SELECT * FROM public.recurring_expenses
+    WHERE active AND next_due_date <= CURRENT_DATE
+      AND (end_date IS NULL OR next_due_date <= end_date)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    step := CASE tpl.frequency WHEN 'quarterly' THEN 3 WHEN 'yearly' THEN 12 ELSE 1 END;
+    due := tpl.next_due_date;
+
+    WHILE due <= CURRENT_DATE AND (tpl.end_date IS NULL OR due <= tpl.end_date) LOOP
+      INSERT INTO public.expenses (
+        description, amount, currency, category_id, vendor, payment_method,
+        notes, expense_date, status, created_by, recurring_id
+      ) VALUES (
+        tpl.description, tpl.amount, tpl.currency, tpl.category_id, tpl.vendor, tpl.payment_method,
+        tpl.notes, due, 'pending', tpl.created_by, tpl.id
+      )
+      ON CONFLICT (recurring_id, expense_date) WHERE recurring_id IS NOT NULL DO NOTHING;
+
+      GET DIAGNOSTICS inserted = ROW_COUNT;
+      total := total + inserted;
+
+      periods := ((EXTRACT(YEAR FROM due) - EXTRACT(YEAR FROM tpl.start_date)) * 12
+        + EXTRACT(MONTH FROM due) - EXTRACT(MONTH FROM tpl.start_date))::INTEGER / step + 1;
+      due := (tpl.start_date + make_interval(months => periods * step))::DATE;
+    END LOOP;
+
+    UPDATE public.recurring_expenses
+    SET next_due_date = due, updated_at = NOW()
+    WHERE id = tpl.id;
+  END LOOP;
+
+  RETURN total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.generate_recurring_expenses() TO authenticated;
+
+-- Programar cada hora si la extensión pg_cron está habilitada, para que los
+-- cargos se registren aunque nadie abra Gastos. La página la sigue llamando
+-- como respaldo (es idempotente).
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'generate-recurring-expenses';
+    PERFORM cron.schedule('generate-recurring-expenses', '0 * * * *', 'SELECT public.generate_recurring_expenses()');
+  END IF;
+END $$;
+
+-- ============================================
+-- DONE!
+-- ============================================
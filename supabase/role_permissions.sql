@@ -0,0 +1,161 @@
+-- ============================================
+-- PERMISOS POR ROL (admin / developer)
+-- Ejecutar después de fix_rls_policies.sql
+-- Debe coincidir con src/lib/permissions.ts
+-- ============================================
+
+-- ============================================
+-- 1. FUNCIÓN AUXILIAR
+-- ============================================
+
+-- SECURITY DEFINER para poder leer profiles sin recursión en sus políticas
+CREATE OR REPLACE FUNCTION is_admin(user_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE id = user_uuid AND role = 'admin'
+  );
+$$;
+
+-- ============================================
+-- 2. GESTIÓN DE SPRINTS (manage_sprints)
+-- ============================================
+
+DROP POLICY IF EXISTS "Sprints can be created by authenticated users" ON sprints;
+DROP POLICY IF EXISTS "Sprints can be updated by creator" ON sprints;
+DROP POLICY IF EXISTS "sprints_insert_admin" ON sprints;
+DROP POLICY IF EXISTS "sprints_update_admin" ON sprints;
+DROP POLICY IF EXISTS "sprints_delete_admin" ON sprints;
+
+CREATE POLICY "sprints_insert_admin"
+  ON sprints FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()) AND created_by = auth.uid());
+
+CREATE POLICY "sprints_update_admin"
+  ON sprints FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "sprints_delete_admin"
+  ON sprints FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- ============================================
+-- 3. APROBACIÓN DE GASTOS (approve_expenses)
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can update own expenses or approved ones" ON public.expenses;
+DROP POLICY IF EXISTS "Users can delete own pending expenses" ON public.expenses;
+DROP POLICY IF EXISTS "exp_update_own_pending" ON public.expenses;
+DROP POLICY IF EXISTS "exp_update_admin" ON public.expenses;
+DROP POLICY IF EXISTS "exp_delete_own_pending" ON public.expenses;
+DROP POLICY IF EXISTS "exp_delete_admin" ON public.expenses;
+
+-- UPDATE: el autor mientras esté pendiente
+CREATE POLICY "exp_update_own_pending"
+  ON public.expenses FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid() AND status = 'pending');
+
+-- UPDATE: administradores (aprobar, rechazar, pagar)
+CREATE POLICY "exp_update_admin"
+  ON public.expenses FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "exp_delete_own_pending"
+  ON public.expenses FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid() AND status = 'pending');
+
+CREATE POLICY "exp_delete_admin"
+  ON public.expenses FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- RLS no compara valor anterior y nuevo: el cambio de estado se valida aquí
+CREATE OR REPLACE FUNCTION guard_expense_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.status IS DISTINCT FROM OLD.status OR NEW.approved_by IS DISTINCT FROM OLD.approved_by)
+     AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Solo un administrador puede cambiar el estado de un gasto';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_expense_status ON public.expenses;
+CREATE TRIGGER check_expense_status
+  BEFORE UPDATE ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION guard_expense_status();
+
+-- ============================================
+-- 4. CREACIÓN DE CANALES (create_channels)
+-- ============================================
+
+DROP POLICY IF EXISTS "Authenticated users can create channels" ON public.chat_channels;
+DROP POLICY IF EXISTS "Channel creators can update their channels" ON public.chat_channels;
+DROP POLICY IF EXISTS "Channel creators can delete their channels" ON public.chat_channels;
+DROP POLICY IF EXISTS "chn_insert_admin" ON public.chat_channels;
+DROP POLICY IF EXISTS "chn_update_admin" ON public.chat_channels;
+DROP POLICY IF EXISTS "chn_delete_admin" ON public.chat_channels;
+
+CREATE POLICY "chn_insert_admin"
+  ON public.chat_channels FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin(auth.uid()) AND created_by = auth.uid());
+
+CREATE POLICY "chn_update_admin"
+  ON public.chat_channels FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "chn_delete_admin"
+  ON public.chat_channels FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- ============================================
+-- 5. GESTIÓN DE MIEMBROS (manage_members)
+-- ============================================
+
+DROP POLICY IF EXISTS "prf_update_admin" ON profiles;
+
+-- Los administradores pueden editar cualquier perfil (el rol, sobre todo).
+-- "Users can update own profile" sigue permitiendo editar el propio.
+CREATE POLICY "prf_update_admin"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+-- Nadie se asciende a sí mismo, y siempre queda al menos un administrador
+CREATE OR REPLACE FUNCTION guard_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    IF NOT is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Solo un administrador puede cambiar roles';
+    END IF;
+    IF OLD.role = 'admin'
+       AND (SELECT COUNT(*) FROM profiles WHERE role = 'admin') <= 1 THEN
+      RAISE EXCEPTION 'El equipo debe tener al menos un administrador';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_profile_role ON profiles;
+CREATE TRIGGER check_profile_role
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_role();
+
+-- ============================================
+-- DONE!
+-- ============================================
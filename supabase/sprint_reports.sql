@@ -0,0 +1,115 @@
+-- ============================================
+-- REPORTES DE SPRINT: BURNDOWN, VELOCIDAD Y CIERRE
+-- Ejecutar después de sprints_and_time.sql y role_permissions.sql (usa is_admin)
+-- ============================================
+
+-- Fecha en que cada nota pasó a completada (para el burndown diario)
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- Notas ya completadas: la mejor aproximación es su última actualización
+UPDATE notes
+SET completed_at = updated_at
+WHERE status = 'completed' AND completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION set_note_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed' THEN
+      NEW.completed_at = NOW();
+    END IF;
+  ELSE
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_completed_at ON notes;
+CREATE TRIGGER set_completed_at
+  BEFORE INSERT OR UPDATE OF status ON notes
+  FOR EACH ROW EXECUTE FUNCTION set_note_completed_at();
+
+CREATE INDEX IF NOT EXISTS idx_notes_completed_at ON notes(completed_at);
+
+-- ============================================
+-- RESUMEN AL CERRAR UN SPRINT
+-- ============================================
+
+-- Al cerrar, las tareas pendientes se mueven a otro sprint o al backlog,
+-- así que se guarda lo que se completó y lo que se arrastró.
+ALTER TABLE sprints ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ;
+ALTER TABLE sprints ADD COLUMN IF NOT EXISTS completed_tasks INTEGER;
+ALTER TABLE sprints ADD COLUMN IF NOT EXISTS completed_hours DECIMAL(10,2);
+ALTER TABLE sprints ADD COLUMN IF NOT EXISTS carried_over_tasks INTEGER;
+ALTER TABLE sprints ADD COLUMN IF NOT EXISTS carried_over_hours DECIMAL(10,2);
+
+-- Cierra el sprint y mueve lo pendiente en una sola transacción. Las notas
+-- solo las edita quien las creó, por eso es SECURITY DEFINER y comprueba
+-- manage_sprints (is_admin) por su cuenta.
+CREATE OR REPLACE FUNCTION public.close_sprint(p_sprint_id UUID, p_target_sprint_id UUID)
+RETURNS sprints AS $$
+DECLARE
+  v_sprint sprints;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Solo los administradores pueden cerrar sprints';
+  END IF;
+
+  IF p_target_sprint_id = p_sprint_id THEN
+    RAISE EXCEPTION 'Elige otro sprint para las tareas pendientes';
+  END IF;
+
+  -- Bloqueo de la fila: un doble clic o dos administradores a la vez no
+  -- pueden cerrarlo dos veces ni volver a mover sus tareas
+  SELECT * INTO v_sprint FROM sprints WHERE id = p_sprint_id FOR UPDATE;
+  IF v_sprint.id IS NULL THEN
+    RAISE EXCEPTION 'Sprint no encontrado';
+  END IF;
+  IF v_sprint.status = 'completed' THEN
+    RAISE EXCEPTION 'El sprint ya está cerrado';
+  END IF;
+
+  -- Tareas del sprint (sin subtareas ni canceladas), como en getSprintNotes
+  UPDATE sprints s
+  SET status = 'completed',
+      closed_at = NOW(),
+      updated_at = NOW(),
+      completed_tasks = t.completed_tasks,
+      completed_hours = t.completed_hours,
+      carried_over_tasks = t.carried_over_tasks,
+      carried_over_hours = t.carried_over_hours
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'completed') AS completed_tasks,
+      COALESCE(SUM(estimated_hours) FILTER (WHERE status = 'completed'), 0) AS completed_hours,
+      COUNT(*) FILTER (WHERE status <> 'completed') AS carried_over_tasks,
+      COALESCE(SUM(estimated_hours) FILTER (WHERE status <> 'completed'), 0) AS carried_over_hours
+    FROM notes
+    WHERE sprint_id = p_sprint_id AND parent_id IS NULL AND status <> 'cancelled'
+  ) t
+  WHERE s.id = p_sprint_id
+  RETURNING s.* INTO v_sprint;
+
+  -- Lo pendiente (con sus subtareas) pasa al sprint elegido o al backlog
+  UPDATE notes
+  SET sprint_id = p_target_sprint_id, updated_at = NOW()
+  WHERE status <> 'completed'
+    AND (id IN (
+          SELECT id FROM notes
+          WHERE sprint_id = p_sprint_id AND parent_id IS NULL AND status NOT IN ('completed', 'cancelled')
+        )
+        OR parent_id IN (
+          SELECT id FROM notes
+          WHERE sprint_id = p_sprint_id AND parent_id IS NULL AND status NOT IN ('completed', 'cancelled')
+        ));
+
+  RETURN v_sprint;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.close_sprint(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- DONE!
+-- ============================================
@@ -0,0 +1,24 @@
+-- ============================================
+-- TIME TRACKING: VISIBILIDAD PARA EL EQUIPO
+-- Ejecutar después de sprints_and_time.sql
+-- ============================================
+
+-- El panel "Estimado vs. registrado" suma el tiempo de todo el equipo,
+-- así que las entradas deben ser visibles para cualquier usuario autenticado.
+-- Crear, editar y eliminar sigue limitado al dueño de la entrada.
+DROP POLICY IF EXISTS "Users can view own time entries" ON time_entries;
+DROP POLICY IF EXISTS "Time entries are viewable by authenticated users" ON time_entries;
+
+CREATE POLICY "Time entries are viewable by authenticated users"
+  ON time_entries FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Solo un temporizador activo por usuario
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running
+  ON time_entries(user_id)
+  WHERE end_time IS NULL;
+
+-- ============================================
+-- DONE!
+-- ============================================